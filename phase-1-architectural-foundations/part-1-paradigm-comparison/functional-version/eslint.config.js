@@ -0,0 +1,19 @@
+const tsPlugin = require('@typescript-eslint/eslint-plugin');
+
+const files = ['src/**/*.ts', 'tests/**/*.ts'];
+
+module.exports = [
+  { ignores: ['dist/', 'coverage/'] },
+  ...tsPlugin.configs['flat/recommended'].map((config) => ({ ...config, files })),
+  {
+    files,
+    rules: {
+      // Names starting with an underscore are left unused on purpose, e.g.
+      // keys dropped from an object with a rest pattern
+      '@typescript-eslint/no-unused-vars': [
+        'error',
+        { argsIgnorePattern: '^_', varsIgnorePattern: '^_' }
+      ]
+    }
+  }
+];
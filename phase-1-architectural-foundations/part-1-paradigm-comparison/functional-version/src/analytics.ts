@@ -0,0 +1,308 @@
+import { Task, TaskState, TaskStatus, Workflow } from "./types";
+import { formatTable, isoWeek, toIsoDate } from "./utils";
+import { defaultWorkflow, getStatusCategory, isDoneStatus } from "./workflow";
+
+// Distribution of durations, in days
+export interface DurationStats {
+  readonly count: number;
+  readonly mean: number;
+  readonly min: number;
+  readonly p50: number;
+  readonly p85: number;
+  readonly p95: number;
+  readonly max: number;
+}
+
+// How long a task took, in days
+export interface TaskDuration {
+  readonly task: Task;
+  readonly days: number;
+}
+
+// Tasks finished during an ISO week
+export interface WeeklyThroughput {
+  readonly week: string;
+  readonly completed: number;
+}
+
+// Task counts per status category at the end of a day. `remaining` is the
+// burndown line: tasks created and not yet done.
+export interface FlowPoint {
+  readonly date: Date;
+  readonly todo: number;
+  readonly active: number;
+  readonly done: number;
+  readonly remaining: number;
+}
+
+// Everything the analytics report shows for a date range
+export interface FlowReport {
+  readonly leadTime?: DurationStats;
+  readonly cycleTime?: DurationStats;
+  readonly throughput: ReadonlyArray<WeeklyThroughput>;
+  readonly flow: ReadonlyArray<FlowPoint>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const startOfDay = (date: Date): Date =>
+  new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+
+const daysBetween = (from: Date, to: Date): number =>
+  round((to.getTime() - from.getTime()) / DAY_MS);
+
+/**
+ * Lists the UTC days from `from` to `to`, both included.
+ */
+const eachDay = (from: Date, to: Date): ReadonlyArray<Date> => {
+  const days: Date[] = [];
+  for (
+    let day = startOfDay(from).getTime();
+    day <= to.getTime();
+    day += DAY_MS
+  ) {
+    days.push(new Date(day));
+  }
+  return days;
+};
+
+/**
+ * Picks the value below which `p` percent of the sorted values fall, using
+ * the nearest-rank method.
+ */
+const percentile = (sorted: ReadonlyArray<number>, p: number): number =>
+  sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)] ?? 0;
+
+/**
+ * Summarises durations with their mean and percentiles. Returns undefined
+ * when there is nothing to summarise.
+ */
+const summarizeDurations = (
+  durations: ReadonlyArray<number>
+): DurationStats | undefined => {
+  if (durations.length === 0) return undefined;
+
+  const sorted = [...durations].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    mean: round(sorted.reduce((sum, days) => sum + days, 0) / sorted.length),
+    min: sorted[0]!,
+    p50: percentile(sorted, 50),
+    p85: percentile(sorted, 85),
+    p95: percentile(sorted, 95),
+    max: sorted[sorted.length - 1]!,
+  };
+};
+
+/**
+ * Gets when work on a task started: the first time it entered an "active"
+ * status.
+ */
+const getStartedAt = (
+  task: Task,
+  workflow: Workflow = defaultWorkflow
+): Date | undefined =>
+  task.statusHistory?.find(
+    (change) => getStatusCategory(change.status, workflow) === "active"
+  )?.at;
+
+/**
+ * Gets the status a task had just before the given time, or undefined if it
+ * did not exist yet. Tasks without a recorded history count as pending until
+ * their completion date.
+ */
+const getStatusBefore = (
+  task: Task,
+  before: Date,
+  workflow: Workflow = defaultWorkflow
+): TaskStatus | undefined => {
+  if (task.createdAt >= before) return undefined;
+
+  if (task.statusHistory === undefined) {
+    return isDoneStatus(task.status, workflow) &&
+      task.completedAt !== undefined &&
+      task.completedAt < before
+      ? task.status
+      : "pending";
+  }
+
+  return (
+    [...task.statusHistory].reverse().find((change) => change.at < before)
+      ?.status ?? "pending"
+  );
+};
+
+const doneTasks = (
+  state: Readonly<TaskState>,
+  workflow: Workflow
+): ReadonlyArray<Task & { completedAt: Date }> =>
+  state.tasks.filter(
+    (task): task is Task & { completedAt: Date } =>
+      isDoneStatus(task.status, workflow) && task.completedAt !== undefined
+  );
+
+/**
+ * Computes the lead time of every done task: from creation to completion.
+ */
+const getLeadTimes = (
+  state: Readonly<TaskState>,
+  workflow: Workflow = defaultWorkflow
+): ReadonlyArray<TaskDuration> =>
+  doneTasks(state, workflow).map((task) => ({
+    task,
+    days: daysBetween(task.createdAt, task.completedAt),
+  }));
+
+/**
+ * Computes the cycle time of every done task: from the start of work to
+ * completion. Tasks that were never in an active status are left out.
+ */
+const getCycleTimes = (
+  state: Readonly<TaskState>,
+  workflow: Workflow = defaultWorkflow
+): ReadonlyArray<TaskDuration> =>
+  doneTasks(state, workflow).flatMap((task) => {
+    const startedAt = getStartedAt(task, workflow);
+    return startedAt === undefined
+      ? []
+      : [{ task, days: daysBetween(startedAt, task.completedAt) }];
+  });
+
+/**
+ * Counts the tasks done per ISO week between two dates. Every week of the
+ * range is listed, including weeks without completions.
+ */
+const getThroughput = (
+  state: Readonly<TaskState>,
+  from: Date,
+  to: Date,
+  workflow: Workflow = defaultWorkflow
+): ReadonlyArray<WeeklyThroughput> => {
+  const counts = new Map(eachDay(from, to).map((day) => [isoWeek(day), 0]));
+  const end = startOfDay(to).getTime() + DAY_MS;
+
+  doneTasks(state, workflow)
+    .filter(
+      (task) =>
+        task.completedAt >= startOfDay(from) && task.completedAt.getTime() < end
+    )
+    .forEach((task) => {
+      const week = isoWeek(task.completedAt);
+      counts.set(week, (counts.get(week) ?? 0) + 1);
+    });
+
+  return [...counts].map(([week, completed]) => ({ week, completed }));
+};
+
+/**
+ * Builds the cumulative flow between two dates: for the end of every day,
+ * how many tasks were todo, active or done. The `remaining` count gives the
+ * burndown. Only the tasks still in the state are counted.
+ */
+const getCumulativeFlow = (
+  state: Readonly<TaskState>,
+  from: Date,
+  to: Date,
+  workflow: Workflow = defaultWorkflow
+): ReadonlyArray<FlowPoint> =>
+  eachDay(from, to).map((date) => {
+    const counts = { todo: 0, active: 0, done: 0 };
+    const end = new Date(date.getTime() + DAY_MS);
+
+    state.tasks.forEach((task) => {
+      const status = getStatusBefore(task, end, workflow);
+      if (status !== undefined) counts[getStatusCategory(status, workflow)]++;
+    });
+
+    return { date, ...counts, remaining: counts.todo + counts.active };
+  });
+
+/**
+ * Gathers lead time, cycle time, weekly throughput and cumulative flow
+ * between two dates. Lead and cycle times cover the tasks completed within
+ * the range.
+ */
+const getFlowReport = (
+  state: Readonly<TaskState>,
+  from: Date,
+  to: Date,
+  workflow: Workflow = defaultWorkflow
+): FlowReport => {
+  const end = startOfDay(to).getTime() + DAY_MS;
+  const inRange = ({ task }: TaskDuration) =>
+    task.completedAt! >= startOfDay(from) && task.completedAt!.getTime() < end;
+
+  return {
+    leadTime: summarizeDurations(
+      getLeadTimes(state, workflow)
+        .filter(inRange)
+        .map((lead) => lead.days)
+    ),
+    cycleTime: summarizeDurations(
+      getCycleTimes(state, workflow)
+        .filter(inRange)
+        .map((cycle) => cycle.days)
+    ),
+    throughput: getThroughput(state, from, to, workflow),
+    flow: getCumulativeFlow(state, from, to, workflow),
+  };
+};
+
+/**
+ * Formats a flow report as text tables: durations in days, then weekly
+ * throughput, then the cumulative flow.
+ */
+const formatFlowReport = (report: FlowReport): ReadonlyArray<string> => {
+  const durationRow = (label: string, stats?: DurationStats) =>
+    stats
+      ? [
+          label,
+          stats.count,
+          stats.mean,
+          stats.p50,
+          stats.p85,
+          stats.p95,
+          stats.max,
+        ]
+      : [label, 0, "-", "-", "-", "-", "-"];
+
+  return [
+    ...formatTable(
+      ["Days", "Count", "Mean", "P50", "P85", "P95", "Max"],
+      [
+        durationRow("Lead time", report.leadTime),
+        durationRow("Cycle time", report.cycleTime),
+      ]
+    ),
+    "",
+    ...formatTable(
+      ["Week", "Completed"],
+      report.throughput.map((week) => [week.week, week.completed])
+    ),
+    "",
+    ...formatTable(
+      ["Date", "Todo", "Active", "Done", "Remaining"],
+      report.flow.map((point) => [
+        toIsoDate(point.date),
+        point.todo,
+        point.active,
+        point.done,
+        point.remaining,
+      ])
+    ),
+  ];
+};
+
+export {
+  summarizeDurations,
+  getStartedAt,
+  getStatusBefore,
+  getLeadTimes,
+  getCycleTimes,
+  getThroughput,
+  getCumulativeFlow,
+  getFlowReport,
+  formatFlowReport,
+};
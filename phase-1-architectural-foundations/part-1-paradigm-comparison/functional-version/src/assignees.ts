@@ -0,0 +1,51 @@
+import { Result, Task, TaskState } from "./types";
+
+/**
+ * Normalises an assignee name: surrounding whitespace and a leading "@" are
+ * dropped and names are lowercase.
+ */
+const normalizeAssignee = (name: string): string =>
+  name.trim().replace(/^@/, "").toLowerCase();
+
+/**
+ * Normalises and de-duplicates a list of assignees. Returns an error for
+ * empty names or names containing whitespace. An empty list leaves the task
+ * unassigned.
+ */
+const normalizeAssignees = (
+  names: ReadonlyArray<string>
+): Result<ReadonlyArray<string>, Error> => {
+  const normalized = names.map(normalizeAssignee);
+  const invalid = normalized.findIndex(
+    (name) => name === "" || /\s/.test(name)
+  );
+  return invalid === -1
+    ? { ok: true, value: [...new Set(normalized)] }
+    : { ok: false, error: new Error(`Invalid assignee "${names[invalid]}"`) };
+};
+
+/**
+ * Checks whether a task has no assignee.
+ */
+const isUnassigned = (task: Task): boolean =>
+  task.assignees === undefined || task.assignees.length === 0;
+
+/**
+ * Checks whether a person is one of the assignees of a task.
+ */
+const isAssignedTo = (task: Task, name: string): boolean =>
+  task.assignees?.includes(normalizeAssignee(name)) ?? false;
+
+/**
+ * Lists every person assigned to a task, sorted alphabetically.
+ */
+const getAssignees = (state: Readonly<TaskState>): ReadonlyArray<string> =>
+  [...new Set(state.tasks.flatMap((task) => task.assignees ?? []))].sort();
+
+export {
+  normalizeAssignee,
+  normalizeAssignees,
+  isUnassigned,
+  isAssignedTo,
+  getAssignees,
+};
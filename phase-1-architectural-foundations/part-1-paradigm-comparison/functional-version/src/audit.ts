@@ -0,0 +1,78 @@
+import { AuditValue, FieldChange, Task } from "./types";
+
+// Fields the task operations change, in the order a change lists them
+const AUDITED_FIELDS = [
+  "title",
+  "description",
+  "priority",
+  "status",
+  "deadline",
+  "completedAt",
+  "estimate",
+  "sessions",
+  "dependsOn",
+  "recurrence",
+  "reminders",
+  "tags",
+  "project",
+  "assignees",
+  "parentId",
+  "checklist",
+  "archivedAt",
+  "trashedAt",
+] as const;
+
+/**
+ * Converts a field value into the form the audit trail keeps. Dates become
+ * ISO strings and objects JSON; missing values, empty strings and empty
+ * lists all become null.
+ */
+const toAuditValue = (value: unknown): AuditValue => {
+  if (value === undefined || value === null || value === "") return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) {
+    return value.length === 0
+      ? null
+      : value.map((item) =>
+          typeof item === "object" ? JSON.stringify(item) : String(item)
+        );
+  }
+  return typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+    ? value
+    : JSON.stringify(value);
+};
+
+const sameValue = (a: AuditValue, b: AuditValue): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Appends the fields that differ between two versions of a task to the
+ * audit trail of the new version. A missing `before` records the creation
+ * of the task. Returns `after` unchanged when no audited field changed.
+ */
+const recordChanges = (
+  before: Task | undefined,
+  after: Task,
+  at: Date,
+  actor?: string
+): Task => {
+  const changes: ReadonlyArray<FieldChange> = AUDITED_FIELDS.map((field) => ({
+    field,
+    from: toAuditValue(before?.[field]),
+    to: toAuditValue(after[field]),
+  }))
+    .filter((change) => !sameValue(change.from, change.to))
+    .map((change) => ({
+      ...change,
+      at,
+      ...(actor !== undefined && { actor }),
+    }));
+
+  return changes.length === 0
+    ? after
+    : { ...after, auditTrail: [...(after.auditTrail ?? []), ...changes] };
+};
+
+export { toAuditValue, recordChanges };
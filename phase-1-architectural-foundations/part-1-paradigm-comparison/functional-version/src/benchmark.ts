@@ -0,0 +1,167 @@
+#!/usr/bin/env node
+import { createTestEnv } from "./environment";
+import {
+  getOverdueTasks,
+  getTask,
+  getTasksByStatus,
+  markInProgress,
+  updateTask,
+} from "./task-operations";
+import { Task, TaskState, TaskStatus } from "./types";
+
+// Compares the indexed task operations with the array scans they replaced,
+// on a generated backlog: `npm run bench -- 50000` for 50,000 tasks.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2025-06-01T00:00:00Z");
+
+// The array implementations before the state was indexed, trimmed to what
+// the benchmark measures
+const arrays = {
+  getTask: (state: TaskState, taskId: string): Task | undefined =>
+    state.tasks.find((task) => task.id === taskId),
+
+  updateStatus: (
+    state: TaskState,
+    taskId: string,
+    status: TaskStatus
+  ): TaskState => ({
+    tasks: state.tasks.map((task) =>
+      task.id === taskId ? { ...task, status } : task
+    ),
+  }),
+
+  updatePriority: (
+    state: TaskState,
+    taskId: string,
+    priority: number
+  ): TaskState =>
+    state.tasks.some((task) => task.id === taskId)
+      ? {
+          tasks: state.tasks.map((task) =>
+            task.id === taskId ? { ...task, priority } : task
+          ),
+        }
+      : state,
+
+  getTasksByStatus: (
+    state: TaskState,
+    status: TaskStatus
+  ): ReadonlyArray<Task> =>
+    state.tasks.filter((task) => task.status === status),
+
+  getOverdueTasks: (state: TaskState): ReadonlyArray<Task> =>
+    state.tasks.filter(
+      (task) =>
+        task.deadline !== undefined &&
+        task.status !== "completed" &&
+        task.deadline < now
+    ),
+};
+
+/**
+ * Generates a backlog that looks imported: mostly completed tasks, a few
+ * hundred open ones and deadlines spread over two years.
+ */
+const generateState = (size: number): TaskState => ({
+  tasks: Array.from({ length: size }, (_, i) => ({
+    id: `task-${i}`,
+    title: `Task ${i}`,
+    description: "",
+    priority: (i % 5) + 1,
+    status: i % 50 === 0 ? "pending" : "completed",
+    createdAt: new Date(now.getTime() - 800 * DAY_MS),
+    deadline:
+      i % 3 === 0
+        ? new Date(now.getTime() + ((i * 7919) % 730) * DAY_MS - 365 * DAY_MS)
+        : undefined,
+  })),
+});
+
+const time = (run: () => void): number => {
+  const start = process.hrtime.bigint();
+  run();
+  return Number(process.hrtime.bigint() - start) / 1e6;
+};
+
+const size = Number(process.argv[2] ?? 20000);
+const rounds = 200;
+const env = createTestEnv(now);
+// Open tasks, the ones a user works on
+const ids = Array.from(
+  { length: rounds },
+  (_, i) => `task-${((i * 7919) % Math.ceil(size / 50)) * 50}`
+);
+
+const generated = generateState(size);
+const indexed: TaskState = { tasks: [...generated.tasks] };
+const build = time(() => getTask(indexed, "task-0"));
+
+const results: ReadonlyArray<readonly [string, number, number]> = [
+  [
+    "getTask",
+    time(() => ids.forEach((id) => arrays.getTask(generated, id))),
+    time(() => ids.forEach((id) => getTask(indexed, id))),
+  ],
+  [
+    "start tasks one after another",
+    time(() =>
+      ids.reduce(
+        (state, id) => arrays.updateStatus(state, id, "in-progress"),
+        generated
+      )
+    ),
+    time(() =>
+      ids.reduce((state, id) => {
+        const result = markInProgress(state, id, undefined, env);
+        return result.ok ? result.value : state;
+      }, indexed)
+    ),
+  ],
+  [
+    "updateTask one after another",
+    time(() =>
+      ids.reduce(
+        (state, id, i) => arrays.updatePriority(state, id, (i % 5) + 1),
+        generated
+      )
+    ),
+    time(() =>
+      ids.reduce((state, id, i) => {
+        const result = updateTask(state, id, { priority: (i % 5) + 1 });
+        return result.ok ? result.value : state;
+      }, indexed)
+    ),
+  ],
+  [
+    "getTasksByStatus",
+    time(() =>
+      ids.forEach(() => arrays.getTasksByStatus(generated, "pending"))
+    ),
+    time(() => ids.forEach(() => getTasksByStatus(indexed, "pending"))),
+  ],
+  [
+    "getOverdueTasks",
+    time(() => ids.forEach(() => arrays.getOverdueTasks(generated))),
+    time(() => ids.forEach(() => getOverdueTasks(indexed, undefined, env))),
+  ],
+];
+
+const pad = (text: string, width: number): string => text.padStart(width);
+
+console.log(`${size} tasks, ${rounds} calls each`);
+console.log(`Index built on first lookup in ${build.toFixed(1)} ms\n`);
+console.log(
+  `${"operation".padEnd(32)}${pad("array ms", 12)}${pad("indexed ms", 12)}${pad(
+    "speedup",
+    10
+  )}`
+);
+results.forEach(([name, array, index]) =>
+  console.log(
+    `${name.padEnd(32)}${pad(array.toFixed(1), 12)}${pad(
+      index.toFixed(1),
+      12
+    )}${pad(`${(array / index).toFixed(1)}x`, 10)}`
+  )
+);
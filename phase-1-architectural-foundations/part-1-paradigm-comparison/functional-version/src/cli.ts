@@ -0,0 +1,1632 @@
+import { promises as fs } from "fs";
+import { extname } from "path";
+import { ParseArgsConfig, parseArgs } from "util";
+import { formatFlowReport, getFlowReport } from "./analytics";
+import { exportCsv, parseCsvTasks } from "./csv";
+import {
+  DraftRow,
+  applyImport,
+  formatImportReport,
+  planImport,
+} from "./importing";
+import { defaultEnv, fixedClock } from "./environment";
+import { exportMarkdownChecklist, parseMarkdownChecklist } from "./markdown";
+import { runQuery, formatQueryError, statusTerm } from "./query";
+import { TaskRepository, createJsonFileRepository } from "./repository";
+import {
+  addTask,
+  getOverdueTasksAsOf,
+  getStatisticsAsOf,
+  getStatisticsByProject,
+  getTaskHistory,
+  markMultipleCompleted,
+  removeTask,
+  sortByDeadline,
+  transitionTask,
+  updateTask,
+} from "./task-operations";
+import { formatPlan, planWork } from "./planner";
+import { isAssignedTo } from "./assignees";
+import { renameProject } from "./projects";
+import {
+  ReplicaStore,
+  createFileReplicaStore,
+  formatConflict,
+} from "./replica";
+import {
+  DEFAULT_RETENTION,
+  RetentionPolicy,
+  applyRetention,
+  archiveTask,
+  autoArchive,
+  getTrash,
+  purgeTrash,
+  restoreTask,
+  trashTask,
+  unarchiveTask,
+} from "./retention";
+import { formatBreakdown, getStrategy, rankReadyTasks } from "./scheduling";
+import { createFileTransport, createSocketTransport, syncState } from "./sync";
+import {
+  addChecklistItem,
+  getChildren,
+  getEffectiveStatus,
+  getProgress,
+  getRemovalIds,
+  removeChecklistItem,
+  setChecklistItemDone,
+  validateSubtaskCompletion,
+} from "./subtasks";
+import {
+  compareWithEstimates,
+  formatHours,
+  getActiveSession,
+  getTimeByDay,
+  getTimeByTask,
+  getTimeByWeek,
+  logTime,
+  startTimer,
+  stopTimer,
+  trackedHours,
+} from "./time-tracking";
+import { parseGitHubIssues, parseJiraCsv } from "./tracker";
+import { formatWorkload, getWorkload } from "./workload";
+import {
+  Env,
+  Result,
+  Task,
+  TaskError,
+  TaskState,
+  TaskStatistics,
+  TaskUpdate,
+} from "./types";
+import {
+  formatDate,
+  formatTask,
+  formatTaskHistory,
+  parseIsoDate,
+  lookup,
+  printTasks,
+  toError,
+} from "./utils";
+import { isArchived } from "./visibility";
+import { defaultWorkflow } from "./workflow";
+
+// Process exit codes returned by the CLI
+export const EXIT_CODES = {
+  ok: 0,
+  // The operation returned { ok: false }, e.g. invalid priority
+  failed: 1,
+  // Unknown command, missing argument or malformed flag
+  usage: 2,
+  // No task matches the given id or prefix, or the prefix is ambiguous
+  notFound: 3,
+  // The state file could not be read or written
+  storage: 4,
+  // A command failed unexpectedly
+  internal: 5,
+} as const;
+
+// Where the CLI writes its output and stores its state
+export interface CliEnvironment {
+  readonly stdout: (line: string) => void;
+  readonly stderr: (line: string) => void;
+  readonly repository: (filePath: string) => TaskRepository;
+  // Where sync keeps the change metadata of a state file
+  readonly replicaStore: (filePath: string) => ReplicaStore;
+  readonly defaultFile: string;
+  // Who runs the commands, recorded in the audit trail of the tasks
+  readonly actor?: string;
+  // When old tasks are archived and trashed ones purged, applied before
+  // every command. DEFAULT_RETENTION if left out.
+  readonly retention?: RetentionPolicy;
+}
+
+// Outcome of a command: the new state to save, if any, and the exit code
+interface CommandOutcome {
+  readonly code: number;
+  readonly state?: TaskState;
+}
+
+type Command = (
+  args: ReadonlyArray<string>,
+  state: TaskState,
+  env: CliEnvironment,
+  filePath: string
+) => CommandOutcome | Promise<CommandOutcome>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const USAGE = `Usage: tasks <command> [options]
+
+Commands:
+  add <title> [-d text] [-p 1-5] [--due YYYY-MM-DD] [-t tag]... [--project p]
+      [-a name]... [--parent id]                     Add a task
+  list [--status s] [--query q] [--tree] [--archived] [--trashed] [--json]
+                                                     List tasks
+  show <id>                                          Show a task
+  start <id>                                         Mark a task in progress
+  done <id>... [--force]                             Mark tasks completed
+  edit <id> [--title t] [-d text] [-p 1-5] [--due YYYY-MM-DD|none]
+       [-e hours|none] [-t tag]... [--project p|none] [-a name|none]...
+       [--parent id|none]                            Edit a task
+  rm <id> [--cascade | --orphan] [--purge]           Move a task to the trash
+  trash [--json] | trash restore <id> | trash purge [--older-than days]
+                                                     Manage the trash
+  archive <id>... | archive --auto [--after days]    Archive done tasks
+  unarchive <id>                                     Bring back an archived task
+  history <id> [--field f] [--json]                  Show the changes to a task
+  checklist <id> [add <text> | check <n> | uncheck <n> | rm <n>]
+                                                     Show or edit a checklist
+  next [--by-deadline | --strategy s] [--for name] [--explain]
+                                                     Suggest the next task
+  workload [name]... [--max-open n] [--max-load n] [--json]
+                                                     Show open work per person
+  stats [--by-project] [--as-of YYYY-MM-DD] [--archived] [--json]
+                                                     Show statistics
+  overdue [--as-of YYYY-MM-DD] [--json]              List overdue tasks
+  plan [--hours h] [--off YYYY-MM-DD]... [--from YYYY-MM-DD]
+                                                     Plan work day by day
+  import <file> [--format f] [--apply] [--allow-duplicates]
+                                                     Preview or apply an import
+  export <csv|md>                                    Print all tasks
+  mv-project <from> <to>                             Rename or move a project
+  track start <id> [--auto-stop] | track stop        Time work on a task
+  track log <id> <hours> [--on YYYY-MM-DD]           Log time after the fact
+  track report [--by task|day|week] [--json]         Show tracked time
+  track estimates [--json]                           Compare time and estimates
+  analytics [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--json]
+                                                     Lead/cycle time and flow
+  sync <file> | sync --socket <path>                 Merge with another replica
+
+Global options:
+  --file <path>   State file (default: $TASKS_FILE or ./tasks.json)
+
+Changes are recorded in the history of each task under the name in
+$TASKS_ACTOR, or $USER when it is not set.
+
+Ids can be shortened to any unique prefix.
+
+Starting a task starts its timer and stopping or completing it stops the
+timer. Only one timer runs at a time.
+
+A task with open subtasks is only completed with --force. Removing a task with
+subtasks needs --cascade to remove them too or --orphan to keep them.
+
+Removed tasks go to the trash and are purged after $TASKS_PURGE_AFTER_DAYS
+days (30 by default); --purge removes them at once. Archived and trashed tasks
+are left out of listings and statistics unless asked for. Done tasks are
+archived $TASKS_ARCHIVE_AFTER_DAYS days after their completion when it is set.
+
+Import formats are csv, md, github (issues JSON) and jira (CSV export); by
+default the format follows the file extension.
+
+Scheduling strategies are priority, weighted, earliest-deadline-first and
+wsjf.`;
+
+/**
+ * Parses a number of days. Returns undefined when the value is missing or
+ * not a non-negative number.
+ */
+const parseDays = (value: string | undefined): number | undefined => {
+  const days = Number(value);
+  return value !== undefined && Number.isFinite(days) && days >= 0
+    ? days
+    : undefined;
+};
+
+/**
+ * Default environment: console output and a JSON state file.
+ */
+export const defaultCliEnvironment: CliEnvironment = {
+  stdout: (line) => console.log(line),
+  stderr: (line) => console.error(line),
+  repository: (filePath) => createJsonFileRepository(filePath),
+  replicaStore: (filePath) =>
+    createFileReplicaStore(`${filePath}.replica.json`),
+  defaultFile: process.env["TASKS_FILE"] ?? "tasks.json",
+  actor: process.env["TASKS_ACTOR"] ?? process.env["USER"],
+  retention: {
+    archiveAfterDays: parseDays(process.env["TASKS_ARCHIVE_AFTER_DAYS"]),
+    purgeAfterDays:
+      parseDays(process.env["TASKS_PURGE_AFTER_DAYS"]) ??
+      DEFAULT_RETENTION.purgeAfterDays,
+  },
+};
+
+/**
+ * Builds the environment the task operations of a command run in.
+ */
+const operationEnv = (env: CliEnvironment): Env => ({
+  ...defaultEnv,
+  actor: env.actor,
+});
+
+/**
+ * Resolves a full task id from an id or unique id prefix.
+ */
+export const resolveTaskId = (
+  state: Readonly<TaskState>,
+  prefix: string
+): Result<string> => {
+  const matches = state.tasks.filter((task) => task.id.startsWith(prefix));
+
+  if (matches.length === 1) {
+    return { ok: true, value: matches[0]!.id };
+  }
+
+  return {
+    ok: false,
+    error: new Error(
+      matches.length === 0
+        ? `No task matches "${prefix}"`
+        : `"${prefix}" matches ${matches.length} tasks, use a longer prefix`
+    ),
+  };
+};
+
+const fail = (
+  env: CliEnvironment,
+  code: number,
+  message: string
+): CommandOutcome => {
+  env.stderr(`Error: ${message}`);
+  return { code };
+};
+
+/**
+ * Reports a failed operation. Missing tasks get the "not found" exit code.
+ */
+const failWith = (env: CliEnvironment, error: TaskError): CommandOutcome =>
+  fail(
+    env,
+    error.type === "NotFound" ? EXIT_CODES.notFound : EXIT_CODES.failed,
+    error.message
+  );
+
+/**
+ * Parses the flags of a command. Unknown or malformed flags are reported as
+ * a usage error.
+ */
+const parseFlags = <T extends ParseArgsConfig>(
+  env: CliEnvironment,
+  config: T
+): Result<ReturnType<typeof parseArgs<T>>, CommandOutcome> => {
+  try {
+    return { ok: true, value: parseArgs(config) };
+  } catch (error) {
+    return {
+      ok: false,
+      error: fail(env, EXIT_CODES.usage, toError(error).message),
+    };
+  }
+};
+
+/**
+ * Parses a priority flag. Returns undefined when the value is missing or not
+ * an integer from 1 to 5.
+ */
+const parsePriority = (value: string | undefined): number | undefined => {
+  const priority = Number(value);
+  return value !== undefined &&
+    Number.isInteger(priority) &&
+    priority >= 1 &&
+    priority <= 5
+    ? priority
+    : undefined;
+};
+
+/**
+ * Reports a priority flag that parsePriority rejected, if any.
+ */
+const checkPriority = (
+  env: CliEnvironment,
+  value: string | undefined
+): CommandOutcome | undefined =>
+  value !== undefined && parsePriority(value) === undefined
+    ? fail(env, EXIT_CODES.usage, "-p must be an integer from 1 to 5")
+    : undefined;
+
+/**
+ * Serialises tasks for --json output.
+ */
+const toJson = (value: unknown): string => JSON.stringify(value, null, 2);
+
+/**
+ * Prints every field of a task, its checklist and its subtasks.
+ */
+const showTask = (state: TaskState, task: Task, env: CliEnvironment): void => {
+  env.stdout(formatTask(task));
+  env.stdout(`  Id:          ${task.id}`);
+  env.stdout(`  Description: ${task.description || "-"}`);
+  env.stdout(`  Created:     ${formatDate(task.createdAt)}`);
+  if (task.completedAt) {
+    env.stdout(`  Completed:   ${formatDate(task.completedAt)}`);
+  }
+  if (task.estimate !== undefined) {
+    env.stdout(`  Estimate:    ${task.estimate}h`);
+  }
+  if (task.sessions && task.sessions.length > 0) {
+    env.stdout(
+      `  Tracked:     ${formatHours(trackedHours(task, operationEnv(env)))}`
+    );
+  }
+  if (task.project !== undefined) {
+    env.stdout(`  Project:     ${task.project}`);
+  }
+  if (task.tags && task.tags.length > 0) {
+    env.stdout(`  Tags:        ${task.tags.join(", ")}`);
+  }
+  if (task.assignees && task.assignees.length > 0) {
+    env.stdout(`  Assignees:   ${task.assignees.join(", ")}`);
+  }
+  if (task.dependsOn && task.dependsOn.length > 0) {
+    env.stdout(`  Depends on:  ${task.dependsOn.join(", ")}`);
+  }
+  if (task.parentId !== undefined) {
+    env.stdout(`  Parent:      ${task.parentId}`);
+  }
+
+  const children = getChildren(state, task.id);
+  if (children.length > 0 || task.checklist?.length) {
+    const effective = getEffectiveStatus(state, task);
+    env.stdout(
+      `  Progress:    ${getProgress(state, task)}%${
+        effective !== task.status ? ` (effectively ${effective})` : ""
+      }`
+    );
+  }
+  (task.checklist ?? []).forEach((item, index) =>
+    env.stdout(`  ${index + 1}. [${item.done ? "x" : " "}] ${item.text}`)
+  );
+  children.forEach((child) => env.stdout(formatTask(child, 1)));
+};
+
+/**
+ * Resolves a task id argument, reporting a missing or unknown id.
+ */
+const resolveArgument = (
+  state: TaskState,
+  prefix: string | undefined,
+  env: CliEnvironment
+): Result<string, CommandOutcome> => {
+  if (prefix === undefined) {
+    return { ok: false, error: fail(env, EXIT_CODES.usage, "Missing task id") };
+  }
+
+  const taskId = resolveTaskId(state, prefix);
+  return taskId.ok
+    ? taskId
+    : {
+        ok: false,
+        error: fail(env, EXIT_CODES.notFound, taskId.error.message),
+      };
+};
+
+/**
+ * Builds a command taking a single id argument and no options.
+ */
+const withTaskId =
+  (
+    run: (
+      taskId: string,
+      state: TaskState,
+      env: CliEnvironment
+    ) => CommandOutcome
+  ): Command =>
+  (args, state, env) => {
+    const parsed = parseFlags(env, {
+      args: [...args],
+      allowPositionals: true,
+    });
+    if (!parsed.ok) return parsed.error;
+    const { positionals } = parsed.value;
+    const taskId = resolveArgument(state, positionals[0], env);
+    return taskId.ok ? run(taskId.value, state, env) : taskId.error;
+  };
+
+const addCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      description: { type: "string", short: "d" },
+      priority: { type: "string", short: "p" },
+      due: { type: "string" },
+      tag: { type: "string", short: "t", multiple: true },
+      project: { type: "string" },
+      assignee: { type: "string", short: "a", multiple: true },
+      parent: { type: "string" },
+    },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values, positionals } = parsed.value;
+
+  const title = positionals.join(" ");
+  const parentId =
+    values.parent === undefined
+      ? undefined
+      : resolveArgument(state, values.parent, env);
+  if (parentId && !parentId.ok) return parentId.error;
+  const deadline =
+    values.due === undefined ? undefined : parseIsoDate(values.due);
+  if (values.due !== undefined && !deadline) {
+    return fail(env, EXIT_CODES.usage, "--due must be formatted as YYYY-MM-DD");
+  }
+  const invalidPriority = checkPriority(env, values.priority);
+  if (invalidPriority) return invalidPriority;
+
+  const added = addTask(
+    state,
+    title,
+    values.description ?? "",
+    parsePriority(values.priority) ?? 3,
+    deadline,
+    operationEnv(env)
+  );
+  if (!added.ok) return failWith(env, added.error);
+
+  const created = added.value.tasks[added.value.tasks.length - 1]!;
+  const grouped =
+    values.tag === undefined &&
+    values.project === undefined &&
+    values.assignee === undefined &&
+    parentId === undefined
+      ? added
+      : updateTask(
+          added.value,
+          created.id,
+          {
+            tags: values.tag,
+            project: values.project,
+            assignees: values.assignee,
+            parentId: parentId?.value,
+          },
+          operationEnv(env)
+        );
+  if (!grouped.ok) return failWith(env, grouped.error);
+
+  env.stdout(`Added ${created.id}`);
+  env.stdout(formatTask(created));
+  return { code: EXIT_CODES.ok, state: grouped.value };
+};
+
+const listCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    options: {
+      status: { type: "string" },
+      query: { type: "string", short: "q" },
+      tree: { type: "boolean" },
+      archived: { type: "boolean" },
+      trashed: { type: "boolean" },
+      json: { type: "boolean" },
+    },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values } = parsed.value;
+
+  const input = [
+    ...(values.status !== undefined ? [statusTerm(values.status)] : []),
+    values.query ?? "",
+  ].join(" ");
+  const tasks = runQuery(state, input, {
+    archived: values.archived,
+    trashed: values.trashed,
+  });
+  if (!tasks.ok) {
+    return fail(env, EXIT_CODES.usage, formatQueryError(input, tasks.error));
+  }
+
+  if (values.json) {
+    env.stdout(toJson(tasks.value));
+  } else {
+    printTasks(tasks.value, {
+      log: env.stdout,
+      showIds: true,
+      tree: values.tree,
+    });
+  }
+  return { code: EXIT_CODES.ok };
+};
+
+const showCommand: Command = withTaskId((taskId, state, env) => {
+  showTask(state, state.tasks.find((task) => task.id === taskId)!, env);
+  return { code: EXIT_CODES.ok };
+});
+
+const startCommand: Command = withTaskId((taskId, state, env) => {
+  const result = transitionTask(
+    state,
+    taskId,
+    "in-progress",
+    defaultWorkflow,
+    {},
+    operationEnv(env)
+  );
+  if (!result.ok) {
+    return failWith(env, result.error);
+  }
+  env.stdout(`Started ${taskId}`);
+  return { code: EXIT_CODES.ok, state: result.value };
+});
+
+const doneCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      force: { type: "boolean", short: "f" },
+    },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values, positionals } = parsed.value;
+  if (positionals.length === 0) {
+    return fail(env, EXIT_CODES.usage, "Missing task id");
+  }
+
+  const taskIds: string[] = [];
+  for (const prefix of positionals) {
+    const taskId = resolveArgument(state, prefix, env);
+    if (!taskId.ok) return taskId.error;
+    taskIds.push(taskId.value);
+  }
+
+  // Subtasks completed in the same command no longer hold their parent back
+  const completing = new Set(taskIds);
+  for (const taskId of taskIds) {
+    const allowed = transitionTask(
+      state,
+      taskId,
+      "completed",
+      defaultWorkflow,
+      {
+        force: true,
+      }
+    );
+    const subtasks = validateSubtaskCompletion(
+      state,
+      state.tasks.find((task) => task.id === taskId)!,
+      "completed",
+      defaultWorkflow,
+      completing
+    );
+    if (!allowed.ok) return failWith(env, allowed.error);
+    if (!subtasks.ok && !values.force) {
+      return fail(
+        env,
+        EXIT_CODES.failed,
+        `${subtasks.error.message}, use --force to complete it anyway`
+      );
+    }
+  }
+
+  const completed = markMultipleCompleted(
+    state,
+    taskIds,
+    defaultWorkflow,
+    { force: values.force },
+    operationEnv(env)
+  );
+  if (!completed.ok) return failWith(env, completed.error);
+
+  taskIds.forEach((taskId) => env.stdout(`Completed ${taskId}`));
+  return { code: EXIT_CODES.ok, state: completed.value };
+};
+
+const editCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      title: { type: "string" },
+      description: { type: "string", short: "d" },
+      priority: { type: "string", short: "p" },
+      due: { type: "string" },
+      estimate: { type: "string", short: "e" },
+      tag: { type: "string", short: "t", multiple: true },
+      project: { type: "string" },
+      assignee: { type: "string", short: "a", multiple: true },
+      parent: { type: "string" },
+    },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values, positionals } = parsed.value;
+
+  const taskId = resolveArgument(state, positionals[0], env);
+  if (!taskId.ok) return taskId.error;
+
+  const parentId =
+    values.parent === undefined || values.parent === "none"
+      ? undefined
+      : resolveArgument(state, values.parent, env);
+  if (parentId && !parentId.ok) return parentId.error;
+
+  const deadline =
+    values.due === undefined || values.due === "none"
+      ? undefined
+      : parseIsoDate(values.due);
+  if (values.due !== undefined && values.due !== "none" && !deadline) {
+    return fail(
+      env,
+      EXIT_CODES.usage,
+      '--due must be formatted as YYYY-MM-DD or "none"'
+    );
+  }
+  const invalidPriority = checkPriority(env, values.priority);
+  if (invalidPriority) return invalidPriority;
+
+  const update: TaskUpdate = {
+    title: values.title,
+    description: values.description,
+    priority: parsePriority(values.priority),
+    deadline: values.due === "none" ? null : deadline,
+    estimate:
+      values.estimate === "none"
+        ? null
+        : values.estimate === undefined
+        ? undefined
+        : Number(values.estimate),
+    tags: values.tag,
+    project: values.project === "none" ? null : values.project,
+    assignees:
+      values.assignee?.length === 1 && values.assignee[0] === "none"
+        ? []
+        : values.assignee,
+    parentId: values.parent === "none" ? null : parentId?.value,
+  };
+  const result = updateTask(state, taskId.value, update, operationEnv(env));
+  if (!result.ok) {
+    return failWith(env, result.error);
+  }
+
+  env.stdout(`Updated ${taskId.value}`);
+  return { code: EXIT_CODES.ok, state: result.value };
+};
+
+const rmCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      cascade: { type: "boolean" },
+      orphan: { type: "boolean" },
+      purge: { type: "boolean" },
+    },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values, positionals } = parsed.value;
+  if (values.cascade && values.orphan) {
+    return fail(
+      env,
+      EXIT_CODES.usage,
+      "--cascade and --orphan cannot be combined"
+    );
+  }
+
+  const taskId = resolveArgument(state, positionals[0], env);
+  if (!taskId.ok) return taskId.error;
+
+  const policy = values.cascade
+    ? "cascade"
+    : values.orphan
+    ? "orphan"
+    : "reject";
+  const removal = getRemovalIds(state, taskId.value, policy);
+  if (!removal.ok) {
+    return fail(
+      env,
+      EXIT_CODES.failed,
+      `${removal.error.message}, use --cascade or --orphan`
+    );
+  }
+
+  const removed = values.purge
+    ? removeTask(state, taskId.value, policy, operationEnv(env))
+    : trashTask(state, taskId.value, policy, operationEnv(env));
+  if (!removed.ok) return failWith(env, removed.error);
+
+  removal.value.forEach((id) =>
+    env.stdout(values.purge ? `Removed ${id}` : `Moved ${id} to the trash`)
+  );
+  return { code: EXIT_CODES.ok, state: removed.value };
+};
+
+const trashCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      "older-than": { type: "string" },
+      json: { type: "boolean" },
+    },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values, positionals } = parsed.value;
+  const [action, ...rest] = positionals;
+
+  switch (action) {
+    case undefined: {
+      const trash = getTrash(state);
+      if (values.json) {
+        env.stdout(toJson(trash));
+      } else if (trash.length === 0) {
+        env.stdout("The trash is empty.");
+      } else {
+        printTasks(trash, { log: env.stdout, showIds: true });
+      }
+      return { code: EXIT_CODES.ok };
+    }
+
+    case "restore": {
+      const taskId = resolveArgument(state, rest[0], env);
+      if (!taskId.ok) return taskId.error;
+
+      const result = restoreTask(state, taskId.value, operationEnv(env));
+      if (!result.ok) return failWith(env, result.error);
+      env.stdout(`Restored ${taskId.value}`);
+      return { code: EXIT_CODES.ok, state: result.value };
+    }
+
+    case "purge": {
+      const days = parseDays(values["older-than"] ?? "0");
+      if (days === undefined) {
+        return fail(
+          env,
+          EXIT_CODES.usage,
+          "--older-than must be a number of days"
+        );
+      }
+
+      const purged = purgeTrash(state, days, operationEnv(env));
+      env.stdout(`Purged ${state.tasks.length - purged.tasks.length} task(s)`);
+      return { code: EXIT_CODES.ok, state: purged };
+    }
+
+    default:
+      return fail(env, EXIT_CODES.usage, `Unknown trash action "${action}"`);
+  }
+};
+
+const archiveCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      auto: { type: "boolean" },
+      after: { type: "string" },
+    },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values, positionals } = parsed.value;
+
+  if (values.auto) {
+    const days =
+      values.after === undefined
+        ? env.retention?.archiveAfterDays
+        : parseDays(values.after);
+    if (days === undefined) {
+      return fail(
+        env,
+        EXIT_CODES.usage,
+        "--after must be a number of days when $TASKS_ARCHIVE_AFTER_DAYS is not set"
+      );
+    }
+
+    const archived = autoArchive(
+      state,
+      days,
+      defaultWorkflow,
+      operationEnv(env)
+    );
+    const count = (tasks: ReadonlyArray<Task>) =>
+      tasks.filter(isArchived).length;
+    env.stdout(
+      `Archived ${count(archived.tasks) - count(state.tasks)} task(s)`
+    );
+    return { code: EXIT_CODES.ok, state: archived };
+  }
+
+  if (positionals.length === 0) {
+    return fail(env, EXIT_CODES.usage, "Missing task id");
+  }
+
+  let archived: TaskState = state;
+  for (const prefix of positionals) {
+    const taskId = resolveArgument(state, prefix, env);
+    if (!taskId.ok) return taskId.error;
+
+    const result = archiveTask(
+      archived,
+      taskId.value,
+      defaultWorkflow,
+      operationEnv(env)
+    );
+    if (!result.ok) return failWith(env, result.error);
+    archived = result.value;
+    env.stdout(`Archived ${taskId.value}`);
+  }
+  return { code: EXIT_CODES.ok, state: archived };
+};
+
+const unarchiveCommand: Command = withTaskId((taskId, state, env) => {
+  const result = unarchiveTask(state, taskId, operationEnv(env));
+  if (!result.ok) return failWith(env, result.error);
+
+  env.stdout(`Unarchived ${taskId}`);
+  return { code: EXIT_CODES.ok, state: result.value };
+});
+
+const historyCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      field: { type: "string" },
+      json: { type: "boolean" },
+    },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values, positionals } = parsed.value;
+
+  const taskId = resolveArgument(state, positionals[0], env);
+  if (!taskId.ok) return taskId.error;
+
+  const history = getTaskHistory(state, taskId.value, values.field);
+  if (!history.ok) return failWith(env, history.error);
+
+  if (values.json) {
+    env.stdout(toJson(history.value));
+    return { code: EXIT_CODES.ok };
+  }
+  const task = state.tasks.find((task) => task.id === taskId.value)!;
+  formatTaskHistory({ ...task, auditTrail: history.value }).forEach((line) =>
+    env.stdout(line)
+  );
+  if (history.value.length === 0) {
+    env.stdout("  No recorded changes");
+  }
+  return { code: EXIT_CODES.ok };
+};
+
+// Checklist actions taking an item number, with the verb reported back
+const CHECKLIST_ACTIONS: Readonly<Record<string, string>> = {
+  check: "Checked",
+  uncheck: "Unchecked",
+  rm: "Removed",
+};
+
+const checklistCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    allowPositionals: true,
+  });
+  if (!parsed.ok) return parsed.error;
+  const { positionals } = parsed.value;
+  const [prefix, action, ...rest] = positionals;
+
+  const taskId = resolveArgument(state, prefix, env);
+  if (!taskId.ok) return taskId.error;
+  const task = state.tasks.find((t) => t.id === taskId.value)!;
+
+  if (action === undefined) {
+    if (!task.checklist?.length) {
+      env.stdout("No checklist items.");
+    }
+    (task.checklist ?? []).forEach((item, index) =>
+      env.stdout(`${index + 1}. [${item.done ? "x" : " "}] ${item.text}`)
+    );
+    return { code: EXIT_CODES.ok };
+  }
+
+  if (action === "add") {
+    const result = addChecklistItem(
+      state,
+      taskId.value,
+      rest.join(" "),
+      operationEnv(env)
+    );
+    if (!result.ok) {
+      return failWith(env, result.error);
+    }
+    env.stdout(`Added item ${(task.checklist?.length ?? 0) + 1}`);
+    return { code: EXIT_CODES.ok, state: result.value };
+  }
+
+  const verb = lookup(CHECKLIST_ACTIONS, action);
+  if (verb === undefined) {
+    return fail(env, EXIT_CODES.usage, `Unknown checklist action "${action}"`);
+  }
+
+  const number = Number(rest[0]);
+  const item = task.checklist?.[number - 1];
+  if (!Number.isInteger(number) || !item) {
+    return fail(
+      env,
+      EXIT_CODES.usage,
+      `Expected an item number between 1 and ${task.checklist?.length ?? 0}`
+    );
+  }
+
+  const result =
+    action === "rm"
+      ? removeChecklistItem(state, taskId.value, item.id, operationEnv(env))
+      : setChecklistItemDone(
+          state,
+          taskId.value,
+          item.id,
+          action === "check",
+          operationEnv(env)
+        );
+  if (!result.ok) {
+    return failWith(env, result.error);
+  }
+  env.stdout(`${verb} item ${number}`);
+  return { code: EXIT_CODES.ok, state: result.value };
+};
+
+const nextCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    options: {
+      "by-deadline": { type: "boolean" },
+      strategy: { type: "string", short: "s" },
+      for: { type: "string" },
+      explain: { type: "boolean" },
+    },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values } = parsed.value;
+
+  const name =
+    values.strategy ??
+    (values["by-deadline"] ? "earliest-deadline-first" : "priority");
+  const strategy = getStrategy(name);
+  if (!strategy) {
+    return fail(env, EXIT_CODES.usage, `Unknown strategy "${name}"`);
+  }
+
+  const assignee = values.for;
+  const next = rankReadyTasks(
+    state,
+    strategy,
+    undefined,
+    operationEnv(env)
+  ).find(
+    (ranked) => assignee === undefined || isAssignedTo(ranked.task, assignee)
+  );
+  if (!next) {
+    env.stdout("No tasks to work on.");
+    return { code: EXIT_CODES.ok };
+  }
+
+  printTasks([next.task], { log: env.stdout, showIds: true });
+  if (values.explain) {
+    formatBreakdown(next).forEach((line) => env.stdout(line));
+  }
+  return { code: EXIT_CODES.ok };
+};
+
+/**
+ * Reads a numeric limit option. Returns null when it is not a non-negative
+ * number.
+ */
+const parseLimit = (value: string | undefined): number | undefined | null => {
+  if (value === undefined) return undefined;
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit >= 0 ? limit : null;
+};
+
+const workloadCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      "max-open": { type: "string" },
+      "max-load": { type: "string" },
+      json: { type: "boolean" },
+    },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values, positionals } = parsed.value;
+
+  const maxOpen = parseLimit(values["max-open"]);
+  const maxLoad = parseLimit(values["max-load"]);
+  if (maxOpen === null || maxLoad === null) {
+    return fail(
+      env,
+      EXIT_CODES.usage,
+      "--max-open and --max-load must be non-negative numbers"
+    );
+  }
+
+  const report = getWorkload(
+    state,
+    { maxOpen, maxLoad },
+    positionals.length > 0 ? positionals : undefined
+  );
+  if (values.json) {
+    env.stdout(toJson(report));
+    return { code: EXIT_CODES.ok };
+  }
+
+  formatWorkload(report).forEach((line) => env.stdout(line));
+  return { code: EXIT_CODES.ok };
+};
+
+const planCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    options: {
+      hours: { type: "string" },
+      off: { type: "string", multiple: true },
+      from: { type: "string" },
+    },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values } = parsed.value;
+
+  const hours = values.hours === undefined ? 8 : Number(values.hours);
+  const daysOff = (values.off ?? []).map(parseIsoDate);
+  const start =
+    values.from === undefined ? new Date() : parseIsoDate(values.from);
+  if (!start || daysOff.some((date) => date === undefined)) {
+    return fail(
+      env,
+      EXIT_CODES.usage,
+      "--from and --off must be formatted as YYYY-MM-DD"
+    );
+  }
+
+  const plan = planWork(state, {
+    start,
+    capacity: {
+      hoursPerWeekday: [0, hours, hours, hours, hours, hours, 0],
+      daysOff: daysOff as Date[],
+    },
+  });
+  if (!plan.ok) {
+    return fail(env, EXIT_CODES.failed, plan.error.message);
+  }
+
+  const lines = formatPlan(plan.value);
+  if (lines.length === 0) {
+    env.stdout("Nothing to plan.");
+  }
+  lines.forEach((line) => env.stdout(line));
+  return {
+    code:
+      plan.value.missed.length > 0 || plan.value.unscheduled.length > 0
+        ? EXIT_CODES.failed
+        : EXIT_CODES.ok,
+  };
+};
+
+/**
+ * Prints statistics in human-readable form, indented under a heading.
+ */
+const printStatistics = (
+  stats: TaskStatistics,
+  env: CliEnvironment,
+  indent = ""
+): void => {
+  env.stdout(`${indent}Total tasks: ${stats.total}`);
+  defaultWorkflow.statuses.forEach((status) => {
+    env.stdout(`${indent}${status.label}: ${stats.byStatus[status.id] ?? 0}`);
+  });
+  env.stdout(`${indent}Overdue: ${stats.overdue}`);
+  env.stdout(`${indent}Blocked: ${stats.blocked}`);
+};
+
+/**
+ * Reads the --as-of option, defaulting to now. Returns undefined when the
+ * date is malformed.
+ */
+const parseAsOf = (value: string | undefined): Date | undefined =>
+  value === undefined ? new Date() : parseIsoDate(value);
+
+const statsCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    options: {
+      json: { type: "boolean" },
+      "by-project": { type: "boolean" },
+      "as-of": { type: "string" },
+      archived: { type: "boolean" },
+    },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values } = parsed.value;
+  const visibility = { archived: values.archived };
+
+  const asOf = parseAsOf(values["as-of"]);
+  if (!asOf) {
+    return fail(
+      env,
+      EXIT_CODES.usage,
+      "--as-of must be formatted as YYYY-MM-DD"
+    );
+  }
+
+  if (values["by-project"]) {
+    const byProject = getStatisticsByProject(
+      state,
+      defaultWorkflow,
+      { ...defaultEnv, clock: fixedClock(asOf) },
+      visibility
+    );
+    if (values.json) {
+      env.stdout(toJson(byProject));
+      return { code: EXIT_CODES.ok };
+    }
+    Object.entries(byProject).forEach(([project, stats]) => {
+      env.stdout(`${project}:`);
+      printStatistics(stats, env, "  ");
+    });
+    return { code: EXIT_CODES.ok };
+  }
+
+  const stats = getStatisticsAsOf(state, asOf, defaultWorkflow, visibility);
+  if (values.json) {
+    env.stdout(toJson(stats));
+    return { code: EXIT_CODES.ok };
+  }
+
+  printStatistics(stats, env);
+  return { code: EXIT_CODES.ok };
+};
+
+const mvProjectCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    allowPositionals: true,
+  });
+  if (!parsed.ok) return parsed.error;
+  const { positionals } = parsed.value;
+  const [from, to] = positionals;
+  if (from === undefined || to === undefined) {
+    return fail(env, EXIT_CODES.usage, "Usage: mv-project <from> <to>");
+  }
+
+  const result = renameProject(state, from, to, operationEnv(env));
+  if (!result.ok) {
+    return failWith(env, result.error);
+  }
+
+  env.stdout(`Moved project ${from} to ${to}`);
+  return { code: EXIT_CODES.ok, state: result.value };
+};
+
+const analyticsCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      json: { type: "boolean" },
+    },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values } = parsed.value;
+
+  const to = values.to === undefined ? new Date() : parseIsoDate(values.to);
+  const from =
+    values.from === undefined
+      ? to && new Date(to.getTime() - 27 * 24 * HOUR_MS)
+      : parseIsoDate(values.from);
+  if (!from || !to) {
+    return fail(
+      env,
+      EXIT_CODES.usage,
+      "--from and --to must be formatted as YYYY-MM-DD"
+    );
+  }
+  if (from > to) {
+    return fail(env, EXIT_CODES.usage, "--from must not be after --to");
+  }
+
+  const report = getFlowReport(state, from, to);
+  if (values.json) {
+    env.stdout(toJson(report));
+  } else {
+    formatFlowReport(report).forEach((line) => env.stdout(line));
+  }
+  return { code: EXIT_CODES.ok };
+};
+
+const trackCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      "auto-stop": { type: "boolean" },
+      on: { type: "string" },
+      by: { type: "string" },
+      json: { type: "boolean" },
+    },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values, positionals } = parsed.value;
+  const [action, ...rest] = positionals;
+  // Every step of the command happens at the same instant
+  const now = operationEnv(env).clock();
+  const trackEnv: Env = { ...operationEnv(env), clock: fixedClock(now) };
+
+  switch (action) {
+    case "start": {
+      const taskId = resolveArgument(state, rest[0], env);
+      if (!taskId.ok) return taskId.error;
+
+      const result = startTimer(
+        state,
+        taskId.value,
+        { autoStop: values["auto-stop"] },
+        trackEnv
+      );
+      if (!result.ok) {
+        return failWith(env, result.error);
+      }
+      env.stdout(`Started timer on ${taskId.value}`);
+      return { code: EXIT_CODES.ok, state: result.value };
+    }
+
+    case "stop": {
+      const active = getActiveSession(state);
+      const result = stopTimer(state, trackEnv);
+      if (!result.ok) {
+        return failWith(env, result.error);
+      }
+      env.stdout(
+        `Stopped timer on ${active!.task.id} after ${formatHours(
+          (now.getTime() - active!.session.start.getTime()) / HOUR_MS
+        )}`
+      );
+      return { code: EXIT_CODES.ok, state: result.value };
+    }
+
+    case "log": {
+      const taskId = resolveArgument(state, rest[0], env);
+      if (!taskId.ok) return taskId.error;
+
+      const day = values.on === undefined ? undefined : parseIsoDate(values.on);
+      if (values.on !== undefined && !day) {
+        return fail(
+          env,
+          EXIT_CODES.usage,
+          "--on must be formatted as YYYY-MM-DD"
+        );
+      }
+
+      // Time logged for a given day is placed from its midnight on
+      const hours = Number(rest[1]);
+      const end = day && new Date(day.getTime() + hours * HOUR_MS);
+      const result = logTime(state, taskId.value, hours, end, trackEnv);
+      if (!result.ok) {
+        return failWith(env, result.error);
+      }
+      env.stdout(`Logged ${formatHours(hours)} on ${taskId.value}`);
+      return { code: EXIT_CODES.ok, state: result.value };
+    }
+
+    case "report": {
+      const by = values.by ?? "task";
+      const rows =
+        by === "task"
+          ? getTimeByTask(state, trackEnv).map(({ task, hours }) => ({
+              period: task.title,
+              hours,
+            }))
+          : by === "day"
+          ? getTimeByDay(state, trackEnv)
+          : by === "week"
+          ? getTimeByWeek(state, trackEnv)
+          : undefined;
+      if (!rows) {
+        return fail(env, EXIT_CODES.usage, "--by must be task, day or week");
+      }
+
+      if (values.json) {
+        env.stdout(toJson(rows));
+      } else if (rows.length === 0) {
+        env.stdout("No time tracked.");
+      } else {
+        rows.forEach((row) =>
+          env.stdout(`${formatHours(row.hours).padStart(8)}  ${row.period}`)
+        );
+      }
+      return { code: EXIT_CODES.ok };
+    }
+
+    case "estimates": {
+      const comparisons = compareWithEstimates(state, trackEnv);
+      if (values.json) {
+        env.stdout(toJson(comparisons));
+      } else if (comparisons.length === 0) {
+        env.stdout("No estimated tasks.");
+      } else {
+        comparisons.forEach(({ task, estimate, tracked, difference }) =>
+          env.stdout(
+            `${task.title}: ${formatHours(tracked)} of ${formatHours(
+              estimate
+            )} (${difference > 0 ? "over" : "under"} by ${formatHours(
+              Math.abs(difference)
+            )})`
+          )
+        );
+      }
+      return { code: EXIT_CODES.ok };
+    }
+
+    default:
+      return fail(
+        env,
+        EXIT_CODES.usage,
+        action === undefined
+          ? "Missing track action"
+          : `Unknown track action "${action}"`
+      );
+  }
+};
+
+const overdueCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    options: { json: { type: "boolean" }, "as-of": { type: "string" } },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values } = parsed.value;
+
+  const asOf = parseAsOf(values["as-of"]);
+  if (!asOf) {
+    return fail(
+      env,
+      EXIT_CODES.usage,
+      "--as-of must be formatted as YYYY-MM-DD"
+    );
+  }
+  const overdue = sortByDeadline(getOverdueTasksAsOf(state, asOf));
+
+  if (values.json) {
+    env.stdout(toJson(overdue));
+  } else {
+    printTasks(overdue, { log: env.stdout, showIds: true });
+  }
+  return { code: EXIT_CODES.ok };
+};
+
+const syncCommand: Command = async (args, state, env, filePath) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    allowPositionals: true,
+    options: { socket: { type: "string" } },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values, positionals } = parsed.value;
+
+  const target = values.socket ?? positionals[0];
+  if (target === undefined) {
+    return fail(
+      env,
+      EXIT_CODES.usage,
+      "Usage: sync <file> | sync --socket <path>"
+    );
+  }
+
+  const synced = await syncState(
+    state,
+    env.replicaStore(filePath),
+    values.socket === undefined
+      ? createFileTransport(target)
+      : createSocketTransport(target)
+  );
+  if (!synced.ok) {
+    return fail(env, EXIT_CODES.storage, synced.error.message);
+  }
+
+  const { conflicts } = synced.value;
+  conflicts.forEach((conflict) =>
+    env.stdout(`Conflict: ${formatConflict(conflict)}`)
+  );
+  env.stdout(
+    `Synced with ${target}: ${synced.value.state.tasks.length} tasks, ${
+      conflicts.length
+    } conflict${conflicts.length === 1 ? "" : "s"} resolved`
+  );
+  return { code: EXIT_CODES.ok, state: synced.value.state };
+};
+
+// Readers turning the text of an import file into draft rows
+const importFormats: Readonly<
+  Record<string, (text: string) => Result<ReadonlyArray<DraftRow>>>
+> = {
+  csv: (text) => parseCsvTasks(text),
+  md: (text) => ({ ok: true, value: parseMarkdownChecklist(text) }),
+  github: parseGitHubIssues,
+  jira: parseJiraCsv,
+};
+
+const EXTENSION_FORMATS: Readonly<Record<string, string>> = {
+  ".csv": "csv",
+  ".md": "md",
+  ".json": "github",
+};
+
+const importCommand: Command = async (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      format: { type: "string" },
+      apply: { type: "boolean" },
+      "allow-duplicates": { type: "boolean" },
+    },
+  });
+  if (!parsed.ok) return parsed.error;
+  const { values, positionals } = parsed.value;
+
+  const filePath = positionals[0];
+  if (filePath === undefined) {
+    return fail(env, EXIT_CODES.usage, "Missing file");
+  }
+
+  const format =
+    values.format ?? lookup(EXTENSION_FORMATS, extname(filePath).toLowerCase());
+  const read = format === undefined ? undefined : lookup(importFormats, format);
+  if (!read) {
+    return fail(
+      env,
+      EXIT_CODES.usage,
+      `Unknown import format "${format ?? extname(filePath)}"`
+    );
+  }
+
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, "utf8");
+  } catch (error) {
+    return fail(env, EXIT_CODES.storage, toError(error).message);
+  }
+
+  const rows = read(text);
+  if (!rows.ok) {
+    return fail(env, EXIT_CODES.failed, rows.error.message);
+  }
+
+  const plan = planImport(state, rows.value, undefined, operationEnv(env));
+  formatImportReport(plan).forEach((line) => env.stdout(line));
+  if (!values.apply) {
+    env.stdout("Dry run: nothing was imported, use --apply to import.");
+    return { code: EXIT_CODES.ok };
+  }
+
+  return {
+    code: EXIT_CODES.ok,
+    state: applyImport(state, plan, {
+      includeDuplicates: values["allow-duplicates"],
+    }),
+  };
+};
+
+const exportCommand: Command = (args, state, env) => {
+  const parsed = parseFlags(env, {
+    args: [...args],
+    allowPositionals: true,
+  });
+  if (!parsed.ok) return parsed.error;
+  const { positionals } = parsed.value;
+
+  switch (positionals[0]) {
+    case "csv":
+      env.stdout(exportCsv(state).trimEnd());
+      return { code: EXIT_CODES.ok };
+    case "md":
+      env.stdout(exportMarkdownChecklist(state).trimEnd());
+      return { code: EXIT_CODES.ok };
+    default:
+      return fail(env, EXIT_CODES.usage, "Export format must be csv or md");
+  }
+};
+
+const commands: Readonly<Record<string, Command>> = {
+  add: addCommand,
+  list: listCommand,
+  show: showCommand,
+  start: startCommand,
+  done: doneCommand,
+  edit: editCommand,
+  rm: rmCommand,
+  trash: trashCommand,
+  archive: archiveCommand,
+  unarchive: unarchiveCommand,
+  history: historyCommand,
+  checklist: checklistCommand,
+  next: nextCommand,
+  workload: workloadCommand,
+  stats: statsCommand,
+  overdue: overdueCommand,
+  plan: planCommand,
+  "mv-project": mvProjectCommand,
+  track: trackCommand,
+  analytics: analyticsCommand,
+  import: importCommand,
+  export: exportCommand,
+  sync: syncCommand,
+};
+
+/**
+ * Splits the global --file option from the command arguments.
+ */
+const extractFileOption = (
+  argv: ReadonlyArray<string>
+): { file?: string; rest: ReadonlyArray<string> } => {
+  const index = argv.findIndex(
+    (arg) => arg === "--file" || arg.startsWith("--file=")
+  );
+  if (index === -1) return { rest: argv };
+
+  const arg = argv[index]!;
+  const inline = arg.startsWith("--file=");
+  return {
+    file: inline ? arg.slice("--file=".length) : argv[index + 1],
+    rest: [...argv.slice(0, index), ...argv.slice(index + (inline ? 1 : 2))],
+  };
+};
+
+/**
+ * Runs the CLI with the given arguments (without the node and script paths)
+ * and resolves to the process exit code. The state is loaded and the
+ * retention policy applied before the command runs; it is saved only if
+ * either changed it.
+ */
+export const runCli = async (
+  argv: ReadonlyArray<string>,
+  env: CliEnvironment = defaultCliEnvironment
+): Promise<number> => {
+  const { file, rest } = extractFileOption(argv);
+  const [name, ...args] = rest;
+
+  if (name === undefined || name === "help" || name === "--help") {
+    (name === undefined ? env.stderr : env.stdout)(USAGE);
+    return name === undefined ? EXIT_CODES.usage : EXIT_CODES.ok;
+  }
+
+  const command = lookup(commands, name);
+  if (!command) {
+    env.stderr(`Unknown command "${name}"\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+
+  const filePath = file ?? env.defaultFile;
+  const repository = env.repository(filePath);
+  const loaded = await repository.load();
+  if (!loaded.ok) {
+    return fail(env, EXIT_CODES.storage, loaded.error.message).code;
+  }
+
+  // Old tasks are archived and purged before any command sees them
+  const state = applyRetention(
+    loaded.value,
+    env.retention,
+    defaultWorkflow,
+    operationEnv(env)
+  );
+
+  let outcome: CommandOutcome;
+  try {
+    outcome = await command(args, state, env, filePath);
+  } catch (error) {
+    // Commands report bad input and failed operations themselves, so
+    // anything thrown here is a bug or an I/O failure
+    return fail(env, EXIT_CODES.internal, toError(error).message).code;
+  }
+
+  const next = outcome.state ?? state;
+  if (next !== loaded.value) {
+    const saved = await repository.save(next);
+    if (!saved.ok) {
+      return fail(env, EXIT_CODES.storage, saved.error.message).code;
+    }
+  }
+
+  return outcome.code;
+};
@@ -1,9 +1,13 @@
 import { Task, TaskState, TaskStatus } from "./types";
+import { getPendingTasks, sortByPriority } from "./task-operations";
+import { isInProject, normalizeTag } from "./projects";
+import { isAssignedTo, isUnassigned } from "./assignees";
 import {
-  getPendingTasks,
-  sortByPriority,
-  sortByDeadline,
-} from "./task-operations";
+  SchedulingStrategy,
+  earliestDeadlineFirstStrategy,
+  priorityStrategy,
+  rankReadyTasks,
+} from "./scheduling";
 import { pipe as fpPipe } from "fp-ts/function";
 
 /**
@@ -14,6 +18,14 @@ const filterTasksByMinPriority =
   (tasks: ReadonlyArray<Task>): ReadonlyArray<Task> =>
     tasks.filter((task: Task) => task.priority >= minPriority);
 
+/**
+ * Filters tasks by maximum priority.
+ */
+const filterTasksByMaxPriority =
+  (maxPriority: number) =>
+  (tasks: ReadonlyArray<Task>): ReadonlyArray<Task> =>
+    tasks.filter((task: Task) => task.priority <= maxPriority);
+
 /**
  * Filters tasks by their status.
  */
@@ -30,6 +42,72 @@ const filterByDeadlineBefore =
   (tasks: ReadonlyArray<Task>): ReadonlyArray<Task> =>
     tasks.filter((task) => task.deadline !== undefined && task.deadline < date);
 
+/**
+ * Filters tasks with deadlines on or after the specified date.
+ */
+const filterByDeadlineFrom =
+  (date: Date) =>
+  (tasks: ReadonlyArray<Task>): ReadonlyArray<Task> =>
+    tasks.filter(
+      (task) => task.deadline !== undefined && task.deadline >= date
+    );
+
+/**
+ * Filters tasks whose title or description contains the text, ignoring case.
+ */
+const filterByText =
+  (text: string) =>
+  (tasks: ReadonlyArray<Task>): ReadonlyArray<Task> => {
+    const needle = text.toLowerCase();
+    return tasks.filter(
+      (task) =>
+        task.title.toLowerCase().includes(needle) ||
+        task.description.toLowerCase().includes(needle)
+    );
+  };
+
+/**
+ * Filters tasks carrying the given tag.
+ */
+const filterByTag =
+  (tag: string) =>
+  (tasks: ReadonlyArray<Task>): ReadonlyArray<Task> => {
+    const normalized = normalizeTag(tag);
+    return tasks.filter((task) => task.tags?.includes(normalized) ?? false);
+  };
+
+/**
+ * Filters tasks in the given project or one of its subprojects.
+ */
+const filterByProject =
+  (project: string) =>
+  (tasks: ReadonlyArray<Task>): ReadonlyArray<Task> =>
+    tasks.filter((task) => isInProject(task, project));
+
+/**
+ * Filters tasks assigned to the given person, alone or with others.
+ */
+const filterByAssignee =
+  (name: string) =>
+  (tasks: ReadonlyArray<Task>): ReadonlyArray<Task> =>
+    tasks.filter((task) => isAssignedTo(task, name));
+
+/**
+ * Filters tasks nobody is assigned to.
+ */
+const filterUnassigned = (tasks: ReadonlyArray<Task>): ReadonlyArray<Task> =>
+  tasks.filter(isUnassigned);
+
+/**
+ * Inverts a filter: keeps the tasks the given filter would remove.
+ */
+const exclude =
+  (filter: (tasks: ReadonlyArray<Task>) => ReadonlyArray<Task>) =>
+  (tasks: ReadonlyArray<Task>): ReadonlyArray<Task> => {
+    const matched = new Set(filter(tasks));
+    return tasks.filter((task) => !matched.has(task));
+  };
+
 /**
  * Takes the first n items from an array.
  */
@@ -39,13 +117,22 @@ const take =
     items.slice(0, n);
 
 /**
- * Gets the top n priority tasks from the state.
+ * Ranks the ready tasks of the state with a scheduling strategy.
+ */
+const rankWith =
+  (strategy: SchedulingStrategy) =>
+  (state: TaskState): ReadonlyArray<Task> =>
+    rankReadyTasks(state, strategy).map((ranked) => ranked.task);
+
+/**
+ * Gets the top n tasks from the state, skipping blocked tasks. Tasks are
+ * ranked by priority unless another strategy is given.
  */
 const getTopPriorityTasks = (
   state: TaskState,
-  n: number
-): ReadonlyArray<Task> =>
-  fpPipe(state, getPendingTasks, sortByPriority, take(n));
+  n: number,
+  strategy: SchedulingStrategy = priorityStrategy
+): ReadonlyArray<Task> => fpPipe(state, rankWith(strategy), take(n));
 
 /**
  * Gets high priority pending tasks (priority >= 4) from the state.
@@ -54,18 +141,28 @@ const getHighPriorityPendingTasks = (state: TaskState): ReadonlyArray<Task> =>
   fpPipe(state, getPendingTasks, filterTasksByMinPriority(4), sortByPriority);
 
 /**
- * Gets the next n tasks to work on based on earliest deadlines.
+ * Gets the next n tasks to work on based on earliest deadlines, skipping
+ * blocked tasks. Another strategy can be given to rank them differently.
  */
 export const getNextTasksByDeadline = (
   state: TaskState,
-  n: number
-): ReadonlyArray<Task> =>
-  fpPipe(state, getPendingTasks, sortByDeadline, take(n));
+  n: number,
+  strategy: SchedulingStrategy = earliestDeadlineFirstStrategy
+): ReadonlyArray<Task> => fpPipe(state, rankWith(strategy), take(n));
 
 export {
   filterTasksByMinPriority,
+  filterTasksByMaxPriority,
   filterByStatus,
   filterByDeadlineBefore,
+  filterByDeadlineFrom,
+  filterByText,
+  filterByTag,
+  filterByProject,
+  filterByAssignee,
+  filterUnassigned,
+  exclude,
+  take,
   getTopPriorityTasks,
   getHighPriorityPendingTasks,
 };
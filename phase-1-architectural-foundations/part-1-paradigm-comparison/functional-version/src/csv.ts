@@ -0,0 +1,218 @@
+import { DraftRow, readDate, readPriority } from "./importing";
+import { Result, Task, TaskState } from "./types";
+
+// A parsed CSV record and the 1-based line it starts on
+export interface CsvRecord {
+  readonly line: number;
+  readonly cells: ReadonlyArray<string>;
+}
+
+// Header names of the columns holding each task field. Only the title column
+// is required when importing.
+export interface CsvColumns {
+  readonly title: string;
+  readonly description?: string;
+  readonly priority?: string;
+  readonly deadline?: string;
+  readonly status?: string;
+  readonly completedAt?: string;
+}
+
+export const defaultCsvColumns: CsvColumns = {
+  title: "title",
+  description: "description",
+  priority: "priority",
+  deadline: "deadline",
+  status: "status",
+  completedAt: "completedAt",
+};
+
+/**
+ * Parses RFC 4180 CSV. Quoted cells may contain separators, doubled quotes
+ * and line breaks. Blank lines are skipped.
+ */
+const parseCsv = (
+  text: string,
+  separator = ","
+): Result<ReadonlyArray<CsvRecord>> => {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let line = 1;
+  let recordLine = 1;
+  let inQuotes = false;
+  let quotedCell = false;
+
+  const endCell = () => {
+    cells.push(cell);
+    cell = "";
+    quotedCell = false;
+  };
+  const endRecord = () => {
+    endCell();
+    if (cells.length > 1 || cells[0] !== "") {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]!;
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === "" && !quotedCell) {
+      inQuotes = true;
+      quotedCell = true;
+    } else if (char === separator) {
+      endCell();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    return {
+      ok: false,
+      error: new Error(`Unterminated quote in record on line ${recordLine}`),
+    };
+  }
+  endRecord();
+
+  return { ok: true, value: records };
+};
+
+/**
+ * Quotes a cell when it contains a separator, quote or line break.
+ */
+const formatCsvCell = (value: string, separator = ","): string =>
+  value.includes(separator) || /["\r\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+/**
+ * Formats records as CSV with CRLF line endings.
+ */
+const formatCsv = (
+  rows: ReadonlyArray<ReadonlyArray<string>>,
+  separator = ","
+): string =>
+  rows
+    .map((row) =>
+      row.map((cell) => formatCsvCell(cell, separator)).join(separator)
+    )
+    .join("\r\n") + "\r\n";
+
+/**
+ * Reads task drafts from CSV using the given column mapping. The first record
+ * is the header. Returns an error if the header lacks a mapped column.
+ */
+const parseCsvTasks = (
+  text: string,
+  columns: CsvColumns = defaultCsvColumns,
+  separator = ","
+): Result<ReadonlyArray<DraftRow>> => {
+  const records = parseCsv(text, separator);
+  if (!records.ok) return records;
+
+  const [header, ...body] = records.value;
+  if (!header) return { ok: true, value: [] };
+
+  const indexOf = (name: string | undefined): number | undefined => {
+    if (name === undefined) return undefined;
+    const index = header.cells.findIndex(
+      (cell) => cell.trim().toLowerCase() === name.toLowerCase()
+    );
+    return index === -1 ? undefined : index;
+  };
+
+  const titleIndex = indexOf(columns.title);
+  if (titleIndex === undefined) {
+    return {
+      ok: false,
+      error: new Error(`Missing title column "${columns.title}"`),
+    };
+  }
+
+  const descriptionIndex = indexOf(columns.description);
+  const priorityIndex = indexOf(columns.priority);
+  const deadlineIndex = indexOf(columns.deadline);
+  const statusIndex = indexOf(columns.status);
+  const completedAtIndex = indexOf(columns.completedAt);
+
+  const rows = body.map(({ line, cells }): DraftRow => {
+    const cell = (index: number | undefined): string =>
+      index === undefined ? "" : cells[index] ?? "";
+
+    const priority = readPriority(cell(priorityIndex));
+    const deadline = readDate(cell(deadlineIndex), "deadline");
+    const completedAt = readDate(cell(completedAtIndex), "completedAt");
+    const status = cell(statusIndex).trim();
+
+    if (!priority.ok) return { line, draft: priority };
+    if (!deadline.ok) return { line, draft: deadline };
+    if (!completedAt.ok) return { line, draft: completedAt };
+
+    return {
+      line,
+      draft: {
+        ok: true,
+        value: {
+          title: cell(titleIndex),
+          description: cell(descriptionIndex),
+          priority: priority.value,
+          deadline: deadline.value,
+          completedAt: completedAt.value,
+          ...(status !== "" && { status }),
+        },
+      },
+    };
+  });
+
+  return { ok: true, value: rows };
+};
+
+/**
+ * Exports the tasks as CSV with one column per mapped field. Dates are
+ * written as ISO timestamps.
+ */
+const exportCsv = (
+  state: Readonly<TaskState>,
+  columns: CsvColumns = defaultCsvColumns,
+  separator = ","
+): string => {
+  const fields: ReadonlyArray<[string | undefined, (task: Task) => string]> = [
+    [columns.title, (task) => task.title],
+    [columns.description, (task) => task.description],
+    [columns.priority, (task) => String(task.priority)],
+    [columns.deadline, (task) => task.deadline?.toISOString() ?? ""],
+    [columns.status, (task) => task.status],
+    [columns.completedAt, (task) => task.completedAt?.toISOString() ?? ""],
+  ];
+  const mapped = fields.filter(
+    (field): field is [string, (task: Task) => string] => field[0] !== undefined
+  );
+
+  return formatCsv(
+    [
+      mapped.map(([name]) => name),
+      ...state.tasks.map((task) => mapped.map(([, read]) => read(task))),
+    ],
+    separator
+  );
+};
+
+export { parseCsv, formatCsv, parseCsvTasks, exportCsv };
@@ -0,0 +1,276 @@
+import { recordChanges } from "./audit";
+import { defaultEnv } from "./environment";
+import { invalidField, notFound } from "./errors";
+import { findTask, putTask } from "./task-index";
+import {
+  Env,
+  Result,
+  Task,
+  TaskError,
+  TaskState,
+  TransitionGuard,
+  Workflow,
+} from "./types";
+import { isTrashed } from "./visibility";
+import { defaultWorkflow, isDoneStatus } from "./workflow";
+
+/**
+ * Gets the ids a task depends on.
+ */
+const getDependencyIds = (task: Task): ReadonlyArray<string> =>
+  task.dependsOn ?? [];
+
+/**
+ * Checks whether a task is blocked, i.e. it depends on at least one task that
+ * still exists and is not done. Tasks in the trash block nothing.
+ */
+const isBlocked = (
+  state: Readonly<TaskState>,
+  task: Task,
+  workflow: Workflow = defaultWorkflow
+): boolean =>
+  getDependencyIds(task).some((id) => {
+    const other = findTask(state, id);
+    return (
+      other !== undefined &&
+      !isTrashed(other) &&
+      !isDoneStatus(other.status, workflow)
+    );
+  });
+
+/**
+ * Retrieves the tasks that are not done and still waiting on another task.
+ */
+const getBlockedTasks = (
+  state: Readonly<TaskState>,
+  workflow: Workflow = defaultWorkflow
+): ReadonlyArray<Task> =>
+  state.tasks.filter(
+    (task) =>
+      !isDoneStatus(task.status, workflow) && isBlocked(state, task, workflow)
+  );
+
+/**
+ * Retrieves the tasks that directly depend on the given task.
+ */
+const getDependents = (
+  state: Readonly<TaskState>,
+  taskId: string
+): ReadonlyArray<Task> =>
+  state.tasks.filter((task) => getDependencyIds(task).includes(taskId));
+
+/**
+ * Checks whether giving `taskId` the dependencies `dependsOn` would introduce
+ * a cycle, i.e. whether `taskId` is reachable from any of the new
+ * dependencies.
+ */
+const wouldCreateCycle = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  dependsOn: ReadonlyArray<string>
+): boolean => {
+  const edges = new Map(
+    state.tasks.map((task) => [task.id, getDependencyIds(task)])
+  );
+  const visited = new Set<string>();
+  const stack = [...dependsOn];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    stack.push(...(edges.get(current) ?? []));
+  }
+
+  return false;
+};
+
+/**
+ * Validates a task's dependency list: the task and every dependency must
+ * exist, and the list must not create a cycle.
+ */
+const validateDependencies = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  dependsOn: ReadonlyArray<string>
+): Result<ReadonlyArray<string>, Error> => {
+  const ids = new Set(state.tasks.map((task) => task.id));
+
+  if (!ids.has(taskId)) {
+    return { ok: false, error: new Error(`Task with id ${taskId} not found`) };
+  }
+
+  const missing = dependsOn.find((id) => !ids.has(id));
+  if (missing !== undefined) {
+    return {
+      ok: false,
+      error: new Error(`Dependency task with id ${missing} not found`),
+    };
+  }
+
+  if (wouldCreateCycle(state, taskId, dependsOn)) {
+    return {
+      ok: false,
+      error: new Error("Dependencies would create a cycle"),
+    };
+  }
+
+  return { ok: true, value: [...new Set(dependsOn)] };
+};
+
+/**
+ * Replaces the dependencies of a task. Returns a Result containing the new
+ * state, or an error if a task is missing or a cycle would be created.
+ */
+const setDependencies = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  dependsOn: ReadonlyArray<string>,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const task = findTask(state, taskId);
+  if (!task) {
+    return { ok: false, error: notFound(taskId) };
+  }
+
+  const validated = validateDependencies(state, taskId, dependsOn);
+  if (!validated.ok) {
+    return {
+      ok: false,
+      error: invalidField("dependsOn", validated.error.message),
+    };
+  }
+
+  return {
+    ok: true,
+    value: putTask(
+      state,
+      recordChanges(
+        task,
+        { ...task, dependsOn: validated.value },
+        env.clock(),
+        env.actor
+      )
+    ),
+  };
+};
+
+/**
+ * Makes `taskId` depend on `dependsOnId`. Returns a Result containing the new
+ * state, or an error if a task is missing or a cycle would be created.
+ */
+const addDependency = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  dependsOnId: string,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const task = findTask(state, taskId);
+  return setDependencies(
+    state,
+    taskId,
+    [...(task ? getDependencyIds(task) : []), dependsOnId],
+    env
+  );
+};
+
+/**
+ * Removes a single dependency from a task. Returns a Result containing the
+ * new state, or an error if the task is not found.
+ */
+const removeDependency = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  dependsOnId: string,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const task = findTask(state, taskId);
+  if (!task) {
+    return { ok: false, error: notFound(taskId) };
+  }
+
+  return {
+    ok: true,
+    value: putTask(
+      state,
+      recordChanges(
+        task,
+        {
+          ...task,
+          dependsOn: getDependencyIds(task).filter((id) => id !== dependsOnId),
+        },
+        env.clock(),
+        env.actor
+      )
+    ),
+  };
+};
+
+/**
+ * Orders tasks so that every task comes after the tasks it depends on. Ties
+ * keep their original order. Returns an error if the dependencies contain a
+ * cycle.
+ */
+const topologicalOrder = (
+  state: Readonly<TaskState>
+): Result<ReadonlyArray<Task>, Error> => {
+  const ids = new Set(state.tasks.map((task) => task.id));
+  const remaining = new Map(
+    state.tasks.map((task) => [
+      task.id,
+      new Set(getDependencyIds(task).filter((id) => ids.has(id))),
+    ])
+  );
+  const ordered: Task[] = [];
+
+  while (ordered.length < state.tasks.length) {
+    const ready = state.tasks.filter(
+      (task) => remaining.get(task.id)?.size === 0
+    );
+    if (ready.length === 0) {
+      return { ok: false, error: new Error("Dependencies contain a cycle") };
+    }
+
+    ready.forEach((task) => {
+      ordered.push(task);
+      remaining.delete(task.id);
+      remaining.forEach((deps) => deps.delete(task.id));
+    });
+  }
+
+  return { ok: true, value: ordered };
+};
+
+/**
+ * Builds workflow guards refusing to start or complete a task while it still
+ * waits on unfinished dependencies. Other done statuses such as "cancelled"
+ * stay reachable. Add them to a workflow's guards to enforce ordering.
+ */
+const dependencyGuards = (
+  workflow: Workflow = defaultWorkflow
+): ReadonlyArray<TransitionGuard> =>
+  workflow.statuses
+    .filter(
+      (status) => status.category === "active" || status.id === "completed"
+    )
+    .map((status) => ({
+      to: status.id,
+      message: "Task is blocked by unfinished dependencies",
+      check: (task: Task, state: TaskState) =>
+        !isBlocked(state, task, workflow),
+    }));
+
+export {
+  getDependencyIds,
+  isBlocked,
+  getBlockedTasks,
+  getDependents,
+  wouldCreateCycle,
+  validateDependencies,
+  setDependencies,
+  addDependency,
+  removeDependency,
+  topologicalOrder,
+  dependencyGuards,
+};
@@ -0,0 +1,51 @@
+import { randomUUID } from "crypto";
+import { Clock, Env, IdGenerator } from "./types";
+
+/**
+ * Reads the system time.
+ */
+const systemClock: Clock = () => new Date();
+
+/**
+ * Generates random v4 UUIDs.
+ */
+const randomIds: IdGenerator = () => randomUUID();
+
+/**
+ * The real environment: system time and random ids.
+ */
+const defaultEnv: Env = { clock: systemClock, generateId: randomIds };
+
+/**
+ * A clock stopped at the given time.
+ */
+const fixedClock =
+  (date: Date): Clock =>
+  () =>
+    new Date(date.getTime());
+
+/**
+ * Generates "task-1", "task-2"... Each generator counts on its own.
+ */
+const sequentialIds = (prefix = "task-"): IdGenerator => {
+  let next = 0;
+  return () => `${prefix}${++next}`;
+};
+
+/**
+ * Builds a deterministic environment for tests and simulations: the clock
+ * is stopped at `now` and ids are sequential.
+ */
+const createTestEnv = (now: Date, prefix?: string): Env => ({
+  clock: fixedClock(now),
+  generateId: sequentialIds(prefix),
+});
+
+export {
+  systemClock,
+  randomIds,
+  defaultEnv,
+  fixedClock,
+  sequentialIds,
+  createTestEnv,
+};
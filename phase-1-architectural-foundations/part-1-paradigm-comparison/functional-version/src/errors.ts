@@ -0,0 +1,167 @@
+import { sequenceS } from "fp-ts/Apply";
+import * as E from "fp-ts/Either";
+import * as NEA from "fp-ts/NonEmptyArray";
+import {
+  EntityKind,
+  FieldError,
+  Result,
+  Task,
+  TaskError,
+  TaskStatus,
+} from "./types";
+
+// A value, or every error found while validating it
+export type Validation<T> = E.Either<NEA.NonEmptyArray<TaskError>, T>;
+
+const ENTITY_LABELS: { readonly [kind in EntityKind]: string } = {
+  task: "Task",
+  project: "Project",
+  series: "Series",
+  "checklist item": "Checklist item",
+};
+
+/**
+ * Reports a missing task, project, series or checklist item.
+ */
+const notFound = (
+  id: string,
+  entity: EntityKind = "task",
+  message = `${ENTITY_LABELS[entity]} with id ${id} not found`
+): TaskError => ({ type: "NotFound", entity, id, message });
+
+/**
+ * Reports a priority outside 1 to 5.
+ */
+const invalidPriority = (priority: number): TaskError => ({
+  type: "InvalidPriority",
+  priority,
+  message: "Priority must be between 1 and 5",
+});
+
+/**
+ * Reports a blank title.
+ */
+const emptyTitle = (): TaskError => ({
+  type: "EmptyTitle",
+  message: "Title cannot be empty",
+});
+
+/**
+ * Reports a status change that was refused, with the reason.
+ */
+const invalidTransition = (
+  task: Task,
+  to: TaskStatus,
+  message: string
+): TaskError => ({
+  type: "InvalidTransition",
+  taskId: task.id,
+  from: task.status,
+  to,
+  message,
+});
+
+/**
+ * Reports one or more invalid fields. The message joins the messages of
+ * every field.
+ */
+const validationFailed = (errors: ReadonlyArray<FieldError>): TaskError => ({
+  type: "ValidationFailed",
+  errors,
+  message: errors.map((error) => error.message).join("; "),
+});
+
+/**
+ * Reports a single invalid field.
+ */
+const invalidField = (field: string, message: string): TaskError =>
+  validationFailed([{ field, message }]);
+
+/**
+ * Lists the fields an error is about.
+ */
+const toFieldErrors = (error: TaskError): ReadonlyArray<FieldError> => {
+  switch (error.type) {
+    case "NotFound":
+      return [{ field: "id", message: error.message }];
+    case "InvalidPriority":
+      return [{ field: "priority", message: error.message }];
+    case "EmptyTitle":
+      return [{ field: "title", message: error.message }];
+    case "InvalidTransition":
+      return [{ field: "status", message: error.message }];
+    case "ValidationFailed":
+      return error.errors;
+  }
+};
+
+const validation = E.getApplicativeValidation(NEA.getSemigroup<TaskError>());
+
+/**
+ * Validates several fields at once. Unlike chaining Results, every failing
+ * field is reported, not only the first one.
+ */
+const validateFields = sequenceS(validation);
+
+/**
+ * Turns a Result into a Validation.
+ */
+const check = <T>(result: Result<T, TaskError>): Validation<T> =>
+  result.ok ? E.right(result.value) : E.left([result.error]);
+
+/**
+ * Turns the Result of a plain validator into a Validation of the given field.
+ */
+const validateField =
+  (field: string) =>
+  <T>(result: Result<T, { readonly message: string }>): Validation<T> =>
+    result.ok
+      ? E.right(result.value)
+      : E.left([invalidField(field, result.error.message)]);
+
+/**
+ * Converts a Result into an fp-ts Either.
+ */
+const toEither = <T, Err>(result: Result<T, Err>): E.Either<Err, T> =>
+  result.ok ? E.right(result.value) : E.left(result.error);
+
+/**
+ * Converts an fp-ts Either into a Result.
+ */
+const fromEither = <T, Err>(either: E.Either<Err, T>): Result<T, Err> =>
+  E.isRight(either)
+    ? { ok: true, value: either.right }
+    : { ok: false, error: either.left };
+
+/**
+ * Converts a Validation into a Result. A single error is kept as it is;
+ * several are reported together as ValidationFailed with every field.
+ */
+const fromValidation = <T>(validated: Validation<T>): Result<T, TaskError> => {
+  if (E.isRight(validated)) return { ok: true, value: validated.right };
+
+  const errors = validated.left;
+  return {
+    ok: false,
+    error:
+      errors.length === 1
+        ? errors[0]
+        : validationFailed(errors.flatMap(toFieldErrors)),
+  };
+};
+
+export {
+  notFound,
+  invalidPriority,
+  emptyTitle,
+  invalidTransition,
+  validationFailed,
+  invalidField,
+  toFieldErrors,
+  validateFields,
+  check,
+  validateField,
+  toEither,
+  fromEither,
+  fromValidation,
+};
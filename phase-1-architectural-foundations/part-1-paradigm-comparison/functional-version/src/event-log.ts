@@ -0,0 +1,296 @@
+import { promises as fs } from "fs";
+import { replay, replayUntil } from "./events";
+import {
+  RawRecord,
+  deserializeState,
+  isRecord,
+  reviveDate,
+  reviveTask,
+  serializeState,
+  serializeTask,
+  writeFileAtomic,
+} from "./repository";
+import { Result, TaskEvent, TaskState, TaskUpdate } from "./types";
+import { toError } from "./utils";
+
+// Append-only event log with snapshot support
+export interface EventLog {
+  readonly append: (events: ReadonlyArray<TaskEvent>) => Promise<Result<void>>;
+  readonly readAll: () => Promise<Result<ReadonlyArray<TaskEvent>>>;
+  readonly saveSnapshot: (state: TaskState) => Promise<Result<void>>;
+  readonly loadState: () => Promise<Result<TaskState>>;
+  readonly loadStateAt: (timestamp: Date) => Promise<Result<TaskState>>;
+}
+
+/**
+ * Converts an event into a JSON-safe record.
+ */
+export const serializeEvent = (event: TaskEvent): RawRecord => {
+  const base = { ...event, at: event.at.toISOString() };
+
+  switch (event.type) {
+    case "TaskCreated":
+      return { ...base, task: serializeTask(event.task) };
+    case "TaskUpdated":
+      return {
+        ...base,
+        changes: {
+          ...event.changes,
+          deadline:
+            event.changes.deadline === null
+              ? null
+              : event.changes.deadline?.toISOString(),
+        },
+      };
+    default:
+      return base;
+  }
+};
+
+const missingField = (field: string): Result<never> => ({
+  ok: false,
+  error: new Error(`Missing or invalid field "${field}"`),
+});
+
+/**
+ * Rebuilds an event from its persisted record.
+ */
+export const deserializeEvent = (raw: RawRecord): Result<TaskEvent> => {
+  const at = reviveDate(raw["at"], "at");
+  if (!at.ok) return at;
+  if (at.value === undefined) {
+    return { ok: false, error: new Error('Missing field "at"') };
+  }
+
+  const actor = typeof raw["actor"] === "string" ? raw["actor"] : undefined;
+
+  switch (raw["type"]) {
+    case "TaskCreated": {
+      const task = reviveTask(raw["task"]);
+      return task.ok
+        ? {
+            ok: true,
+            value: {
+              type: "TaskCreated",
+              at: at.value,
+              task: task.value,
+              actor,
+            },
+          }
+        : task;
+    }
+
+    case "TaskUpdated": {
+      const taskId = raw["taskId"];
+      const changes = raw["changes"];
+      if (typeof taskId !== "string") return missingField("taskId");
+      if (!isRecord(changes)) {
+        return {
+          ok: false,
+          error: new Error('Field "changes" must be an object'),
+        };
+      }
+      const deadline = reviveDate(changes["deadline"], "deadline");
+      if (!deadline.ok) return deadline;
+      return {
+        ok: true,
+        value: {
+          type: "TaskUpdated",
+          at: at.value,
+          taskId,
+          actor,
+          changes: {
+            ...(changes as TaskUpdate),
+            deadline: changes["deadline"] === null ? null : deadline.value,
+          },
+        },
+      };
+    }
+
+    case "TaskStatusChanged": {
+      const { taskId, from, to } = raw;
+      if (typeof taskId !== "string") return missingField("taskId");
+      if (typeof from !== "string") return missingField("from");
+      if (typeof to !== "string") return missingField("to");
+      return {
+        ok: true,
+        value: {
+          type: "TaskStatusChanged",
+          at: at.value,
+          taskId,
+          from,
+          to,
+          actor,
+        },
+      };
+    }
+
+    case "TaskRemoved": {
+      const taskId = raw["taskId"];
+      return typeof taskId === "string"
+        ? {
+            ok: true,
+            value: { type: "TaskRemoved", at: at.value, taskId, actor },
+          }
+        : missingField("taskId");
+    }
+
+    default:
+      return {
+        ok: false,
+        error: new Error(`Unknown event type "${String(raw["type"])}"`),
+      };
+  }
+};
+
+/**
+ * Parses the JSON-lines content of a log file. A truncated final line (left
+ * behind by a crash during append) is ignored; corruption anywhere else is an
+ * error.
+ */
+const parseLog = (content: string): Result<ReadonlyArray<TaskEvent>> => {
+  const lines = content.split("\n").filter((line) => line.trim() !== "");
+  const events: TaskEvent[] = [];
+
+  for (const [index, line] of lines.entries()) {
+    let raw: RawRecord;
+    try {
+      raw = JSON.parse(line);
+    } catch (error) {
+      if (index === lines.length - 1) break;
+      return { ok: false, error: toError(error) };
+    }
+
+    const event = deserializeEvent(raw);
+    if (!event.ok) return event;
+    events.push(event.value);
+  }
+
+  return { ok: true, value: events };
+};
+
+const readOptional = async (filePath: string): Promise<string | undefined> => {
+  try {
+    return await fs.readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+};
+
+/**
+ * Makes sure the log ends with a complete line before more events are
+ * appended. A final line cut short by a crash is cut off, so the next event
+ * does not get glued onto it; a complete final line missing only its newline
+ * gets one.
+ */
+const repairTail = async (filePath: string): Promise<void> => {
+  const content = await readOptional(filePath);
+  if (content === undefined || content === "" || content.endsWith("\n")) {
+    return;
+  }
+
+  const start = content.lastIndexOf("\n") + 1;
+  try {
+    JSON.parse(content.slice(start));
+    await fs.appendFile(filePath, "\n", "utf8");
+  } catch {
+    await fs.truncate(filePath, Buffer.byteLength(content.slice(0, start)));
+  }
+};
+
+/**
+ * Creates an event log stored as JSON lines at the given path. Snapshots are
+ * kept next to it and record how many events they already include, so startup
+ * only replays the events appended since.
+ */
+export const createFileEventLog = (
+  filePath: string,
+  snapshotPath = `${filePath}.snapshot.json`
+): EventLog => {
+  const readAll = async (): Promise<Result<ReadonlyArray<TaskEvent>>> => {
+    try {
+      const content = await readOptional(filePath);
+      return content === undefined
+        ? { ok: true, value: [] }
+        : parseLog(content);
+    } catch (error) {
+      return { ok: false, error: toError(error) };
+    }
+  };
+
+  return {
+    readAll,
+
+    append: async (events) => {
+      if (events.length === 0) return { ok: true, value: undefined };
+      try {
+        const lines = events
+          .map((event) => JSON.stringify(serializeEvent(event)))
+          .join("\n");
+        await repairTail(filePath);
+        await fs.appendFile(filePath, `${lines}\n`, "utf8");
+        return { ok: true, value: undefined };
+      } catch (error) {
+        return { ok: false, error: toError(error) };
+      }
+    },
+
+    saveSnapshot: async (state) => {
+      const events = await readAll();
+      if (!events.ok) return events;
+      try {
+        const snapshot = {
+          eventCount: events.value.length,
+          state: serializeState(state),
+        };
+        await writeFileAtomic(snapshotPath, JSON.stringify(snapshot));
+        return { ok: true, value: undefined };
+      } catch (error) {
+        return { ok: false, error: toError(error) };
+      }
+    },
+
+    loadState: async () => {
+      const events = await readAll();
+      if (!events.ok) return events;
+
+      let content: string | undefined;
+      try {
+        content = await readOptional(snapshotPath);
+      } catch (error) {
+        return { ok: false, error: toError(error) };
+      }
+      if (content === undefined) {
+        return { ok: true, value: replay(events.value) };
+      }
+
+      let snapshot: { eventCount: number; state: unknown };
+      try {
+        snapshot = JSON.parse(content);
+      } catch (error) {
+        return { ok: false, error: toError(error) };
+      }
+
+      // A snapshot ahead of the log means the log was rewritten; ignore it.
+      if (snapshot.eventCount > events.value.length) {
+        return { ok: true, value: replay(events.value) };
+      }
+
+      const base = deserializeState(snapshot.state);
+      return base.ok
+        ? {
+            ok: true,
+            value: replay(events.value.slice(snapshot.eventCount), base.value),
+          }
+        : base;
+    },
+
+    loadStateAt: async (timestamp) => {
+      const events = await readAll();
+      return events.ok
+        ? { ok: true, value: replayUntil(events.value, timestamp) }
+        : events;
+    },
+  };
+};
@@ -0,0 +1,389 @@
+import { recordChanges } from "./audit";
+import { fixedClock, randomIds } from "./environment";
+import { invalidTransition, notFound } from "./errors";
+import { createNextOccurrence } from "./recurrence";
+import { createInitialState } from "./state";
+import { getRemovalIds, validateSubtaskCompletion } from "./subtasks";
+import { findTask, putTask } from "./task-index";
+import { withTimer } from "./time-tracking";
+import {
+  addTask,
+  removeTask,
+  updatePriorities,
+  updateTask,
+} from "./task-operations";
+import {
+  Env,
+  IdGenerator,
+  Result,
+  Task,
+  TaskCommand,
+  TaskError,
+  TaskEvent,
+  TaskState,
+  TaskStatus,
+  Workflow,
+} from "./types";
+import { applyStatus, defaultWorkflow, validateTransition } from "./workflow";
+
+/**
+ * Builds the status change events for the given tasks, skipping tasks that
+ * already have the target status or that the workflow does not allow to move.
+ */
+const statusChanges = (
+  state: TaskState,
+  tasks: ReadonlyArray<Task>,
+  to: TaskStatus,
+  at: Date,
+  workflow: Workflow
+): ReadonlyArray<TaskEvent> =>
+  tasks
+    .filter((task) => task.status !== to)
+    .filter((task) => validateTransition(state, task, to, workflow).ok)
+    .map((task) => ({
+      type: "TaskStatusChanged",
+      at,
+      taskId: task.id,
+      from: task.status,
+      to,
+    }));
+
+/**
+ * Builds the events completing the given tasks, followed by the creation of
+ * the next occurrence of every recurring task among them.
+ */
+const completions = (
+  state: TaskState,
+  tasks: ReadonlyArray<Task>,
+  at: Date,
+  workflow: Workflow,
+  generateId: IdGenerator,
+  actor: string | undefined
+): ReadonlyArray<TaskEvent> => {
+  const changes = statusChanges(state, tasks, "completed", at, workflow);
+  const occurrences: ReadonlyArray<TaskEvent> = tasks
+    .filter((task) =>
+      changes.some(
+        (event) =>
+          event.type === "TaskStatusChanged" && event.taskId === task.id
+      )
+    )
+    .map((task) =>
+      createNextOccurrence(
+        { ...task, status: "completed", completedAt: at },
+        at,
+        generateId
+      )
+    )
+    .filter((task): task is Task => task !== null)
+    .map((task) => ({
+      type: "TaskCreated",
+      at,
+      task: recordChanges(undefined, task, at, actor),
+    }));
+
+  return [...changes, ...occurrences];
+};
+
+/**
+ * Builds the events of a command, see decide.
+ */
+const decideEvents = (
+  state: TaskState,
+  command: TaskCommand,
+  at: Date,
+  workflow: Workflow,
+  generateId: IdGenerator
+): Result<ReadonlyArray<TaskEvent>, TaskError> => {
+  switch (command.type) {
+    case "AddTask": {
+      const next = addTask(
+        state,
+        command.title,
+        command.description,
+        command.priority,
+        command.deadline,
+        { clock: fixedClock(at), generateId, actor: command.actor }
+      );
+      if (!next.ok) return next;
+
+      const task = next.value.tasks[next.value.tasks.length - 1]!;
+      return { ok: true, value: [{ type: "TaskCreated", at, task }] };
+    }
+
+    case "UpdateTask": {
+      const result = updateTask(state, command.taskId, command.update);
+      return result.ok
+        ? {
+            ok: true,
+            value: [
+              {
+                type: "TaskUpdated",
+                at,
+                taskId: command.taskId,
+                changes: command.update,
+              },
+            ],
+          }
+        : result;
+    }
+
+    case "MarkInProgress":
+    case "MarkCompleted":
+    case "ChangeStatus": {
+      const task = findTask(state, command.taskId);
+      if (!task) {
+        return { ok: false, error: notFound(command.taskId) };
+      }
+
+      const to =
+        command.type === "ChangeStatus"
+          ? command.status
+          : command.type === "MarkCompleted"
+          ? "completed"
+          : "in-progress";
+      if (task.status === to) {
+        return { ok: true, value: [] };
+      }
+
+      const validated = validateTransition(state, task, to, workflow);
+      if (!validated.ok) {
+        return {
+          ok: false,
+          error: invalidTransition(task, to, validated.error.message),
+        };
+      }
+
+      if (command.type === "MarkInProgress" || !command.force) {
+        const subtasks = validateSubtaskCompletion(state, task, to, workflow);
+        if (!subtasks.ok) {
+          return {
+            ok: false,
+            error: invalidTransition(task, to, subtasks.error.message),
+          };
+        }
+      }
+
+      return {
+        ok: true,
+        value:
+          to === "completed"
+            ? completions(
+                state,
+                [task],
+                at,
+                workflow,
+                generateId,
+                command.actor
+              )
+            : statusChanges(state, [task], to, at, workflow),
+      };
+    }
+
+    case "RemoveTask": {
+      const removal = getRemovalIds(
+        state,
+        command.taskId,
+        command.children ?? "orphan"
+      );
+      if (!removal.ok) return removal;
+
+      // Subtasks go first so that replaying never orphans them on the way
+      return {
+        ok: true,
+        value: [...removal.value]
+          .reverse()
+          .map((taskId) => ({ type: "TaskRemoved", at, taskId })),
+      };
+    }
+
+    case "UpdatePriorities": {
+      const result = updatePriorities(
+        state,
+        [...command.taskIds],
+        command.priority
+      );
+      if (!result.ok) return result;
+
+      const idSet = new Set(command.taskIds);
+      return {
+        ok: true,
+        value: state.tasks
+          .filter((task) => idSet.has(task.id))
+          .map((task) => ({
+            type: "TaskUpdated",
+            at,
+            taskId: task.id,
+            changes: { priority: command.priority },
+          })),
+      };
+    }
+
+    case "MarkMultipleCompleted": {
+      const missing = command.taskIds.find((id) => !findTask(state, id));
+      if (missing !== undefined) {
+        return { ok: false, error: notFound(missing) };
+      }
+
+      const idSet = new Set(command.taskIds);
+      return {
+        ok: true,
+        value: completions(
+          state,
+          state.tasks.filter(
+            (task) =>
+              idSet.has(task.id) &&
+              validateSubtaskCompletion(
+                state,
+                task,
+                "completed",
+                workflow,
+                idSet
+              ).ok
+          ),
+          at,
+          workflow,
+          generateId,
+          command.actor
+        ),
+      };
+    }
+  }
+};
+
+/**
+ * Validates a command against the current state and returns the events it
+ * produces. The state itself is not changed; fold the events with
+ * `applyEvent` to get the new state. Status changes are checked against the
+ * workflow. New tasks get their ids from `generateId`. The events carry the
+ * actor of the command.
+ */
+export const decide = (
+  state: TaskState,
+  command: TaskCommand,
+  at: Date = new Date(),
+  workflow: Workflow = defaultWorkflow,
+  generateId: IdGenerator = randomIds
+): Result<ReadonlyArray<TaskEvent>, TaskError> => {
+  const decided = decideEvents(state, command, at, workflow, generateId);
+  const { actor } = command;
+  return decided.ok && actor !== undefined
+    ? { ok: true, value: decided.value.map((event) => ({ ...event, actor })) }
+    : decided;
+};
+
+/**
+ * Builds the environment an event is applied in: changes are recorded at
+ * the time of the event and by its actor.
+ */
+const eventEnv = (event: TaskEvent): Env => ({
+  clock: fixedClock(event.at),
+  generateId: randomIds,
+  actor: event.actor,
+});
+
+/**
+ * Pure reducer applying a single event to the state. Events referring to
+ * unknown tasks leave the state unchanged.
+ */
+export const applyEvent = (
+  state: TaskState,
+  event: TaskEvent,
+  workflow: Workflow = defaultWorkflow
+): TaskState => {
+  switch (event.type) {
+    case "TaskCreated":
+      return putTask(state, event.task);
+
+    case "TaskUpdated": {
+      const result = updateTask(
+        state,
+        event.taskId,
+        event.changes,
+        eventEnv(event)
+      );
+      return result.ok ? result.value : state;
+    }
+
+    case "TaskStatusChanged": {
+      const task = findTask(state, event.taskId);
+      return task
+        ? withTimer(
+            putTask(
+              state,
+              recordChanges(
+                task,
+                applyStatus(task, event.to, event.at, workflow),
+                event.at,
+                event.actor
+              )
+            ),
+            task,
+            event.at,
+            workflow,
+            event.actor
+          )
+        : state;
+    }
+
+    case "TaskRemoved": {
+      const result = removeTask(state, event.taskId, "orphan", eventEnv(event));
+      return result.ok ? result.value : state;
+    }
+  }
+};
+
+/**
+ * Rebuilds the state by folding the event log over an initial state.
+ */
+export const replay = (
+  events: ReadonlyArray<TaskEvent>,
+  initialState: TaskState = createInitialState(),
+  workflow: Workflow = defaultWorkflow
+): TaskState =>
+  events.reduce(
+    (state, event) => applyEvent(state, event, workflow),
+    initialState
+  );
+
+/**
+ * Rebuilds the state as it was at the given point in time, ignoring every
+ * event recorded after it.
+ */
+export const replayUntil = (
+  events: ReadonlyArray<TaskEvent>,
+  timestamp: Date,
+  initialState: TaskState = createInitialState(),
+  workflow: Workflow = defaultWorkflow
+): TaskState =>
+  replay(
+    events.filter((event) => event.at <= timestamp),
+    initialState,
+    workflow
+  );
+
+/**
+ * Decides and applies a command in one step. Returns the new state together
+ * with the events that should be appended to the log.
+ */
+export const execute = (
+  state: TaskState,
+  command: TaskCommand,
+  at: Date = new Date(),
+  workflow: Workflow = defaultWorkflow,
+  generateId: IdGenerator = randomIds
+): Result<
+  { state: TaskState; events: ReadonlyArray<TaskEvent> },
+  TaskError
+> => {
+  const decided = decide(state, command, at, workflow, generateId);
+  return decided.ok
+    ? {
+        ok: true,
+        value: {
+          state: replay(decided.value, state, workflow),
+          events: decided.value,
+        },
+      }
+    : decided;
+};
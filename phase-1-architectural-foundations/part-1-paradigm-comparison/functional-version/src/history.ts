@@ -0,0 +1,190 @@
+import { Result, TaskState } from "./types";
+
+// A state together with the label of the transition that produced it
+export interface HistoryEntry {
+  readonly label: string;
+  readonly state: TaskState;
+}
+
+// Undo/redo history over immutable task states
+export interface TaskHistory {
+  readonly past: ReadonlyArray<HistoryEntry>;
+  readonly present: HistoryEntry;
+  readonly future: ReadonlyArray<HistoryEntry>;
+  readonly limit: number;
+}
+
+/**
+ * Creates a history starting at the given state. `limit` bounds how many
+ * previous states are kept for undo.
+ */
+const createHistory = (
+  state: TaskState,
+  limit = 100,
+  label = "initial state"
+): TaskHistory => {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error("History limit must be a positive integer");
+  }
+
+  return { past: [], present: { label, state }, future: [], limit };
+};
+
+/**
+ * Gets the current state of the history.
+ */
+const currentState = (history: TaskHistory): TaskState => history.present.state;
+
+/**
+ * Records a transition to a new state. Any redo entries are discarded and the
+ * oldest entries are dropped once the limit is exceeded. Recording the same
+ * state again is a no-op.
+ */
+const record = (
+  history: TaskHistory,
+  label: string,
+  state: TaskState
+): TaskHistory => {
+  if (state === history.present.state) {
+    return history;
+  }
+
+  const past = [...history.past, history.present];
+
+  return {
+    ...history,
+    past: past.slice(Math.max(0, past.length - history.limit)),
+    present: { label, state },
+    future: [],
+  };
+};
+
+/**
+ * Records the outcome of an operation returning a Result. Errors are passed
+ * through and leave the history untouched.
+ */
+const recordResult = <E>(
+  history: TaskHistory,
+  label: string,
+  result: Result<TaskState, E>
+): Result<TaskHistory, E> =>
+  result.ok
+    ? { ok: true, value: record(history, label, result.value) }
+    : result;
+
+/**
+ * Checks whether there is a previous state to return to.
+ */
+const canUndo = (history: TaskHistory): boolean => history.past.length > 0;
+
+/**
+ * Checks whether there is an undone state to reapply.
+ */
+const canRedo = (history: TaskHistory): boolean => history.future.length > 0;
+
+/**
+ * Steps back to the previous state. Returns the history unchanged if there is
+ * nothing to undo.
+ */
+const undo = (history: TaskHistory): TaskHistory => {
+  const previous = history.past[history.past.length - 1];
+  if (!previous) {
+    return history;
+  }
+
+  return {
+    ...history,
+    past: history.past.slice(0, -1),
+    present: previous,
+    future: [history.present, ...history.future],
+  };
+};
+
+/**
+ * Reapplies the most recently undone state. Returns the history unchanged if
+ * there is nothing to redo.
+ */
+const redo = (history: TaskHistory): TaskHistory => {
+  const [next, ...rest] = history.future;
+  if (!next) {
+    return history;
+  }
+
+  return {
+    ...history,
+    past: [...history.past, history.present],
+    present: next,
+    future: rest,
+  };
+};
+
+/**
+ * Moves the history to the nearest entry with the given label, searching back
+ * through the past first and then forward through the future. Entries passed
+ * over stay available for undo/redo.
+ */
+const jumpTo = (
+  history: TaskHistory,
+  label: string
+): Result<TaskHistory, Error> => {
+  if (history.present.label === label) {
+    return { ok: true, value: history };
+  }
+
+  const pastIndex = history.past.map((entry) => entry.label).lastIndexOf(label);
+  if (pastIndex !== -1) {
+    const entries = [...history.past, history.present, ...history.future];
+    return {
+      ok: true,
+      value: {
+        ...history,
+        past: entries.slice(0, pastIndex),
+        present: entries[pastIndex]!,
+        future: entries.slice(pastIndex + 1),
+      },
+    };
+  }
+
+  const futureIndex = history.future.findIndex(
+    (entry) => entry.label === label
+  );
+  if (futureIndex !== -1) {
+    const entries = [...history.past, history.present, ...history.future];
+    const index = history.past.length + 1 + futureIndex;
+    return {
+      ok: true,
+      value: {
+        ...history,
+        past: entries.slice(0, index).slice(Math.max(0, index - history.limit)),
+        present: entries[index]!,
+        future: entries.slice(index + 1),
+      },
+    };
+  }
+
+  return {
+    ok: false,
+    error: new Error(`No history entry labelled "${label}"`),
+  };
+};
+
+/**
+ * Lists the labels of every entry, oldest first.
+ */
+const getLabels = (history: TaskHistory): ReadonlyArray<string> =>
+  [...history.past, history.present, ...history.future].map(
+    (entry) => entry.label
+  );
+
+export {
+  createHistory,
+  currentState,
+  record,
+  recordResult,
+  canUndo,
+  canRedo,
+  undo,
+  redo,
+  jumpTo,
+  getLabels,
+};
@@ -0,0 +1,540 @@
+import { recordChanges } from "./audit";
+import { defaultEnv, fixedClock } from "./environment";
+import { addTask, transitionTask, updateTask } from "./task-operations";
+import {
+  Env,
+  Result,
+  Task,
+  TaskError,
+  TaskState,
+  TaskStatus,
+  Workflow,
+} from "./types";
+import { lookup } from "./utils";
+import {
+  applyStatus,
+  defaultWorkflow,
+  getStatusCategory,
+  getStatusDefinition,
+  isDoneStatus,
+} from "./workflow";
+
+// A component that was left out of an import, and why
+export interface SkippedComponent {
+  readonly component: string;
+  readonly uid?: string;
+  readonly reason: string;
+}
+
+// Outcome of an iCalendar import
+export interface ICalendarImport {
+  readonly state: TaskState;
+  readonly created: ReadonlyArray<string>;
+  readonly updated: ReadonlyArray<string>;
+  readonly skipped: ReadonlyArray<SkippedComponent>;
+}
+
+// A single unfolded content line: NAME;PARAM=VALUE:value
+interface ContentLine {
+  readonly name: string;
+  readonly params: { readonly [name: string]: string };
+  readonly value: string;
+}
+
+// A parsed component with its own properties and nested components
+interface Component {
+  readonly name: string;
+  readonly properties: ContentLine[];
+  readonly children: Component[];
+}
+
+const MAX_LINE_OCTETS = 75;
+
+const PRODUCT_ID = "-//SA-lab//Task Scheduler//EN";
+
+/**
+ * Escapes a TEXT value: backslashes, semicolons, commas and newlines.
+ */
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Reverses escapeText.
+ */
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+
+/**
+ * Folds a content line so no physical line exceeds 75 octets. Continuation
+ * lines start with a space, and multi-byte characters are never split.
+ */
+const foldLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, "utf8");
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+
+  return [...lines, current].join("\r\n ");
+};
+
+/**
+ * Formats a UTC timestamp as 20251025T093000Z.
+ */
+const formatDateTime = (date: Date): string =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+/**
+ * Formats a deadline. Deadlines at midnight UTC are written as whole days.
+ */
+const formatDue = (date: Date): string =>
+  date.getTime() % (24 * 60 * 60 * 1000) === 0
+    ? `DUE;VALUE=DATE:${formatDateTime(date).slice(0, 8)}`
+    : `DUE:${formatDateTime(date)}`;
+
+/**
+ * Parses DATE and DATE-TIME values. Times without a trailing Z are read as
+ * UTC; callers reject the ones with a TZID.
+ */
+const parseDateValue = (value: string): Date | undefined => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(
+    value
+  );
+  if (!match) return undefined;
+
+  const [year = 0, month = 1, day = 1, hours = 0, minutes = 0, seconds = 0] =
+    match.slice(1).map((part) => Number(part ?? 0));
+  const date = new Date(
+    Date.UTC(year, month - 1, day, hours, minutes, seconds)
+  );
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? date
+    : undefined;
+};
+
+/**
+ * Maps a priority (5 = highest) onto iCalendar's PRIORITY (1 = highest,
+ * 9 = lowest).
+ */
+const toICalPriority = (priority: number): number => 11 - priority * 2;
+
+// iCalendar PRIORITY 0-9 mapped back onto 1-5. 0 means undefined and maps to
+// the default priority; 1-4 are high, 5 medium and 6-9 low.
+const FROM_ICAL_PRIORITY: ReadonlyArray<number> = [
+  3, 5, 5, 4, 4, 3, 2, 2, 1, 1,
+];
+
+/**
+ * Maps a status onto a VTODO STATUS through its workflow category.
+ */
+const toICalStatus = (status: TaskStatus, workflow: Workflow): string => {
+  if (status === "cancelled") return "CANCELLED";
+
+  switch (getStatusCategory(status, workflow)) {
+    case "todo":
+      return "NEEDS-ACTION";
+    case "active":
+      return "IN-PROCESS";
+    case "done":
+      return "COMPLETED";
+  }
+};
+
+const ICAL_STATUSES: { readonly [status: string]: TaskStatus } = {
+  "NEEDS-ACTION": "pending",
+  "IN-PROCESS": "in-progress",
+  COMPLETED: "completed",
+  CANCELLED: "cancelled",
+};
+
+/**
+ * Converts a task into a VTODO component.
+ */
+const taskToVTodo = (
+  task: Task,
+  workflow: Workflow,
+  now: Date
+): ReadonlyArray<string> => [
+  "BEGIN:VTODO",
+  `UID:${task.id}`,
+  `DTSTAMP:${formatDateTime(now)}`,
+  `CREATED:${formatDateTime(task.createdAt)}`,
+  `SUMMARY:${escapeText(task.title)}`,
+  ...(task.description ? [`DESCRIPTION:${escapeText(task.description)}`] : []),
+  `PRIORITY:${toICalPriority(task.priority)}`,
+  `STATUS:${toICalStatus(task.status, workflow)}`,
+  ...(task.deadline ? [formatDue(task.deadline)] : []),
+  ...(task.completedAt
+    ? [`COMPLETED:${formatDateTime(task.completedAt)}`]
+    : []),
+  "END:VTODO",
+];
+
+/**
+ * Exports the tasks to an RFC 5545 calendar with one VTODO per task.
+ */
+const exportICalendar = (
+  state: Readonly<TaskState>,
+  workflow: Workflow = defaultWorkflow,
+  now: Date = new Date()
+): string =>
+  [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    ...state.tasks.flatMap((task) => taskToVTodo(task, workflow, now)),
+    "END:VCALENDAR",
+  ]
+    .map(foldLine)
+    .join("\r\n") + "\r\n";
+
+/**
+ * Joins folded lines back together: a line starting with a space or tab
+ * continues the previous one.
+ */
+const unfoldLines = (text: string): ReadonlyArray<string> =>
+  text
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "");
+
+/**
+ * Splits a content line into name, parameters and value. Colons and
+ * semicolons inside quoted parameter values are kept.
+ */
+const parseContentLine = (line: string): ContentLine | undefined => {
+  let inQuotes = false;
+  let separator = -1;
+  for (let index = 0; index < line.length && separator === -1; index++) {
+    if (line[index] === '"') inQuotes = !inQuotes;
+    if (line[index] === ":" && !inQuotes) separator = index;
+  }
+  if (separator === -1) return undefined;
+
+  const [name = "", ...rawParams] =
+    line.slice(0, separator).match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+  const params: { [name: string]: string } = {};
+  rawParams.forEach((param) => {
+    const [key = "", ...value] = param.split("=");
+    params[key.toUpperCase()] = value.join("=").replace(/^"(.*)"$/, "$1");
+  });
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: line.slice(separator + 1),
+  };
+};
+
+/**
+ * Parses the component tree of a calendar.
+ */
+const parseComponents = (text: string): Result<Component> => {
+  const root: Component = { name: "", properties: [], children: [] };
+  const stack: Component[] = [root];
+
+  for (const line of unfoldLines(text)) {
+    const content = parseContentLine(line);
+    if (!content) {
+      return { ok: false, error: new Error(`Malformed line "${line}"`) };
+    }
+
+    const current = stack[stack.length - 1]!;
+    if (content.name === "BEGIN") {
+      const component: Component = {
+        name: content.value.toUpperCase(),
+        properties: [],
+        children: [],
+      };
+      current.children.push(component);
+      stack.push(component);
+    } else if (content.name === "END") {
+      if (current.name !== content.value.toUpperCase()) {
+        return {
+          ok: false,
+          error: new Error(`Unexpected END:${content.value}`),
+        };
+      }
+      stack.pop();
+    } else {
+      current.properties.push(content);
+    }
+  }
+
+  if (stack.length > 1) {
+    return {
+      ok: false,
+      error: new Error(`Missing END:${stack[stack.length - 1]!.name}`),
+    };
+  }
+
+  const calendar = root.children[0];
+  if (!calendar || calendar.name !== "VCALENDAR" || root.children.length > 1) {
+    return {
+      ok: false,
+      error: new Error("Expected a single VCALENDAR component"),
+    };
+  }
+
+  return { ok: true, value: calendar };
+};
+
+const getProperty = (
+  component: Component,
+  name: string
+): ContentLine | undefined =>
+  component.properties.find((property) => property.name === name);
+
+// Task fields read from a VTODO
+interface VTodo {
+  readonly uid: string;
+  readonly title: string;
+  readonly description: string;
+  readonly priority: number;
+  readonly status: TaskStatus;
+  readonly deadline?: Date;
+  readonly completedAt?: Date;
+  readonly createdAt?: Date;
+}
+
+/**
+ * Reads the task fields of a VTODO. Times with a TZID are rejected rather
+ * than shifted, since time zone definitions are not interpreted; floating
+ * times are read as UTC.
+ */
+const parseVTodo = (
+  component: Component,
+  uid: string,
+  workflow: Workflow
+): Result<VTodo, string> => {
+  const text = (name: string) => {
+    const property = getProperty(component, name);
+    return property && unescapeText(property.value);
+  };
+  const date = (name: string): Result<Date | undefined, string> => {
+    const property = getProperty(component, name);
+    if (!property) return { ok: true, value: undefined };
+    const zone = property.params["TZID"];
+    if (zone !== undefined && property.value.includes("T")) {
+      return {
+        ok: false,
+        error: `Time zone "${zone}" in ${name} is not supported`,
+      };
+    }
+    const parsed = parseDateValue(property.value);
+    return parsed
+      ? { ok: true, value: parsed }
+      : { ok: false, error: `Invalid ${name} "${property.value}"` };
+  };
+
+  const title = text("SUMMARY");
+  if (!title?.trim()) return { ok: false, error: "Missing SUMMARY" };
+
+  const rawPriority = text("PRIORITY");
+  const icalPriority = rawPriority === undefined ? 0 : Number(rawPriority);
+  if (!Number.isInteger(icalPriority) || icalPriority < 0 || icalPriority > 9) {
+    return { ok: false, error: `Invalid PRIORITY "${rawPriority}"` };
+  }
+
+  const rawStatus = text("STATUS")?.toUpperCase() ?? "NEEDS-ACTION";
+  const status = lookup(ICAL_STATUSES, rawStatus);
+  if (status === undefined || !getStatusDefinition(workflow, status)) {
+    return { ok: false, error: `Cannot map STATUS "${rawStatus}"` };
+  }
+
+  const deadline = date("DUE");
+  const completed = date("COMPLETED");
+  const created = date("CREATED");
+  if (!deadline.ok) return deadline;
+  if (!completed.ok) return completed;
+  if (!created.ok) return created;
+
+  return {
+    ok: true,
+    value: {
+      uid,
+      title,
+      description: text("DESCRIPTION") ?? "",
+      priority: FROM_ICAL_PRIORITY[icalPriority]!,
+      status,
+      deadline: deadline.value,
+      completedAt: completed.value,
+      createdAt: created.value,
+    },
+  };
+};
+
+/**
+ * Environment for the status change of an imported task: a task completed
+ * at a known time is stamped with that time.
+ */
+const completionEnv = (todo: VTodo, workflow: Workflow, env: Env): Env =>
+  todo.completedAt && isDoneStatus(todo.status, workflow)
+    ? { ...env, clock: fixedClock(todo.completedAt) }
+    : env;
+
+/**
+ * Creates the task of a VTODO whose UID is not known yet, with the UID as
+ * its id.
+ */
+const createFromVTodo = (
+  state: Readonly<TaskState>,
+  todo: VTodo,
+  workflow: Workflow,
+  env: Env
+): Result<TaskState, TaskError> => {
+  const created = addTask(
+    { tasks: [] },
+    todo.title,
+    todo.description,
+    todo.priority,
+    todo.deadline,
+    {
+      ...env,
+      clock: fixedClock(todo.createdAt ?? env.clock()),
+      generateId: () => todo.uid,
+    }
+  );
+  if (!created.ok) return created;
+
+  const task = created.value.tasks[0]!;
+  const now = completionEnv(todo, workflow, env).clock();
+  return {
+    ok: true,
+    value: {
+      ...state,
+      tasks: [
+        ...state.tasks,
+        recordChanges(
+          task,
+          applyStatus(task, todo.status, now, workflow),
+          now,
+          env.actor
+        ),
+      ],
+    },
+  };
+};
+
+/**
+ * Applies a VTODO to the task with its UID. Field changes go through
+ * updateTask and the status change through transitionTask, so they are
+ * validated and audited like any other edit.
+ */
+const updateFromVTodo = (
+  state: Readonly<TaskState>,
+  todo: VTodo,
+  workflow: Workflow,
+  env: Env
+): Result<TaskState, TaskError> => {
+  const updated = updateTask(
+    state,
+    todo.uid,
+    {
+      title: todo.title,
+      description: todo.description,
+      priority: todo.priority,
+      deadline: todo.deadline ?? null,
+    },
+    env
+  );
+  if (!updated.ok) return updated;
+
+  return transitionTask(
+    updated.value,
+    todo.uid,
+    todo.status,
+    workflow,
+    {},
+    completionEnv(todo, workflow, env)
+  );
+};
+
+/**
+ * Imports the VTODO components of a calendar. Tasks are matched by UID:
+ * known UIDs update the task, unknown ones create a task with that id.
+ * Components that cannot be mapped, such as events, VTODOs without a
+ * summary or updates the workflow refuses, are reported instead of failing
+ * the whole import. Returns an error only if the calendar itself is
+ * malformed.
+ */
+const importICalendar = (
+  state: Readonly<TaskState>,
+  text: string,
+  workflow: Workflow = defaultWorkflow,
+  env: Env = defaultEnv
+): Result<ICalendarImport> => {
+  const calendar = parseComponents(text);
+  if (!calendar.ok) return calendar;
+
+  let next: TaskState = state;
+  const created: string[] = [];
+  const updated: string[] = [];
+  const skipped: SkippedComponent[] = [];
+
+  for (const component of calendar.value.children) {
+    if (component.name === "VTIMEZONE") continue;
+
+    const property = getProperty(component, "UID");
+    const uid = property && unescapeText(property.value);
+    const skip = (reason: string) =>
+      skipped.push({
+        component: component.name,
+        ...(uid !== undefined && { uid }),
+        reason,
+      });
+
+    if (component.name !== "VTODO") {
+      skip("Only VTODO components are imported");
+      continue;
+    }
+    if (!uid) {
+      skip("Missing UID");
+      continue;
+    }
+
+    const todo = parseVTodo(component, uid, workflow);
+    if (!todo.ok) {
+      skip(todo.error);
+      continue;
+    }
+
+    const exists = next.tasks.some((task) => task.id === uid);
+    const result = exists
+      ? updateFromVTodo(next, todo.value, workflow, env)
+      : createFromVTodo(next, todo.value, workflow, env);
+    if (!result.ok) {
+      skip(result.error.message);
+      continue;
+    }
+
+    next = result.value;
+    (exists ? updated : created).push(uid);
+  }
+
+  return {
+    ok: true,
+    value: { state: next, created, updated, skipped },
+  };
+};
+
+export { exportICalendar, importICalendar, escapeText, unescapeText, foldLine };
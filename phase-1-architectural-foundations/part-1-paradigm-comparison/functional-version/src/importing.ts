@@ -0,0 +1,217 @@
+import { recordChanges } from "./audit";
+import { defaultEnv } from "./environment";
+import { invalidField } from "./errors";
+import { addTask } from "./task-operations";
+import {
+  Env,
+  Result,
+  Task,
+  TaskError,
+  TaskState,
+  TaskStatus,
+  Workflow,
+} from "./types";
+import { parseDateTime } from "./utils";
+import { applyStatus, defaultWorkflow, getStatusDefinition } from "./workflow";
+
+// Task fields read from one row of an import source, before validation
+export interface TaskDraft {
+  readonly title: string;
+  readonly description?: string;
+  readonly priority?: number;
+  readonly deadline?: Date;
+  readonly status?: TaskStatus;
+  readonly completedAt?: Date;
+}
+
+// A row of an import source: its 1-based line and what was read from it
+export interface DraftRow {
+  readonly line: number;
+  readonly draft: Result<TaskDraft, Error>;
+}
+
+// A validated row. Duplicates carry the id of the task they duplicate.
+export interface ImportRow {
+  readonly line: number;
+  readonly result: Result<Task, Error | TaskError>;
+  readonly duplicateOf?: string;
+}
+
+// Dry-run result of an import: what would be added, row by row
+export interface ImportPlan {
+  readonly rows: ReadonlyArray<ImportRow>;
+}
+
+// Options for applying an import plan
+export interface ApplyImportOptions {
+  readonly includeDuplicates?: boolean;
+}
+
+/**
+ * Normalises a title for duplicate detection: case, surrounding and repeated
+ * whitespace are ignored.
+ */
+const normalizeTitle = (title: string): string =>
+  title.trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * Reads a priority cell. Empty cells use the default priority; the range is
+ * checked when the task is built.
+ */
+const readPriority = (raw: string): Result<number | undefined, Error> => {
+  if (raw.trim() === "") return { ok: true, value: undefined };
+  const priority = Number(raw);
+  return Number.isInteger(priority)
+    ? { ok: true, value: priority }
+    : { ok: false, error: new Error(`Invalid priority "${raw}"`) };
+};
+
+/**
+ * Reads a date cell given as YYYY-MM-DD or an ISO timestamp.
+ */
+const readDate = (
+  raw: string,
+  field: string
+): Result<Date | undefined, Error> => {
+  if (raw.trim() === "") return { ok: true, value: undefined };
+  const date = parseDateTime(raw.trim());
+  return date
+    ? { ok: true, value: date }
+    : { ok: false, error: new Error(`Invalid ${field} "${raw}"`) };
+};
+
+/**
+ * Builds the task for a draft, applying the same validation as `addTask`.
+ * The audit trail records the imported status as set on creation.
+ */
+const draftToTask = (
+  draft: TaskDraft,
+  workflow: Workflow,
+  env: Env
+): Result<Task, TaskError> => {
+  if (
+    draft.status !== undefined &&
+    !getStatusDefinition(workflow, draft.status)
+  ) {
+    return {
+      ok: false,
+      error: invalidField("status", `Unknown status "${draft.status}"`),
+    };
+  }
+
+  const created = addTask(
+    { tasks: [] },
+    draft.title,
+    draft.description ?? "",
+    draft.priority ?? 3,
+    draft.deadline,
+    env
+  );
+  if (!created.ok) return created;
+
+  const task = created.value.tasks[0]!;
+  return {
+    ok: true,
+    value:
+      draft.status === undefined
+        ? task
+        : recordChanges(
+            task,
+            applyStatus(
+              task,
+              draft.status,
+              draft.completedAt ?? task.createdAt,
+              workflow
+            ),
+            task.createdAt,
+            env.actor
+          ),
+  };
+};
+
+/**
+ * Validates the rows of an import without changing the state. Each row gets
+ * the task it would create or the reason it would be rejected. Rows whose
+ * title matches an existing task, or an earlier row, are marked as
+ * duplicates.
+ */
+const planImport = (
+  state: Readonly<TaskState>,
+  rows: ReadonlyArray<DraftRow>,
+  workflow: Workflow = defaultWorkflow,
+  env: Env = defaultEnv
+): ImportPlan => {
+  const seen = new Map(
+    state.tasks.map((task) => [normalizeTitle(task.title), task.id])
+  );
+
+  return {
+    rows: rows.map(({ line, draft }) => {
+      const result = draft.ok ? draftToTask(draft.value, workflow, env) : draft;
+      if (!result.ok) return { line, result };
+
+      const key = normalizeTitle(result.value.title);
+      const duplicateOf = seen.get(key);
+      if (duplicateOf === undefined) seen.set(key, result.value.id);
+
+      return {
+        line,
+        result,
+        ...(duplicateOf !== undefined && { duplicateOf }),
+      };
+    }),
+  };
+};
+
+/**
+ * Adds the valid rows of a plan to the state. Duplicates are skipped unless
+ * `includeDuplicates` is set.
+ */
+const applyImport = (
+  state: Readonly<TaskState>,
+  plan: ImportPlan,
+  options: ApplyImportOptions = {}
+): TaskState => ({
+  ...state,
+  tasks: [
+    ...state.tasks,
+    ...plan.rows
+      .filter(
+        (row) => options.includeDuplicates || row.duplicateOf === undefined
+      )
+      .flatMap((row) => (row.result.ok ? [row.result.value] : [])),
+  ],
+});
+
+/**
+ * Describes a plan line by line, e.g. for printing a dry run.
+ */
+const formatImportReport = (plan: ImportPlan): ReadonlyArray<string> => {
+  const counts = { added: 0, duplicates: 0, errors: 0 };
+  const lines = plan.rows.map((row) => {
+    if (!row.result.ok) {
+      counts.errors++;
+      return `Line ${row.line}: error: ${row.result.error.message}`;
+    }
+    if (row.duplicateOf !== undefined) {
+      counts.duplicates++;
+      return `Line ${row.line}: duplicate of ${row.duplicateOf}: ${row.result.value.title}`;
+    }
+    counts.added++;
+    return `Line ${row.line}: add: ${row.result.value.title}`;
+  });
+
+  return [
+    ...lines,
+    `${counts.added} to add, ${counts.duplicates} duplicates, ${counts.errors} errors`,
+  ];
+};
+
+export {
+  normalizeTitle,
+  readPriority,
+  readDate,
+  planImport,
+  applyImport,
+  formatImportReport,
+};
@@ -0,0 +1,95 @@
+import { DraftRow, readDate, readPriority } from "./importing";
+import { TaskState, TaskStatus, Workflow } from "./types";
+import { toIsoDate } from "./utils";
+import { defaultWorkflow, getStatusCategory } from "./workflow";
+
+const ITEM_PATTERN = /^\s*[-*+]\s+\[([ xX/])\]\s+(.*)$/;
+// Item text ending in an optional priority marker and an optional due
+// marker, in that order. The title is as short as the markers allow, so a
+// title containing "!" or "due:" keeps them when the markers follow.
+const MARKERS_PATTERN = /^(.*?)(?:(?:^|\s+)!(\S+))?(?:(?:^|\s+)due:(\S+))?\s*$/;
+
+const CHECKBOX_STATUSES: { readonly [mark: string]: TaskStatus } = {
+  " ": "pending",
+  "/": "in-progress",
+  x: "completed",
+  X: "completed",
+};
+
+/**
+ * Reads task drafts from a Markdown checklist such as
+ * `- [ ] Fix login bug !5 due:2025-10-25`. The priority and due markers
+ * are read at the end of the item only. `[x]` marks completed tasks and
+ * `[/]` tasks in progress. Indented lines under an item become its
+ * description; other lines are ignored.
+ */
+const parseMarkdownChecklist = (text: string): ReadonlyArray<DraftRow> => {
+  const items: {
+    line: number;
+    mark: string;
+    text: string;
+    notes: string[];
+  }[] = [];
+  // The item indented lines are added to, until an unindented line
+  let current: (typeof items)[number] | undefined;
+
+  text.split(/\r?\n/).forEach((content, index) => {
+    const item = ITEM_PATTERN.exec(content);
+
+    if (item) {
+      current = { line: index + 1, mark: item[1]!, text: item[2]!, notes: [] };
+      items.push(current);
+    } else if (current && /^\s{2,}\S/.test(content)) {
+      current.notes.push(content.trim());
+    } else if (content.trim() !== "") {
+      current = undefined;
+    }
+  });
+
+  return items.map(({ line, mark, text: itemText, notes }): DraftRow => {
+    const [, title = "", priorityMarker = "", dueMarker = ""] =
+      MARKERS_PATTERN.exec(itemText) ?? [];
+    const priority = readPriority(priorityMarker);
+    const deadline = readDate(dueMarker, "due date");
+
+    if (!priority.ok) return { line, draft: priority };
+    if (!deadline.ok) return { line, draft: deadline };
+
+    return {
+      line,
+      draft: {
+        ok: true,
+        value: {
+          title: title.trim(),
+          description: notes.join("\n"),
+          priority: priority.value,
+          deadline: deadline.value,
+          status: CHECKBOX_STATUSES[mark]!,
+        },
+      },
+    };
+  });
+};
+
+/**
+ * Exports the tasks as a Markdown checklist that parseMarkdownChecklist reads
+ * back. Statuses are written through their workflow category.
+ */
+const exportMarkdownChecklist = (
+  state: Readonly<TaskState>,
+  workflow: Workflow = defaultWorkflow
+): string =>
+  state.tasks
+    .flatMap((task) => {
+      const mark = { todo: " ", active: "/", done: "x" }[
+        getStatusCategory(task.status, workflow)
+      ];
+      const due = task.deadline ? ` due:${toIsoDate(task.deadline)}` : "";
+      const notes = task.description
+        ? task.description.split(/\r?\n/).map((note) => `  ${note}`)
+        : [];
+      return [`- [${mark}] ${task.title} !${task.priority}${due}`, ...notes];
+    })
+    .join("\n") + "\n";
+
+export { parseMarkdownChecklist, exportMarkdownChecklist };
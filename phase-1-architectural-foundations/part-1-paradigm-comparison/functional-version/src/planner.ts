@@ -0,0 +1,200 @@
+import {
+  getTasksByCategory,
+  isOverdue,
+  sortByDeadline,
+  sortByPriority,
+} from "./task-operations";
+import { Result, Task, TaskState, Workflow } from "./types";
+import { toIsoDate } from "./utils";
+import { defaultWorkflow } from "./workflow";
+
+// Working hours available per day
+export interface Capacity {
+  // Hours per weekday, indexed like Date.getUTCDay(): 0 is Sunday
+  readonly hoursPerWeekday: ReadonlyArray<number>;
+  readonly daysOff?: ReadonlyArray<Date>;
+}
+
+// Options of a planning run
+export interface PlanOptions {
+  readonly capacity: Capacity;
+  // First day of the plan; only its UTC date is used
+  readonly start: Date;
+  // Hours assumed for tasks without an estimate
+  readonly defaultEstimate?: number;
+  // Days to plan ahead before giving up on the remaining tasks
+  readonly horizonDays?: number;
+}
+
+// Hours spent on a task during a day
+export interface PlannedWork {
+  readonly task: Task;
+  readonly hours: number;
+}
+
+// A day of the plan
+export interface PlanDay {
+  readonly date: Date;
+  readonly capacity: number;
+  readonly work: ReadonlyArray<PlannedWork>;
+}
+
+// A task the plan finishes after its deadline
+export interface MissedDeadline {
+  readonly task: Task;
+  readonly deadline: Date;
+  readonly finish: Date;
+  readonly daysLate: number;
+}
+
+// Day-by-day schedule plus the infeasibility report
+export interface Plan {
+  readonly days: ReadonlyArray<PlanDay>;
+  readonly finishes: ReadonlyMap<string, Date>;
+  readonly missed: ReadonlyArray<MissedDeadline>;
+  // Tasks that did not fit within the horizon
+  readonly unscheduled: ReadonlyArray<Task>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Mondays to Fridays, eight hours a day.
+ */
+export const standardCapacity: Capacity = {
+  hoursPerWeekday: [0, 8, 8, 8, 8, 8, 0],
+};
+
+const startOfDay = (date: Date): Date =>
+  new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+
+const validateCapacity = (capacity: Capacity): Result<Capacity, Error> => {
+  if (capacity.hoursPerWeekday.length !== 7) {
+    return {
+      ok: false,
+      error: new Error("Capacity needs hours for each of the 7 weekdays"),
+    };
+  }
+  if (capacity.hoursPerWeekday.some((hours) => !(hours >= 0 && hours <= 24))) {
+    return {
+      ok: false,
+      error: new Error("Daily capacity must be between 0 and 24 hours"),
+    };
+  }
+  return { ok: true, value: capacity };
+};
+
+/**
+ * Orders the work: tasks with deadlines first, earliest first, then the
+ * others. Equal deadlines and undated tasks go by priority.
+ */
+const planningOrder = (
+  state: Readonly<TaskState>,
+  workflow: Workflow
+): ReadonlyArray<Task> =>
+  sortByDeadline(
+    sortByPriority([
+      ...getTasksByCategory(state, "active", workflow),
+      ...getTasksByCategory(state, "todo", workflow),
+    ])
+  );
+
+/**
+ * Builds a day-by-day schedule of the pending and in-progress tasks, filling
+ * each day's capacity in deadline order. A task finishing on day D misses
+ * its deadline if it would be overdue at the start of D, so finishing on the
+ * due day itself is on time.
+ */
+const planWork = (
+  state: Readonly<TaskState>,
+  options: PlanOptions,
+  workflow: Workflow = defaultWorkflow
+): Result<Plan, Error> => {
+  const capacity = validateCapacity(options.capacity);
+  if (!capacity.ok) return capacity;
+
+  const defaultEstimate = options.defaultEstimate ?? 1;
+  const horizonDays = options.horizonDays ?? 365;
+  const daysOff = new Set(
+    (options.capacity.daysOff ?? []).map((date) => toIsoDate(date))
+  );
+
+  const queue = planningOrder(state, workflow).map((task) => ({
+    task,
+    remaining: task.estimate ?? defaultEstimate,
+  }));
+  const days: PlanDay[] = [];
+  const finishes = new Map<string, Date>();
+  const missed: MissedDeadline[] = [];
+  const start = startOfDay(options.start);
+
+  for (let offset = 0; offset < horizonDays && queue.length > 0; offset++) {
+    const date = new Date(start.getTime() + offset * DAY_MS);
+    const hours = daysOff.has(toIsoDate(date))
+      ? 0
+      : options.capacity.hoursPerWeekday[date.getUTCDay()] ?? 0;
+    const work: PlannedWork[] = [];
+    let available = hours;
+
+    while (available > 0 && queue.length > 0) {
+      const next = queue[0]!;
+      const spent = Math.min(available, next.remaining);
+      work.push({ task: next.task, hours: spent });
+      available -= spent;
+      next.remaining -= spent;
+
+      if (next.remaining <= 0) {
+        queue.shift();
+        finishes.set(next.task.id, date);
+        if (next.task.deadline && isOverdue(next.task, workflow, date)) {
+          missed.push({
+            task: next.task,
+            deadline: next.task.deadline,
+            finish: date,
+            daysLate: Math.ceil(
+              (date.getTime() - startOfDay(next.task.deadline).getTime()) /
+                DAY_MS
+            ),
+          });
+        }
+      }
+    }
+
+    days.push({ date, capacity: hours, work });
+  }
+
+  return {
+    ok: true,
+    value: {
+      days,
+      finishes,
+      missed,
+      unscheduled: queue.map((entry) => entry.task),
+    },
+  };
+};
+
+/**
+ * Describes a plan: one line per working day, then the missed deadlines.
+ */
+const formatPlan = (plan: Plan): ReadonlyArray<string> => [
+  ...plan.days
+    .filter((day) => day.work.length > 0)
+    .map(
+      (day) =>
+        `${toIsoDate(day.date)}: ${day.work
+          .map((work) => `${work.task.title} (${work.hours}h)`)
+          .join(", ")}`
+    ),
+  ...plan.missed.map(
+    (miss) =>
+      `Misses deadline: ${miss.task.title}, due ${toIsoDate(
+        miss.deadline
+      )}, done ${toIsoDate(miss.finish)} (${miss.daysLate} day(s) late)`
+  ),
+  ...plan.unscheduled.map(
+    (task) => `Not scheduled within the horizon: ${task.title}`
+  ),
+];
+
+export { planWork, formatPlan };
@@ -0,0 +1,175 @@
+import { recordChanges } from "./audit";
+import { defaultEnv } from "./environment";
+import { invalidField, notFound } from "./errors";
+import { Env, Result, Task, TaskError, TaskState } from "./types";
+
+const SEPARATOR = "/";
+
+/**
+ * Normalises a project path such as " backend / auth " into "backend/auth".
+ * Returns an error for empty paths or empty segments.
+ */
+const normalizeProjectPath = (path: string): Result<string, Error> => {
+  const segments = path.split(SEPARATOR).map((segment) => segment.trim());
+  return segments.some((segment) => segment === "")
+    ? { ok: false, error: new Error(`Invalid project path "${path}"`) }
+    : { ok: true, value: segments.join(SEPARATOR) };
+};
+
+/**
+ * Normalises a tag: surrounding whitespace and a leading "#" are dropped and
+ * tags are lowercase.
+ */
+const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#/, "").toLowerCase();
+
+/**
+ * Normalises and de-duplicates a list of tags. Returns an error for empty
+ * tags or tags containing whitespace.
+ */
+const normalizeTags = (
+  tags: ReadonlyArray<string>
+): Result<ReadonlyArray<string>, Error> => {
+  const normalized = tags.map(normalizeTag);
+  const invalid = normalized.findIndex((tag) => tag === "" || /\s/.test(tag));
+  return invalid === -1
+    ? { ok: true, value: [...new Set(normalized)] }
+    : { ok: false, error: new Error(`Invalid tag "${tags[invalid]}"`) };
+};
+
+/**
+ * Checks whether a task belongs to a project or one of its subprojects.
+ */
+const isInProject = (task: Task, path: string): boolean =>
+  task.project !== undefined &&
+  (task.project === path || task.project.startsWith(path + SEPARATOR));
+
+/**
+ * Lists a project and its ancestors, outermost first: "backend/auth" gives
+ * ["backend", "backend/auth"].
+ */
+const getProjectLineage = (path: string): ReadonlyArray<string> =>
+  path
+    .split(SEPARATOR)
+    .map((_segment, index, segments) =>
+      segments.slice(0, index + 1).join(SEPARATOR)
+    );
+
+/**
+ * Lists every project used by a task, including parent projects that have no
+ * task of their own, sorted.
+ */
+const getProjects = (state: Readonly<TaskState>): ReadonlyArray<string> =>
+  [
+    ...new Set(
+      state.tasks.flatMap((task) =>
+        task.project === undefined ? [] : getProjectLineage(task.project)
+      )
+    ),
+  ].sort();
+
+/**
+ * Lists every tag used by a task, sorted.
+ */
+const getTags = (state: Readonly<TaskState>): ReadonlyArray<string> =>
+  [...new Set(state.tasks.flatMap((task) => task.tags ?? []))].sort();
+
+/**
+ * Renames a project. Every task in the project or one of its subprojects is
+ * updated, so "backend" to "server" turns "backend/auth" into "server/auth".
+ * Returns an error if the project has no tasks or would move into itself.
+ */
+const renameProject = (
+  state: Readonly<TaskState>,
+  from: string,
+  to: string,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const source = normalizeProjectPath(from);
+  const target = normalizeProjectPath(to);
+  if (!source.ok) {
+    return { ok: false, error: invalidField("project", source.error.message) };
+  }
+  if (!target.ok) {
+    return { ok: false, error: invalidField("project", target.error.message) };
+  }
+
+  if (!state.tasks.some((task) => isInProject(task, source.value))) {
+    return {
+      ok: false,
+      error: notFound(
+        source.value,
+        "project",
+        `Project "${source.value}" not found`
+      ),
+    };
+  }
+
+  if (target.value.startsWith(source.value + SEPARATOR)) {
+    return {
+      ok: false,
+      error: invalidField(
+        "project",
+        `Cannot move project "${source.value}" into its own subproject`
+      ),
+    };
+  }
+
+  const now = env.clock();
+  return {
+    ok: true,
+    value: {
+      ...state,
+      tasks: state.tasks.map((task) =>
+        isInProject(task, source.value)
+          ? recordChanges(
+              task,
+              {
+                ...task,
+                project:
+                  target.value + task.project!.slice(source.value.length),
+              },
+              now,
+              env.actor
+            )
+          : task
+      ),
+    },
+  };
+};
+
+/**
+ * Moves a project under a new parent, or to the top level when the parent
+ * is null, keeping its name.
+ */
+const moveProject = (
+  state: Readonly<TaskState>,
+  path: string,
+  newParent: string | null,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const source = normalizeProjectPath(path);
+  if (!source.ok) {
+    return { ok: false, error: invalidField("project", source.error.message) };
+  }
+
+  const name = source.value.split(SEPARATOR).pop()!;
+  return renameProject(
+    state,
+    source.value,
+    newParent === null ? name : `${newParent}${SEPARATOR}${name}`,
+    env
+  );
+};
+
+export {
+  normalizeProjectPath,
+  normalizeTag,
+  normalizeTags,
+  isInProject,
+  getProjectLineage,
+  getProjects,
+  getTags,
+  renameProject,
+  moveProject,
+};
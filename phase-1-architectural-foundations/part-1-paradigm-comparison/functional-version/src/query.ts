@@ -0,0 +1,503 @@
+import {
+  exclude,
+  filterByAssignee,
+  filterByDeadlineBefore,
+  filterByDeadlineFrom,
+  filterByProject,
+  filterByStatus,
+  filterByTag,
+  filterByText,
+  filterUnassigned,
+  filterTasksByMaxPriority,
+  filterTasksByMinPriority,
+  take,
+} from "./composition";
+import { flow } from "fp-ts/function";
+import { sortByDeadline, sortByPriority } from "./task-operations";
+import { Result, Task, TaskState, TaskStatus, Visibility } from "./types";
+import { parseIsoDate } from "./utils";
+import { filterVisible, isArchived, isTrashed } from "./visibility";
+
+// Comparison operators accepted by priority and due terms. ":" is written as
+// "=" in the AST.
+export type Comparison = "=" | "<" | "<=" | ">" | ">=";
+
+// A single filter term of a query
+export type QueryFilter =
+  | {
+      readonly kind: "status";
+      readonly negated: boolean;
+      readonly status: TaskStatus;
+    }
+  | {
+      readonly kind: "priority";
+      readonly negated: boolean;
+      readonly op: Comparison;
+      readonly value: number;
+    }
+  | {
+      readonly kind: "due";
+      readonly negated: boolean;
+      readonly op: Comparison;
+      readonly date: Date;
+    }
+  | { readonly kind: "tag"; readonly negated: boolean; readonly tag: string }
+  | {
+      readonly kind: "project";
+      readonly negated: boolean;
+      readonly project: string;
+    }
+  | {
+      readonly kind: "assignee";
+      readonly negated: boolean;
+      // Null matches unassigned tasks, written "assignee:none"
+      readonly assignee: string | null;
+    }
+  | {
+      readonly kind: "is";
+      readonly negated: boolean;
+      // Written "is:archived" or "is:trashed"; asking for either shows
+      // the tasks a query leaves out by default
+      readonly flag: HiddenFlag;
+    }
+  | { readonly kind: "text"; readonly negated: boolean; readonly text: string };
+
+// Kinds of tasks left out of queries unless asked for
+export type HiddenFlag = "archived" | "trashed";
+
+export type QuerySort = "priority" | "deadline";
+
+// Parsed query
+export interface Query {
+  readonly filters: ReadonlyArray<QueryFilter>;
+  readonly sort?: QuerySort;
+  readonly limit?: number;
+}
+
+// Parse error pointing at the offending part of the input
+export interface QuerySyntaxError {
+  readonly message: string;
+  readonly position: number;
+  readonly length: number;
+}
+
+// Compiled query: a pipeline over a list of tasks
+export type TaskPipeline = (tasks: ReadonlyArray<Task>) => ReadonlyArray<Task>;
+
+interface Token {
+  readonly text: string;
+  readonly position: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const syntaxError = (
+  message: string,
+  position: number,
+  length = 1
+): Result<never, QuerySyntaxError> => ({
+  ok: false,
+  error: { message, position, length },
+});
+
+/**
+ * Finds the quote closing the one at `start`, skipping escaped characters.
+ * Returns -1 when the quote is not closed.
+ */
+const findClosingQuote = (input: string, start: number): number => {
+  for (let index = start + 1; index < input.length; index++) {
+    if (input[index] === "\\") index++;
+    else if (input[index] === '"') return index;
+  }
+  return -1;
+};
+
+/**
+ * Splits the input into whitespace-separated tokens. Double quotes group
+ * words into a single token; inside them a backslash escapes the next
+ * character, so `\"` stands for a quote.
+ */
+const tokenize = (
+  input: string
+): Result<ReadonlyArray<Token>, QuerySyntaxError> => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index]!)) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    while (index < input.length && !/\s/.test(input[index]!)) {
+      if (input[index] === '"') {
+        const closing = findClosingQuote(input, index);
+        if (closing === -1) {
+          return syntaxError("Unterminated quote", index, input.length - index);
+        }
+        index = closing + 1;
+      } else {
+        index++;
+      }
+    }
+
+    tokens.push({ text: input.slice(start, index), position: start });
+  }
+
+  return { ok: true, value: tokens };
+};
+
+/**
+ * Removes surrounding double quotes from a value and resolves the escapes
+ * inside them.
+ */
+const unquote = (value: string): string =>
+  value.length >= 2 && value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1).replace(/\\(.)/g, "$1")
+    : value;
+
+const TERM_PATTERN = /^([a-z]+)(>=|<=|:|=|<|>)(.*)$/;
+
+/**
+ * Parses a query string such as
+ * `status:pending priority>=4 due<2025-11-01 -status:completed sort:deadline limit:10`
+ * or `tag:urgent project:backend/auth assignee:alice` into a typed AST.
+ * Projects match their subprojects too and `assignee:none` matches
+ * unassigned tasks. `is:archived` and `is:trashed` match the tasks left out
+ * by default. Bare words and quoted strings search title and description.
+ */
+const parseQuery = (input: string): Result<Query, QuerySyntaxError> => {
+  const tokens = tokenize(input);
+  if (!tokens.ok) return tokens;
+
+  const filters: QueryFilter[] = [];
+  let sort: QuerySort | undefined;
+  let limit: number | undefined;
+
+  for (const token of tokens.value) {
+    const negated = token.text.startsWith("-") && token.text.length > 1;
+    const body = negated ? token.text.slice(1) : token.text;
+    const bodyPosition = token.position + (negated ? 1 : 0);
+    const match = TERM_PATTERN.exec(body);
+
+    if (!match || body.startsWith('"')) {
+      filters.push({ kind: "text", negated, text: unquote(body) });
+      continue;
+    }
+
+    const [, field = "", rawOp = "", rawValue = ""] = match;
+    const op: Comparison = rawOp === ":" ? "=" : (rawOp as Comparison);
+    const value = unquote(rawValue);
+    const valuePosition = bodyPosition + field.length + rawOp.length;
+
+    if (value === "") {
+      return syntaxError(`Missing value for "${field}"`, valuePosition);
+    }
+
+    const fail = (message: string) =>
+      syntaxError(message, valuePosition, rawValue.length);
+
+    switch (field) {
+      case "status":
+      case "tag":
+      case "project":
+      case "assignee":
+      case "is":
+        if (op !== "=") {
+          return syntaxError(
+            `${field[0]!.toUpperCase()}${field.slice(1)} only supports ":"`,
+            bodyPosition + field.length,
+            rawOp.length
+          );
+        }
+        if (field === "is" && value !== "archived" && value !== "trashed") {
+          return fail('Is must be "archived" or "trashed"');
+        }
+        filters.push(
+          field === "status"
+            ? { kind: "status", negated, status: value }
+            : field === "tag"
+            ? { kind: "tag", negated, tag: value }
+            : field === "project"
+            ? { kind: "project", negated, project: value }
+            : field === "is"
+            ? { kind: "is", negated, flag: value as HiddenFlag }
+            : {
+                kind: "assignee",
+                negated,
+                // A quoted "none" names an assignee called none
+                assignee: rawValue === "none" ? null : value,
+              }
+        );
+        break;
+
+      case "priority": {
+        const priority = Number(value);
+        if (!Number.isInteger(priority) || priority < 1 || priority > 5) {
+          return fail("Priority must be an integer between 1 and 5");
+        }
+        filters.push({ kind: "priority", negated, op, value: priority });
+        break;
+      }
+
+      case "due": {
+        const date = parseIsoDate(value);
+        if (!date) {
+          return fail("Due date must be formatted as YYYY-MM-DD");
+        }
+        filters.push({ kind: "due", negated, op, date });
+        break;
+      }
+
+      case "sort":
+      case "limit": {
+        if (negated || op !== "=") {
+          return syntaxError(
+            `"${field}" cannot be negated or compared`,
+            token.position,
+            token.text.length
+          );
+        }
+        if ((field === "sort" ? sort : limit) !== undefined) {
+          return syntaxError(
+            `Duplicate "${field}"`,
+            token.position,
+            token.text.length
+          );
+        }
+        if (field === "sort") {
+          if (value !== "priority" && value !== "deadline") {
+            return fail('Sort must be "priority" or "deadline"');
+          }
+          sort = value;
+        } else {
+          const n = Number(value);
+          if (!Number.isInteger(n) || n < 0) {
+            return fail("Limit must be a non-negative integer");
+          }
+          limit = n;
+        }
+        break;
+      }
+
+      default:
+        return syntaxError(
+          `Unknown field "${field}"`,
+          bodyPosition,
+          field.length
+        );
+    }
+  }
+
+  return {
+    ok: true,
+    value: {
+      filters,
+      ...(sort !== undefined && { sort }),
+      ...(limit !== undefined && { limit }),
+    },
+  };
+};
+
+/**
+ * Builds the combinator for a priority comparison. Priorities are integers,
+ * so strict comparisons shift the bound by one.
+ */
+const comparePriority = (op: Comparison, value: number): TaskPipeline => {
+  switch (op) {
+    case "=":
+      return flow(
+        filterTasksByMinPriority(value),
+        filterTasksByMaxPriority(value)
+      );
+    case ">=":
+      return filterTasksByMinPriority(value);
+    case ">":
+      return filterTasksByMinPriority(value + 1);
+    case "<=":
+      return filterTasksByMaxPriority(value);
+    case "<":
+      return filterTasksByMaxPriority(value - 1);
+  }
+};
+
+/**
+ * Builds the combinator for a due date comparison. Dates are whole days, so
+ * `due<=d` includes all of day d and `due:d` matches that day only.
+ */
+const compareDue = (op: Comparison, date: Date): TaskPipeline => {
+  const nextDay = new Date(date.getTime() + DAY_MS);
+  switch (op) {
+    case "=":
+      return flow(filterByDeadlineFrom(date), filterByDeadlineBefore(nextDay));
+    case "<":
+      return filterByDeadlineBefore(date);
+    case "<=":
+      return filterByDeadlineBefore(nextDay);
+    case ">":
+      return filterByDeadlineFrom(nextDay);
+    case ">=":
+      return filterByDeadlineFrom(date);
+  }
+};
+
+/**
+ * Maps a filter term onto the composition combinators.
+ */
+const compileFilter = (filter: QueryFilter): TaskPipeline => {
+  const positive = ((): TaskPipeline => {
+    switch (filter.kind) {
+      case "status":
+        return filterByStatus(filter.status);
+      case "priority":
+        return comparePriority(filter.op, filter.value);
+      case "due":
+        return compareDue(filter.op, filter.date);
+      case "tag":
+        return filterByTag(filter.tag);
+      case "project":
+        return filterByProject(filter.project);
+      case "assignee":
+        return filter.assignee === null
+          ? filterUnassigned
+          : filterByAssignee(filter.assignee);
+      case "is":
+        return (tasks) =>
+          tasks.filter(filter.flag === "archived" ? isArchived : isTrashed);
+      case "text":
+        return filterByText(filter.text);
+    }
+  })();
+
+  return filter.negated ? exclude(positive) : positive;
+};
+
+/**
+ * Compiles a query into a pipeline: every filter in order, then the sort,
+ * then the limit.
+ */
+const compileQuery = (query: Query): TaskPipeline => {
+  const steps: TaskPipeline[] = query.filters.map(compileFilter);
+
+  if (query.sort === "priority") steps.push(sortByPriority);
+  if (query.sort === "deadline") steps.push(sortByDeadline);
+  if (query.limit !== undefined) steps.push(take(query.limit));
+
+  return (tasks) => steps.reduce((current, step) => step(current), tasks);
+};
+
+/**
+ * Tells which hidden tasks a query runs over: the ones the visibility asks
+ * for, and the ones an `is:` term asks for.
+ */
+const queryVisibility = (query: Query, visibility: Visibility): Visibility => {
+  const asks = (flag: HiddenFlag) =>
+    query.filters.some(
+      (filter) =>
+        filter.kind === "is" && !filter.negated && filter.flag === flag
+    );
+  return {
+    archived: visibility.archived === true || asks("archived"),
+    trashed: visibility.trashed === true || asks("trashed"),
+  };
+};
+
+/**
+ * Parses and runs a query against the tasks of the state. Archived and
+ * trashed tasks are left out unless the visibility or the query asks for
+ * them.
+ */
+const runQuery = (
+  state: Readonly<TaskState>,
+  input: string,
+  visibility: Visibility = {}
+): Result<ReadonlyArray<Task>, QuerySyntaxError> => {
+  const query = parseQuery(input);
+  if (!query.ok) return query;
+
+  const tasks = filterVisible(queryVisibility(query.value, visibility))(
+    state.tasks
+  );
+  return { ok: true, value: compileQuery(query.value)(tasks) };
+};
+
+/**
+ * Quotes a value when it would not survive tokenizing on its own, escaping
+ * the quotes and backslashes inside it.
+ */
+const quoteIfNeeded = (value: string): string =>
+  /[\s"]/.test(value) || value.startsWith("-") || TERM_PATTERN.test(value)
+    ? `"${value.replace(/["\\]/g, "\\$&")}"`
+    : value;
+
+/**
+ * Prints a single filter term.
+ */
+const printFilter = (filter: QueryFilter): string => {
+  const prefix = filter.negated ? "-" : "";
+  const op = (comparison: Comparison) =>
+    comparison === "=" ? ":" : comparison;
+
+  switch (filter.kind) {
+    case "status":
+      return `${prefix}status:${quoteIfNeeded(filter.status)}`;
+    case "priority":
+      return `${prefix}priority${op(filter.op)}${filter.value}`;
+    case "due":
+      return `${prefix}due${op(filter.op)}${filter.date
+        .toISOString()
+        .slice(0, 10)}`;
+    case "tag":
+      return `${prefix}tag:${quoteIfNeeded(filter.tag)}`;
+    case "project":
+      return `${prefix}project:${quoteIfNeeded(filter.project)}`;
+    case "assignee":
+      return `${prefix}assignee:${
+        filter.assignee === null
+          ? "none"
+          : filter.assignee === "none"
+          ? '"none"'
+          : quoteIfNeeded(filter.assignee)
+      }`;
+    case "is":
+      return `${prefix}is:${filter.flag}`;
+    case "text":
+      return `${prefix}${quoteIfNeeded(filter.text)}`;
+  }
+};
+
+/**
+ * Prints the term matching a status, quoted as needed, for callers that
+ * combine a status option with a query typed by the user.
+ */
+const statusTerm = (status: TaskStatus): string =>
+  printFilter({ kind: "status", negated: false, status });
+
+/**
+ * Prints a query back into its text form. Parsing the output yields an
+ * equivalent query, so printed queries can be saved and reloaded.
+ */
+const printQuery = (query: Query): string =>
+  [
+    ...query.filters.map(printFilter),
+    ...(query.sort !== undefined ? [`sort:${query.sort}`] : []),
+    ...(query.limit !== undefined ? [`limit:${query.limit}`] : []),
+  ].join(" ");
+
+/**
+ * Formats a syntax error with a caret line pointing at its position.
+ */
+const formatQueryError = (input: string, error: QuerySyntaxError): string =>
+  `${error.message} at position ${error.position}\n${input}\n${" ".repeat(
+    error.position
+  )}${"^".repeat(Math.max(1, error.length))}`;
+
+export {
+  parseQuery,
+  compileQuery,
+  runQuery,
+  printQuery,
+  statusTerm,
+  formatQueryError,
+};
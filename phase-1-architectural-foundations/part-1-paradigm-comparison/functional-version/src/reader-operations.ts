@@ -0,0 +1,147 @@
+import * as R from "fp-ts/Reader";
+import * as RE from "fp-ts/ReaderEither";
+import { toEither } from "./errors";
+import * as ops from "./task-operations";
+import {
+  ChildPolicy,
+  Env,
+  Task,
+  TaskError,
+  TaskState,
+  TaskStatistics,
+  TaskStatus,
+  TaskUpdate,
+  TransitionOptions,
+  Workflow,
+} from "./types";
+import { defaultWorkflow } from "./workflow";
+
+// The operations that read the clock or generate ids, as data-last Readers
+// of the environment. Operations that can fail read into an Either of
+// TaskError. Chain them and run the result with an Env:
+//
+//   pipe(
+//     RE.right(createInitialState()),
+//     RE.chain(addTask("Write report", "", 3)),
+//     RE.chain(markInProgress("task-1"))
+//   )(createTestEnv(new Date("2025-01-01")))
+
+/**
+ * Adds a new task, with its id and creation date taken from the environment.
+ */
+const addTask =
+  (title: string, description: string, priority: number, deadline?: Date) =>
+  (state: Readonly<TaskState>): RE.ReaderEither<Env, TaskError, TaskState> =>
+  (env) =>
+    toEither(ops.addTask(state, title, description, priority, deadline, env));
+
+/**
+ * Updates the fields of a task, recording the changes at the environment's
+ * current time.
+ */
+const updateTask =
+  (taskId: string, update: TaskUpdate) =>
+  (state: Readonly<TaskState>): RE.ReaderEither<Env, TaskError, TaskState> =>
+  (env) =>
+    toEither(ops.updateTask(state, taskId, update, env));
+
+/**
+ * Removes a task, with its subtasks handled by the policy. Tasks edited as
+ * a result record the change at the environment's current time.
+ */
+const removeTask =
+  (taskId: string, children: ChildPolicy = "orphan") =>
+  (state: Readonly<TaskState>): RE.ReaderEither<Env, TaskError, TaskState> =>
+  (env) =>
+    toEither(ops.removeTask(state, taskId, children, env));
+
+/**
+ * Sets the priority of several tasks, recording the changes at the
+ * environment's current time.
+ */
+const updatePriorities =
+  (taskIds: string[], priority: number) =>
+  (state: Readonly<TaskState>): RE.ReaderEither<Env, TaskError, TaskState> =>
+  (env) =>
+    toEither(ops.updatePriorities(state, taskIds, priority, env));
+
+/**
+ * Moves a task to another status at the environment's current time.
+ */
+const transitionTask =
+  (
+    taskId: string,
+    to: TaskStatus,
+    workflow: Workflow = defaultWorkflow,
+    options: TransitionOptions = {}
+  ) =>
+  (state: Readonly<TaskState>): RE.ReaderEither<Env, TaskError, TaskState> =>
+  (env) =>
+    toEither(ops.transitionTask(state, taskId, to, workflow, options, env));
+
+/**
+ * Marks a task as in progress at the environment's current time.
+ */
+const markInProgress =
+  (taskId: string, workflow: Workflow = defaultWorkflow) =>
+  (state: Readonly<TaskState>): RE.ReaderEither<Env, TaskError, TaskState> =>
+  (env) =>
+    toEither(ops.markInProgress(state, taskId, workflow, env));
+
+/**
+ * Completes a task at the environment's current time. The next occurrence of
+ * a recurring task gets a generated id.
+ */
+const markCompleted =
+  (
+    taskId: string,
+    workflow: Workflow = defaultWorkflow,
+    options: TransitionOptions = {}
+  ) =>
+  (state: Readonly<TaskState>): RE.ReaderEither<Env, TaskError, TaskState> =>
+  (env) =>
+    toEither(ops.markCompleted(state, taskId, workflow, options, env));
+
+/**
+ * Completes several tasks at the environment's current time.
+ */
+const markMultipleCompleted =
+  (
+    taskIds: string[],
+    workflow: Workflow = defaultWorkflow,
+    options: TransitionOptions = {}
+  ) =>
+  (state: Readonly<TaskState>): RE.ReaderEither<Env, TaskError, TaskState> =>
+  (env) =>
+    toEither(ops.markMultipleCompleted(state, taskIds, workflow, options, env));
+
+/**
+ * Retrieves the tasks overdue at the environment's current time.
+ */
+const getOverdueTasks =
+  (workflow: Workflow = defaultWorkflow) =>
+  (state: Readonly<TaskState>): R.Reader<Env, ReadonlyArray<Task>> =>
+  (env) =>
+    ops.getOverdueTasks(state, workflow, env);
+
+/**
+ * Gathers statistics at the environment's current time.
+ */
+const getStatistics =
+  (workflow: Workflow = defaultWorkflow) =>
+  (state: Readonly<TaskState>): R.Reader<Env, TaskStatistics> =>
+  (env) =>
+    ops.getStatistics(state, workflow, env);
+
+export {
+  addTask,
+  updateTask,
+  removeTask,
+  updatePriorities,
+  transitionTask,
+  markInProgress,
+  markCompleted,
+  markMultipleCompleted,
+  getOverdueTasks,
+  getStatistics,
+};
@@ -0,0 +1,194 @@
+import { randomIds } from "./environment";
+import { IdGenerator, RecurrenceRule, Result, Task } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Adds a number of whole days to a date.
+ */
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Returns the number of days in the given UTC month.
+ */
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Builds the date on `day` of the given UTC month, keeping the time of day of
+ * `time`. Days past the end of the month are clamped to its last day.
+ */
+const onDayOfMonth = (
+  year: number,
+  month: number,
+  day: number,
+  time: Date
+): Date =>
+  new Date(
+    Date.UTC(
+      year,
+      month,
+      Math.min(day, daysInMonth(year, month)),
+      time.getUTCHours(),
+      time.getUTCMinutes(),
+      time.getUTCSeconds(),
+      time.getUTCMilliseconds()
+    )
+  );
+
+/**
+ * Validates a recurrence rule.
+ */
+const validateRecurrenceRule = (
+  rule: RecurrenceRule
+): Result<RecurrenceRule> => {
+  const { frequency } = rule;
+
+  if (
+    frequency.kind === "weekly" &&
+    (frequency.weekdays.length === 0 ||
+      !frequency.weekdays.every((d) => Number.isInteger(d) && d >= 0 && d <= 6))
+  ) {
+    return {
+      ok: false,
+      error: new Error("Weekly recurrence needs weekdays between 0 and 6"),
+    };
+  }
+
+  if (
+    frequency.kind === "monthly" &&
+    (!Number.isInteger(frequency.dayOfMonth) ||
+      frequency.dayOfMonth < 1 ||
+      frequency.dayOfMonth > 31)
+  ) {
+    return {
+      ok: false,
+      error: new Error("Day of month must be between 1 and 31"),
+    };
+  }
+
+  if (
+    frequency.kind === "interval" &&
+    (!Number.isInteger(frequency.days) || frequency.days < 1)
+  ) {
+    return {
+      ok: false,
+      error: new Error("Recurrence interval must be at least one day"),
+    };
+  }
+
+  if (
+    rule.count !== undefined &&
+    (!Number.isInteger(rule.count) || rule.count < 1)
+  ) {
+    return {
+      ok: false,
+      error: new Error("Occurrence count must be a positive integer"),
+    };
+  }
+
+  return { ok: true, value: rule };
+};
+
+/**
+ * Computes the first date strictly after `from` matching the rule, ignoring
+ * the end conditions.
+ */
+const nextOccurrenceDate = (rule: RecurrenceRule, from: Date): Date => {
+  const { frequency } = rule;
+
+  switch (frequency.kind) {
+    case "daily":
+      return addDays(from, 1);
+
+    case "interval":
+      return addDays(from, frequency.days);
+
+    case "weekly": {
+      for (let offset = 1; offset <= 7; offset++) {
+        const candidate = addDays(from, offset);
+        if (frequency.weekdays.includes(candidate.getUTCDay())) {
+          return candidate;
+        }
+      }
+      return addDays(from, 7);
+    }
+
+    case "monthly": {
+      const sameMonth = onDayOfMonth(
+        from.getUTCFullYear(),
+        from.getUTCMonth(),
+        frequency.dayOfMonth,
+        from
+      );
+      return sameMonth > from
+        ? sameMonth
+        : onDayOfMonth(
+            from.getUTCFullYear(),
+            from.getUTCMonth() + 1,
+            frequency.dayOfMonth,
+            from
+          );
+    }
+  }
+};
+
+/**
+ * Creates the occurrence following a completed recurring task, or null if the
+ * task does not recur or its series has ended. The next deadline is computed
+ * from the current deadline, or from the completion date when the task has
+ * none. The occurrence keeps the tags, project, assignees and parent and
+ * gets a fresh, unchecked copy of the checklist. It keeps the reminder rules
+ * too: they count from the deadline, so they fire again before the new one.
+ */
+const createNextOccurrence = (
+  task: Task,
+  now: Date = new Date(),
+  generateId: IdGenerator = randomIds
+): Task | null => {
+  if (!task.recurrence) {
+    return null;
+  }
+
+  const occurrence = task.occurrence ?? 1;
+  const { count, until } = task.recurrence;
+  if (count !== undefined && occurrence >= count) {
+    return null;
+  }
+
+  const deadline = nextOccurrenceDate(
+    task.recurrence,
+    task.deadline ?? task.completedAt ?? now
+  );
+  if (until !== undefined && deadline > until) {
+    return null;
+  }
+
+  return {
+    id: generateId(),
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    estimate: task.estimate,
+    tags: task.tags,
+    project: task.project,
+    assignees: task.assignees,
+    status: "pending",
+    createdAt: now,
+    deadline,
+    completedAt: undefined,
+    recurrence: task.recurrence,
+    seriesId: task.seriesId ?? task.id,
+    occurrence: occurrence + 1,
+    parentId: task.parentId,
+    reminders: task.reminders,
+    checklist: task.checklist?.map((item) => ({
+      ...item,
+      id: generateId(),
+      done: false,
+    })),
+  };
+};
+
+export { validateRecurrenceRule, nextOccurrenceDate, createNextOccurrence };
@@ -0,0 +1,137 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import {
+  Reminder,
+  ReminderSink,
+  formatReminderRule,
+  formatReminder,
+} from "./reminders";
+import { RawRecord } from "./repository";
+import { toError } from "./utils";
+
+// Options of the webhook sink
+export interface WebhookOptions {
+  // Attempts after the first one before giving up
+  readonly retries?: number;
+  // Wait before the first retry; doubled for every further retry
+  readonly retryDelayMs?: number;
+  // Time an attempt may take before it is aborted and counted as failed
+  readonly timeoutMs?: number;
+  readonly headers?: { readonly [name: string]: string };
+  // Injected in tests; the global fetch by default
+  readonly fetch?: typeof fetch;
+}
+
+/**
+ * Converts a reminder into the JSON record the file and webhook sinks send.
+ */
+const toPayload = (reminder: Reminder): RawRecord => ({
+  key: reminder.key,
+  rule: formatReminderRule(reminder.rule),
+  at: reminder.at.toISOString(),
+  message: formatReminder(reminder),
+  task: {
+    id: reminder.task.id,
+    title: reminder.task.title,
+    priority: reminder.task.priority,
+    status: reminder.task.status,
+    deadline: reminder.task.deadline?.toISOString(),
+  },
+});
+
+/**
+ * Creates a sink printing one line per reminder.
+ */
+const createConsoleSink = (
+  log: (line: string) => void = console.log
+): ReminderSink => ({
+  name: "console",
+  deliver: async (reminder) => {
+    log(`Reminder: ${formatReminder(reminder)}`);
+    return { ok: true, value: undefined };
+  },
+});
+
+/**
+ * Creates a sink appending every reminder to a file as a JSON line.
+ */
+const createFileSink = (filePath: string): ReminderSink => ({
+  name: `file:${filePath}`,
+  deliver: async (reminder) => {
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.appendFile(
+        filePath,
+        `${JSON.stringify(toPayload(reminder))}\n`,
+        "utf8"
+      );
+      return { ok: true, value: undefined };
+    } catch (error) {
+      return { ok: false, error: toError(error) };
+    }
+  },
+});
+
+const wait = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Tells whether a failed response may succeed when sent again: server
+ * errors, timeouts and rate limiting. Other client errors will not.
+ */
+const isRetryable = (status: number): boolean =>
+  status >= 500 || status === 408 || status === 429;
+
+/**
+ * Creates a sink posting every reminder as JSON to a URL. Network errors,
+ * attempts running past `timeoutMs` and retryable responses are retried with
+ * a doubling delay; the delivery fails once the retries are used up or on
+ * any other error response.
+ */
+const createWebhookSink = (
+  url: string,
+  options: WebhookOptions = {}
+): ReminderSink => {
+  const retries = options.retries ?? 3;
+  const retryDelayMs = options.retryDelayMs ?? 500;
+  const timeoutMs = options.timeoutMs ?? 10000;
+  const send = options.fetch ?? fetch;
+
+  return {
+    name: `webhook:${url}`,
+    deliver: async (reminder) => {
+      const body = JSON.stringify(toPayload(reminder));
+      let error = new Error(`Webhook ${url} was not called`);
+
+      for (let attempt = 0; attempt <= retries; attempt++) {
+        if (attempt > 0) await wait(retryDelayMs * 2 ** (attempt - 1));
+
+        try {
+          const response = await send(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...options.headers },
+            body,
+            signal: AbortSignal.timeout(timeoutMs),
+          });
+          // The answer is not read; cancelling it frees the connection
+          await response.body?.cancel();
+          if (response.ok) return { ok: true, value: undefined };
+
+          error = new Error(`Webhook ${url} answered ${response.status}`);
+          if (!isRetryable(response.status)) break;
+        } catch (thrown) {
+          error =
+            (thrown as { name?: unknown }).name === "TimeoutError"
+              ? new Error(
+                  `Webhook ${url} did not answer within ${timeoutMs} ms`
+                )
+              : toError(thrown);
+        }
+      }
+
+      return { ok: false, error };
+    },
+  };
+};
+
+export { toPayload, createConsoleSink, createFileSink, createWebhookSink };
@@ -0,0 +1,429 @@
+import { promises as fs } from "fs";
+import { recordChanges } from "./audit";
+import { defaultEnv } from "./environment";
+import { invalidField, notFound } from "./errors";
+import { RawRecord, reviveDate, writeFileAtomic } from "./repository";
+import { findTask, getTasksWithStatus, putTask } from "./task-index";
+import {
+  Env,
+  ReminderRule,
+  Result,
+  Task,
+  TaskError,
+  TaskState,
+  Workflow,
+} from "./types";
+import { toError } from "./utils";
+import { isTrashed } from "./visibility";
+import { defaultWorkflow, isDoneStatus } from "./workflow";
+
+// A reminder of a task's deadline, due at `at`
+export interface Reminder {
+  // Identifies the reminder across runs. It includes the deadline, so moving
+  // the deadline arms the reminder again.
+  readonly key: string;
+  readonly task: Task;
+  readonly rule: ReminderRule;
+  readonly at: Date;
+}
+
+// What the reminder runs delivered and what was snoozed
+export interface ReminderLog {
+  // Names of the sinks each reminder reached, by reminder key
+  readonly delivered: { readonly [key: string]: ReadonlyArray<string> };
+  // Time each snoozed reminder is put off until, by reminder key
+  readonly snoozed: { readonly [key: string]: Date };
+  // End of the window of the last run
+  readonly checkedUntil?: Date;
+}
+
+// Delivers reminders somewhere: the console, a file, a webhook...
+export interface ReminderSink {
+  readonly name: string;
+  readonly deliver: (reminder: Reminder) => Promise<Result<void>>;
+}
+
+// A reminder a sink failed to deliver
+export interface DeliveryFailure {
+  readonly reminder: Reminder;
+  readonly sink: string;
+  readonly error: Error;
+}
+
+// Outcome of delivering reminders
+export interface ReminderRun {
+  readonly log: ReminderLog;
+  // Reminders every sink received
+  readonly delivered: ReadonlyArray<Reminder>;
+  readonly failures: ReadonlyArray<DeliveryFailure>;
+}
+
+// Storage for the reminder log
+export interface ReminderLogStore {
+  readonly load: () => Promise<Result<ReminderLog>>;
+  readonly save: (log: ReminderLog) => Promise<Result<void>>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MINUTES = 60;
+const DAY_MINUTES = 24 * HOUR_MINUTES;
+
+// Minutes per unit of a parsed rule
+const UNIT_MINUTES: { readonly [unit: string]: number } = {
+  m: 1,
+  h: HOUR_MINUTES,
+  d: DAY_MINUTES,
+};
+
+// One day before, one hour before and once overdue
+const defaultReminderRules: ReadonlyArray<ReminderRule> = [
+  { kind: "before", minutes: DAY_MINUTES },
+  { kind: "before", minutes: HOUR_MINUTES },
+  { kind: "overdue" },
+];
+
+/**
+ * Creates a log with nothing delivered or snoozed.
+ */
+const createReminderLog = (): ReminderLog => ({ delivered: {}, snoozed: {} });
+
+/**
+ * Formats a rule the way parseReminderRule reads it: "1d", "2h", "30m" or
+ * "overdue".
+ */
+const formatReminderRule = (rule: ReminderRule): string => {
+  if (rule.kind === "overdue") return "overdue";
+  if (rule.minutes % DAY_MINUTES === 0) return `${rule.minutes / DAY_MINUTES}d`;
+  if (rule.minutes % HOUR_MINUTES === 0) {
+    return `${rule.minutes / HOUR_MINUTES}h`;
+  }
+  return `${rule.minutes}m`;
+};
+
+/**
+ * Parses a rule such as "1d", "2h", "30m" or "overdue".
+ */
+const parseReminderRule = (text: string): Result<ReminderRule, Error> => {
+  if (text.trim() === "overdue") {
+    return { ok: true, value: { kind: "overdue" } };
+  }
+
+  const match = /^(\d+)([mhd])$/.exec(text.trim());
+  const amount = Number(match?.[1]);
+  if (!match || amount === 0) {
+    return {
+      ok: false,
+      error: new Error(
+        `Invalid reminder "${text}": use e.g. 1d, 2h, 30m or overdue`
+      ),
+    };
+  }
+
+  const minutes = amount * UNIT_MINUTES[match[2]!]!;
+  return { ok: true, value: { kind: "before", minutes } };
+};
+
+/**
+ * Sets the reminder rules of a task, or goes back to the default rules with
+ * null. Returns an error if the task is not found or a rule is invalid.
+ */
+const setReminders = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  rules: ReadonlyArray<ReminderRule> | null,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const task = findTask(state, taskId);
+  if (!task) {
+    return { ok: false, error: notFound(taskId) };
+  }
+
+  const invalid = (rules ?? []).find(
+    (rule) =>
+      rule.kind === "before" &&
+      !(Number.isInteger(rule.minutes) && rule.minutes > 0)
+  );
+  if (invalid) {
+    return {
+      ok: false,
+      error: invalidField(
+        "reminders",
+        "Reminders must fire a whole positive number of minutes before the deadline"
+      ),
+    };
+  }
+
+  return {
+    ok: true,
+    value: putTask(
+      state,
+      recordChanges(
+        task,
+        { ...task, reminders: rules ?? undefined },
+        env.clock(),
+        env.actor
+      )
+    ),
+  };
+};
+
+/**
+ * Lists the reminders of a task, whether due or not. Tasks without a
+ * deadline have none.
+ */
+const getTaskReminders = (
+  task: Task,
+  defaults: ReadonlyArray<ReminderRule> = defaultReminderRules
+): ReadonlyArray<Reminder> => {
+  const deadline = task.deadline;
+  if (!deadline) return [];
+
+  return (task.reminders ?? defaults).map((rule) => ({
+    key: `${task.id}/${formatReminderRule(rule)}/${deadline.toISOString()}`,
+    task,
+    rule,
+    at:
+      rule.kind === "overdue"
+        ? deadline
+        : new Date(deadline.getTime() - rule.minutes * MINUTE_MS),
+  }));
+};
+
+/**
+ * Gets the time a reminder fires, its snooze end if it was snoozed.
+ */
+const firesAt = (reminder: Reminder, log: ReminderLog): Date => {
+  const snoozed = log.snoozed[reminder.key];
+  return snoozed && snoozed > reminder.at ? snoozed : reminder.at;
+};
+
+/**
+ * Computes the reminders due in the window from `from` (included) to `to`
+ * (excluded). A snoozed reminder is due when its snooze ends. Reminders of
+ * done or trashed tasks are never due. When several reminders of a task are due, only
+ * the latest one is, and once the deadline has passed by the end of the
+ * window only the overdue reminder is: a warning that the deadline is coming
+ * would be late.
+ */
+const getDueReminders = (
+  state: Readonly<TaskState>,
+  log: ReminderLog,
+  from: Date,
+  to: Date,
+  defaults: ReadonlyArray<ReminderRule> = defaultReminderRules,
+  workflow: Workflow = defaultWorkflow
+): ReadonlyArray<Reminder> =>
+  getTasksWithStatus(state, (status) => !isDoneStatus(status, workflow))
+    .filter((task) => !isTrashed(task))
+    .flatMap((task) => {
+      const latest = getTaskReminders(task, defaults)
+        .filter(
+          (reminder) => reminder.rule.kind === "overdue" || task.deadline! >= to
+        )
+        .filter((reminder) => {
+          const at = firesAt(reminder, log);
+          return at >= from && at < to;
+        })
+        .sort((a, b) => b.at.getTime() - a.at.getTime())[0];
+      return latest ? [{ ...latest, at: firesAt(latest, log) }] : [];
+    })
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+/**
+ * Puts a reminder off until the given time. It is delivered again then, even
+ * if it was delivered already.
+ */
+const snoozeReminder = (
+  log: ReminderLog,
+  key: string,
+  until: Date
+): ReminderLog => {
+  const { [key]: _delivered, ...delivered } = log.delivered;
+  return { ...log, delivered, snoozed: { ...log.snoozed, [key]: until } };
+};
+
+/**
+ * Puts off every reminder of a task that fires before `until`, so the latest
+ * of them is delivered again then. Returns an error if the task is not found
+ * or has no deadline.
+ */
+const snoozeTaskReminders = (
+  state: Readonly<TaskState>,
+  log: ReminderLog,
+  taskId: string,
+  until: Date,
+  defaults: ReadonlyArray<ReminderRule> = defaultReminderRules
+): Result<ReminderLog, TaskError> => {
+  const task = findTask(state, taskId);
+  if (!task) {
+    return { ok: false, error: notFound(taskId) };
+  }
+  if (!task.deadline) {
+    return {
+      ok: false,
+      error: invalidField("deadline", "Task has no deadline to remind of"),
+    };
+  }
+
+  return {
+    ok: true,
+    value: getTaskReminders(task, defaults)
+      .filter((reminder) => reminder.at < until)
+      .reduce(
+        (next, reminder) => snoozeReminder(next, reminder.key, until),
+        log
+      ),
+  };
+};
+
+/**
+ * Delivers reminders to every sink, skipping the sinks a reminder already
+ * reached. A reminder that some sink failed to receive is snoozed until
+ * `retryAt`, so a later run tries those sinks again.
+ */
+const deliverReminders = async (
+  reminders: ReadonlyArray<Reminder>,
+  sinks: ReadonlyArray<ReminderSink>,
+  log: ReminderLog,
+  retryAt: Date
+): Promise<ReminderRun> => {
+  let next = log;
+  const delivered: Reminder[] = [];
+  const failures: DeliveryFailure[] = [];
+
+  for (const reminder of reminders) {
+    const reached = [...(next.delivered[reminder.key] ?? [])];
+    const pending = sinks.filter((sink) => !reached.includes(sink.name));
+    if (pending.length === 0) continue;
+    let failed = false;
+
+    for (const sink of pending) {
+      const result = await sink.deliver(reminder);
+      if (result.ok) {
+        reached.push(sink.name);
+      } else {
+        failed = true;
+        failures.push({ reminder, sink: sink.name, error: result.error });
+      }
+    }
+
+    const { [reminder.key]: _snoozed, ...snoozed } = next.snoozed;
+    next = {
+      ...next,
+      delivered: { ...next.delivered, [reminder.key]: reached },
+      snoozed: failed ? { ...snoozed, [reminder.key]: retryAt } : snoozed,
+    };
+    if (!failed) delivered.push(reminder);
+  }
+
+  return { log: next, delivered, failures };
+};
+
+/**
+ * Delivers the reminders due since the previous run, up to `to`. The first
+ * run covers everything before `to`. The returned log records the run and
+ * should be kept for the next one.
+ */
+const runReminders = async (
+  state: Readonly<TaskState>,
+  log: ReminderLog,
+  sinks: ReadonlyArray<ReminderSink>,
+  to: Date,
+  defaults: ReadonlyArray<ReminderRule> = defaultReminderRules,
+  workflow: Workflow = defaultWorkflow
+): Promise<ReminderRun> => {
+  const due = getDueReminders(
+    state,
+    log,
+    log.checkedUntil ?? new Date(0),
+    to,
+    defaults,
+    workflow
+  );
+  const run = await deliverReminders(due, sinks, log, to);
+  return { ...run, log: { ...run.log, checkedUntil: to } };
+};
+
+/**
+ * Describes a reminder in a sentence, e.g. `"Write report" is due in 1h`.
+ */
+const formatReminder = (reminder: Reminder): string =>
+  reminder.rule.kind === "overdue"
+    ? `"${
+        reminder.task.title
+      }" is overdue since ${reminder.task.deadline!.toISOString()}`
+    : `"${reminder.task.title}" is due in ${formatReminderRule(
+        reminder.rule
+      )} (${reminder.task.deadline!.toISOString()})`;
+
+/**
+ * Parses a log written by createFileReminderLogStore.
+ */
+const deserializeReminderLog = (raw: unknown): Result<ReminderLog> => {
+  const record = (raw ?? {}) as RawRecord;
+  const snoozed: { [key: string]: Date } = {};
+  for (const [key, value] of Object.entries(
+    (record["snoozed"] ?? {}) as RawRecord
+  )) {
+    const until = reviveDate(value, `snoozed.${key}`);
+    if (!until.ok) return until;
+    if (until.value) snoozed[key] = until.value;
+  }
+
+  const checkedUntil = reviveDate(record["checkedUntil"], "checkedUntil");
+  if (!checkedUntil.ok) return checkedUntil;
+
+  return {
+    ok: true,
+    value: {
+      delivered: (record["delivered"] ?? {}) as ReminderLog["delivered"],
+      snoozed,
+      checkedUntil: checkedUntil.value,
+    },
+  };
+};
+
+/**
+ * Creates a store keeping the reminder log in a JSON file. A missing file
+ * loads as an empty log; saves are atomic.
+ */
+const createFileReminderLogStore = (filePath: string): ReminderLogStore => ({
+  load: async () => {
+    try {
+      return deserializeReminderLog(
+        JSON.parse(await fs.readFile(filePath, "utf8"))
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { ok: true, value: createReminderLog() };
+      }
+      return { ok: false, error: toError(error) };
+    }
+  },
+
+  save: async (log) => {
+    try {
+      await writeFileAtomic(filePath, `${JSON.stringify(log, null, 2)}\n`);
+      return { ok: true, value: undefined };
+    } catch (error) {
+      return { ok: false, error: toError(error) };
+    }
+  },
+});
+
+export {
+  defaultReminderRules,
+  createReminderLog,
+  formatReminderRule,
+  parseReminderRule,
+  setReminders,
+  getTaskReminders,
+  getDueReminders,
+  snoozeReminder,
+  snoozeTaskReminders,
+  deliverReminders,
+  runReminders,
+  formatReminder,
+  deserializeReminderLog,
+  createFileReminderLogStore,
+};
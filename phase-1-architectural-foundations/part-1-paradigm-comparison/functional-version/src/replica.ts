@@ -0,0 +1,482 @@
+import { promises as fs } from "fs";
+import { randomIds } from "./environment";
+import {
+  RawRecord,
+  isRecord,
+  reviveTask,
+  serializeTask,
+  writeFileAtomic,
+} from "./repository";
+import { IdGenerator, Result, Task, TaskState } from "./types";
+import { toError } from "./utils";
+
+// Logical time of a write: a Lamport counter, ties broken by replica id
+export interface Stamp {
+  readonly counter: number;
+  readonly replica: string;
+}
+
+// Last-writer-wins register. Values are kept in their JSON form; null
+// stands for a field the task does not have.
+export interface Register {
+  readonly value: unknown;
+  readonly stamp: Stamp;
+}
+
+// Replicated task: one register per field, plus the tombstone register set
+// by removal. Removed tasks keep their registers, so an update arriving
+// after the removal does not bring them back.
+export interface TaskRecord {
+  readonly fields: { readonly [field: string]: Register };
+  readonly removed: Register;
+  // First write of the task; orders the tasks of the state
+  readonly created: Stamp;
+}
+
+// Local copy of the backlog with the change metadata needed to merge it
+// with other copies
+export interface Replica {
+  readonly id: string;
+  // Highest counter written or received
+  readonly clock: number;
+  readonly tasks: { readonly [taskId: string]: TaskRecord };
+  // Highest counter received from each replica, own writes included. Writes
+  // the other side has not seen are concurrent with its own.
+  readonly seen: { readonly [replica: string]: number };
+}
+
+// A field both replicas changed without seeing the change of the other,
+// resolved by keeping the latest write
+export interface SyncConflict {
+  readonly taskId: string;
+  readonly title: string;
+  // Field name, or "removed" when one side removed a task the other edited
+  readonly field: string;
+  readonly kept: unknown;
+  readonly discarded: unknown;
+  // Replica that wrote the kept value
+  readonly winner: string;
+}
+
+// Outcome of merging a remote replica into the local one
+export interface MergeResult {
+  readonly replica: Replica;
+  readonly conflicts: ReadonlyArray<SyncConflict>;
+}
+
+// Storage for the local replica
+export interface ReplicaStore {
+  readonly load: () => Promise<Result<Replica>>;
+  readonly save: (replica: Replica) => Promise<Result<void>>;
+}
+
+/**
+ * Creates an empty replica.
+ */
+const createReplica = (id: string): Replica => ({
+  id,
+  clock: 0,
+  tasks: {},
+  seen: {},
+});
+
+/**
+ * Orders stamps by counter, then by replica id.
+ */
+const compareStamps = (a: Stamp, b: Stamp): number =>
+  a.counter - b.counter ||
+  (a.replica < b.replica ? -1 : a.replica > b.replica ? 1 : 0);
+
+// Fields holding a log that only grows. Both sides keep their entries, so
+// they are merged instead of keeping the latest write.
+const LOG_FIELDS: ReadonlySet<string> = new Set(["auditTrail"]);
+
+/**
+ * Keeps the register written last.
+ */
+const latest = (a: Register, b: Register): Register =>
+  compareStamps(a.stamp, b.stamp) >= 0 ? a : b;
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Merges two logs into one holding the entries of both. A log holding every
+ * entry of the other is kept as it is; otherwise the entries are ordered by
+ * their `at` timestamp. Gives null when neither has an entry.
+ */
+const mergeLogs = (a: unknown, b: unknown): unknown => {
+  const keys = (log: unknown): ReadonlyArray<string> =>
+    Array.isArray(log) ? log.map((entry) => JSON.stringify(entry)) : [];
+  const [keysA, keysB] = [keys(a), keys(b)];
+  if (keysB.every((key) => keysA.includes(key))) {
+    return keysA.length === 0 ? null : a;
+  }
+  if (keysA.every((key) => keysB.includes(key))) return b;
+
+  const entries = new Map<string, RawRecord>();
+  [...(a as RawRecord[]), ...(b as RawRecord[])].forEach((entry) =>
+    entries.set(JSON.stringify(entry), entry)
+  );
+  return [...entries.entries()]
+    .sort(
+      ([keyA, entryA], [keyB, entryB]) =>
+        String(entryA["at"]).localeCompare(String(entryB["at"])) ||
+        keyA.localeCompare(keyB)
+    )
+    .map(([, entry]) => entry);
+};
+
+/**
+ * Lists the fields of a task in their JSON form, without the absent ones.
+ */
+const taskFields = (task: Task): RawRecord =>
+  JSON.parse(JSON.stringify(serializeTask(task)));
+
+/**
+ * Records the changes between the state the replica holds and the given
+ * state. Every changed task gets a new stamp on the fields that differ;
+ * tasks missing from the state are tombstoned.
+ */
+const commitState = (replica: Replica, state: Readonly<TaskState>): Replica => {
+  let clock = replica.clock;
+  const tasks: { [taskId: string]: TaskRecord } = { ...replica.tasks };
+  const present = new Set<string>();
+
+  state.tasks.forEach((task) => {
+    if (present.has(task.id)) return;
+    present.add(task.id);
+
+    const record = replica.tasks[task.id];
+    const live = record && record.removed.value !== true;
+    const values = taskFields(task);
+    const changed = [
+      ...new Set([
+        ...Object.keys(values),
+        ...Object.keys(record?.fields ?? {}),
+      ]),
+    ].filter(
+      (field) =>
+        !live ||
+        !sameValue(values[field] ?? null, record.fields[field]?.value ?? null)
+    );
+    if (live && changed.length === 0) return;
+
+    const stamp = { counter: ++clock, replica: replica.id };
+    tasks[task.id] = {
+      fields: {
+        ...record?.fields,
+        ...Object.fromEntries(
+          changed.map((field) => [
+            field,
+            { value: values[field] ?? null, stamp },
+          ])
+        ),
+      },
+      removed: live ? record.removed : { value: false, stamp },
+      created: record?.created ?? stamp,
+    };
+  });
+
+  Object.entries(replica.tasks)
+    .filter(([id, record]) => record.removed.value !== true && !present.has(id))
+    .forEach(([id, record]) => {
+      tasks[id] = {
+        ...record,
+        removed: {
+          value: true,
+          stamp: { counter: ++clock, replica: replica.id },
+        },
+      };
+    });
+
+  return clock === replica.clock
+    ? replica
+    : {
+        ...replica,
+        clock,
+        tasks,
+        seen: { ...replica.seen, [replica.id]: clock },
+      };
+};
+
+/**
+ * Builds the task state a replica holds, in the order the tasks were
+ * created. Returns an error if a task cannot be revived.
+ */
+const materialize = (replica: Replica): Result<TaskState> => {
+  const tasks: Task[] = [];
+  const records = Object.values(replica.tasks)
+    .filter((record) => record.removed.value !== true)
+    .sort((a, b) => compareStamps(a.created, b.created));
+
+  for (const record of records) {
+    const raw = Object.fromEntries(
+      Object.entries(record.fields)
+        .filter(([, register]) => register.value !== null)
+        .map(([field, register]) => [field, register.value])
+    );
+    const task = reviveTask(raw);
+    if (!task.ok) return task;
+    tasks.push(task.value);
+  }
+
+  return { ok: true, value: { tasks } };
+};
+
+/**
+ * Tells whether a replica has not received the write of a register.
+ */
+const unseenBy = (seen: Replica["seen"], register: Register): boolean =>
+  register.stamp.counter > (seen[register.stamp.replica] ?? 0);
+
+/**
+ * Tells whether a task has a write the replica has not received.
+ */
+const hasUnseen = (record: TaskRecord, seen: Replica["seen"]): boolean =>
+  unseenBy(seen, record.removed) ||
+  Object.values(record.fields).some((register) => unseenBy(seen, register));
+
+/**
+ * Merges two records of the same task, field by field, and lists the
+ * fields each side changed to a different value without seeing the change
+ * of the other.
+ */
+const mergeRecords = (
+  taskId: string,
+  local: TaskRecord,
+  remote: TaskRecord,
+  localSeen: Replica["seen"],
+  remoteSeen: Replica["seen"]
+): { readonly record: TaskRecord; readonly conflicts: SyncConflict[] } => {
+  const fields: { [field: string]: Register } = { ...local.fields };
+  const conflicts: SyncConflict[] = [];
+  const removed = latest(local.removed, remote.removed);
+  const conflict = (field: string, kept: Register, other: Register) =>
+    conflicts.push({
+      taskId,
+      title: String((fields["title"] ?? kept).value),
+      field,
+      kept: kept.value,
+      discarded: other.value,
+      winner: kept.stamp.replica,
+    });
+
+  Object.entries(remote.fields).forEach(([field, register]) => {
+    const current = fields[field];
+    const kept = current ? latest(current, register) : register;
+    fields[field] =
+      current && LOG_FIELDS.has(field)
+        ? { ...kept, value: mergeLogs(current.value, register.value) }
+        : kept;
+  });
+
+  Object.entries(remote.fields).forEach(([field, register]) => {
+    const current = local.fields[field];
+    if (
+      current &&
+      !LOG_FIELDS.has(field) &&
+      unseenBy(remoteSeen, current) &&
+      unseenBy(localSeen, register) &&
+      !sameValue(current.value, register.value)
+    ) {
+      const kept = fields[field]!;
+      conflict(field, kept, kept === current ? register : current);
+    }
+  });
+
+  if (
+    local.removed.value !== remote.removed.value &&
+    hasUnseen(local, remoteSeen) &&
+    hasUnseen(remote, localSeen)
+  ) {
+    conflict(
+      "removed",
+      removed,
+      removed === local.removed ? remote.removed : local.removed
+    );
+  }
+
+  return {
+    record: {
+      fields,
+      removed,
+      created:
+        compareStamps(local.created, remote.created) <= 0
+          ? local.created
+          : remote.created,
+    },
+    conflicts,
+  };
+};
+
+/**
+ * Merges a remote replica into the local one. Every register keeps its
+ * latest write, so replicas converge whatever order they merge in.
+ * Conflicts are reported where concurrent writes first meet.
+ */
+const mergeReplicas = (local: Replica, remote: Replica): MergeResult => {
+  const tasks: { [taskId: string]: TaskRecord } = { ...local.tasks };
+  const conflicts: SyncConflict[] = [];
+
+  Object.entries(remote.tasks).forEach(([taskId, record]) => {
+    const current = tasks[taskId];
+    if (!current) {
+      tasks[taskId] = record;
+      return;
+    }
+    const merged = mergeRecords(
+      taskId,
+      current,
+      record,
+      local.seen,
+      remote.seen
+    );
+    tasks[taskId] = merged.record;
+    conflicts.push(...merged.conflicts);
+  });
+
+  const seen: { [replica: string]: number } = { ...local.seen };
+  Object.entries(remote.seen).forEach(([replica, counter]) => {
+    seen[replica] = Math.max(seen[replica] ?? 0, counter);
+  });
+
+  return {
+    replica: {
+      ...local,
+      clock: Math.max(local.clock, remote.clock),
+      tasks,
+      seen,
+    },
+    conflicts,
+  };
+};
+
+/**
+ * Describes a conflict in a sentence.
+ */
+const formatConflict = (conflict: SyncConflict): string =>
+  `"${conflict.title}" (${conflict.taskId}) ${
+    conflict.field
+  }: kept ${JSON.stringify(conflict.kept)} from ${
+    conflict.winner
+  }, discarded ${JSON.stringify(conflict.discarded)}`;
+
+const isStamp = (value: unknown): value is Stamp =>
+  isRecord(value) &&
+  typeof value["counter"] === "number" &&
+  typeof value["replica"] === "string";
+
+const isRegister = (value: unknown): value is Register =>
+  isRecord(value) && "value" in value && isStamp(value["stamp"]);
+
+const isTaskRecord = (value: unknown): value is TaskRecord =>
+  isRecord(value) &&
+  isRecord(value["fields"]) &&
+  Object.values(value["fields"]).every(isRegister) &&
+  isRegister(value["removed"]) &&
+  isStamp(value["created"]);
+
+/**
+ * Parses a replica written by createFileReplicaStore or received from a
+ * peer. Every task record, register and stamp is checked, since merging
+ * relies on their shape.
+ */
+const deserializeReplica = (raw: unknown): Result<Replica> => {
+  if (
+    !isRecord(raw) ||
+    typeof raw["id"] !== "string" ||
+    typeof raw["clock"] !== "number" ||
+    !isRecord(raw["tasks"])
+  ) {
+    return { ok: false, error: new Error("Invalid replica") };
+  }
+
+  const invalid = Object.entries(raw["tasks"]).find(
+    ([, record]) => !isTaskRecord(record)
+  );
+  if (invalid) {
+    return {
+      ok: false,
+      error: new Error(`Invalid record for task "${invalid[0]}" in replica`),
+    };
+  }
+
+  const seen = raw["seen"] ?? {};
+  if (
+    !isRecord(seen) ||
+    !Object.values(seen).every((counter) => typeof counter === "number")
+  ) {
+    return { ok: false, error: new Error("Invalid seen counters in replica") };
+  }
+
+  return {
+    ok: true,
+    value: {
+      id: raw["id"],
+      clock: raw["clock"],
+      tasks: raw["tasks"] as Replica["tasks"],
+      seen: seen as Replica["seen"],
+    },
+  };
+};
+
+/**
+ * Creates a store keeping the replica in memory. Useful for tests.
+ */
+const createInMemoryReplicaStore = (
+  initial: Replica = createReplica(randomIds())
+): ReplicaStore => {
+  let stored = initial;
+
+  return {
+    load: async () => ({ ok: true, value: stored }),
+    save: async (replica) => {
+      stored = replica;
+      return { ok: true, value: undefined };
+    },
+  };
+};
+
+/**
+ * Creates a store keeping the replica in a JSON file. A missing file loads
+ * as a new replica with a generated id; saves are atomic.
+ */
+const createFileReplicaStore = (
+  filePath: string,
+  generateId: IdGenerator = randomIds
+): ReplicaStore => ({
+  load: async () => {
+    try {
+      return deserializeReplica(
+        JSON.parse(await fs.readFile(filePath, "utf8"))
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { ok: true, value: createReplica(generateId()) };
+      }
+      return { ok: false, error: toError(error) };
+    }
+  },
+
+  save: async (replica) => {
+    try {
+      await writeFileAtomic(filePath, `${JSON.stringify(replica)}\n`);
+      return { ok: true, value: undefined };
+    } catch (error) {
+      return { ok: false, error: toError(error) };
+    }
+  },
+});
+
+export {
+  createReplica,
+  compareStamps,
+  commitState,
+  materialize,
+  mergeReplicas,
+  formatConflict,
+  deserializeReplica,
+  createInMemoryReplicaStore,
+  createFileReplicaStore,
+};
@@ -0,0 +1,478 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { emptyTitle, invalidPriority } from "./errors";
+import { createInitialState } from "./state";
+import {
+  FieldChange,
+  RecurrenceRule,
+  Result,
+  StatusChange,
+  Task,
+  TaskState,
+  TimeSession,
+  Workflow,
+} from "./types";
+import { toError } from "./utils";
+import { defaultWorkflow, getStatusDefinition } from "./workflow";
+
+/**
+ * Schema version stamped on every document written by a repository.
+ * Bump it and register a migration whenever the persisted shape changes.
+ * Fields added since version 1, such as sessions, auditTrail or trashedAt,
+ * are optional: documents without them load as they are, so they did not
+ * need a new version.
+ */
+export const CURRENT_SCHEMA_VERSION = 1;
+
+// Loosely typed record as it comes out of JSON.parse
+export type RawRecord = { readonly [key: string]: unknown };
+
+// Persisted document, before dates are revived
+export interface StoredDocument {
+  readonly schemaVersion: number;
+  readonly tasks: ReadonlyArray<RawRecord>;
+}
+
+/**
+ * Upgrades a document from one schema version to the next.
+ */
+export type Migration = (document: StoredDocument) => StoredDocument;
+
+// Migrations keyed by the version they upgrade from
+export type MigrationRegistry = Readonly<Record<number, Migration>>;
+
+// Storage backend for the task state
+export interface TaskRepository {
+  readonly load: () => Promise<Result<TaskState>>;
+  readonly save: (state: TaskState) => Promise<Result<void>>;
+}
+
+/**
+ * Built-in migrations. Version 0 is the unversioned `{ tasks: [...] }` shape
+ * produced by serialising a TaskState directly.
+ */
+export const defaultMigrations: MigrationRegistry = {
+  0: (document) => ({
+    schemaVersion: 1,
+    tasks: document.tasks.map((task) => ({
+      ...task,
+      description: task["description"] ?? "",
+    })),
+  }),
+};
+
+/**
+ * Tells whether a parsed JSON value is a plain object.
+ */
+export const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Converts a Date into its persisted ISO representation.
+ */
+const serializeDate = (date: Date | undefined): string | undefined =>
+  date?.toISOString();
+
+/**
+ * Parses a persisted date. Missing values are allowed, malformed ones are not.
+ */
+export const reviveDate = (
+  value: unknown,
+  field: string
+): Result<Date | undefined> => {
+  if (value === undefined || value === null) {
+    return { ok: true, value: undefined };
+  }
+
+  const date = typeof value === "string" ? new Date(value) : undefined;
+  return date && !Number.isNaN(date.getTime())
+    ? { ok: true, value: date }
+    : { ok: false, error: new Error(`Invalid date in field "${field}"`) };
+};
+
+/**
+ * Converts a task into a JSON-safe record.
+ */
+export const serializeTask = (task: Task): RawRecord => ({
+  ...task,
+  createdAt: serializeDate(task.createdAt),
+  deadline: serializeDate(task.deadline),
+  completedAt: serializeDate(task.completedAt),
+  archivedAt: serializeDate(task.archivedAt),
+  trashedAt: serializeDate(task.trashedAt),
+  recurrence: task.recurrence && {
+    ...task.recurrence,
+    until: serializeDate(task.recurrence.until),
+  },
+  sessions: task.sessions?.map((session) => ({
+    ...session,
+    start: serializeDate(session.start),
+    end: serializeDate(session.end),
+  })),
+  statusHistory: task.statusHistory?.map((change) => ({
+    ...change,
+    at: serializeDate(change.at),
+  })),
+  auditTrail: task.auditTrail?.map((change) => ({
+    ...change,
+    at: serializeDate(change.at),
+  })),
+});
+
+/**
+ * Parses a persisted date that must be present.
+ */
+const reviveRequiredDate = (value: unknown, field: string): Result<Date> => {
+  const date = reviveDate(value, field);
+  if (!date.ok) return date;
+  return date.value === undefined
+    ? { ok: false, error: new Error(`Missing field "${field}"`) }
+    : { ok: true, value: date.value };
+};
+
+/**
+ * Revives a list field of a persisted task item by item. A missing field
+ * stays undefined; anything but a list of objects is an error.
+ */
+const reviveList = <T>(
+  value: unknown,
+  field: string,
+  revive: (item: RawRecord) => Result<T>
+): Result<ReadonlyArray<T> | undefined> => {
+  if (value === undefined) return { ok: true, value: undefined };
+  if (!Array.isArray(value) || !value.every(isRecord)) {
+    return {
+      ok: false,
+      error: new Error(`Field "${field}" must be a list of objects`),
+    };
+  }
+
+  const items: T[] = [];
+  for (const item of value) {
+    const revived = revive(item);
+    if (!revived.ok) return revived;
+    items.push(revived.value);
+  }
+  return { ok: true, value: items };
+};
+
+/**
+ * Checks the fields every task has with the rules addTask enforces: a
+ * non-empty id, a title that is not blank, a priority from 1 to 5 and a
+ * status the workflow defines.
+ */
+const checkRequiredFields = (
+  raw: RawRecord,
+  workflow: Workflow
+): Result<void> => {
+  const { id, title, description, priority, status } = raw;
+  const invalid = (message: string): Result<void> => ({
+    ok: false,
+    error: new Error(message),
+  });
+
+  if (typeof id !== "string" || id === "") {
+    return invalid('Field "id" must be a non-empty string');
+  }
+  if (typeof title !== "string" || !title.trim()) {
+    return invalid(emptyTitle().message);
+  }
+  if (typeof description !== "string") {
+    return invalid('Field "description" must be a string');
+  }
+  if (
+    typeof priority !== "number" ||
+    !Number.isInteger(priority) ||
+    priority < 1 ||
+    priority > 5
+  ) {
+    return invalid(invalidPriority(Number(priority)).message);
+  }
+  if (typeof status !== "string" || !getStatusDefinition(workflow, status)) {
+    return invalid(`Unknown status "${String(status)}"`);
+  }
+  return { ok: true, value: undefined };
+};
+
+/**
+ * Rebuilds a task from a persisted record, turning date fields back into Date
+ * objects. Returns an error when the record or one of its fields does not
+ * have the persisted shape, or when a required field breaks the rules of
+ * new tasks.
+ */
+export const reviveTask = (
+  raw: unknown,
+  workflow: Workflow = defaultWorkflow
+): Result<Task> => {
+  if (!isRecord(raw)) {
+    return { ok: false, error: new Error("Stored task must be an object") };
+  }
+
+  const required = checkRequiredFields(raw, workflow);
+  if (!required.ok) return required;
+
+  const recurrence = raw["recurrence"] ?? undefined;
+  if (recurrence !== undefined && !isRecord(recurrence)) {
+    return {
+      ok: false,
+      error: new Error('Field "recurrence" must be an object'),
+    };
+  }
+
+  const createdAt = reviveRequiredDate(raw["createdAt"], "createdAt");
+  const deadline = reviveDate(raw["deadline"], "deadline");
+  const completedAt = reviveDate(raw["completedAt"], "completedAt");
+  const archivedAt = reviveDate(raw["archivedAt"], "archivedAt");
+  const trashedAt = reviveDate(raw["trashedAt"], "trashedAt");
+  const until = reviveDate(recurrence?.["until"], "recurrence.until");
+
+  if (!createdAt.ok) return createdAt;
+  if (!deadline.ok) return deadline;
+  if (!completedAt.ok) return completedAt;
+  if (!archivedAt.ok) return archivedAt;
+  if (!trashedAt.ok) return trashedAt;
+  if (!until.ok) return until;
+
+  const sessions = reviveList<TimeSession>(
+    raw["sessions"],
+    "sessions",
+    (session) => {
+      const start = reviveRequiredDate(session["start"], "sessions.start");
+      const end = reviveDate(session["end"], "sessions.end");
+      if (!start.ok) return start;
+      if (!end.ok) return end;
+      return {
+        ok: true,
+        value: { ...session, start: start.value, end: end.value },
+      };
+    }
+  );
+  if (!sessions.ok) return sessions;
+
+  const statusHistory = reviveList<StatusChange>(
+    raw["statusHistory"],
+    "statusHistory",
+    (change) => {
+      const at = reviveRequiredDate(change["at"], "statusHistory.at");
+      return at.ok
+        ? {
+            ok: true,
+            value: { status: String(change["status"]), at: at.value },
+          }
+        : at;
+    }
+  );
+  if (!statusHistory.ok) return statusHistory;
+
+  const auditTrail = reviveList<FieldChange>(
+    raw["auditTrail"],
+    "auditTrail",
+    (change) => {
+      const at = reviveRequiredDate(change["at"], "auditTrail.at");
+      return at.ok
+        ? {
+            ok: true,
+            value: { ...(change as unknown as FieldChange), at: at.value },
+          }
+        : at;
+    }
+  );
+  if (!auditTrail.ok) return auditTrail;
+
+  return {
+    ok: true,
+    value: {
+      ...(raw as unknown as Task),
+      createdAt: createdAt.value,
+      deadline: deadline.value,
+      completedAt: completedAt.value,
+      archivedAt: archivedAt.value,
+      trashedAt: trashedAt.value,
+      recurrence: recurrence && {
+        ...(recurrence as unknown as RecurrenceRule),
+        until: until.value,
+      },
+      sessions: sessions.value,
+      statusHistory: statusHistory.value,
+      auditTrail: auditTrail.value,
+    },
+  };
+};
+
+/**
+ * Converts the state into a versioned document ready to be written.
+ */
+export const serializeState = (state: TaskState): StoredDocument => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  tasks: state.tasks.map(serializeTask),
+});
+
+/**
+ * Runs every migration needed to bring a document up to the current version.
+ */
+export const migrateDocument = (
+  document: StoredDocument,
+  migrations: MigrationRegistry = defaultMigrations
+): Result<StoredDocument> => {
+  if (document.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    return {
+      ok: false,
+      error: new Error(
+        `Schema version ${document.schemaVersion} is newer than supported version ${CURRENT_SCHEMA_VERSION}`
+      ),
+    };
+  }
+
+  let current = document;
+  while (current.schemaVersion < CURRENT_SCHEMA_VERSION) {
+    const migration = migrations[current.schemaVersion];
+    if (!migration) {
+      return {
+        ok: false,
+        error: new Error(
+          `No migration registered from schema version ${current.schemaVersion}`
+        ),
+      };
+    }
+    current = migration(current);
+  }
+
+  return { ok: true, value: current };
+};
+
+/**
+ * Parses an untrusted value (usually the output of JSON.parse) into a
+ * TaskState, migrating it to the current schema first. Errors name the
+ * index of the task that could not be revived.
+ */
+export const deserializeState = (
+  raw: unknown,
+  migrations: MigrationRegistry = defaultMigrations,
+  workflow: Workflow = defaultWorkflow
+): Result<TaskState> => {
+  if (!isRecord(raw) || !Array.isArray(raw["tasks"])) {
+    return { ok: false, error: new Error("Stored state has no tasks array") };
+  }
+
+  const version = raw["schemaVersion"] ?? 0;
+  if (typeof version !== "number" || !Number.isInteger(version)) {
+    return { ok: false, error: new Error("Invalid schema version") };
+  }
+
+  const tasks = raw["tasks"] as ReadonlyArray<unknown>;
+  if (!tasks.every(isRecord)) {
+    return { ok: false, error: new Error("Stored tasks must be objects") };
+  }
+
+  const migrated = migrateDocument(
+    { schemaVersion: version, tasks },
+    migrations
+  );
+  if (!migrated.ok) return migrated;
+
+  const revived: Task[] = [];
+  for (const [index, record] of migrated.value.tasks.entries()) {
+    const task = reviveTask(record, workflow);
+    if (!task.ok) {
+      return {
+        ok: false,
+        error: new Error(`Task at index ${index}: ${task.error.message}`),
+      };
+    }
+    revived.push(task.value);
+  }
+
+  return { ok: true, value: { ...createInitialState(), tasks: revived } };
+};
+
+/**
+ * Creates a repository that keeps the state in memory. Useful for tests and
+ * for running without a state file.
+ */
+export const createInMemoryRepository = (
+  initialState: TaskState = createInitialState()
+): TaskRepository => {
+  let stored = initialState;
+
+  return {
+    load: async () => ({ ok: true, value: stored }),
+    save: async (state) => {
+      stored = state;
+      return { ok: true, value: undefined };
+    },
+  };
+};
+
+/**
+ * Writes a file atomically: the content goes to a temporary sibling file which
+ * is flushed and then renamed over the target, so readers never observe a
+ * partially written file.
+ */
+export const writeFileAtomic = async (
+  filePath: string,
+  content: string
+): Promise<void> => {
+  const directory = path.dirname(filePath);
+  const tempPath = path.join(
+    directory,
+    `.${path.basename(filePath)}.${randomUUID()}.tmp`
+  );
+
+  await fs.mkdir(directory, { recursive: true });
+  try {
+    const handle = await fs.open(tempPath, "w");
+    try {
+      await handle.writeFile(content, "utf8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    // A failed write or rename must not leave the temporary file behind
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+};
+
+/**
+ * Creates a repository backed by a JSON file. A missing file loads as an empty
+ * state; saves are atomic. Stored statuses must belong to the workflow.
+ */
+export const createJsonFileRepository = (
+  filePath: string,
+  migrations: MigrationRegistry = defaultMigrations,
+  workflow: Workflow = defaultWorkflow
+): TaskRepository => ({
+  load: async () => {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { ok: true, value: createInitialState() };
+      }
+      return { ok: false, error: toError(error) };
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content);
+    } catch (error) {
+      return { ok: false, error: toError(error) };
+    }
+
+    return deserializeState(raw, migrations, workflow);
+  },
+
+  save: async (state) => {
+    try {
+      const content = JSON.stringify(serializeState(state), null, 2);
+      await writeFileAtomic(filePath, `${content}\n`);
+      return { ok: true, value: undefined };
+    } catch (error) {
+      return { ok: false, error: toError(error) };
+    }
+  },
+});
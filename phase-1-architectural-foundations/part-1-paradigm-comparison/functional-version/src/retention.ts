@@ -0,0 +1,309 @@
+import { recordChanges } from "./audit";
+import { defaultEnv } from "./environment";
+import { invalidField, notFound } from "./errors";
+import { getChildren, getDescendants, getRemovalIds } from "./subtasks";
+import {
+  findTask,
+  findTasks,
+  getTasksWithStatus,
+  putTasks,
+} from "./task-index";
+import { removeTask } from "./task-operations";
+import {
+  ChildPolicy,
+  Env,
+  Result,
+  Task,
+  TaskError,
+  TaskState,
+  Workflow,
+} from "./types";
+import { isArchived, isTrashed } from "./visibility";
+import { defaultWorkflow, isDoneStatus } from "./workflow";
+
+// When old tasks are cleaned up, in days: done tasks are archived
+// `archiveAfterDays` after their completion and trashed tasks purged
+// `purgeAfterDays` after they were trashed. Leaving a period out turns that
+// step off.
+export interface RetentionPolicy {
+  readonly archiveAfterDays?: number;
+  readonly purgeAfterDays?: number;
+}
+
+// Trashed tasks are kept for 30 days; done tasks are only archived on demand
+const DEFAULT_RETENTION: RetentionPolicy = { purgeAfterDays: 30 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Gets the time a number of days before now.
+ */
+const daysBefore = (now: Date, days: number): Date =>
+  new Date(now.getTime() - days * DAY_MS);
+
+/**
+ * Stamps the given tasks with the time of a change and records it in their
+ * audit trail.
+ */
+const stampTasks = (
+  state: Readonly<TaskState>,
+  tasks: ReadonlyArray<Task>,
+  change: (task: Task, now: Date) => Task,
+  env: Env
+): TaskState => {
+  const now = env.clock();
+  return putTasks(
+    state,
+    tasks.map((task) => recordChanges(task, change(task, now), now, env.actor))
+  );
+};
+
+/**
+ * Archives a done task, leaving it out of listings and statistics. Returns
+ * an error if the task is not found, not done or in the trash. Archiving an
+ * archived task changes nothing.
+ */
+const archiveTask = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  workflow: Workflow = defaultWorkflow,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const task = findTask(state, taskId);
+  if (!task) {
+    return { ok: false, error: notFound(taskId) };
+  }
+  if (isTrashed(task)) {
+    return {
+      ok: false,
+      error: invalidField("archivedAt", "Task is in the trash"),
+    };
+  }
+  if (!isDoneStatus(task.status, workflow)) {
+    return {
+      ok: false,
+      error: invalidField("archivedAt", "Only done tasks can be archived"),
+    };
+  }
+  if (isArchived(task)) return { ok: true, value: state };
+
+  return {
+    ok: true,
+    value: stampTasks(
+      state,
+      [task],
+      (task, now) => ({ ...task, archivedAt: now }),
+      env
+    ),
+  };
+};
+
+/**
+ * Brings an archived task back into listings. Returns an error if the task
+ * is not found; a task that is not archived is left unchanged.
+ */
+const unarchiveTask = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const task = findTask(state, taskId);
+  if (!task) {
+    return { ok: false, error: notFound(taskId) };
+  }
+  if (!isArchived(task)) return { ok: true, value: state };
+
+  return {
+    ok: true,
+    value: stampTasks(
+      state,
+      [task],
+      (task) => ({ ...task, archivedAt: undefined }),
+      env
+    ),
+  };
+};
+
+/**
+ * Archives the done tasks completed at least `afterDays` days ago. Tasks
+ * done without a completion date count from their creation.
+ */
+const autoArchive = (
+  state: Readonly<TaskState>,
+  afterDays: number,
+  workflow: Workflow = defaultWorkflow,
+  env: Env = defaultEnv
+): TaskState => {
+  const cutoff = daysBefore(env.clock(), afterDays);
+  const expired = getTasksWithStatus(state, (status) =>
+    isDoneStatus(status, workflow)
+  ).filter(
+    (task) =>
+      !isArchived(task) &&
+      !isTrashed(task) &&
+      (task.completedAt ?? task.createdAt) <= cutoff
+  );
+
+  return expired.length === 0
+    ? state
+    : stampTasks(
+        state,
+        expired,
+        (task, now) => ({ ...task, archivedAt: now }),
+        env
+      );
+};
+
+/**
+ * Moves a task to the trash instead of removing it. Subtasks follow the
+ * policy, as with removeTask: "cascade" trashes them too, "orphan" (the
+ * default) moves them to the top level and "reject" returns an error when
+ * the task has subtasks. Trashed tasks keep their fields and can be restored
+ * until they are purged.
+ */
+const trashTask = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  children: ChildPolicy = "orphan",
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const removal = getRemovalIds(state, taskId, children);
+  if (!removal.ok) return removal;
+
+  const trashed = findTasks(state, removal.value).filter(
+    (task) => !isTrashed(task)
+  );
+  const orphaned =
+    children === "orphan"
+      ? getChildren(state, taskId).filter((task) => !isTrashed(task))
+      : [];
+
+  return {
+    ok: true,
+    value: stampTasks(
+      stampTasks(
+        state,
+        orphaned,
+        (task) => ({ ...task, parentId: undefined }),
+        env
+      ),
+      trashed,
+      (task, now) => ({ ...task, trashedAt: now }),
+      env
+    ),
+  };
+};
+
+/**
+ * Lists the ancestors of a task that are in the trash, nearest first.
+ */
+const getTrashedAncestors = (
+  state: Readonly<TaskState>,
+  task: Task
+): ReadonlyArray<Task> => {
+  const ancestors: Array<Task> = [];
+  const seen = new Set([task.id]);
+  let parent = task.parentId ? findTask(state, task.parentId) : undefined;
+  while (parent && !seen.has(parent.id)) {
+    seen.add(parent.id);
+    if (isTrashed(parent)) ancestors.push(parent);
+    parent = parent.parentId ? findTask(state, parent.parentId) : undefined;
+  }
+  return ancestors;
+};
+
+/**
+ * Takes a task out of the trash, with the subtasks trashed along with it.
+ * Ancestors still in the trash are restored too, so that the task does not
+ * come back under a trashed parent. Returns an error if the task is not
+ * found or not in the trash.
+ */
+const restoreTask = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const task = findTask(state, taskId);
+  if (!task) {
+    return { ok: false, error: notFound(taskId) };
+  }
+  if (!isTrashed(task)) {
+    return {
+      ok: false,
+      error: invalidField("trashedAt", "Task is not in the trash"),
+    };
+  }
+
+  const trashedWith = getDescendants(state, taskId).filter(
+    (child) => child.trashedAt?.getTime() === task.trashedAt!.getTime()
+  );
+  return {
+    ok: true,
+    value: stampTasks(
+      state,
+      [...getTrashedAncestors(state, task), task, ...trashedWith],
+      (task) => ({ ...task, trashedAt: undefined }),
+      env
+    ),
+  };
+};
+
+/**
+ * Lists the tasks in the trash, most recently trashed first.
+ */
+const getTrash = (state: Readonly<TaskState>): ReadonlyArray<Task> =>
+  state.tasks
+    .filter(isTrashed)
+    .sort((a, b) => b.trashedAt!.getTime() - a.trashedAt!.getTime());
+
+/**
+ * Removes for good the tasks trashed at least `afterDays` days ago; 0 empties
+ * the trash. Other tasks stop depending on the purged tasks, as with
+ * removeTask.
+ */
+const purgeTrash = (
+  state: Readonly<TaskState>,
+  afterDays: number,
+  env: Env = defaultEnv
+): TaskState => {
+  const cutoff = daysBefore(env.clock(), afterDays);
+
+  return getTrash(state)
+    .filter((task) => task.trashedAt! <= cutoff)
+    .reduce((current, task) => {
+      const removed = removeTask(current, task.id, "orphan", env);
+      return removed.ok ? removed.value : current;
+    }, state);
+};
+
+/**
+ * Applies a retention policy: purges the trashed tasks and archives the
+ * done tasks whose period has passed. Returns the state unchanged when
+ * nothing expired.
+ */
+const applyRetention = (
+  state: Readonly<TaskState>,
+  policy: RetentionPolicy = DEFAULT_RETENTION,
+  workflow: Workflow = defaultWorkflow,
+  env: Env = defaultEnv
+): TaskState => {
+  const purged =
+    policy.purgeAfterDays === undefined
+      ? state
+      : purgeTrash(state, policy.purgeAfterDays, env);
+  return policy.archiveAfterDays === undefined
+    ? purged
+    : autoArchive(purged, policy.archiveAfterDays, workflow, env);
+};
+
+export {
+  DEFAULT_RETENTION,
+  archiveTask,
+  unarchiveTask,
+  autoArchive,
+  trashTask,
+  restoreTask,
+  getTrash,
+  purgeTrash,
+  applyRetention,
+};
@@ -0,0 +1,269 @@
+import { defaultEnv } from "./environment";
+import { getReadyTasks, isOverdue } from "./task-operations";
+import { Env, Task, TaskState, Workflow } from "./types";
+import { lookup } from "./utils";
+import { defaultWorkflow } from "./workflow";
+
+// One factor of a task's score and how much it contributed
+export interface ScoreComponent {
+  readonly factor: string;
+  readonly value: number;
+  readonly weight: number;
+  readonly contribution: number;
+  readonly note: string;
+}
+
+// A task with its score and the factors that explain it
+export interface RankedTask {
+  readonly task: Task;
+  readonly score: number;
+  readonly breakdown: ReadonlyArray<ScoreComponent>;
+}
+
+// What a strategy knows besides the task itself
+export interface SchedulingContext {
+  readonly now: Date;
+  readonly workflow: Workflow;
+}
+
+// Scores a task; higher scores are worked on first
+export interface SchedulingStrategy {
+  readonly name: string;
+  readonly score: (
+    task: Task,
+    context: SchedulingContext
+  ) => ReadonlyArray<ScoreComponent>;
+}
+
+// Weights of the factors used by the weighted score strategy
+export interface ScoreWeights {
+  readonly priority: number;
+  readonly deadline: number;
+  readonly age: number;
+  readonly overdue: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Deadlines further away than this do not add urgency
+const DEADLINE_HORIZON_DAYS = 14;
+
+// Tasks older than this get the full age bonus
+const AGE_HORIZON_DAYS = 30;
+
+export const defaultScoreWeights: ScoreWeights = {
+  priority: 0.4,
+  deadline: 0.3,
+  age: 0.1,
+  overdue: 0.2,
+};
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const component = (
+  factor: string,
+  value: number,
+  weight: number,
+  note: string
+): ScoreComponent => ({
+  factor,
+  value: round(value),
+  weight,
+  contribution: round(value * weight),
+  note,
+});
+
+const daysUntil = (date: Date, now: Date): number =>
+  (date.getTime() - now.getTime()) / DAY_MS;
+
+/**
+ * Rates how close a deadline is, from 0 (none, or beyond the horizon) to 1
+ * (due now or overdue).
+ */
+const deadlineUrgency = (task: Task, now: Date): number =>
+  task.deadline === undefined
+    ? 0
+    : Math.min(
+        1,
+        Math.max(0, 1 - daysUntil(task.deadline, now) / DEADLINE_HORIZON_DAYS)
+      );
+
+const describeDeadline = (task: Task, now: Date): string => {
+  if (task.deadline === undefined) return "no deadline";
+  const days = daysUntil(task.deadline, now);
+  return days < 0
+    ? `overdue by ${Math.ceil(-days)} day(s)`
+    : `due in ${Math.floor(days)} day(s)`;
+};
+
+/**
+ * Ranks by priority alone, like sortByPriority.
+ */
+const priorityStrategy: SchedulingStrategy = {
+  name: "priority",
+  score: (task) => [
+    component("priority", task.priority, 1, `priority ${task.priority}`),
+  ],
+};
+
+/**
+ * Ranks by a weighted sum of normalised factors: priority, closeness of the
+ * deadline, age since creation and whether the task is overdue.
+ */
+const weightedScoreStrategy = (
+  weights: ScoreWeights = defaultScoreWeights
+): SchedulingStrategy => ({
+  name: "weighted",
+  score: (task, { now, workflow }) => {
+    const ageDays = Math.max(0, daysUntil(now, task.createdAt));
+    const overdue = isOverdue(task, workflow, now);
+
+    return [
+      component(
+        "priority",
+        (task.priority - 1) / 4,
+        weights.priority,
+        `priority ${task.priority}`
+      ),
+      component(
+        "deadline",
+        deadlineUrgency(task, now),
+        weights.deadline,
+        describeDeadline(task, now)
+      ),
+      component(
+        "age",
+        Math.min(1, ageDays / AGE_HORIZON_DAYS),
+        weights.age,
+        `created ${Math.floor(ageDays)} day(s) ago`
+      ),
+      component(
+        "overdue",
+        overdue ? 1 : 0,
+        weights.overdue,
+        overdue ? "overdue" : "not overdue"
+      ),
+    ];
+  },
+});
+
+/**
+ * Ranks by deadline, earliest first. Tasks without a deadline come last.
+ */
+const earliestDeadlineFirstStrategy: SchedulingStrategy = {
+  name: "earliest-deadline-first",
+  score: (task, { now }) => [
+    component(
+      "deadline",
+      task.deadline === undefined
+        ? Number.NEGATIVE_INFINITY
+        : -daysUntil(task.deadline, now),
+      1,
+      describeDeadline(task, now)
+    ),
+  ],
+};
+
+/**
+ * Weighted shortest job first: cost of delay divided by job size. The cost
+ * of delay adds the priority and the deadline urgency, both on a 1-5 scale.
+ * Job size defaults to the task's estimate, or 1 hour without one.
+ */
+const weightedShortestJobFirstStrategy = (
+  jobSize: (task: Task) => number = (task) => task.estimate ?? 1
+): SchedulingStrategy => ({
+  name: "wsjf",
+  score: (task, { now }) => {
+    const size = Math.max(jobSize(task), Number.EPSILON);
+    const urgency = 1 + 4 * deadlineUrgency(task, now);
+
+    return [
+      component(
+        "value",
+        task.priority,
+        1 / size,
+        `priority ${task.priority}, job size ${size}`
+      ),
+      component(
+        "time-criticality",
+        urgency,
+        1 / size,
+        describeDeadline(task, now)
+      ),
+    ];
+  },
+});
+
+/**
+ * Ranks tasks by the total score of a strategy at the environment's current
+ * time, highest first. Ties keep the order of the input.
+ */
+const rankTasks = (
+  tasks: ReadonlyArray<Task>,
+  strategy: SchedulingStrategy,
+  workflow: Workflow = defaultWorkflow,
+  env: Env = defaultEnv
+): ReadonlyArray<RankedTask> => {
+  const now = env.clock();
+  return tasks
+    .map((task) => {
+      const breakdown = strategy.score(task, { now, workflow });
+      return {
+        task,
+        breakdown,
+        score: round(
+          breakdown.reduce((sum, part) => sum + part.value * part.weight, 0)
+        ),
+      };
+    })
+    .sort((a, b) => (a.score === b.score ? 0 : b.score - a.score));
+};
+
+/**
+ * Ranks the tasks that are ready to be worked on, i.e. pending and not
+ * blocked.
+ */
+const rankReadyTasks = (
+  state: Readonly<TaskState>,
+  strategy: SchedulingStrategy,
+  workflow: Workflow = defaultWorkflow,
+  env: Env = defaultEnv
+): ReadonlyArray<RankedTask> =>
+  rankTasks(getReadyTasks(state, workflow), strategy, workflow, env);
+
+/**
+ * Explains a ranked task, one line per factor.
+ */
+const formatBreakdown = (ranked: RankedTask): ReadonlyArray<string> => [
+  `Score ${ranked.score}`,
+  ...ranked.breakdown.map(
+    (part) =>
+      `  ${part.factor}: ${part.value} x ${round(part.weight)} = ${
+        part.contribution
+      } (${part.note})`
+  ),
+];
+
+const strategies: Readonly<Record<string, SchedulingStrategy>> = {
+  priority: priorityStrategy,
+  weighted: weightedScoreStrategy(),
+  "earliest-deadline-first": earliestDeadlineFirstStrategy,
+  wsjf: weightedShortestJobFirstStrategy(),
+};
+
+/**
+ * Looks up a built-in strategy by name.
+ */
+const getStrategy = (name: string): SchedulingStrategy | undefined =>
+  lookup(strategies, name);
+
+export {
+  priorityStrategy,
+  weightedScoreStrategy,
+  earliestDeadlineFirstStrategy,
+  weightedShortestJobFirstStrategy,
+  rankTasks,
+  rankReadyTasks,
+  formatBreakdown,
+  getStrategy,
+};
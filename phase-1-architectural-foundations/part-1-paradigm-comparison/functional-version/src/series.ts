@@ -0,0 +1,162 @@
+import { recordChanges } from "./audit";
+import { defaultEnv } from "./environment";
+import { invalidField, notFound } from "./errors";
+import { validateRecurrenceRule } from "./recurrence";
+import { findTask, putTask } from "./task-index";
+import { updateTask } from "./task-operations";
+import {
+  Env,
+  RecurrenceRule,
+  Result,
+  Task,
+  TaskError,
+  TaskState,
+  TaskUpdate,
+} from "./types";
+
+/**
+ * Gets the series a task belongs to. A recurring task that has not spawned
+ * any occurrence yet is the head of its own series.
+ */
+const getSeriesId = (task: Task): string | undefined =>
+  task.seriesId ?? (task.recurrence ? task.id : undefined);
+
+/**
+ * Retrieves every occurrence of a series, completed ones included.
+ */
+const getSeriesTasks = (
+  state: Readonly<TaskState>,
+  seriesId: string
+): ReadonlyArray<Task> =>
+  state.tasks.filter((task: Task) => getSeriesId(task) === seriesId);
+
+/**
+ * Retrieves the occurrences of a series that are not completed yet.
+ */
+const getOpenSeriesTasks = (
+  state: Readonly<TaskState>,
+  seriesId: string
+): ReadonlyArray<Task> =>
+  getSeriesTasks(state, seriesId).filter(
+    (task: Task) => task.status !== "completed"
+  );
+
+const noOpenOccurrences = (seriesId: string): TaskError =>
+  notFound(seriesId, "series", `No open occurrences in series ${seriesId}`);
+
+/**
+ * Makes a task recurring. The task becomes the first occurrence of a new
+ * series unless it already belongs to one. Returns a Result containing the new
+ * state, or an error if the task is not found or the rule is invalid.
+ */
+const setRecurrence = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  rule: RecurrenceRule,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const task = findTask(state, taskId);
+  if (!task) {
+    return { ok: false, error: notFound(taskId) };
+  }
+
+  const validated = validateRecurrenceRule(rule);
+  if (!validated.ok) {
+    return {
+      ok: false,
+      error: invalidField("recurrence", validated.error.message),
+    };
+  }
+
+  return {
+    ok: true,
+    value: putTask(
+      state,
+      recordChanges(
+        task,
+        {
+          ...task,
+          recurrence: validated.value,
+          seriesId: task.seriesId ?? task.id,
+          occurrence: task.occurrence ?? 1,
+        },
+        env.clock(),
+        env.actor
+      )
+    ),
+  };
+};
+
+/**
+ * Applies an update to every open occurrence of a series. A new recurrence
+ * rule can be given at the same time. Returns a Result containing the new
+ * state, or an error if the series does not exist or the update is invalid.
+ */
+const updateSeries = (
+  state: Readonly<TaskState>,
+  seriesId: string,
+  taskUpdate: TaskUpdate,
+  rule?: RecurrenceRule,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const openTasks = getOpenSeriesTasks(state, seriesId);
+  if (openTasks.length === 0) {
+    return { ok: false, error: noOpenOccurrences(seriesId) };
+  }
+
+  let current: TaskState = state;
+  for (const task of openTasks) {
+    const result = rule
+      ? setRecurrence(current, task.id, rule, env)
+      : { ok: true as const, value: current };
+    if (!result.ok) return result;
+
+    const updated = updateTask(result.value, task.id, taskUpdate, env);
+    if (!updated.ok) return updated;
+    current = updated.value;
+  }
+
+  return { ok: true, value: current };
+};
+
+/**
+ * Stops a series: its open occurrences keep existing but no longer spawn a
+ * next occurrence when completed. Returns a Result containing the new state,
+ * or an error if the series has no open occurrence.
+ */
+const stopSeries = (
+  state: Readonly<TaskState>,
+  seriesId: string,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  if (getOpenSeriesTasks(state, seriesId).length === 0) {
+    return { ok: false, error: noOpenOccurrences(seriesId) };
+  }
+
+  const now = env.clock();
+  return {
+    ok: true,
+    value: {
+      ...state,
+      tasks: state.tasks.map((task: Task) =>
+        getSeriesId(task) === seriesId && task.status !== "completed"
+          ? recordChanges(
+              task,
+              { ...task, recurrence: undefined, seriesId },
+              now,
+              env.actor
+            )
+          : task
+      ),
+    },
+  };
+};
+
+export {
+  getSeriesId,
+  getSeriesTasks,
+  getOpenSeriesTasks,
+  setRecurrence,
+  updateSeries,
+  stopSeries,
+};
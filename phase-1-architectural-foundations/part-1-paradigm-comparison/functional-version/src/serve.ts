@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import { createJsonFileRepository } from "./repository";
+import { createTaskServer } from "./server";
+
+const port = Number(process.env["PORT"] ?? 3000);
+const filePath = process.env["TASKS_FILE"] ?? "tasks.json";
+
+createTaskServer(createJsonFileRepository(filePath)).listen(port, () => {
+  console.log(`Task API listening on http://localhost:${port} (${filePath})`);
+});
@@ -0,0 +1,734 @@
+import { createHash } from "crypto";
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+import { runQuery, formatQueryError, statusTerm } from "./query";
+import { TaskRepository, serializeTask } from "./repository";
+import { getTrash, purgeTrash, restoreTask, trashTask } from "./retention";
+import {
+  addTask,
+  getNextTask,
+  getNextTaskByDeadline,
+  getOverdueTasks,
+  getStatistics,
+  markCompleted,
+  transitionTask,
+  updateTask,
+} from "./task-operations";
+import {
+  ChildPolicy,
+  FieldError,
+  Result,
+  Task,
+  TaskError,
+  TaskState,
+  TaskUpdate,
+  Visibility,
+  Workflow,
+} from "./types";
+import { parseDateTime, toError } from "./utils";
+import { isTrashed } from "./visibility";
+import { defaultWorkflow } from "./workflow";
+
+// Parsed HTTP request handed to the routes
+export interface ApiRequest {
+  readonly method: string;
+  readonly path: string;
+  readonly query: URLSearchParams;
+  readonly ifMatch?: string;
+  readonly body?: unknown;
+}
+
+// Response produced by a route
+export interface ApiResponse {
+  readonly status: number;
+  readonly headers?: { readonly [name: string]: string };
+  readonly body?: unknown;
+}
+
+// Outcome of a route: the response and the new state to save, if any
+interface RouteOutcome {
+  readonly response: ApiResponse;
+  readonly state?: TaskState;
+}
+
+type RouteHandler = (
+  request: ApiRequest,
+  params: ReadonlyArray<string>,
+  state: TaskState,
+  workflow: Workflow
+) => RouteOutcome;
+
+interface Route {
+  readonly method: string;
+  readonly pattern: RegExp;
+  readonly handler: RouteHandler;
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Builds an RFC 7807 problem response.
+ */
+const problem = (
+  status: number,
+  title: string,
+  detail?: string,
+  extra: { readonly [key: string]: unknown } = {}
+): RouteOutcome => ({
+  response: {
+    status,
+    headers: { "Content-Type": "application/problem+json" },
+    body: { type: "about:blank", title, status, detail, ...extra },
+  },
+});
+
+const notFound = (taskId: string): RouteOutcome =>
+  problem(404, "Not Found", `Task with id ${taskId} not found`);
+
+const unprocessable = (detail: string): RouteOutcome =>
+  problem(422, "Unprocessable Entity", detail);
+
+/**
+ * Answers a failed operation: 404 for a missing task, 422 otherwise. Invalid
+ * fields are listed like those of an invalid body.
+ */
+const operationFailed = (error: TaskError): RouteOutcome =>
+  error.type === "NotFound"
+    ? problem(404, "Not Found", error.message)
+    : error.type === "ValidationFailed"
+    ? problem(422, "Unprocessable Entity", error.message, {
+        errors: error.errors,
+      })
+    : unprocessable(error.message);
+
+/**
+ * Computes the entity tag of a task from its serialised form, so any change
+ * to the task changes its tag.
+ */
+const taskETag = (task: Task): string =>
+  `"${createHash("sha1")
+    .update(JSON.stringify(serializeTask(task)))
+    .digest("hex")
+    .slice(0, 20)}"`;
+
+/**
+ * Responds with a task and its entity tag.
+ */
+const taskResponse = (
+  task: Task,
+  status = 200,
+  headers: { readonly [name: string]: string } = {}
+): ApiResponse => ({
+  status,
+  headers: { ETag: taskETag(task), ...headers },
+  body: serializeTask(task),
+});
+
+// Methods that must carry If-Match when they change a task
+const CONDITIONAL_METHODS: ReadonlyArray<string> = ["PUT", "PATCH", "DELETE"];
+
+/**
+ * Checks the If-Match precondition of a write. PUT, PATCH and DELETE need
+ * the header (428 without it) so that no update is lost; `*` matches any
+ * version. A stale tag means someone else changed the task since the client
+ * read it.
+ */
+const checkPrecondition = (
+  request: ApiRequest,
+  task: Task
+): RouteOutcome | undefined => {
+  if (request.ifMatch === undefined) {
+    return CONDITIONAL_METHODS.includes(request.method)
+      ? problem(
+          428,
+          "Precondition Required",
+          "Send the ETag of the task in If-Match"
+        )
+      : undefined;
+  }
+  if (request.ifMatch.trim() === "*") return undefined;
+
+  const tags = request.ifMatch.split(",").map((tag) => tag.trim());
+  return tags.includes(taskETag(task))
+    ? undefined
+    : problem(
+        412,
+        "Precondition Failed",
+        "The task was modified since it was read"
+      );
+};
+
+const findTask = (state: TaskState, taskId: string): Task | undefined =>
+  state.tasks.find((task) => task.id === taskId);
+
+/**
+ * Reads which hidden tasks a listing includes: `?archived=true` adds the
+ * archived tasks and `?trashed=true` the trashed ones.
+ */
+const visibilityOf = (query: URLSearchParams): Visibility => ({
+  archived: query.get("archived") === "true",
+  trashed: query.get("trashed") === "true",
+});
+
+/**
+ * Runs a handler against an existing task, answering 404 when it is missing
+ * and 428 or 412 when the If-Match precondition is missing or fails. Trashed
+ * tasks count as missing unless the handler asks for them.
+ */
+const withTask =
+  (
+    run: (
+      task: Task,
+      request: ApiRequest,
+      state: TaskState,
+      workflow: Workflow
+    ) => RouteOutcome,
+    options: { readonly write: boolean; readonly trashed?: boolean } = {
+      write: true,
+    }
+  ): RouteHandler =>
+  (request, [taskId = ""], state, workflow) => {
+    const task = findTask(state, taskId);
+    if (!task || (isTrashed(task) && !options.trashed)) {
+      return notFound(taskId);
+    }
+
+    const failed = options.write ? checkPrecondition(request, task) : undefined;
+    return failed ?? run(task, request, state, workflow);
+  };
+
+const isRecord = (
+  value: unknown
+): value is { readonly [key: string]: unknown } =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Validates the fields shared by task creation and update. Fields absent from
+ * the body are left undefined; `deadline: null` clears the deadline.
+ */
+const validateTaskFields = (
+  body: { readonly [key: string]: unknown },
+  required: ReadonlyArray<string>
+): Result<TaskUpdate, ReadonlyArray<FieldError>> => {
+  const errors: FieldError[] = [];
+  const {
+    title,
+    description,
+    priority,
+    deadline,
+    dependsOn,
+    estimate,
+    tags,
+    project,
+    assignees,
+    parentId,
+  } = body;
+
+  required
+    .filter((field) => body[field] === undefined)
+    .forEach((field) => errors.push({ field, message: "is required" }));
+
+  if (title !== undefined && typeof title !== "string") {
+    errors.push({ field: "title", message: "must be a string" });
+  }
+  if (description !== undefined && typeof description !== "string") {
+    errors.push({ field: "description", message: "must be a string" });
+  }
+  if (
+    priority !== undefined &&
+    (typeof priority !== "number" || !Number.isInteger(priority))
+  ) {
+    errors.push({ field: "priority", message: "must be an integer" });
+  }
+  const parsedDeadline =
+    typeof deadline === "string" ? parseDateTime(deadline) : undefined;
+  if (
+    deadline !== undefined &&
+    deadline !== null &&
+    parsedDeadline === undefined
+  ) {
+    errors.push({ field: "deadline", message: "must be an ISO 8601 date" });
+  }
+  if (
+    dependsOn !== undefined &&
+    (!Array.isArray(dependsOn) ||
+      !dependsOn.every((id) => typeof id === "string"))
+  ) {
+    errors.push({ field: "dependsOn", message: "must be an array of ids" });
+  }
+
+  if (
+    estimate !== undefined &&
+    estimate !== null &&
+    typeof estimate !== "number"
+  ) {
+    errors.push({ field: "estimate", message: "must be a number of hours" });
+  }
+
+  if (
+    tags !== undefined &&
+    (!Array.isArray(tags) || !tags.every((tag) => typeof tag === "string"))
+  ) {
+    errors.push({ field: "tags", message: "must be an array of strings" });
+  }
+  if (
+    project !== undefined &&
+    project !== null &&
+    typeof project !== "string"
+  ) {
+    errors.push({ field: "project", message: "must be a string" });
+  }
+  if (
+    assignees !== undefined &&
+    (!Array.isArray(assignees) ||
+      !assignees.every((name) => typeof name === "string"))
+  ) {
+    errors.push({ field: "assignees", message: "must be an array of strings" });
+  }
+  if (
+    parentId !== undefined &&
+    parentId !== null &&
+    typeof parentId !== "string"
+  ) {
+    errors.push({ field: "parentId", message: "must be a task id" });
+  }
+
+  const known = [
+    "title",
+    "description",
+    "priority",
+    "deadline",
+    "dependsOn",
+    "estimate",
+    "tags",
+    "project",
+    "assignees",
+    "parentId",
+  ];
+  Object.keys(body)
+    .filter((field) => !known.includes(field))
+    .forEach((field) => errors.push({ field, message: "is not allowed" }));
+
+  if (errors.length > 0) return { ok: false, error: errors };
+
+  return {
+    ok: true,
+    value: {
+      title: title as string | undefined,
+      description: description as string | undefined,
+      priority: priority as number | undefined,
+      deadline: deadline === null ? null : parsedDeadline,
+      dependsOn: dependsOn as ReadonlyArray<string> | undefined,
+      estimate: estimate as number | null | undefined,
+      tags: tags as ReadonlyArray<string> | undefined,
+      project: project as string | null | undefined,
+      assignees: assignees as ReadonlyArray<string> | undefined,
+      parentId: parentId as string | null | undefined,
+    },
+  };
+};
+
+/**
+ * Validates a JSON request body, answering 400 when it is not an object and
+ * 422 when its fields are invalid.
+ */
+const validateBody = (
+  request: ApiRequest,
+  required: ReadonlyArray<string>
+): Result<TaskUpdate, RouteOutcome> => {
+  if (!isRecord(request.body)) {
+    return {
+      ok: false,
+      error: problem(400, "Bad Request", "Body must be a JSON object"),
+    };
+  }
+
+  const fields = validateTaskFields(request.body, required);
+  return fields.ok
+    ? fields
+    : {
+        ok: false,
+        error: problem(
+          422,
+          "Unprocessable Entity",
+          "The request body is invalid",
+          { errors: fields.error }
+        ),
+      };
+};
+
+const listTasks: RouteHandler = (request, _params, state) => {
+  const input = [
+    ...request.query.getAll("status").map(statusTerm),
+    request.query.get("q") ?? "",
+  ].join(" ");
+  const tasks = runQuery(state, input, visibilityOf(request.query));
+
+  return tasks.ok
+    ? { response: { status: 200, body: tasks.value.map(serializeTask) } }
+    : problem(400, "Bad Request", formatQueryError(input, tasks.error));
+};
+
+const createTaskRoute: RouteHandler = (request, _params, state) => {
+  const fields = validateBody(request, ["title"]);
+  if (!fields.ok) return fields.error;
+
+  const { title = "", description = "", priority = 3, deadline } = fields.value;
+  const added = addTask(
+    state,
+    title,
+    description,
+    priority,
+    deadline ?? undefined
+  );
+  if (!added.ok) return operationFailed(added.error);
+
+  let newState = added.value;
+  const created = newState.tasks[newState.tasks.length - 1]!;
+  const { dependsOn, estimate, tags, project, assignees, parentId } =
+    fields.value;
+  if (
+    [dependsOn, estimate, tags, project, assignees, parentId].some(
+      (v) => v !== undefined
+    )
+  ) {
+    const updated = updateTask(newState, created.id, {
+      dependsOn,
+      estimate,
+      tags,
+      project,
+      assignees,
+      parentId,
+    });
+    if (!updated.ok) return operationFailed(updated.error);
+    newState = updated.value;
+  }
+
+  return {
+    response: taskResponse(findTask(newState, created.id)!, 201, {
+      Location: `/tasks/${created.id}`,
+    }),
+    state: newState,
+  };
+};
+
+const readTask: RouteHandler = withTask(
+  (task) => ({ response: taskResponse(task) }),
+  {
+    write: false,
+  }
+);
+
+const patchTask: RouteHandler = withTask((task, request, state) => {
+  const fields = validateBody(request, []);
+  if (!fields.ok) return fields.error;
+
+  const updated = updateTask(state, task.id, fields.value);
+  if (!updated.ok) return operationFailed(updated.error);
+
+  return {
+    response: taskResponse(findTask(updated.value, task.id)!),
+    state: updated.value,
+  };
+});
+
+const changeStatus: RouteHandler = withTask(
+  (task, request, state, workflow) => {
+    if (
+      !isRecord(request.body) ||
+      typeof request.body["status"] !== "string" ||
+      !["boolean", "undefined"].includes(typeof request.body["force"])
+    ) {
+      return problem(
+        400,
+        "Bad Request",
+        'Body must be { "status": string, "force"?: boolean }'
+      );
+    }
+
+    const status = request.body["status"];
+    const options = { force: request.body["force"] === true };
+    // Completing through markCompleted spawns the next recurring occurrence
+    const result =
+      status === "completed"
+        ? markCompleted(state, task.id, workflow, options)
+        : transitionTask(state, task.id, status, workflow, options);
+    if (!result.ok) return operationFailed(result.error);
+
+    const newState = result.value;
+
+    return {
+      response: taskResponse(findTask(newState, task.id)!),
+      state: newState,
+    };
+  }
+);
+
+const CHILD_POLICIES: ReadonlyArray<string> = ["cascade", "orphan", "reject"];
+
+/**
+ * Moves a task to the trash. `?children=cascade|orphan` decides what happens
+ * to its subtasks; by default a task with subtasks is not deleted (409).
+ */
+const deleteTask: RouteHandler = withTask((task, request, state) => {
+  const children = request.query.get("children") ?? "reject";
+  if (!CHILD_POLICIES.includes(children)) {
+    return problem(
+      400,
+      "Bad Request",
+      '"children" must be cascade, orphan or reject'
+    );
+  }
+
+  const trashed = trashTask(state, task.id, children as ChildPolicy);
+  if (!trashed.ok) {
+    return trashed.error.type === "NotFound"
+      ? operationFailed(trashed.error)
+      : problem(409, "Conflict", trashed.error.message);
+  }
+
+  return { response: { status: 204 }, state: trashed.value };
+});
+
+const restoreTrashedTask: RouteHandler = withTask(
+  (task, _request, state) => {
+    const restored = restoreTask(state, task.id);
+    if (!restored.ok) {
+      return restored.error.type === "NotFound"
+        ? operationFailed(restored.error)
+        : problem(409, "Conflict", restored.error.message);
+    }
+
+    return {
+      response: taskResponse(findTask(restored.value, task.id)!),
+      state: restored.value,
+    };
+  },
+  { write: true, trashed: true }
+);
+
+const listTrash: RouteHandler = (_request, _params, state) => ({
+  response: { status: 200, body: getTrash(state).map(serializeTask) },
+});
+
+/**
+ * Empties the trash, removing its tasks for good.
+ */
+const emptyTrash: RouteHandler = (_request, _params, state) => ({
+  response: { status: 204 },
+  state: purgeTrash(state, 0),
+});
+
+const nextTask: RouteHandler = (request, _params, state, workflow) => {
+  const next =
+    request.query.get("by") === "deadline"
+      ? getNextTaskByDeadline(state, workflow)
+      : getNextTask(state, workflow);
+
+  return next
+    ? { response: taskResponse(next) }
+    : { response: { status: 204 } };
+};
+
+const overdueTasks: RouteHandler = (_request, _params, state, workflow) => ({
+  response: {
+    status: 200,
+    body: getOverdueTasks(state, workflow).map(serializeTask),
+  },
+});
+
+const statistics: RouteHandler = (request, _params, state, workflow) => ({
+  response: {
+    status: 200,
+    body: getStatistics(
+      state,
+      workflow,
+      undefined,
+      visibilityOf(request.query)
+    ),
+  },
+});
+
+const routes: ReadonlyArray<Route> = [
+  { method: "GET", pattern: /^\/tasks$/, handler: listTasks },
+  { method: "POST", pattern: /^\/tasks$/, handler: createTaskRoute },
+  { method: "GET", pattern: /^\/tasks\/next$/, handler: nextTask },
+  { method: "GET", pattern: /^\/tasks\/overdue$/, handler: overdueTasks },
+  { method: "GET", pattern: /^\/tasks\/([^/]+)$/, handler: readTask },
+  { method: "PATCH", pattern: /^\/tasks\/([^/]+)$/, handler: patchTask },
+  { method: "DELETE", pattern: /^\/tasks\/([^/]+)$/, handler: deleteTask },
+  {
+    method: "PUT",
+    pattern: /^\/tasks\/([^/]+)\/status$/,
+    handler: changeStatus,
+  },
+  {
+    method: "POST",
+    pattern: /^\/tasks\/([^/]+)\/restore$/,
+    handler: restoreTrashedTask,
+  },
+  { method: "GET", pattern: /^\/trash$/, handler: listTrash },
+  { method: "DELETE", pattern: /^\/trash$/, handler: emptyTrash },
+  { method: "GET", pattern: /^\/stats$/, handler: statistics },
+];
+
+/**
+ * Dispatches a request to its route. Answers 404 for unknown paths, 405 for
+ * known paths with an unsupported method and 400 for path parameters that
+ * are not valid percent-encoding.
+ */
+const handleRequest = (
+  request: ApiRequest,
+  state: TaskState,
+  workflow: Workflow = defaultWorkflow
+): RouteOutcome => {
+  const matching = routes
+    .map((route) => ({ route, match: route.pattern.exec(request.path) }))
+    .filter(({ match }) => match !== null);
+
+  const found = matching.find(({ route }) => route.method === request.method);
+  if (!found) {
+    if (matching.length === 0) {
+      return problem(404, "Not Found", `No route for ${request.path}`);
+    }
+    const outcome = problem(405, "Method Not Allowed");
+    return {
+      response: {
+        ...outcome.response,
+        headers: {
+          ...outcome.response.headers,
+          Allow: matching.map(({ route }) => route.method).join(", "),
+        },
+      },
+    };
+  }
+
+  let params: ReadonlyArray<string>;
+  try {
+    params = found.match!.slice(1).map(decodeURIComponent);
+  } catch {
+    return problem(400, "Bad Request", `Malformed path ${request.path}`);
+  }
+  return found.route.handler(request, params, state, workflow);
+};
+
+/**
+ * Reads and parses the JSON body of a request, if it has one.
+ */
+const readBody = (
+  message: IncomingMessage
+): Promise<Result<unknown, RouteOutcome>> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    message.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    message.on("error", reject);
+    message.on("end", () => {
+      if (size > MAX_BODY_BYTES) {
+        resolve({ ok: false, error: problem(413, "Payload Too Large") });
+        return;
+      }
+
+      const text = Buffer.concat(chunks).toString("utf8");
+      if (text.trim() === "") {
+        resolve({ ok: true, value: undefined });
+        return;
+      }
+
+      try {
+        resolve({ ok: true, value: JSON.parse(text) });
+      } catch {
+        resolve({
+          ok: false,
+          error: problem(400, "Bad Request", "Body is not valid JSON"),
+        });
+      }
+    });
+  });
+
+const writeResponse = (res: ServerResponse, response: ApiResponse): void => {
+  const headers: { [name: string]: string } = { ...response.headers };
+  if (response.body !== undefined && headers["Content-Type"] === undefined) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  res.writeHead(response.status, headers);
+  res.end(
+    response.body === undefined ? undefined : JSON.stringify(response.body)
+  );
+};
+
+/**
+ * Creates an HTTP server exposing the task operations. Each request loads
+ * the state, runs its route and saves the state if the route changed it.
+ * Requests are processed one at a time so concurrent writes cannot overwrite
+ * each other.
+ */
+const createTaskServer = (
+  repository: TaskRepository,
+  workflow: Workflow = defaultWorkflow
+): Server => {
+  let queue: Promise<void> = Promise.resolve();
+
+  const processRequest = async (
+    message: IncomingMessage,
+    body: unknown
+  ): Promise<ApiResponse> => {
+    const url = new URL(message.url ?? "/", "http://localhost");
+    const loaded = await repository.load();
+    if (!loaded.ok) {
+      return problem(500, "Internal Server Error", loaded.error.message)
+        .response;
+    }
+
+    const outcome = handleRequest(
+      {
+        method: message.method ?? "GET",
+        path: url.pathname.replace(/\/+$/, "") || "/",
+        query: url.searchParams,
+        ifMatch: message.headers["if-match"],
+        body,
+      },
+      loaded.value,
+      workflow
+    );
+
+    if (outcome.state && outcome.state !== loaded.value) {
+      const saved = await repository.save(outcome.state);
+      if (!saved.ok) {
+        return problem(500, "Internal Server Error", saved.error.message)
+          .response;
+      }
+    }
+
+    return outcome.response;
+  };
+
+  return createServer((message, res) => {
+    readBody(message)
+      .then((body) => {
+        if (!body.ok) return body.error.response;
+
+        const response = queue.then(() => processRequest(message, body.value));
+        queue = response.then(
+          () => undefined,
+          () => undefined
+        );
+        return response;
+      })
+      .then(
+        (response) => writeResponse(res, response),
+        (error) =>
+          writeResponse(
+            res,
+            problem(500, "Internal Server Error", toError(error).message)
+              .response
+          )
+      );
+  });
+};
+
+export { handleRequest, createTaskServer, taskETag };
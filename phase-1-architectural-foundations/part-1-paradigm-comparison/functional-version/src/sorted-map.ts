@@ -0,0 +1,260 @@
+// A persistent sorted map, implemented as an AVL tree. Nodes are never
+// changed: an update copies the path from the root to the changed key and
+// shares every other node with the previous map, so it costs O(log n).
+
+// Orders keys: negative when a < b, zero when equal, positive when a > b
+export type Compare<K> = (a: K, b: K) => number;
+
+interface Node<K, V> {
+  readonly key: K;
+  readonly value: V;
+  readonly left: Tree<K, V>;
+  readonly right: Tree<K, V>;
+  readonly height: number;
+  readonly size: number;
+}
+
+type Tree<K, V> = Node<K, V> | undefined;
+
+export interface SortedMap<K, V> {
+  readonly compare: Compare<K>;
+  readonly root: Tree<K, V>;
+}
+
+const height = <K, V>(tree: Tree<K, V>): number => tree?.height ?? 0;
+
+const sizeOf = <K, V>(tree: Tree<K, V>): number => tree?.size ?? 0;
+
+const node = <K, V>(
+  key: K,
+  value: V,
+  left: Tree<K, V>,
+  right: Tree<K, V>
+): Node<K, V> => ({
+  key,
+  value,
+  left,
+  right,
+  height: Math.max(height(left), height(right)) + 1,
+  size: sizeOf(left) + sizeOf(right) + 1,
+});
+
+const rotateRight = <K, V>(tree: Node<K, V>): Node<K, V> => {
+  const left = tree.left!;
+  return node(
+    left.key,
+    left.value,
+    left.left,
+    node(tree.key, tree.value, left.right, tree.right)
+  );
+};
+
+const rotateLeft = <K, V>(tree: Node<K, V>): Node<K, V> => {
+  const right = tree.right!;
+  return node(
+    right.key,
+    right.value,
+    node(tree.key, tree.value, tree.left, right.left),
+    right.right
+  );
+};
+
+/**
+ * Builds a node, rotating it when one side has grown two levels taller than
+ * the other.
+ */
+const balance = <K, V>(
+  key: K,
+  value: V,
+  left: Tree<K, V>,
+  right: Tree<K, V>
+): Node<K, V> => {
+  const tree = node(key, value, left, right);
+  const skew = height(left) - height(right);
+
+  if (skew > 1) {
+    return height(left!.left) >= height(left!.right)
+      ? rotateRight(tree)
+      : rotateRight(node(key, value, rotateLeft(left!), right));
+  }
+  if (skew < -1) {
+    return height(right!.right) >= height(right!.left)
+      ? rotateLeft(tree)
+      : rotateLeft(node(key, value, left, rotateRight(right!)));
+  }
+  return tree;
+};
+
+const insert = <K, V>(
+  tree: Tree<K, V>,
+  key: K,
+  value: V,
+  compare: Compare<K>
+): Node<K, V> => {
+  if (!tree) return node(key, value, undefined, undefined);
+
+  const order = compare(key, tree.key);
+  if (order < 0) {
+    return balance(
+      tree.key,
+      tree.value,
+      insert(tree.left, key, value, compare),
+      tree.right
+    );
+  }
+  if (order > 0) {
+    return balance(
+      tree.key,
+      tree.value,
+      tree.left,
+      insert(tree.right, key, value, compare)
+    );
+  }
+  return node(key, value, tree.left, tree.right);
+};
+
+const removeMin = <K, V>(
+  tree: Node<K, V>
+): { readonly min: Node<K, V>; readonly rest: Tree<K, V> } => {
+  if (!tree.left) return { min: tree, rest: tree.right };
+
+  const { min, rest } = removeMin(tree.left);
+  return { min, rest: balance(tree.key, tree.value, rest, tree.right) };
+};
+
+const remove = <K, V>(
+  tree: Tree<K, V>,
+  key: K,
+  compare: Compare<K>
+): Tree<K, V> => {
+  if (!tree) return undefined;
+
+  const order = compare(key, tree.key);
+  if (order < 0) {
+    return balance(
+      tree.key,
+      tree.value,
+      remove(tree.left, key, compare),
+      tree.right
+    );
+  }
+  if (order > 0) {
+    return balance(
+      tree.key,
+      tree.value,
+      tree.left,
+      remove(tree.right, key, compare)
+    );
+  }
+
+  if (!tree.left) return tree.right;
+  if (!tree.right) return tree.left;
+  const { min, rest } = removeMin(tree.right);
+  return balance(min.key, min.value, tree.left, rest);
+};
+
+/**
+ * Creates an empty map ordered by the given comparison.
+ */
+const emptyMap = <K, V>(compare: Compare<K>): SortedMap<K, V> => ({
+  compare,
+  root: undefined,
+});
+
+/**
+ * Looks up the value of a key.
+ */
+const get = <K, V>(map: SortedMap<K, V>, key: K): V | undefined => {
+  let tree = map.root;
+  while (tree) {
+    const order = map.compare(key, tree.key);
+    if (order === 0) return tree.value;
+    tree = order < 0 ? tree.left : tree.right;
+  }
+  return undefined;
+};
+
+/**
+ * Sets the value of a key, adding the key if needed.
+ */
+const set = <K, V>(
+  map: SortedMap<K, V>,
+  key: K,
+  value: V
+): SortedMap<K, V> => ({
+  compare: map.compare,
+  root: insert(map.root, key, value, map.compare),
+});
+
+/**
+ * Removes a key. Missing keys are ignored.
+ */
+const del = <K, V>(map: SortedMap<K, V>, key: K): SortedMap<K, V> => ({
+  compare: map.compare,
+  root: remove(map.root, key, map.compare),
+});
+
+/**
+ * Counts the entries of a map.
+ */
+const size = <K, V>(map: SortedMap<K, V>): number => sizeOf(map.root);
+
+/**
+ * Counts the entries whose key is below the given key.
+ */
+const countBefore = <K, V>(map: SortedMap<K, V>, key: K): number => {
+  let count = 0;
+  let tree = map.root;
+  while (tree) {
+    if (map.compare(tree.key, key) < 0) {
+      count += sizeOf(tree.left) + 1;
+      tree = tree.right;
+    } else {
+      tree = tree.left;
+    }
+  }
+  return count;
+};
+
+/**
+ * Lists the entries whose key is below `before` (every entry when it is left
+ * out), in key order.
+ */
+const entries = <K, V>(
+  map: SortedMap<K, V>,
+  before?: K
+): ReadonlyArray<readonly [K, V]> => {
+  const result: (readonly [K, V])[] = [];
+  const visit = (tree: Tree<K, V>): void => {
+    if (!tree) return;
+    visit(tree.left);
+    if (before !== undefined && map.compare(tree.key, before) >= 0) return;
+    result.push([tree.key, tree.value]);
+    visit(tree.right);
+  };
+  visit(map.root);
+  return result;
+};
+
+/**
+ * Lists the values of the entries whose key is below `before`, in key order.
+ */
+const values = <K, V>(map: SortedMap<K, V>, before?: K): ReadonlyArray<V> =>
+  entries(map, before).map(([, value]) => value);
+
+const compareStrings: Compare<string> = (a, b) => (a < b ? -1 : a > b ? 1 : 0);
+
+const compareNumbers: Compare<number> = (a, b) => a - b;
+
+export {
+  emptyMap,
+  get,
+  set,
+  del,
+  size,
+  countBefore,
+  entries,
+  values,
+  compareStrings,
+  compareNumbers,
+};
@@ -0,0 +1,371 @@
+import { recordChanges } from "./audit";
+import { defaultEnv } from "./environment";
+import { invalidField, notFound } from "./errors";
+import { findTask, getChildTasks, putTask } from "./task-index";
+import {
+  ChecklistItem,
+  ChildPolicy,
+  Env,
+  Result,
+  Task,
+  TaskError,
+  TaskState,
+  TaskStatus,
+  Workflow,
+} from "./types";
+import { isTrashed } from "./visibility";
+import { defaultWorkflow, getStatusCategory, isDoneStatus } from "./workflow";
+
+/**
+ * Retrieves the direct subtasks of a task.
+ */
+const getChildren = (
+  state: Readonly<TaskState>,
+  taskId: string
+): ReadonlyArray<Task> => getChildTasks(state, taskId);
+
+/**
+ * Retrieves the direct subtasks of a task that are not in the trash. Trashed
+ * subtasks no longer count towards the progress or status of their parent.
+ */
+const getLiveChildren = (
+  state: Readonly<TaskState>,
+  taskId: string
+): ReadonlyArray<Task> =>
+  getChildren(state, taskId).filter((child) => !isTrashed(child));
+
+/**
+ * Retrieves every subtask below a task, depth first: each subtask is followed
+ * by its own subtasks.
+ */
+const getDescendants = (
+  state: Readonly<TaskState>,
+  taskId: string
+): ReadonlyArray<Task> =>
+  getChildren(state, taskId).flatMap((child) => [
+    child,
+    ...getDescendants(state, child.id),
+  ]);
+
+/**
+ * Validates a new parent for a task: both tasks must exist and the parent
+ * must be neither the task itself nor one of its subtasks.
+ */
+const validateParent = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  parentId: string
+): Result<string, Error> => {
+  if (!findTask(state, taskId)) {
+    return { ok: false, error: new Error(`Task with id ${taskId} not found`) };
+  }
+
+  if (!findTask(state, parentId)) {
+    return {
+      ok: false,
+      error: new Error(`Parent task with id ${parentId} not found`),
+    };
+  }
+
+  if (
+    parentId === taskId ||
+    getDescendants(state, taskId).some((task) => task.id === parentId)
+  ) {
+    return {
+      ok: false,
+      error: new Error("A task cannot be a subtask of itself or its subtasks"),
+    };
+  }
+
+  return { ok: true, value: parentId };
+};
+
+/**
+ * Makes a task a subtask of another one, or a top-level task when the parent
+ * is null. Returns a Result containing the new state, or an error if a task
+ * is missing or the parent is one of the task's own subtasks.
+ */
+const setParent = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  parentId: string | null,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const task = findTask(state, taskId);
+  if (!task) {
+    return { ok: false, error: notFound(taskId) };
+  }
+
+  const validated =
+    parentId === null ? undefined : validateParent(state, taskId, parentId);
+  if (validated && !validated.ok) {
+    return {
+      ok: false,
+      error: invalidField("parentId", validated.error.message),
+    };
+  }
+
+  return {
+    ok: true,
+    value: putTask(
+      state,
+      recordChanges(
+        task,
+        { ...task, parentId: parentId ?? undefined },
+        env.clock(),
+        env.actor
+      )
+    ),
+  };
+};
+
+/**
+ * Lists the ids removed together with a task under the given policy: only
+ * the task for "orphan", the task and all its subtasks for "cascade". The
+ * "reject" policy returns an error when the task has subtasks outside the
+ * trash.
+ */
+const getRemovalIds = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  policy: ChildPolicy
+): Result<ReadonlyArray<string>, TaskError> => {
+  if (!findTask(state, taskId)) {
+    return { ok: false, error: notFound(taskId) };
+  }
+
+  const descendants = getDescendants(state, taskId);
+  const remaining = descendants.filter((task) => !isTrashed(task));
+  if (policy === "reject" && remaining.length > 0) {
+    return {
+      ok: false,
+      error: invalidField(
+        "children",
+        `Task has ${remaining.length} subtask(s)`
+      ),
+    };
+  }
+
+  return {
+    ok: true,
+    value:
+      policy === "cascade"
+        ? [taskId, ...descendants.map((task) => task.id)]
+        : [taskId],
+  };
+};
+
+/**
+ * Checks that a task may be completed: every direct subtask must be done,
+ * unless it is completed along with the task or in the trash. Other done
+ * statuses such as "cancelled" are not checked.
+ */
+const validateSubtaskCompletion = (
+  state: Readonly<TaskState>,
+  task: Task,
+  to: TaskStatus,
+  workflow: Workflow = defaultWorkflow,
+  completing: ReadonlySet<string> = new Set()
+): Result<Task, Error> => {
+  if (to !== "completed") return { ok: true, value: task };
+
+  const open = getLiveChildren(state, task.id).filter(
+    (child) =>
+      !isDoneStatus(child.status, workflow) && !completing.has(child.id)
+  );
+  return open.length === 0
+    ? { ok: true, value: task }
+    : {
+        ok: false,
+        error: new Error(`Task has ${open.length} open subtask(s)`),
+      };
+};
+
+/**
+ * Computes how far a task is, from 0 to 1. Done tasks are finished; other
+ * tasks average the progress of their subtasks and checklist items.
+ */
+const progressOf = (
+  state: Readonly<TaskState>,
+  task: Task,
+  workflow: Workflow
+): number => {
+  if (isDoneStatus(task.status, workflow)) return 1;
+
+  const parts = [
+    ...getLiveChildren(state, task.id).map((child) =>
+      progressOf(state, child, workflow)
+    ),
+    ...(task.checklist ?? []).map((item) => (item.done ? 1 : 0)),
+  ];
+  return parts.length === 0
+    ? 0
+    : parts.reduce((sum, part) => sum + part, 0) / parts.length;
+};
+
+/**
+ * Gets a task's progress as a whole percentage. Subtasks count with their
+ * own progress, so half of a subtask's checklist adds half a subtask.
+ */
+const getProgress = (
+  state: Readonly<TaskState>,
+  task: Task,
+  workflow: Workflow = defaultWorkflow
+): number => Math.round(progressOf(state, task, workflow) * 100);
+
+/**
+ * Derives a parent's status from its subtasks: done once every subtask is
+ * done, active as soon as work has started on any of them, and todo
+ * otherwise. The task's own status is kept when it already is in that
+ * category, or when the task has no subtasks or was closed itself.
+ */
+const getEffectiveStatus = (
+  state: Readonly<TaskState>,
+  task: Task,
+  workflow: Workflow = defaultWorkflow
+): TaskStatus => {
+  const children = getLiveChildren(state, task.id);
+  if (children.length === 0 || isDoneStatus(task.status, workflow)) {
+    return task.status;
+  }
+
+  const categories = children.map((child) =>
+    getStatusCategory(getEffectiveStatus(state, child, workflow), workflow)
+  );
+  const started =
+    getStatusCategory(task.status, workflow) !== "todo" ||
+    categories.some((category) => category !== "todo") ||
+    (task.checklist ?? []).some((item) => item.done);
+  const category = categories.every((category) => category === "done")
+    ? "done"
+    : started
+    ? "active"
+    : "todo";
+
+  return getStatusCategory(task.status, workflow) === category
+    ? task.status
+    : workflow.statuses.find((status) => status.category === category)?.id ??
+        task.status;
+};
+
+/**
+ * Applies a change to a task's checklist. Returns an error if the task is
+ * not found.
+ */
+const updateChecklist = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  change: (
+    checklist: ReadonlyArray<ChecklistItem>
+  ) => Result<ReadonlyArray<ChecklistItem>, TaskError>,
+  env: Env
+): Result<TaskState, TaskError> => {
+  const task = findTask(state, taskId);
+  if (!task) {
+    return { ok: false, error: notFound(taskId) };
+  }
+
+  const checklist = change(task.checklist ?? []);
+  if (!checklist.ok) return checklist;
+
+  return {
+    ok: true,
+    value: putTask(
+      state,
+      recordChanges(
+        task,
+        { ...task, checklist: checklist.value },
+        env.clock(),
+        env.actor
+      )
+    ),
+  };
+};
+
+const itemNotFound = (itemId: string): Result<never, TaskError> => ({
+  ok: false,
+  error: notFound(itemId, "checklist item"),
+});
+
+/**
+ * Appends an unchecked item to a task's checklist.
+ */
+const addChecklistItem = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  text: string,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> =>
+  updateChecklist(
+    state,
+    taskId,
+    (checklist) =>
+      text.trim()
+        ? {
+            ok: true,
+            value: [...checklist, { id: env.generateId(), text, done: false }],
+          }
+        : {
+            ok: false,
+            error: invalidField("checklist", "Checklist item cannot be empty"),
+          },
+    env
+  );
+
+/**
+ * Checks or unchecks a checklist item.
+ */
+const setChecklistItemDone = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  itemId: string,
+  done: boolean,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> =>
+  updateChecklist(
+    state,
+    taskId,
+    (checklist) =>
+      checklist.some((item) => item.id === itemId)
+        ? {
+            ok: true,
+            value: checklist.map((item) =>
+              item.id === itemId ? { ...item, done } : item
+            ),
+          }
+        : itemNotFound(itemId),
+    env
+  );
+
+/**
+ * Removes an item from a task's checklist.
+ */
+const removeChecklistItem = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  itemId: string,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> =>
+  updateChecklist(
+    state,
+    taskId,
+    (checklist) =>
+      checklist.some((item) => item.id === itemId)
+        ? { ok: true, value: checklist.filter((item) => item.id !== itemId) }
+        : itemNotFound(itemId),
+    env
+  );
+
+export {
+  getChildren,
+  getDescendants,
+  validateParent,
+  setParent,
+  getRemovalIds,
+  validateSubtaskCompletion,
+  getProgress,
+  getEffectiveStatus,
+  addChecklistItem,
+  setChecklistItemDone,
+  removeChecklistItem,
+};
@@ -0,0 +1,22 @@
+#!/usr/bin/env node
+import { rmSync } from "fs";
+import { createFileReplicaStore, formatConflict } from "./replica";
+import { createJsonFileRepository } from "./repository";
+import { createRepositorySync, createSyncServer } from "./sync";
+
+const socketPath = process.env["SYNC_SOCKET"] ?? "tasks.sock";
+const filePath = process.env["TASKS_FILE"] ?? "tasks.json";
+
+// A socket left behind by a previous run would make listen fail
+rmSync(socketPath, { force: true });
+
+createSyncServer(
+  createRepositorySync(
+    createJsonFileRepository(filePath),
+    createFileReplicaStore(`${filePath}.replica.json`),
+    (conflicts) =>
+      conflicts.forEach((conflict) => console.log(formatConflict(conflict)))
+  )
+).listen(socketPath, () => {
+  console.log(`Sync listening on ${socketPath} (${filePath})`);
+});
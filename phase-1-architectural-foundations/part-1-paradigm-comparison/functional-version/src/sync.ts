@@ -0,0 +1,273 @@
+import { promises as fs } from "fs";
+import { Server, Socket, createConnection, createServer } from "net";
+import {
+  MergeResult,
+  Replica,
+  ReplicaStore,
+  SyncConflict,
+  commitState,
+  deserializeReplica,
+  materialize,
+  mergeReplicas,
+} from "./replica";
+import { TaskRepository, isRecord, writeFileAtomic } from "./repository";
+import { Result, TaskState } from "./types";
+import { toError } from "./utils";
+
+// Sends the local replica to a peer and merges what comes back
+export type SyncTransport = (replica: Replica) => Promise<Result<MergeResult>>;
+
+// Messages of the socket protocol, one JSON object per line. The client
+// sends its replica, the server answers with the merged one.
+export type SyncMessage =
+  | { readonly type: "sync"; readonly replica: Replica }
+  | { readonly type: "error"; readonly message: string };
+
+// Outcome of a sync on the local side
+export interface SyncOutcome {
+  readonly state: TaskState;
+  // Merged replica, as saved in the store
+  readonly replica: Replica;
+  readonly conflicts: ReadonlyArray<SyncConflict>;
+}
+
+/**
+ * Syncs through a file every replica can reach, such as a shared folder.
+ * The file holds the merge of every replica synced through it; a missing
+ * file counts as empty. Replicas syncing through the same file one after
+ * the other converge; two syncs racing on it may lose one of the writes,
+ * which the next sync of that replica puts back.
+ */
+const createFileTransport =
+  (filePath: string): SyncTransport =>
+  async (replica) => {
+    let content: string | undefined;
+    try {
+      content = await fs.readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        return { ok: false, error: toError(error) };
+      }
+    }
+
+    let merged: MergeResult = { replica, conflicts: [] };
+    if (content !== undefined) {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(content);
+      } catch (error) {
+        return { ok: false, error: toError(error) };
+      }
+      const remote = deserializeReplica(raw);
+      if (!remote.ok) return remote;
+      merged = mergeReplicas(replica, remote.value);
+    }
+
+    try {
+      await writeFileAtomic(filePath, `${JSON.stringify(merged.replica)}\n`);
+      return { ok: true, value: merged };
+    } catch (error) {
+      return { ok: false, error: toError(error) };
+    }
+  };
+
+/**
+ * Sends a message as a line of JSON.
+ */
+const sendMessage = (socket: Socket, message: SyncMessage): void => {
+  socket.write(`${JSON.stringify(message)}\n`);
+};
+
+// Longest message accepted from a peer, in characters
+const MAX_MESSAGE_LENGTH = 64 * 1024 * 1024;
+
+/**
+ * Checks that a parsed line has the shape of a message. The replica a sync
+ * message carries is checked by replicaOf.
+ */
+const parseMessage = (raw: unknown): Result<SyncMessage> => {
+  if (isRecord(raw) && raw["type"] === "sync") {
+    return { ok: true, value: raw as unknown as SyncMessage };
+  }
+  if (
+    isRecord(raw) &&
+    raw["type"] === "error" &&
+    typeof raw["message"] === "string"
+  ) {
+    return { ok: true, value: { type: "error", message: raw["message"] } };
+  }
+  return { ok: false, error: new Error("Invalid sync message") };
+};
+
+/**
+ * Reads the first line a socket receives and parses it as a message. Gives
+ * up on lines longer than MAX_MESSAGE_LENGTH.
+ */
+const readMessage = (socket: Socket): Promise<Result<SyncMessage>> =>
+  new Promise((resolve) => {
+    let buffer = "";
+    const done = (result: Result<SyncMessage>) => {
+      socket.removeAllListeners("data");
+      resolve(result);
+    };
+
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      const end = buffer.indexOf("\n");
+      if (end === -1) {
+        if (buffer.length > MAX_MESSAGE_LENGTH) {
+          done({ ok: false, error: new Error("Sync message too long") });
+        }
+        return;
+      }
+      try {
+        done(parseMessage(JSON.parse(buffer.slice(0, end))));
+      } catch (error) {
+        done({ ok: false, error: toError(error) });
+      }
+    });
+    socket.on("error", (error) => done({ ok: false, error }));
+    socket.on("end", () =>
+      done({ ok: false, error: new Error("Connection closed by peer") })
+    );
+  });
+
+/**
+ * Parses the replica a sync message carries.
+ */
+const replicaOf = (message: Result<SyncMessage>): Result<Replica> => {
+  if (!message.ok) return message;
+  return message.value.type === "sync"
+    ? deserializeReplica(message.value.replica)
+    : { ok: false, error: new Error(message.value.message) };
+};
+
+/**
+ * Syncs with a peer listening on a local socket (a Unix socket path or a
+ * Windows named pipe), see createSyncServer. Gives up after `timeoutMs`.
+ */
+const createSocketTransport =
+  (socketPath: string, timeoutMs = 10000): SyncTransport =>
+  (replica) =>
+    new Promise((resolve) => {
+      const socket = createConnection(socketPath);
+      socket.setTimeout(timeoutMs, () =>
+        socket.destroy(new Error(`No answer from ${socketPath}`))
+      );
+      socket.on("connect", () =>
+        sendMessage(socket, { type: "sync", replica })
+      );
+
+      readMessage(socket).then((message) => {
+        socket.end();
+        const remote = replicaOf(message);
+        resolve(
+          remote.ok
+            ? { ok: true, value: mergeReplicas(replica, remote.value) }
+            : remote
+        );
+      });
+    });
+
+/**
+ * Creates a server answering sync requests on a local socket. `sync`
+ * merges the replica of the client into the local one and returns the
+ * result, which is sent back so that both sides end up equal. Requests are
+ * handled one at a time. Anything `sync` throws is answered as an error
+ * rather than taking the server down.
+ */
+const createSyncServer = (
+  sync: (remote: Replica) => Promise<Result<Replica>>
+): Server => {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return createServer(async (socket) => {
+    socket.on("error", () => socket.destroy());
+
+    let merged: Result<Replica>;
+    try {
+      const remote = replicaOf(await readMessage(socket));
+      const handled = queue.then(() =>
+        remote.ok ? sync(remote.value) : remote
+      );
+      queue = handled.catch(() => undefined);
+      merged = await handled;
+    } catch (error) {
+      merged = { ok: false, error: toError(error) };
+    }
+
+    sendMessage(
+      socket,
+      merged.ok
+        ? { type: "sync", replica: merged.value }
+        : { type: "error", message: merged.error.message }
+    );
+    socket.end();
+  });
+};
+
+/**
+ * Syncs a task state: records its changes in the stored replica, exchanges
+ * the replica over the transport and saves the merged one. Returns the
+ * merged state and replica, and the conflicts resolved along the way.
+ */
+const syncState = async (
+  state: TaskState,
+  store: ReplicaStore,
+  transport: SyncTransport
+): Promise<Result<SyncOutcome>> => {
+  const loaded = await store.load();
+  if (!loaded.ok) return loaded;
+
+  const merged = await transport(commitState(loaded.value, state));
+  if (!merged.ok) return merged;
+  const synced = materialize(merged.value.replica);
+  if (!synced.ok) return synced;
+
+  const saved = await store.save(merged.value.replica);
+  return saved.ok
+    ? {
+        ok: true,
+        value: {
+          state: synced.value,
+          replica: merged.value.replica,
+          conflicts: merged.value.conflicts,
+        },
+      }
+    : saved;
+};
+
+/**
+ * Builds the handler of createSyncServer for a repository: the state is
+ * synced with the replica of the client and saved. `onConflicts` hears
+ * about the conflicts resolved on this side.
+ */
+const createRepositorySync =
+  (
+    repository: TaskRepository,
+    store: ReplicaStore,
+    onConflicts: (conflicts: ReadonlyArray<SyncConflict>) => void = () => {}
+  ) =>
+  async (remote: Replica): Promise<Result<Replica>> => {
+    const state = await repository.load();
+    if (!state.ok) return state;
+
+    const synced = await syncState(state.value, store, async (local) => ({
+      ok: true,
+      value: mergeReplicas(local, remote),
+    }));
+    if (!synced.ok) return synced;
+
+    onConflicts(synced.value.conflicts);
+    const saved = await repository.save(synced.value.state);
+    return saved.ok ? { ok: true, value: synced.value.replica } : saved;
+  };
+
+export {
+  createFileTransport,
+  createSocketTransport,
+  createSyncServer,
+  syncState,
+  createRepositorySync,
+};
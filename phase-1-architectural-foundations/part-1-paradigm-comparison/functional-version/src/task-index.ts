@@ -0,0 +1,348 @@
+import {
+  Compare,
+  SortedMap,
+  compareNumbers,
+  compareStrings,
+  countBefore,
+  del,
+  emptyMap,
+  entries,
+  get,
+  set,
+  size,
+  values,
+} from "./sorted-map";
+import { Task, TaskState, TaskStatus } from "./types";
+
+// Position of a task in the order of `state.tasks`. Positions only grow: a
+// new task is placed after every other one.
+type Position = number;
+
+// Deadline time, then position to order tasks sharing a deadline
+type DeadlineKey = readonly [number, Position];
+
+// Tasks grouped by a key, each group in task order
+type Groups = SortedMap<string, SortedMap<Position, Task>>;
+
+// The tasks of a state, keyed by id, with secondary indexes by status, by
+// parent, by deadline and for running sessions. Every index is a persistent
+// sorted map, so an update copies a few paths and shares the rest with the
+// index it was made from.
+interface TaskIndex {
+  readonly positions: SortedMap<string, Position>;
+  readonly tasks: SortedMap<Position, Task>;
+  readonly byStatus: Groups;
+  readonly byParent: Groups;
+  readonly byDeadline: SortedMap<DeadlineKey, Task>;
+  readonly running: SortedMap<Position, Task>;
+  readonly nextPosition: Position;
+}
+
+const compareDeadlines: Compare<DeadlineKey> = (a, b) =>
+  a[0] - b[0] || a[1] - b[1];
+
+const emptyIndex: TaskIndex = {
+  positions: emptyMap(compareStrings),
+  tasks: emptyMap(compareNumbers),
+  byStatus: emptyMap(compareStrings),
+  byParent: emptyMap(compareStrings),
+  byDeadline: emptyMap(compareDeadlines),
+  running: emptyMap(compareNumbers),
+  nextPosition: 0,
+};
+
+const hasRunningSession = (task: Task): boolean =>
+  (task.sessions ?? []).some((session) => session.end === undefined);
+
+const addToGroup = (
+  groups: Groups,
+  key: string | undefined,
+  position: Position,
+  task: Task
+): Groups =>
+  key === undefined
+    ? groups
+    : set(
+        groups,
+        key,
+        set(get(groups, key) ?? emptyMap(compareNumbers), position, task)
+      );
+
+const removeFromGroup = (
+  groups: Groups,
+  key: string | undefined,
+  position: Position
+): Groups => {
+  if (key === undefined) return groups;
+  const group = get(groups, key);
+  if (!group) return groups;
+
+  const rest = del(group, position);
+  return size(rest) === 0 ? del(groups, key) : set(groups, key, rest);
+};
+
+/**
+ * Adds a task at a position to every index but `positions`.
+ */
+const indexTask = (
+  index: TaskIndex,
+  position: Position,
+  task: Task
+): TaskIndex => ({
+  ...index,
+  tasks: set(index.tasks, position, task),
+  byStatus: addToGroup(index.byStatus, task.status, position, task),
+  byParent: addToGroup(index.byParent, task.parentId, position, task),
+  byDeadline: task.deadline
+    ? set(index.byDeadline, [task.deadline.getTime(), position], task)
+    : index.byDeadline,
+  running: hasRunningSession(task)
+    ? set(index.running, position, task)
+    : index.running,
+});
+
+/**
+ * Removes the task at a position from every index but `positions`.
+ */
+const unindexTask = (
+  index: TaskIndex,
+  position: Position,
+  task: Task
+): TaskIndex => ({
+  ...index,
+  tasks: del(index.tasks, position),
+  byStatus: removeFromGroup(index.byStatus, task.status, position),
+  byParent: removeFromGroup(index.byParent, task.parentId, position),
+  byDeadline: task.deadline
+    ? del(index.byDeadline, [task.deadline.getTime(), position])
+    : index.byDeadline,
+  running: del(index.running, position),
+});
+
+/**
+ * Replaces the task with the same id, or appends the task when there is
+ * none.
+ */
+const putInIndex = (index: TaskIndex, task: Task): TaskIndex => {
+  const position = get(index.positions, task.id);
+  if (position === undefined) {
+    return indexTask(
+      {
+        ...index,
+        positions: set(index.positions, task.id, index.nextPosition),
+        nextPosition: index.nextPosition + 1,
+      },
+      index.nextPosition,
+      task
+    );
+  }
+
+  const previous = get(index.tasks, position)!;
+  return indexTask(unindexTask(index, position, previous), position, task);
+};
+
+const removeFromIndex = (index: TaskIndex, taskId: string): TaskIndex => {
+  const position = get(index.positions, taskId);
+  if (position === undefined) return index;
+
+  return {
+    ...unindexTask(index, position, get(index.tasks, position)!),
+    positions: del(index.positions, taskId),
+  };
+};
+
+/**
+ * Indexes a list of tasks. Only the first of several tasks sharing an id can
+ * be found by id, as with `Array#find`, but every task keeps its place.
+ */
+const buildIndex = (tasks: ReadonlyArray<Task>): TaskIndex =>
+  tasks.reduce<TaskIndex>(
+    (index, task, position) => ({
+      ...indexTask(index, position, task),
+      positions:
+        get(index.positions, task.id) === undefined
+          ? set(index.positions, task.id, position)
+          : index.positions,
+    }),
+    { ...emptyIndex, nextPosition: tasks.length }
+  );
+
+// Index of every state made by this module, and of every task array indexed
+// so far. Plain states built elsewhere are indexed on first use and found
+// again through their task array while it is shared.
+const indexes = new WeakMap<object, TaskIndex>();
+
+const indexOf = (state: Readonly<TaskState>): TaskIndex => {
+  const cached = indexes.get(state) ?? indexes.get(state.tasks);
+  if (cached) return cached;
+
+  const index = buildIndex(state.tasks);
+  indexes.set(state.tasks, index);
+  return index;
+};
+
+/**
+ * Creates a state from an index. The task array is only built when
+ * `tasks` is first read, so a chain of updates never copies it.
+ */
+const toState = (index: TaskIndex): TaskState => {
+  let tasks: ReadonlyArray<Task> | undefined;
+  const state: TaskState = {
+    get tasks() {
+      if (tasks === undefined) {
+        tasks = values(index.tasks);
+        indexes.set(tasks, index);
+      }
+      return tasks;
+    },
+  };
+  indexes.set(state, index);
+  return state;
+};
+
+/**
+ * Orders the tasks of several index entries like `state.tasks`.
+ */
+const inTaskOrder = (
+  found: ReadonlyArray<readonly [Position, Task]>
+): ReadonlyArray<Task> =>
+  [...found].sort((a, b) => a[0] - b[0]).map(([, task]) => task);
+
+/**
+ * Finds a task by id.
+ */
+const findTask = (
+  state: Readonly<TaskState>,
+  taskId: string
+): Task | undefined => {
+  const index = indexOf(state);
+  const position = get(index.positions, taskId);
+  return position === undefined ? undefined : get(index.tasks, position);
+};
+
+/**
+ * Finds the tasks with the given ids, in the order of `state.tasks`. Unknown
+ * ids are skipped.
+ */
+const findTasks = (
+  state: Readonly<TaskState>,
+  taskIds: ReadonlyArray<string>
+): ReadonlyArray<Task> => {
+  const index = indexOf(state);
+  const found = [...new Set(taskIds)].flatMap((id) => {
+    const position = get(index.positions, id);
+    return position === undefined
+      ? []
+      : [[position, get(index.tasks, position)!] as const];
+  });
+  return inTaskOrder(found);
+};
+
+/**
+ * Puts tasks into a state: a task replaces the task with the same id and
+ * keeps its place, other tasks are appended.
+ */
+const putTasks = (
+  state: Readonly<TaskState>,
+  tasks: ReadonlyArray<Task>
+): TaskState =>
+  tasks.length === 0
+    ? state
+    : toState(tasks.reduce(putInIndex, indexOf(state)));
+
+/**
+ * Puts a task into a state, see putTasks.
+ */
+const putTask = (state: Readonly<TaskState>, task: Task): TaskState =>
+  putTasks(state, [task]);
+
+/**
+ * Removes the tasks with the given ids. Unknown ids are ignored.
+ */
+const removeTasks = (
+  state: Readonly<TaskState>,
+  taskIds: ReadonlyArray<string>
+): TaskState =>
+  taskIds.length === 0
+    ? state
+    : toState(taskIds.reduce(removeFromIndex, indexOf(state)));
+
+/**
+ * Retrieves the tasks whose status matches, in the order of `state.tasks`.
+ */
+const getTasksWithStatus = (
+  state: Readonly<TaskState>,
+  matches: (status: TaskStatus) => boolean
+): ReadonlyArray<Task> => {
+  const groups = entries(indexOf(state).byStatus).filter(([status]) =>
+    matches(status)
+  );
+  return groups.length === 1
+    ? values(groups[0]![1])
+    : inTaskOrder(groups.flatMap(([, group]) => entries(group)));
+};
+
+/**
+ * Retrieves the direct subtasks of a task, in the order of `state.tasks`.
+ */
+const getChildTasks = (
+  state: Readonly<TaskState>,
+  parentId: string
+): ReadonlyArray<Task> => {
+  const group = get(indexOf(state).byParent, parentId);
+  return group ? values(group) : [];
+};
+
+/**
+ * Retrieves the tasks with a running session, in the order of
+ * `state.tasks`.
+ */
+const getRunningTasks = (state: Readonly<TaskState>): ReadonlyArray<Task> =>
+  values(indexOf(state).running);
+
+/**
+ * Retrieves the tasks with a deadline, earliest first. Tasks sharing a
+ * deadline keep the order of `state.tasks`.
+ */
+const getTasksByDeadline = (state: Readonly<TaskState>): ReadonlyArray<Task> =>
+  values(indexOf(state).byDeadline);
+
+/**
+ * Retrieves the tasks whose deadline is before the given time and whose
+ * status matches, in the order of `state.tasks`. Reads the deadline index or
+ * the status index, whichever has fewer candidates.
+ */
+const getTasksDueBefore = (
+  state: Readonly<TaskState>,
+  before: Date,
+  matches: (status: TaskStatus) => boolean = () => true
+): ReadonlyArray<Task> => {
+  const index = indexOf(state);
+  const key: DeadlineKey = [before.getTime(), -1];
+  const groups = entries(index.byStatus).filter(([status]) => matches(status));
+  const candidates = groups.reduce((sum, [, group]) => sum + size(group), 0);
+
+  const due =
+    candidates < countBefore(index.byDeadline, key)
+      ? groups
+          .flatMap(([, group]) => entries(group))
+          .filter(([, task]) => task.deadline !== undefined)
+          .filter(([, task]) => task.deadline!.getTime() < before.getTime())
+      : entries(index.byDeadline, key)
+          .filter(([, task]) => matches(task.status))
+          .map(([[, position], task]) => [position, task] as const);
+  return inTaskOrder(due);
+};
+
+export {
+  findTask,
+  findTasks,
+  putTask,
+  putTasks,
+  removeTasks,
+  getTasksWithStatus,
+  getChildTasks,
+  getRunningTasks,
+  getTasksByDeadline,
+  getTasksDueBefore,
+};
@@ -1,184 +1,524 @@
+import * as E from "fp-ts/Either";
 import {
+  ChildPolicy,
+  Env,
+  FieldChange,
   Result,
+  StatusCategory,
   Task,
+  TaskError,
   TaskState,
   TaskStatistics,
   TaskStatus,
   TaskUpdate,
+  TransitionOptions,
+  Visibility,
+  Workflow,
 } from "./types";
-import { randomUUID } from "crypto";
+import { normalizeAssignees } from "./assignees";
+import { recordChanges } from "./audit";
+import { isBlocked, validateDependencies } from "./dependencies";
+import { defaultEnv, fixedClock } from "./environment";
+import {
+  Validation,
+  emptyTitle,
+  fromValidation,
+  invalidField,
+  invalidPriority,
+  invalidTransition,
+  notFound,
+  validateField,
+  validateFields,
+} from "./errors";
+import {
+  getProjects,
+  isInProject,
+  normalizeProjectPath,
+  normalizeTags,
+} from "./projects";
+import { createNextOccurrence } from "./recurrence";
+import { filterVisible } from "./visibility";
+import {
+  findTask,
+  findTasks,
+  getTasksByDeadline,
+  getTasksDueBefore,
+  getTasksWithStatus,
+  putTask,
+  putTasks,
+  removeTasks,
+} from "./task-index";
+import { withTimer } from "./time-tracking";
+import {
+  getRemovalIds,
+  validateParent,
+  validateSubtaskCompletion,
+} from "./subtasks";
+import {
+  applyStatus,
+  defaultWorkflow,
+  getStatusCategory,
+  isDoneStatus,
+  validateTransition,
+} from "./workflow";
+
+const validateTitle = (title: string): Validation<string> =>
+  title.trim() ? E.right(title) : E.left([emptyTitle()]);
 
 /**
- * Creates a new task with the given properties.
+ * Checks that a priority is an integer from 1 to 5.
+ */
+const isValidPriority = (priority: number): boolean =>
+  Number.isInteger(priority) && priority >= 1 && priority <= 5;
+
+const validatePriority = (priority: number): Validation<number> =>
+  isValidPriority(priority)
+    ? E.right(priority)
+    : E.left([invalidPriority(priority)]);
+
+const validateEstimate = (estimate: number): Validation<number> =>
+  Number.isFinite(estimate) && estimate > 0
+    ? E.right(estimate)
+    : E.left([
+        invalidField("estimate", "Estimate must be a positive number of hours"),
+      ]);
+
+/**
+ * Validates a field that may be left out of an update. Null clears the
+ * field and needs no validation either.
+ */
+const optional = <T, U>(
+  value: T | null | undefined,
+  validate: (value: T) => Validation<U>
+): Validation<U | undefined> =>
+  value === undefined || value === null ? E.right(undefined) : validate(value);
+
+/**
+ * Creates a new task with the given properties. The id and creation date
+ * come from the environment, which also names the actor recorded in the
+ * audit trail. Returns an error for a blank title or a priority outside
+ * 1 to 5, or ValidationFailed if both are wrong.
  */
 const createTask = (
   title: string,
   description: string,
   priority: number,
-  deadline?: Date
-): Task => {
-  if (priority < 1 || priority > 5) {
-    throw new Error("Priority must be between 1 and 5");
-  }
-
-  if (!title.trim()) {
-    throw new Error("Title cannot be empty");
-  }
+  deadline?: Date,
+  env: Env = defaultEnv
+): Result<Task, TaskError> => {
+  const validated = fromValidation(
+    validateFields({
+      title: validateTitle(title),
+      priority: validatePriority(priority),
+    })
+  );
+  if (!validated.ok) return validated;
 
+  const now = env.clock();
   return {
-    id: randomUUID(),
-    title,
-    description,
-    priority,
-    deadline,
-    status: "pending",
-    createdAt: new Date(),
-    completedAt: undefined,
+    ok: true,
+    value: recordChanges(
+      undefined,
+      {
+        id: env.generateId(),
+        title,
+        description,
+        priority,
+        deadline,
+        status: "pending",
+        createdAt: now,
+        completedAt: undefined,
+      },
+      now,
+      env.actor
+    ),
   };
 };
 
 /**
- * adds a task to the state and returns the new state.
+ * Adds a task to the state. Returns a Result containing the new state, or
+ * the validation error of the task.
  */
 export const addTask = (
   state: Readonly<TaskState>,
   title: string,
   description: string,
   priority: number,
-  deadline?: Date
-): TaskState => ({
-  tasks: [...state.tasks, createTask(title, description, priority, deadline)],
-});
+  deadline?: Date,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const task = createTask(title, description, priority, deadline, env);
+  return task.ok ? { ok: true, value: putTask(state, task.value) } : task;
+};
 
 /**
- * Removes a task by id and returns the new state.
+ * Removes a task by id. Other tasks stop depending on the removed tasks.
+ * Subtasks follow the policy: "cascade" removes them too, "orphan" (the
+ * default) moves them to the top level and "reject" returns an error when
+ * the task has subtasks. Returns a Result containing the new state.
  */
-const removeTask = (state: Readonly<TaskState>, taskId: string): TaskState => ({
-  tasks: state.tasks.filter((task: Task) => task.id !== taskId),
-});
+const removeTask = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  children: ChildPolicy = "orphan",
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const removal = getRemovalIds(state, taskId, children);
+  if (!removal.ok) return removal;
+
+  const removed = new Set(removal.value);
+  const detach = (task: Task): Task => {
+    const kept = task.dependsOn?.some((id) => removed.has(id))
+      ? { ...task, dependsOn: task.dependsOn.filter((id) => !removed.has(id)) }
+      : task;
+    return kept.parentId !== undefined && removed.has(kept.parentId)
+      ? { ...kept, parentId: undefined }
+      : kept;
+  };
+  const now = env.clock();
+  const detached = state.tasks
+    .filter((task: Task) => !removed.has(task.id))
+    .flatMap((task: Task) => {
+      const updated = detach(task);
+      return updated === task
+        ? []
+        : [recordChanges(task, updated, now, env.actor)];
+    });
+  return {
+    ok: true,
+    value: putTasks(removeTasks(state, removal.value), detached),
+  };
+};
 
 /**
  * Gets a task by id.
  * Returns a Result containing the task if found, or an error if not found.
  */
-const getTask = (state: Readonly<TaskState>, taskId: string): Result<Task> => {
-  const task = state.tasks.find((task: Task) => task.id === taskId);
+const getTask = (
+  state: Readonly<TaskState>,
+  taskId: string
+): Result<Task, TaskError> => {
+  const task = findTask(state, taskId);
   return task
     ? { ok: true, value: task }
-    : { ok: false, error: new Error("Task not found") };
+    : { ok: false, error: notFound(taskId) };
+};
+
+/**
+ * Gets the audit trail of a task, oldest change first, optionally limited
+ * to one field. Returns an error if the task is not found.
+ */
+const getTaskHistory = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  field?: string
+): Result<ReadonlyArray<FieldChange>, TaskError> => {
+  const task = findTask(state, taskId);
+  if (!task) {
+    return { ok: false, error: notFound(taskId) };
+  }
+
+  const trail = task.auditTrail ?? [];
+  return {
+    ok: true,
+    value:
+      field === undefined
+        ? trail
+        : trail.filter((change) => change.field === field),
+  };
 };
 
 /**
- * Updates the status of a task. Returns the new state.
+ * Moves a task to a new status following the workflow. Returns a Result
+ * containing the new state, or an error if the task is not found or the
+ * transition is not allowed. Moving a task to its current status changes
+ * nothing. Completing a task with open subtasks needs `force`. Entering or
+ * leaving an "active" status starts or stops the task's clock.
  */
-const updateTaskStatus = (
+const transitionTask = (
   state: Readonly<TaskState>,
   taskId: string,
-  newStatus: TaskStatus
-): TaskState => ({
-  tasks: state.tasks.map((task: Task) =>
-    task.id === taskId
-      ? {
-          ...task,
-          status: newStatus,
-          completedAt:
-            newStatus === "completed" ? new Date() : task.completedAt,
-        }
-      : task
-  ),
-});
-
-/**
- * Marks a task as in-progress. Returns the new state.
+  newStatus: TaskStatus,
+  workflow: Workflow = defaultWorkflow,
+  options: TransitionOptions = {},
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const task = findTask(state, taskId);
+
+  if (!task) {
+    return { ok: false, error: notFound(taskId) };
+  }
+
+  if (task.status === newStatus) {
+    return { ok: true, value: state };
+  }
+
+  const validated = validateTransition(state, task, newStatus, workflow);
+  if (!validated.ok) {
+    return {
+      ok: false,
+      error: invalidTransition(task, newStatus, validated.error.message),
+    };
+  }
+
+  if (!options.force) {
+    const subtasks = validateSubtaskCompletion(
+      state,
+      task,
+      newStatus,
+      workflow
+    );
+    if (!subtasks.ok) {
+      return {
+        ok: false,
+        error: invalidTransition(task, newStatus, subtasks.error.message),
+      };
+    }
+  }
+
+  const now = env.clock();
+  const updated = recordChanges(
+    task,
+    applyStatus(task, newStatus, now, workflow),
+    now,
+    env.actor
+  );
+  return {
+    ok: true,
+    value: withTimer(putTask(state, updated), task, now, workflow, env.actor),
+  };
+};
+
+/**
+ * Marks a task as in-progress and starts its clock, stopping the clock of any
+ * other task. Returns a Result containing the new state.
  */
 const markInProgress = (
   state: Readonly<TaskState>,
-  taskId: string
-): TaskState => updateTaskStatus(state, taskId, "in-progress");
+  taskId: string,
+  workflow: Workflow = defaultWorkflow,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> =>
+  transitionTask(state, taskId, "in-progress", workflow, {}, env);
 
 /**
- * Marks a task as completed. Returns the new state.
+ * Appends the next occurrence of every recurring task among `taskIds` that
+ * was completed between `previous` and `next`.
  */
-const markCompleted = (state: Readonly<TaskState>, taskId: string): TaskState =>
-  updateTaskStatus(state, taskId, "completed");
+const withNextOccurrences = (
+  previous: Readonly<TaskState>,
+  next: TaskState,
+  taskIds: ReadonlyArray<string>,
+  env: Env = defaultEnv
+): TaskState => {
+  const occurrences = findTasks(next, taskIds)
+    .filter((task: Task) => task.status === "completed")
+    .filter((task: Task) => findTask(previous, task.id)?.status !== "completed")
+    .map((task: Task) =>
+      createNextOccurrence(task, env.clock(), env.generateId)
+    )
+    .filter((task): task is Task => task !== null)
+    .map((task: Task) =>
+      recordChanges(undefined, task, task.createdAt, env.actor)
+    );
+
+  return putTasks(next, occurrences);
+};
+
+/**
+ * Marks a task as completed and stops its clock. Returns a Result containing
+ * the new state, or an error if the task has open subtasks and `force` is
+ * not set. Completing a recurring task creates its next occurrence.
+ */
+const markCompleted = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  workflow: Workflow = defaultWorkflow,
+  options: TransitionOptions = {},
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const result = transitionTask(
+    state,
+    taskId,
+    "completed",
+    workflow,
+    options,
+    env
+  );
+  return result.ok
+    ? {
+        ok: true,
+        value: withNextOccurrences(state, result.value, [taskId], env),
+      }
+    : result;
+};
 
 /**
  * Updates a task's properties. Returns a Result containing the new state if
- * successful, or an error if the task is not found or invalid data is provided.
+ * successful, or an error if the task is not found or invalid data is
+ * provided. Every invalid field is reported at once. Changed fields are
+ * recorded in the audit trail of the task.
  */
 const updateTask = (
   state: Readonly<TaskState>,
   taskId: string,
-  taskUpdate: TaskUpdate
-): Result<TaskState, Error> => {
-  const taskExists = state.tasks.some((t) => t.id === taskId);
-
-  if (!taskExists) {
-    return {
-      ok: false,
-      error: new Error(`Task with id ${taskId} not found`),
-    };
+  taskUpdate: TaskUpdate,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const task = findTask(state, taskId);
+  if (!task) {
+    return { ok: false, error: notFound(taskId) };
   }
 
-  if (
-    taskUpdate.priority !== undefined &&
-    (taskUpdate.priority < 1 || taskUpdate.priority > 5)
-  ) {
-    return {
-      ok: false,
-      error: new Error("Priority must be between 1 and 5"),
-    };
-  }
+  const validated = fromValidation(
+    validateFields({
+      title: optional(taskUpdate.title, validateTitle),
+      priority: optional(taskUpdate.priority, validatePriority),
+      estimate: optional(taskUpdate.estimate, validateEstimate),
+      dependsOn: optional(taskUpdate.dependsOn, (dependsOn) =>
+        validateField("dependsOn")(
+          validateDependencies(state, taskId, dependsOn)
+        )
+      ),
+      tags: optional(taskUpdate.tags, (tags) =>
+        validateField("tags")(normalizeTags(tags))
+      ),
+      project: optional(taskUpdate.project, (project) =>
+        validateField("project")(normalizeProjectPath(project))
+      ),
+      assignees: optional(taskUpdate.assignees, (assignees) =>
+        validateField("assignees")(normalizeAssignees(assignees))
+      ),
+      parentId: optional(taskUpdate.parentId, (parentId) =>
+        validateField("parentId")(validateParent(state, taskId, parentId))
+      ),
+    })
+  );
 
-  const newState = {
-    tasks: state.tasks.map((task: Task) =>
-      task.id === taskId
-        ? {
-            ...task,
-            title: taskUpdate?.title ?? task?.title,
-            description: taskUpdate?.description ?? task?.description,
-            priority: taskUpdate?.priority ?? task?.priority,
-            deadline: taskUpdate?.deadline ?? task?.deadline,
-          }
-        : task
-    ),
+  if (!validated.ok) return validated;
+  const valid = validated.value;
+
+  const updated: Task = {
+    ...task,
+    title: valid.title ?? task.title,
+    description: taskUpdate.description ?? task.description,
+    priority: valid.priority ?? task.priority,
+    deadline:
+      taskUpdate.deadline === null
+        ? undefined
+        : taskUpdate.deadline ?? task.deadline,
+    dependsOn: valid.dependsOn ?? task.dependsOn,
+    estimate:
+      taskUpdate.estimate === null
+        ? undefined
+        : valid.estimate ?? task.estimate,
+    tags: valid.tags ?? task.tags,
+    project:
+      taskUpdate.project === null ? undefined : valid.project ?? task.project,
+    assignees:
+      valid.assignees === undefined
+        ? task.assignees
+        : valid.assignees.length > 0
+        ? valid.assignees
+        : undefined,
+    parentId:
+      taskUpdate.parentId === null
+        ? undefined
+        : valid.parentId ?? task.parentId,
   };
 
-  return { ok: true, value: newState };
+  return {
+    ok: true,
+    value: putTask(state, recordChanges(task, updated, env.clock(), env.actor)),
+  };
 };
 
 /**
- * Retrieves all tasks from the state.
+ * Retrieves all tasks from the state. Archived and trashed tasks are left
+ * out unless the visibility asks for them.
  */
-const getAllTasks = (state: Readonly<TaskState>): ReadonlyArray<Task> =>
-  state.tasks;
+const getAllTasks = (
+  state: Readonly<TaskState>,
+  visibility: Visibility = {}
+): ReadonlyArray<Task> => filterVisible(visibility)(state.tasks);
 
 /**
- * Retrieves tasks by their status.
+ * Retrieves tasks by their status. Like the other lookups below, archived
+ * and trashed tasks are left out.
  */
 const getTasksByStatus = (
   state: Readonly<TaskState>,
   status: TaskStatus
 ): ReadonlyArray<Task> =>
-  state.tasks.filter((task: Task) => task.status === status);
+  filterVisible()(
+    getTasksWithStatus(state, (taskStatus) => taskStatus === status)
+  );
 
 /**
- * Retrieves pending tasks.
+ * Retrieves tasks whose status belongs to the given category of the workflow.
  */
-const getPendingTasks = (state: Readonly<TaskState>): ReadonlyArray<Task> =>
-  getTasksByStatus(state, "pending");
+const getTasksByCategory = (
+  state: Readonly<TaskState>,
+  category: StatusCategory,
+  workflow: Workflow = defaultWorkflow
+): ReadonlyArray<Task> =>
+  filterVisible()(
+    getTasksWithStatus(
+      state,
+      (status) => getStatusCategory(status, workflow) === category
+    )
+  );
 
 /**
- * Retrieves in-progress tasks.
+ * Groups tasks by status. Every status of the workflow gets an entry, even
+ * when no task has it.
  */
-const getInProgressTasks = (state: Readonly<TaskState>): ReadonlyArray<Task> =>
-  getTasksByStatus(state, "in-progress");
+const groupTasksByStatus = (
+  state: Readonly<TaskState>,
+  workflow: Workflow = defaultWorkflow
+): { readonly [status: string]: ReadonlyArray<Task> } =>
+  getAllTasks(state).reduce<{ [status: string]: ReadonlyArray<Task> }>(
+    (groups, task) => ({
+      ...groups,
+      [task.status]: [...(groups[task.status] ?? []), task],
+    }),
+    Object.fromEntries(workflow.statuses.map((status) => [status.id, []]))
+  );
 
 /**
- * Retrieves completed tasks.
+ * Retrieves tasks that have not been started (the "todo" category).
  */
-const getCompletedTasks = (state: Readonly<TaskState>): ReadonlyArray<Task> =>
-  getTasksByStatus(state, "completed");
+const getPendingTasks = (
+  state: Readonly<TaskState>,
+  workflow: Workflow = defaultWorkflow
+): ReadonlyArray<Task> => getTasksByCategory(state, "todo", workflow);
+
+/**
+ * Retrieves tasks being worked on (the "active" category).
+ */
+const getInProgressTasks = (
+  state: Readonly<TaskState>,
+  workflow: Workflow = defaultWorkflow
+): ReadonlyArray<Task> => getTasksByCategory(state, "active", workflow);
+
+/**
+ * Retrieves closed tasks (the "done" category).
+ */
+const getCompletedTasks = (
+  state: Readonly<TaskState>,
+  workflow: Workflow = defaultWorkflow
+): ReadonlyArray<Task> => getTasksByCategory(state, "done", workflow);
+
+/**
+ * Retrieves pending tasks that are not waiting on unfinished dependencies.
+ */
+const getReadyTasks = (
+  state: Readonly<TaskState>,
+  workflow: Workflow = defaultWorkflow
+): ReadonlyArray<Task> =>
+  getPendingTasks(state, workflow).filter(
+    (task: Task) => !isBlocked(state, task, workflow)
+  );
 
 /**
  * Sorts tasks by priority (highest to lowest).
@@ -213,142 +553,293 @@ export const sortByDeadline = (
  * Sorts tasks by priority.
  */
 const sortTasksByPriority = (state: Readonly<TaskState>): ReadonlyArray<Task> =>
-  sortByPriority(state.tasks);
+  sortByPriority(getAllTasks(state));
 
 /**
  * Sorts tasks by deadline.
  */
-const sortTasksByDeadline = (state: Readonly<TaskState>): ReadonlyArray<Task> =>
-  sortByDeadline(state.tasks);
+const sortTasksByDeadline = (
+  state: Readonly<TaskState>
+): ReadonlyArray<Task> => [
+  ...filterVisible()(getTasksByDeadline(state)),
+  ...getAllTasks(state).filter((task: Task) => task.deadline === undefined),
+];
 
 /**
- * Checks if a task is overdue. A task is considered overdue if it has a deadline
- * and is not completed.
+ * Checks if a task is overdue at the given time. A task is considered overdue
+ * if it has a deadline and is not in a done status.
  */
-const isOverdue = (task: Task): boolean =>
+const isOverdue = (task: Task, workflow: Workflow, now: Date): boolean =>
   task.deadline !== undefined &&
-  task.status !== "completed" &&
-  task.deadline < new Date();
+  !isDoneStatus(task.status, workflow) &&
+  task.deadline < now;
+
+/**
+ * Retrieves the tasks overdue at the environment's current time.
+ */
+const getOverdueTasks = (
+  state: Readonly<TaskState>,
+  workflow: Workflow = defaultWorkflow,
+  env: Env = defaultEnv
+): ReadonlyArray<Task> => {
+  const now = env.clock();
+  return filterVisible()(
+    getTasksDueBefore(state, now, (status) => !isDoneStatus(status, workflow))
+  );
+};
 
 /**
- * Retrieves overdue tasks.
+ * Retrieves the tasks that were overdue at the given time, judging by their
+ * current status.
  */
-const getOverdueTasks = (state: Readonly<TaskState>): ReadonlyArray<Task> =>
-  state.tasks.filter(isOverdue);
+const getOverdueTasksAsOf = (
+  state: Readonly<TaskState>,
+  asOf: Date,
+  workflow: Workflow = defaultWorkflow
+): ReadonlyArray<Task> =>
+  getOverdueTasks(state, workflow, { ...defaultEnv, clock: fixedClock(asOf) });
 
 /**
- * Gets the next task to work on based on highest priority.
- * Returns null if there are no pending tasks.
+ * Gets the next task to work on based on highest priority. Blocked tasks are
+ * skipped. Returns null if there are no ready tasks.
  */
-const getNextTask = (state: Readonly<TaskState>): Task | null => {
-  const pendingTasks = getPendingTasks(state);
+const getNextTask = (
+  state: Readonly<TaskState>,
+  workflow: Workflow = defaultWorkflow
+): Task | null => {
+  const pendingTasks = getReadyTasks(state, workflow);
   const sortedByPriority = sortByPriority(pendingTasks);
 
   return sortedByPriority[0] ?? null;
 };
 
 /**
- * Gets the next task to work on based on earliest deadline.
- * Returns null if there are no pending tasks.
+ * Gets the next task to work on based on earliest deadline. Blocked tasks are
+ * skipped. Returns null if there are no ready tasks.
  */
-const getNextTaskByDeadline = (state: Readonly<TaskState>): Task | null => {
-  const pendingTasks = getPendingTasks(state);
+const getNextTaskByDeadline = (
+  state: Readonly<TaskState>,
+  workflow: Workflow = defaultWorkflow
+): Task | null => {
+  const pendingTasks = getReadyTasks(state, workflow);
   const sortedByDeadline = sortByDeadline(pendingTasks);
 
   return sortedByDeadline[0] ?? null;
 };
 
 /**
- * Marks multiple tasks as completed. Returns the new state.
+ * Finds the first id that matches no task.
+ */
+const findMissing = (
+  state: Readonly<TaskState>,
+  taskIds: ReadonlyArray<string>
+): string | undefined => taskIds.find((id) => !findTask(state, id));
+
+/**
+ * Marks multiple tasks as completed. Returns a Result containing the new
+ * state, or an error if an id matches no task. Tasks the workflow does not
+ * allow to complete are left unchanged, as are tasks with open subtasks
+ * outside the batch unless `force` is set. Completing a recurring task
+ * creates its next occurrence.
  */
 const markMultipleCompleted = (
   state: Readonly<TaskState>,
-  taskIds: string[]
-): TaskState => {
-  const idSet = new Set(taskIds);
-  const now = new Date();
+  taskIds: string[],
+  workflow: Workflow = defaultWorkflow,
+  options: TransitionOptions = {},
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const missing = findMissing(state, taskIds);
+  if (missing !== undefined) {
+    return { ok: false, error: notFound(missing) };
+  }
+
+  const now = env.clock();
+  const candidates = findTasks(state, taskIds).filter(
+    (task: Task) =>
+      task.status !== "completed" &&
+      validateTransition(state, task, "completed", workflow).ok
+  );
+  const completing = new Set(candidates.map((task: Task) => task.id));
+  const closing = candidates.filter(
+    (task: Task) =>
+      options.force ||
+      validateSubtaskCompletion(state, task, "completed", workflow, completing)
+        .ok
+  );
 
+  const completed = closing.reduce(
+    (next, task) => withTimer(next, task, now, workflow, env.actor),
+    putTasks(
+      state,
+      closing.map((task: Task) =>
+        recordChanges(
+          task,
+          applyStatus(task, "completed", now, workflow),
+          now,
+          env.actor
+        )
+      )
+    )
+  );
   return {
-    tasks: state.tasks.map((task: Task) =>
-      idSet.has(task.id) && task.status !== "completed"
-        ? {
-            ...task,
-            status: "completed",
-            completedAt: now,
-          }
-        : task
+    ok: true,
+    value: withNextOccurrences(
+      state,
+      completed,
+      closing.map((task: Task) => task.id),
+      env
     ),
   };
 };
 
 /**
  * Updates the priority of multiple tasks. Returns a Result containing the new
- * state if successful, or an error if invalid priority is provided.
+ * state if successful, or an error if invalid priority is provided or an id
+ * matches no task.
  */
 export const updatePriorities = (
   state: Readonly<TaskState>,
   taskIds: string[],
-  newPriority: number
-): Result<TaskState, Error> => {
-  if (newPriority < 1 || newPriority > 5) {
-    return {
-      ok: false,
-      error: new Error("Priority must be between 1 and 5"),
-    };
+  newPriority: number,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  if (!isValidPriority(newPriority)) {
+    return { ok: false, error: invalidPriority(newPriority) };
   }
-  const idSet = new Set(taskIds);
-
-  const newState: TaskState = {
-    tasks: state.tasks.map((task) =>
-      idSet.has(task.id) ? { ...task, priority: newPriority } : task
-    ),
-  };
+  const missing = findMissing(state, taskIds);
+  if (missing !== undefined) {
+    return { ok: false, error: notFound(missing) };
+  }
+  const now = env.clock();
+  const updated = findTasks(state, taskIds).map((task: Task) =>
+    recordChanges(task, { ...task, priority: newPriority }, now, env.actor)
+  );
 
-  return { ok: true, value: newState };
+  return { ok: true, value: putTasks(state, updated) };
 };
 
 /**
- * Gathers statistics about the tasks in the state.
+ * Counts the given tasks by status, overdue and blocked. Every status of the
+ * workflow is counted, even when no task has it. Blocking is checked against
+ * the whole state.
  */
-const getStatistics = (state: Readonly<TaskState>): TaskStatistics => {
-  return state.tasks.reduce(
+const countTasks = (
+  state: Readonly<TaskState>,
+  tasks: ReadonlyArray<Task>,
+  workflow: Workflow,
+  now: Date
+): TaskStatistics =>
+  tasks.reduce<TaskStatistics>(
     (stats, task) => {
-      const newStats = { ...stats, total: stats.total + 1 };
-
-      if (task.status === "pending") {
-        newStats.pending++;
-      } else if (task.status === "in-progress") {
-        newStats.inProgress++;
-      } else if (task.status === "completed") {
-        newStats.completed++;
+      const newStats = {
+        ...stats,
+        total: stats.total + 1,
+        byStatus: {
+          ...stats.byStatus,
+          [task.status]: (stats.byStatus[task.status] ?? 0) + 1,
+        },
+      };
+
+      if (isOverdue(task, workflow, now)) {
+        newStats.overdue++;
       }
 
-      if (isOverdue(task)) {
-        newStats.overdue++;
+      if (
+        !isDoneStatus(task.status, workflow) &&
+        isBlocked(state, task, workflow)
+      ) {
+        newStats.blocked++;
       }
 
       return newStats;
     },
-    { total: 0, pending: 0, inProgress: 0, completed: 0, overdue: 0 }
+    {
+      total: 0,
+      byStatus: Object.fromEntries(
+        workflow.statuses.map((status) => [status.id, 0])
+      ),
+      overdue: 0,
+      blocked: 0,
+    }
+  );
+
+/**
+ * Gathers statistics about the tasks in the state. Overdue tasks are counted
+ * at the environment's current time. Archived and trashed tasks only count
+ * when the visibility asks for them.
+ */
+const getStatistics = (
+  state: Readonly<TaskState>,
+  workflow: Workflow = defaultWorkflow,
+  env: Env = defaultEnv,
+  visibility: Visibility = {}
+): TaskStatistics =>
+  countTasks(state, getAllTasks(state, visibility), workflow, env.clock());
+
+/**
+ * Gathers statistics as of the given time: tasks with a deadline before it
+ * count as overdue unless they are done now.
+ */
+const getStatisticsAsOf = (
+  state: Readonly<TaskState>,
+  asOf: Date,
+  workflow: Workflow = defaultWorkflow,
+  visibility: Visibility = {}
+): TaskStatistics =>
+  countTasks(state, getAllTasks(state, visibility), workflow, asOf);
+
+/**
+ * Computes task statistics per project. Parent projects roll up the tasks of
+ * their subprojects, so "backend" counts the tasks of "backend/auth". Tasks
+ * without a project are left out.
+ */
+const getStatisticsByProject = (
+  state: Readonly<TaskState>,
+  workflow: Workflow = defaultWorkflow,
+  env: Env = defaultEnv,
+  visibility: Visibility = {}
+): { readonly [project: string]: TaskStatistics } => {
+  const now = env.clock();
+  const tasks = getAllTasks(state, visibility);
+  return Object.fromEntries(
+    getProjects({ tasks }).map((project) => [
+      project,
+      countTasks(
+        state,
+        tasks.filter((task) => isInProject(task, project)),
+        workflow,
+        now
+      ),
+    ])
   );
 };
 
 export {
   removeTask,
   getTask,
+  getTaskHistory,
+  transitionTask,
   updateTask,
   markInProgress,
   markCompleted,
   getAllTasks,
   getTasksByStatus,
+  getTasksByCategory,
+  groupTasksByStatus,
   getPendingTasks,
   getInProgressTasks,
   getCompletedTasks,
+  getReadyTasks,
   sortTasksByPriority,
   sortTasksByDeadline,
+  isOverdue,
   getOverdueTasks,
+  getOverdueTasksAsOf,
   getNextTask,
   getNextTaskByDeadline,
   markMultipleCompleted,
   getStatistics,
+  getStatisticsAsOf,
+  getStatisticsByProject,
 };
@@ -0,0 +1,405 @@
+import { recordChanges } from "./audit";
+import { defaultEnv } from "./environment";
+import { invalidField, notFound } from "./errors";
+import { findTask, getRunningTasks, putTask, putTasks } from "./task-index";
+import {
+  Env,
+  Result,
+  Task,
+  TaskError,
+  TaskState,
+  TimeSession,
+  Workflow,
+} from "./types";
+import { isoWeek, toIsoDate } from "./utils";
+import { defaultWorkflow, getStatusCategory } from "./workflow";
+
+// Options of startTimer
+export interface TimerOptions {
+  // Stop the session running on another task instead of refusing to start
+  readonly autoStop?: boolean;
+}
+
+// Time spent on a task
+export interface TaskTime {
+  readonly task: Task;
+  readonly hours: number;
+}
+
+// Time spent during a period, e.g. "2025-10-24" or "2025-W43"
+export interface PeriodTime {
+  readonly period: string;
+  readonly hours: number;
+}
+
+// Tracked time of a task next to its estimate
+export interface EstimateComparison {
+  readonly task: Task;
+  readonly estimate: number;
+  readonly tracked: number;
+  // Tracked minus estimated hours; positive when over the estimate
+  readonly difference: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const round = (hours: number): number => Math.round(hours * 100) / 100;
+
+/**
+ * Finds the session that is still running, if any, with its task.
+ */
+const getActiveSession = (
+  state: Readonly<TaskState>
+): { readonly task: Task; readonly session: TimeSession } | undefined => {
+  for (const task of getRunningTasks(state)) {
+    const session = task.sessions?.find((s) => s.end === undefined);
+    if (session) return { task, session };
+  }
+  return undefined;
+};
+
+const isRunning = (task: Task): boolean =>
+  (task.sessions ?? []).some((session) => session.end === undefined);
+
+/**
+ * Closes the running session of a task at the given time, recording the
+ * change in its audit trail.
+ */
+const closeSession = (task: Task, at: Date, actor?: string): Task =>
+  isRunning(task)
+    ? recordChanges(
+        task,
+        {
+          ...task,
+          sessions: task.sessions!.map((session) =>
+            session.end === undefined ? { ...session, end: at } : session
+          ),
+        },
+        at,
+        actor
+      )
+    : task;
+
+/**
+ * Opens a session on a task, closing the session running on any other task.
+ */
+const openSession = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  at: Date,
+  actor?: string
+): TaskState => {
+  const task = findTask(state, taskId);
+  if (!task) return state;
+
+  const stopped = getRunningTasks(state)
+    .filter((other) => other.id !== taskId)
+    .map((other) => closeSession(other, at, actor));
+  return putTasks(state, [
+    ...stopped,
+    isRunning(task)
+      ? task
+      : recordChanges(
+          task,
+          { ...task, sessions: [...(task.sessions ?? []), { start: at }] },
+          at,
+          actor
+        ),
+  ]);
+};
+
+/**
+ * Starts the clock on a task. Only one session runs at a time: if another
+ * task's clock is running, the call fails unless `autoStop` is set, in which
+ * case that session is stopped first. Pausing is stopping; starting again
+ * opens a new session. The session starts at the environment's current time.
+ */
+const startTimer = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  options: TimerOptions = {},
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  if (!findTask(state, taskId)) {
+    return { ok: false, error: notFound(taskId) };
+  }
+
+  const active = getActiveSession(state);
+  if (active?.task.id === taskId) {
+    return {
+      ok: false,
+      error: invalidField("timer", "Timer is already running"),
+    };
+  }
+  if (active && !options.autoStop) {
+    return {
+      ok: false,
+      error: invalidField(
+        "timer",
+        `Timer is running on "${active.task.title}"`
+      ),
+    };
+  }
+
+  return {
+    ok: true,
+    value: openSession(state, taskId, env.clock(), env.actor),
+  };
+};
+
+/**
+ * Stops the running session at the environment's current time. Returns an
+ * error if no clock is running.
+ */
+const stopTimer = (
+  state: Readonly<TaskState>,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  const at = env.clock();
+  const active = getActiveSession(state);
+  if (!active) {
+    return { ok: false, error: invalidField("timer", "No timer is running") };
+  }
+  if (at < active.session.start) {
+    return {
+      ok: false,
+      error: invalidField("end", "A session cannot end before it starts"),
+    };
+  }
+
+  return {
+    ok: true,
+    value: putTask(state, closeSession(active.task, at, env.actor)),
+  };
+};
+
+/**
+ * Records time spent on a task after the fact, as a session of the given
+ * length ending at `end`, or at the environment's current time.
+ */
+const logTime = (
+  state: Readonly<TaskState>,
+  taskId: string,
+  hours: number,
+  end?: Date,
+  env: Env = defaultEnv
+): Result<TaskState, TaskError> => {
+  if (!(Number.isFinite(hours) && hours > 0)) {
+    return {
+      ok: false,
+      error: invalidField(
+        "hours",
+        "Logged time must be a positive number of hours"
+      ),
+    };
+  }
+  const task = findTask(state, taskId);
+  if (!task) {
+    return { ok: false, error: notFound(taskId) };
+  }
+
+  const sessionEnd = end ?? env.clock();
+  const session: TimeSession = {
+    start: new Date(sessionEnd.getTime() - hours * HOUR_MS),
+    end: sessionEnd,
+    manual: true,
+  };
+  const logged: Task = {
+    ...task,
+    sessions: [...(task.sessions ?? []), session].sort(
+      (a, b) => a.start.getTime() - b.start.getTime()
+    ),
+  };
+  return {
+    ok: true,
+    value: putTask(state, recordChanges(task, logged, env.clock(), env.actor)),
+  };
+};
+
+/**
+ * Keeps the clock in step with the status change of one task, given as it
+ * was before the change: entering an "active" status starts its clock,
+ * stopping any other, and leaving the "active" category stops it.
+ */
+const withTimer = (
+  state: TaskState,
+  before: Task,
+  at: Date,
+  workflow: Workflow = defaultWorkflow,
+  actor?: string
+): TaskState => {
+  const task = findTask(state, before.id);
+  const category = task && getStatusCategory(task.status, workflow);
+  if (!task || category === getStatusCategory(before.status, workflow)) {
+    return state;
+  }
+
+  return category === "active"
+    ? openSession(state, task.id, at, actor)
+    : putTask(state, closeSession(task, at, actor));
+};
+
+/**
+ * Keeps the clock in step with status changes between two states, like
+ * withTimer for every task whose status category changed.
+ */
+const withTimers = (
+  previous: Readonly<TaskState>,
+  next: TaskState,
+  at: Date,
+  workflow: Workflow = defaultWorkflow,
+  actor?: string
+): TaskState =>
+  previous.tasks.reduce<TaskState>(
+    (state, task) => withTimer(state, task, at, workflow, actor),
+    next
+  );
+
+/**
+ * Splits a session at UTC midnights, so every piece falls within one day.
+ * A running session ends at `now`.
+ */
+const splitByDay = (
+  session: TimeSession,
+  now: Date
+): ReadonlyArray<{ readonly day: Date; readonly hours: number }> => {
+  const pieces: { day: Date; hours: number }[] = [];
+  const end = (session.end ?? now).getTime();
+  let start = session.start.getTime();
+
+  while (start < end) {
+    const day = Math.floor(start / DAY_MS) * DAY_MS;
+    const pieceEnd = Math.min(end, day + DAY_MS);
+    pieces.push({ day: new Date(day), hours: (pieceEnd - start) / HOUR_MS });
+    start = pieceEnd;
+  }
+  return pieces;
+};
+
+/**
+ * Computes the hours tracked on a task. A running session counts until
+ * `now`.
+ */
+const hoursUntil = (task: Task, now: Date): number =>
+  round(
+    (task.sessions ?? []).reduce(
+      (sum, session) =>
+        sum +
+        Math.max(0, (session.end ?? now).getTime() - session.start.getTime()) /
+          HOUR_MS,
+      0
+    )
+  );
+
+/**
+ * Computes the hours tracked on a task. A running session counts until the
+ * environment's current time.
+ */
+const trackedHours = (task: Task, env: Env = defaultEnv): number =>
+  hoursUntil(task, env.clock());
+
+/**
+ * Totals the tracked time per period, in chronological order.
+ */
+const timeByPeriod = (
+  state: Readonly<TaskState>,
+  period: (day: Date) => string,
+  now: Date
+): ReadonlyArray<PeriodTime> => {
+  const totals = new Map<string, number>();
+  state.tasks
+    .flatMap((task) => task.sessions ?? [])
+    .flatMap((session) => splitByDay(session, now))
+    .sort((a, b) => a.day.getTime() - b.day.getTime())
+    .forEach(({ day, hours }) =>
+      totals.set(period(day), (totals.get(period(day)) ?? 0) + hours)
+    );
+
+  return [...totals].map(([key, hours]) => ({
+    period: key,
+    hours: round(hours),
+  }));
+};
+
+/**
+ * Lists the tasks with tracked time, most time first.
+ */
+const getTimeByTask = (
+  state: Readonly<TaskState>,
+  env: Env = defaultEnv
+): ReadonlyArray<TaskTime> => {
+  const now = env.clock();
+  return state.tasks
+    .map((task) => ({ task, hours: hoursUntil(task, now) }))
+    .filter((entry) => entry.hours > 0)
+    .sort((a, b) => b.hours - a.hours);
+};
+
+/**
+ * Totals the tracked time per UTC day. Sessions spanning midnight count
+ * towards both days.
+ */
+const getTimeByDay = (
+  state: Readonly<TaskState>,
+  env: Env = defaultEnv
+): ReadonlyArray<PeriodTime> => timeByPeriod(state, toIsoDate, env.clock());
+
+/**
+ * Totals the tracked time per ISO week.
+ */
+const getTimeByWeek = (
+  state: Readonly<TaskState>,
+  env: Env = defaultEnv
+): ReadonlyArray<PeriodTime> => timeByPeriod(state, isoWeek, env.clock());
+
+/**
+ * Compares the tracked time of every estimated task with its estimate,
+ * largest overrun first.
+ */
+const compareWithEstimates = (
+  state: Readonly<TaskState>,
+  env: Env = defaultEnv
+): ReadonlyArray<EstimateComparison> => {
+  const now = env.clock();
+  return state.tasks
+    .filter(
+      (task): task is Task & { estimate: number } => task.estimate !== undefined
+    )
+    .map((task) => {
+      const tracked = hoursUntil(task, now);
+      return {
+        task,
+        estimate: task.estimate,
+        tracked,
+        difference: round(tracked - task.estimate),
+      };
+    })
+    .sort((a, b) => b.difference - a.difference);
+};
+
+/**
+ * Formats hours as e.g. "1h 30m".
+ */
+const formatHours = (hours: number): string => {
+  const minutes = Math.round(hours * 60);
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(
+    2,
+    "0"
+  )}m`;
+};
+
+export {
+  getActiveSession,
+  startTimer,
+  stopTimer,
+  logTime,
+  withTimer,
+  withTimers,
+  trackedHours,
+  getTimeByTask,
+  getTimeByDay,
+  getTimeByWeek,
+  compareWithEstimates,
+  formatHours,
+};
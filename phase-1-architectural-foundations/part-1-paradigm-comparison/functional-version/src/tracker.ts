@@ -0,0 +1,279 @@
+import { promises as fs } from "fs";
+import { extname } from "path";
+import { parseCsv } from "./csv";
+import { DraftRow, readDate } from "./importing";
+import { Result, TaskStatus } from "./types";
+import { lookup, toError } from "./utils";
+
+// GitHub priority labels: P0 is the most urgent
+const GITHUB_PRIORITY_LABEL = /^(?:priority[\s:/-]*)?p([0-4])$/i;
+
+const NAMED_PRIORITIES: { readonly [name: string]: number } = {
+  highest: 5,
+  critical: 5,
+  blocker: 5,
+  high: 4,
+  medium: 3,
+  normal: 3,
+  low: 2,
+  lowest: 1,
+  trivial: 1,
+};
+
+const JIRA_STATUSES: { readonly [name: string]: TaskStatus } = {
+  "to do": "pending",
+  open: "pending",
+  backlog: "pending",
+  "in progress": "in-progress",
+  "in review": "in-progress",
+  done: "completed",
+  closed: "completed",
+  resolved: "completed",
+};
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const isRecord = (
+  value: unknown
+): value is { readonly [key: string]: unknown } =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string =>
+  typeof value === "string" ? value : "";
+
+/**
+ * Reads the priority of a GitHub issue from labels such as "P1",
+ * "priority: p2" or "priority: high".
+ */
+const githubPriority = (labels: unknown): number | undefined => {
+  const names = (Array.isArray(labels) ? labels : []).map((label) =>
+    isRecord(label) ? asString(label["name"]) : asString(label)
+  );
+
+  for (const name of names) {
+    const numbered = GITHUB_PRIORITY_LABEL.exec(name.trim());
+    if (numbered) return 5 - Number(numbered[1]);
+
+    const named = /^priority[\s:/-]*(\w+)$/i.exec(name.trim());
+    const priority = named && lookup(NAMED_PRIORITIES, named[1]!.toLowerCase());
+    if (priority) return priority;
+  }
+  return undefined;
+};
+
+/**
+ * Reads task drafts from a GitHub issues export: the JSON array returned by
+ * the REST API or by `gh issue list --json`. Pull requests are rejected. The
+ * line of each row is the issue's 1-based position in the array.
+ */
+const parseGitHubIssues = (text: string): Result<ReadonlyArray<DraftRow>> => {
+  let issues: unknown;
+  try {
+    issues = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, error: toError(error) };
+  }
+  if (!Array.isArray(issues)) {
+    return { ok: false, error: new Error("Expected an array of issues") };
+  }
+
+  return {
+    ok: true,
+    value: issues.map((issue: unknown, index): DraftRow => {
+      const line = index + 1;
+      if (!isRecord(issue)) {
+        return { line, draft: { ok: false, error: new Error("Not an issue") } };
+      }
+      if (issue["pull_request"] !== undefined) {
+        return {
+          line,
+          draft: {
+            ok: false,
+            error: new Error("Pull requests are not imported"),
+          },
+        };
+      }
+
+      const milestone = isRecord(issue["milestone"]) ? issue["milestone"] : {};
+      const deadline = readDate(
+        asString(milestone["due_on"] ?? milestone["dueOn"]),
+        "milestone due date"
+      );
+      const closedAt = readDate(
+        asString(issue["closed_at"] ?? issue["closedAt"]),
+        "closing date"
+      );
+      if (!deadline.ok) return { line, draft: deadline };
+      if (!closedAt.ok) return { line, draft: closedAt };
+
+      const closed = asString(issue["state"]).toLowerCase() === "closed";
+      return {
+        line,
+        draft: {
+          ok: true,
+          value: {
+            title: asString(issue["title"]),
+            description: asString(issue["body"]),
+            priority: githubPriority(issue["labels"]),
+            deadline: deadline.value,
+            status: closed ? "completed" : "pending",
+            completedAt: closedAt.value,
+          },
+        },
+      };
+    }),
+  };
+};
+
+/**
+ * Reads Jira's date format, e.g. "25/Oct/25 5:00 PM", falling back to ISO
+ * dates. Times are read as UTC.
+ */
+const readJiraDate = (
+  raw: string,
+  field: string
+): Result<Date | undefined, Error> => {
+  const match =
+    /^(\d{1,2})\/([A-Za-z]{3})\/(\d{2}|\d{4})(?:\s+(\d{1,2}):(\d{2})\s*([AP]M))?$/i.exec(
+      raw.trim()
+    );
+  if (!match) return readDate(raw, field);
+
+  const [, day, month = "", year = "", hours, minutes, meridiem] = match;
+  const monthIndex = MONTHS.indexOf(month.toLowerCase());
+  const hour =
+    hours === undefined
+      ? 0
+      : (Number(hours) % 12) + (meridiem?.toUpperCase() === "PM" ? 12 : 0);
+  const date = new Date(
+    Date.UTC(
+      year.length === 2 ? 2000 + Number(year) : Number(year),
+      monthIndex,
+      Number(day),
+      hour,
+      Number(minutes ?? 0)
+    )
+  );
+
+  return monthIndex === -1 || date.getUTCDate() !== Number(day)
+    ? { ok: false, error: new Error(`Invalid ${field} "${raw}"`) }
+    : { ok: true, value: date };
+};
+
+/**
+ * Reads task drafts from a Jira CSV export. Priorities and statuses are
+ * mapped by name; unknown statuses are rejected.
+ */
+const parseJiraCsv = (text: string): Result<ReadonlyArray<DraftRow>> => {
+  const records = parseCsv(text);
+  if (!records.ok) return records;
+
+  const [header, ...body] = records.value;
+  if (!header) return { ok: true, value: [] };
+
+  const column = (name: string) =>
+    header.cells.findIndex(
+      (cell) => cell.trim().toLowerCase() === name.toLowerCase()
+    );
+  const summary = column("Summary");
+  if (summary === -1) {
+    return { ok: false, error: new Error('Missing "Summary" column') };
+  }
+
+  const indexes = {
+    description: column("Description"),
+    priority: column("Priority"),
+    status: column("Status"),
+    due: column("Due Date"),
+    resolved: column("Resolved"),
+  };
+
+  return {
+    ok: true,
+    value: body.map(({ line, cells }): DraftRow => {
+      const cell = (index: number) => (index === -1 ? "" : cells[index] ?? "");
+
+      const priorityName = cell(indexes.priority).trim();
+      const priority = lookup(NAMED_PRIORITIES, priorityName.toLowerCase());
+      if (priorityName !== "" && priority === undefined) {
+        return {
+          line,
+          draft: {
+            ok: false,
+            error: new Error(`Unknown priority "${priorityName}"`),
+          },
+        };
+      }
+
+      const statusName = cell(indexes.status).trim();
+      const status = lookup(JIRA_STATUSES, statusName.toLowerCase());
+      if (statusName !== "" && status === undefined) {
+        return {
+          line,
+          draft: {
+            ok: false,
+            error: new Error(`Unknown status "${statusName}"`),
+          },
+        };
+      }
+
+      const deadline = readJiraDate(cell(indexes.due), "due date");
+      const resolved = readJiraDate(cell(indexes.resolved), "resolution date");
+      if (!deadline.ok) return { line, draft: deadline };
+      if (!resolved.ok) return { line, draft: resolved };
+
+      return {
+        line,
+        draft: {
+          ok: true,
+          value: {
+            title: cell(summary),
+            description: cell(indexes.description),
+            priority,
+            deadline: deadline.value,
+            status,
+            completedAt: resolved.value,
+          },
+        },
+      };
+    }),
+  };
+};
+
+/**
+ * Reads an issue-tracker export from disk: `.json` files are read as GitHub
+ * issues and `.csv` files as Jira exports.
+ */
+const readTrackerExport = async (
+  filePath: string
+): Promise<Result<ReadonlyArray<DraftRow>>> => {
+  const extension = extname(filePath).toLowerCase();
+  if (extension !== ".json" && extension !== ".csv") {
+    return {
+      ok: false,
+      error: new Error(`Unsupported tracker export "${filePath}"`),
+    };
+  }
+
+  try {
+    const text = await fs.readFile(filePath, "utf8");
+    return extension === ".json" ? parseGitHubIssues(text) : parseJiraCsv(text);
+  } catch (error) {
+    return { ok: false, error: toError(error) };
+  }
+};
+
+export { parseGitHubIssues, parseJiraCsv, readTrackerExport };
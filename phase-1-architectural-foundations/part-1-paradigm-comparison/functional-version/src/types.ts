@@ -1,4 +1,38 @@
-export type TaskStatus = "pending" | "in-progress" | "completed";
+// Statuses of the default workflow
+export type BuiltinTaskStatus = "pending" | "in-progress" | "completed";
+
+// Any status defined by a workflow. The intersection keeps editor completion
+// for the built-in statuses while accepting custom ones.
+export type TaskStatus = BuiltinTaskStatus | (string & Record<never, never>);
+
+// Coarse grouping of statuses: not started, being worked on, or closed
+export type StatusCategory = "todo" | "active" | "done";
+
+// A status available in a workflow
+export interface StatusDefinition {
+  readonly id: TaskStatus;
+  readonly label: string;
+  readonly category: StatusCategory;
+}
+
+// Extra condition checked before a transition is allowed. `from`/`to` limit
+// the transitions it applies to; omitted means any.
+export interface TransitionGuard {
+  readonly from?: TaskStatus;
+  readonly to?: TaskStatus;
+  readonly message: string;
+  readonly check: (task: Task, state: TaskState) => boolean;
+}
+
+// Workflow definition: available statuses, allowed transitions and guards.
+// New tasks always start in "pending", which every workflow must define.
+export interface Workflow {
+  readonly statuses: ReadonlyArray<StatusDefinition>;
+  readonly transitions: {
+    readonly [status: string]: ReadonlyArray<TaskStatus>;
+  };
+  readonly guards: ReadonlyArray<TransitionGuard>;
+}
 
 // Task entity
 export interface Task {
@@ -10,6 +44,121 @@ export interface Task {
   readonly createdAt: Date;
   readonly deadline?: Date;
   readonly completedAt?: Date;
+  readonly dependsOn?: ReadonlyArray<string>;
+  readonly recurrence?: RecurrenceRule;
+  readonly seriesId?: string;
+  readonly occurrence?: number;
+  // Estimated effort in hours
+  readonly estimate?: number;
+  readonly tags?: ReadonlyArray<string>;
+  // Slash-separated project path, e.g. "backend/auth"
+  readonly project?: string;
+  // People working on the task; none means unassigned
+  readonly assignees?: ReadonlyArray<string>;
+  // Id of the task this one is a subtask of
+  readonly parentId?: string;
+  readonly checklist?: ReadonlyArray<ChecklistItem>;
+  // Tracked work, oldest first
+  readonly sessions?: ReadonlyArray<TimeSession>;
+  // Statuses entered since creation, oldest first. Tasks start in "pending".
+  readonly statusHistory?: ReadonlyArray<StatusChange>;
+  // Reminders of the deadline, replacing the default ones
+  readonly reminders?: ReadonlyArray<ReminderRule>;
+  // Field changes made by the task operations, oldest first
+  readonly auditTrail?: ReadonlyArray<FieldChange>;
+  // When the task was archived. Archived tasks are done and left out of
+  // listings.
+  readonly archivedAt?: Date;
+  // When the task was moved to the trash. Trashed tasks are left out of
+  // listings until restored, and purged after the retention period.
+  readonly trashedAt?: Date;
+}
+
+// When a reminder of a deadline fires: some minutes before it, or once the
+// deadline has passed
+export type ReminderRule =
+  | { readonly kind: "before"; readonly minutes: number }
+  | { readonly kind: "overdue" };
+
+// A status a task entered and when
+export interface StatusChange {
+  readonly status: TaskStatus;
+  readonly at: Date;
+}
+
+// A field value as the audit trail keeps it: dates as ISO strings, null
+// when the field is not set
+export type AuditValue =
+  | string
+  | number
+  | boolean
+  | ReadonlyArray<string>
+  | null;
+
+// A change of one field of a task, made by `actor` when the environment
+// knows who acts
+export interface FieldChange {
+  readonly field: string;
+  readonly from: AuditValue;
+  readonly to: AuditValue;
+  readonly at: Date;
+  readonly actor?: string;
+}
+
+// A period of work on a task, still running while `end` is undefined.
+// Manual sessions were logged after the fact rather than timed.
+export interface TimeSession {
+  readonly start: Date;
+  readonly end?: Date;
+  readonly manual?: boolean;
+}
+
+// Lightweight step inside a task, without a status of its own
+export interface ChecklistItem {
+  readonly id: string;
+  readonly text: string;
+  readonly done: boolean;
+}
+
+// Hidden tasks a listing includes. Archived and trashed tasks are left out
+// unless asked for.
+export interface Visibility {
+  readonly archived?: boolean;
+  readonly trashed?: boolean;
+}
+
+// What happens to the subtasks of a removed task: removed with it, moved to
+// the top level, or the removal is refused
+export type ChildPolicy = "cascade" | "orphan" | "reject";
+
+// How often a recurring task repeats. Weekdays use 0 for Sunday to 6 for
+// Saturday, like Date#getUTCDay.
+export type RecurrenceFrequency =
+  | { readonly kind: "daily" }
+  | { readonly kind: "weekly"; readonly weekdays: ReadonlyArray<number> }
+  | { readonly kind: "monthly"; readonly dayOfMonth: number }
+  | { readonly kind: "interval"; readonly days: number };
+
+// Recurrence rule with optional end date or total occurrence count
+export interface RecurrenceRule {
+  readonly frequency: RecurrenceFrequency;
+  readonly until?: Date;
+  readonly count?: number;
+}
+
+// Returns the current time
+export type Clock = () => Date;
+
+// Returns a new unique id
+export type IdGenerator = () => string;
+
+// Side effects the operations depend on. Passing a fixed clock and a
+// sequential id generator makes every operation deterministic.
+export interface Env {
+  readonly clock: Clock;
+  readonly generateId: IdGenerator;
+  // Who performs the operations, recorded in the audit trail
+  readonly actor?: string;
 }
 
 // Application state
@@ -22,13 +171,54 @@ export type Result<T, E = Error> =
   | { readonly ok: true; readonly value: T }
   | { readonly ok: false; readonly error: E };
 
-// Task statistics
+// A field that failed validation, e.g. { field: "priority", message: "..." }
+export interface FieldError {
+  readonly field: string;
+  readonly message: string;
+}
+
+// What a missing id referred to
+export type EntityKind = "task" | "project" | "series" | "checklist item";
+
+// Why a task operation failed. Every variant carries a readable message.
+export type TaskError =
+  | {
+      readonly type: "NotFound";
+      readonly entity: EntityKind;
+      readonly id: string;
+      readonly message: string;
+    }
+  | {
+      readonly type: "InvalidPriority";
+      readonly priority: number;
+      readonly message: string;
+    }
+  | { readonly type: "EmptyTitle"; readonly message: string }
+  | {
+      readonly type: "InvalidTransition";
+      readonly taskId: string;
+      readonly from: TaskStatus;
+      readonly to: TaskStatus;
+      readonly message: string;
+    }
+  | {
+      readonly type: "ValidationFailed";
+      readonly errors: ReadonlyArray<FieldError>;
+      readonly message: string;
+    };
+
+// Task statistics, with a count for every status of the workflow
 export interface TaskStatistics {
   total: number;
-  pending: number;
-  inProgress: number;
-  completed: number;
+  byStatus: { [status: string]: number };
   overdue: number;
+  blocked: number;
+}
+
+// Options of a status change. Forcing completes a task whose subtasks are
+// still open.
+export interface TransitionOptions {
+  readonly force?: boolean;
 }
 
 // Task update operations
@@ -37,4 +227,88 @@ export interface TaskUpdate {
   description?: string;
   priority?: number;
   deadline?: Date | null;
+  dependsOn?: ReadonlyArray<string>;
+  estimate?: number | null;
+  tags?: ReadonlyArray<string>;
+  project?: string | null;
+  // Replaces the assignees; an empty list unassigns the task
+  assignees?: ReadonlyArray<string>;
+  parentId?: string | null;
+}
+
+// Who issued a command, kept on the events it produces so that replaying
+// them records the same actor in the audit trail
+export interface Attribution {
+  readonly actor?: string;
 }
+
+// Domain events recorded for every state change
+export type TaskEvent = Attribution &
+  (
+    | {
+        readonly type: "TaskCreated";
+        readonly at: Date;
+        readonly task: Task;
+      }
+    | {
+        readonly type: "TaskUpdated";
+        readonly at: Date;
+        readonly taskId: string;
+        readonly changes: TaskUpdate;
+      }
+    | {
+        readonly type: "TaskStatusChanged";
+        readonly at: Date;
+        readonly taskId: string;
+        readonly from: TaskStatus;
+        readonly to: TaskStatus;
+      }
+    | {
+        readonly type: "TaskRemoved";
+        readonly at: Date;
+        readonly taskId: string;
+      }
+  );
+
+// Commands mirroring the operations in task-operations.ts
+export type TaskCommand = Attribution &
+  (
+    | {
+        readonly type: "AddTask";
+        readonly title: string;
+        readonly description: string;
+        readonly priority: number;
+        readonly deadline?: Date;
+      }
+    | {
+        readonly type: "UpdateTask";
+        readonly taskId: string;
+        readonly update: TaskUpdate;
+      }
+    | { readonly type: "MarkInProgress"; readonly taskId: string }
+    | {
+        readonly type: "MarkCompleted";
+        readonly taskId: string;
+        readonly force?: boolean;
+      }
+    | {
+        readonly type: "ChangeStatus";
+        readonly taskId: string;
+        readonly status: TaskStatus;
+        readonly force?: boolean;
+      }
+    | {
+        readonly type: "RemoveTask";
+        readonly taskId: string;
+        readonly children?: ChildPolicy;
+      }
+    | {
+        readonly type: "UpdatePriorities";
+        readonly taskIds: ReadonlyArray<string>;
+        readonly priority: number;
+      }
+    | {
+        readonly type: "MarkMultipleCompleted";
+        readonly taskIds: ReadonlyArray<string>;
+      }
+  );
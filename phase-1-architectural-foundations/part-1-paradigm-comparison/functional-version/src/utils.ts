@@ -1,36 +1,156 @@
-import { Task, TaskState } from "./types";
+import { AuditValue, Task, TaskState } from "./types";
+
+const MONTHS = "Jan Feb Mar Apr May Jun Jul Aug Sep Oct Nov Dec".split(" ");
 
 /**
- * Formats a Date object into a human-readable string.
+ * Formats a Date object into a human-readable string such as "Oct 25, 2025".
+ * The day is taken in UTC, like toIsoDate.
  */
-const formatDate = (date: Date): string =>
-  date.toLocaleDateString("en-US", {
-    year: "numeric",
-    month: "short",
-    day: "numeric",
-  });
+const formatDate = (date: Date): string => {
+  const month = MONTHS[date.getUTCMonth()];
+  return `${month} ${date.getUTCDate()}, ${date.getUTCFullYear()}`;
+};
 
 /**
- * Formats a task into a readable string.
+ * Formats a task into a readable string, indented two spaces per level of
+ * depth. Tasks with a checklist show how many items are checked.
  */
-const formatTask = (task: Task): string => {
+const formatTask = (task: Task, depth = 0): string => {
   const deadline = task.deadline ? ` (Due: ${formatDate(task.deadline)})` : "";
+  const checklist = task.checklist?.length
+    ? ` [${task.checklist.filter((item) => item.done).length}/${
+        task.checklist.length
+      }]`
+    : "";
   const status = task.status.toUpperCase();
-  return `[${status}] ${task.title} - Priority: ${task.priority}${deadline}`;
+  return `${"  ".repeat(depth)}[${status}] ${task.title} - Priority: ${
+    task.priority
+  }${deadline}${checklist}`;
 };
 
+/**
+ * Formats a value of the audit trail: lists are comma separated and
+ * missing values read "none".
+ */
+const formatAuditValue = (value: AuditValue): string =>
+  value === null
+    ? "none"
+    : Array.isArray(value)
+    ? value.join(", ")
+    : String(value);
+
+/**
+ * Formats a task followed by its audit trail, oldest change first, one
+ * line per changed field with the time (UTC) and who made the change.
+ */
+const formatTaskHistory = (task: Task): ReadonlyArray<string> => [
+  formatTask(task),
+  ...(task.auditTrail ?? []).map(
+    (change) =>
+      `  ${change.at.toISOString().slice(0, 16).replace("T", " ")}  ${
+        change.actor ?? "unknown"
+      }  ${change.field}: ${formatAuditValue(
+        change.from
+      )} -> ${formatAuditValue(change.to)}`
+  ),
+];
+
+// Options for the print helpers
+interface PrintOptions {
+  // Where lines are written, console.log by default
+  readonly log?: (line: string) => void;
+  // Prefix every task with the first characters of its id
+  readonly showIds?: boolean;
+  // Indent subtasks under their parent. Tasks whose parent is not listed are
+  // shown at the top level.
+  readonly tree?: boolean;
+}
+
+/**
+ * Shortens a task id to a prefix that is usually enough to identify it.
+ */
+const shortId = (id: string): string => id.slice(0, 8);
+
 /**
  * Prints a list of tasks to the console.
  */
-const printTasks = (tasks: ReadonlyArray<Task>): void => {
+const printTasks = (
+  tasks: ReadonlyArray<Task>,
+  options: PrintOptions = {}
+): void => {
+  const log = options.log ?? console.log;
+
   if (tasks.length === 0) {
-    console.log("No tasks found.");
+    log("No tasks found.");
     return;
   }
 
-  tasks.forEach((task, index) => {
-    console.log(`${index + 1}. ${formatTask(task)}`);
-  });
+  const ids = new Set(tasks.map((task) => task.id));
+  const childrenOf = (parentId: string | undefined) =>
+    tasks.filter((task) =>
+      parentId === undefined
+        ? task.parentId === undefined || !ids.has(task.parentId)
+        : task.parentId === parentId
+    );
+
+  // Numbers subtasks like an outline: 1., 1.1., 1.2., 2.
+  const print = (
+    level: ReadonlyArray<Task>,
+    prefix: string,
+    depth: number
+  ): void =>
+    level.forEach((task, index) => {
+      const id = options.showIds ? `${shortId(task.id)} ` : "";
+      const number = `${prefix}${index + 1}.`;
+      log(`${"  ".repeat(depth)}${number} ${id}${formatTask(task)}`);
+      if (options.tree) print(childrenOf(task.id), number, depth + 1);
+    });
+
+  print(options.tree ? childrenOf(undefined) : tasks, "", 0);
+};
+
+/**
+ * Lays out rows as a text table under a header line. Columns are as wide as
+ * their widest cell; numbers are right-aligned, everything else left-aligned.
+ */
+const formatTable = (
+  headers: ReadonlyArray<string>,
+  rows: ReadonlyArray<ReadonlyArray<string | number>>
+): ReadonlyArray<string> => {
+  const widths = headers.map((header, column) =>
+    Math.max(
+      header.length,
+      ...rows.map((row) => String(row[column] ?? "").length)
+    )
+  );
+  const line = (cells: ReadonlyArray<string | number>) =>
+    widths
+      .map((width, column) => {
+        const cell = cells[column] ?? "";
+        return typeof cell === "number"
+          ? String(cell).padStart(width)
+          : cell.padEnd(width);
+      })
+      .join("  ")
+      .trimEnd();
+
+  return [
+    line(headers),
+    widths.map((width) => "-".repeat(width)).join("  "),
+    ...rows.map(line),
+  ];
+};
+
+/**
+ * Prints rows as a text table, see formatTable.
+ */
+const printTable = (
+  headers: ReadonlyArray<string>,
+  rows: ReadonlyArray<ReadonlyArray<string | number>>,
+  options: PrintOptions = {}
+): void => {
+  const log = options.log ?? console.log;
+  formatTable(headers, rows).forEach((line) => log(line));
 };
 
 /**
@@ -43,4 +163,79 @@ const printStateSummary = (state: TaskState): void => {
   console.log("============================\n");
 };
 
-export { formatDate, formatTask, printTasks, printStateSummary };
+/**
+ * Parses a YYYY-MM-DD date as midnight UTC. Returns undefined for anything
+ * else, including impossible dates such as 2025-02-30.
+ */
+const parseIsoDate = (value: string): Date | undefined => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return Number.isNaN(date.getTime()) ||
+    date.toISOString().slice(0, 10) !== value
+    ? undefined
+    : date;
+};
+
+/**
+ * Parses a YYYY-MM-DD date or a full ISO 8601 timestamp.
+ */
+const parseDateTime = (value: string): Date | undefined => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return parseIsoDate(value);
+  if (!/^\d{4}-\d{2}-\d{2}T/.test(value)) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Formats a date as YYYY-MM-DD in UTC.
+ */
+const toIsoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Formats the ISO 8601 week of a date, e.g. "2025-W43". Weeks start on
+ * Monday and belong to the year of their Thursday.
+ */
+const isoWeek = (date: Date): string => {
+  const thursday = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((date.getUTCDay() + 6) % 7));
+  const firstDay = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.floor((thursday.getTime() - firstDay) / WEEK_MS) + 1;
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+};
+
+/**
+ * Normalises an unknown thrown value into an Error.
+ */
+const toError = (error: unknown): Error =>
+  error instanceof Error ? error : new Error(String(error));
+
+/**
+ * Looks up a key in a table of named entries. Only the table's own keys
+ * match, so names such as "constructor" or "toString" are not found.
+ */
+const lookup = <T>(
+  table: { readonly [name: string]: T },
+  key: string
+): T | undefined => (Object.hasOwn(table, key) ? table[key] : undefined);
+
+export {
+  PrintOptions,
+  formatDate,
+  formatTask,
+  formatTaskHistory,
+  shortId,
+  printTasks,
+  formatTable,
+  printTable,
+  printStateSummary,
+  parseIsoDate,
+  parseDateTime,
+  toIsoDate,
+  isoWeek,
+  toError,
+  lookup,
+};
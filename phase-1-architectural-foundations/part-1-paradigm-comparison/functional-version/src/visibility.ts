@@ -0,0 +1,29 @@
+import { Task, Visibility } from "./types";
+
+/**
+ * Checks whether a task has been archived.
+ */
+const isArchived = (task: Task): boolean => task.archivedAt !== undefined;
+
+/**
+ * Checks whether a task is in the trash.
+ */
+const isTrashed = (task: Task): boolean => task.trashedAt !== undefined;
+
+/**
+ * Checks whether a task shows in a listing. Archived and trashed tasks only
+ * show when the visibility asks for them.
+ */
+const isVisible = (task: Task, visibility: Visibility = {}): boolean =>
+  (!isArchived(task) || visibility.archived === true) &&
+  (!isTrashed(task) || visibility.trashed === true);
+
+/**
+ * Keeps the tasks that show in a listing, see isVisible.
+ */
+const filterVisible =
+  (visibility: Visibility = {}) =>
+  (tasks: ReadonlyArray<Task>): ReadonlyArray<Task> =>
+    tasks.filter((task) => isVisible(task, visibility));
+
+export { isArchived, isTrashed, isVisible, filterVisible };
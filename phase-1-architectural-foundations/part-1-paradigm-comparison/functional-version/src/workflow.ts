@@ -0,0 +1,197 @@
+import {
+  Result,
+  StatusCategory,
+  StatusDefinition,
+  Task,
+  TaskState,
+  TaskStatus,
+  TransitionGuard,
+  Workflow,
+} from "./types";
+
+/**
+ * The default workflow: pending, in-progress and completed. Completed tasks
+ * can be reopened, which clears their completion date.
+ */
+const defaultWorkflow: Workflow = {
+  statuses: [
+    { id: "pending", label: "Pending", category: "todo" },
+    { id: "in-progress", label: "In progress", category: "active" },
+    { id: "completed", label: "Completed", category: "done" },
+  ],
+  transitions: {
+    pending: ["in-progress", "completed"],
+    "in-progress": ["pending", "completed"],
+    completed: ["pending"],
+  },
+  guards: [],
+};
+
+/**
+ * Validates and builds a workflow. Every transition must refer to defined
+ * statuses, and "pending" must exist since new tasks start there.
+ */
+const createWorkflow = (
+  statuses: ReadonlyArray<StatusDefinition>,
+  transitions: Workflow["transitions"],
+  guards: ReadonlyArray<TransitionGuard> = []
+): Result<Workflow, Error> => {
+  const ids = new Set(statuses.map((status) => status.id));
+
+  if (ids.size !== statuses.length) {
+    return { ok: false, error: new Error("Status ids must be unique") };
+  }
+
+  if (!ids.has("pending")) {
+    return {
+      ok: false,
+      error: new Error('Workflow must define the "pending" status'),
+    };
+  }
+
+  for (const [from, targets] of Object.entries(transitions)) {
+    const unknown = [from, ...targets].find((id) => !ids.has(id));
+    if (unknown !== undefined) {
+      return {
+        ok: false,
+        error: new Error(`Transition refers to unknown status "${unknown}"`),
+      };
+    }
+  }
+
+  return { ok: true, value: { statuses, transitions, guards } };
+};
+
+/**
+ * A workflow with review, blocking and cancellation. Tasks need a description
+ * before they can be sent to review.
+ */
+const reviewWorkflow: Workflow = {
+  statuses: [
+    { id: "pending", label: "Pending", category: "todo" },
+    { id: "in-progress", label: "In progress", category: "active" },
+    { id: "blocked", label: "Blocked", category: "active" },
+    { id: "in-review", label: "In review", category: "active" },
+    { id: "completed", label: "Completed", category: "done" },
+    { id: "cancelled", label: "Cancelled", category: "done" },
+  ],
+  transitions: {
+    pending: ["in-progress", "blocked", "cancelled"],
+    "in-progress": ["pending", "blocked", "in-review", "cancelled"],
+    blocked: ["pending", "in-progress", "cancelled"],
+    "in-review": ["in-progress", "completed"],
+    completed: ["pending"],
+    cancelled: ["pending"],
+  },
+  guards: [
+    {
+      to: "in-review",
+      message: "A task needs a description before it can be reviewed",
+      check: (task) => task.description.trim() !== "",
+    },
+  ],
+};
+
+/**
+ * Gets the definition of a status, if the workflow has one.
+ */
+const getStatusDefinition = (
+  workflow: Workflow,
+  status: TaskStatus
+): StatusDefinition | undefined =>
+  workflow.statuses.find((definition) => definition.id === status);
+
+/**
+ * Gets the category of a status. Statuses unknown to the workflow count as
+ * "todo".
+ */
+const getStatusCategory = (
+  status: TaskStatus,
+  workflow: Workflow = defaultWorkflow
+): StatusCategory => getStatusDefinition(workflow, status)?.category ?? "todo";
+
+/**
+ * Checks whether a status closes a task (completed, cancelled...).
+ */
+const isDoneStatus = (
+  status: TaskStatus,
+  workflow: Workflow = defaultWorkflow
+): boolean => getStatusCategory(status, workflow) === "done";
+
+/**
+ * Lists the statuses a task can move to from the given status.
+ */
+const getAllowedTransitions = (
+  status: TaskStatus,
+  workflow: Workflow = defaultWorkflow
+): ReadonlyArray<TaskStatus> => workflow.transitions[status] ?? [];
+
+/**
+ * Checks whether a task may move to the given status: the status must exist,
+ * the transition must be in the graph and every applicable guard must pass.
+ */
+const validateTransition = (
+  state: Readonly<TaskState>,
+  task: Task,
+  to: TaskStatus,
+  workflow: Workflow = defaultWorkflow
+): Result<Task, Error> => {
+  if (!getStatusDefinition(workflow, to)) {
+    return { ok: false, error: new Error(`Unknown status "${to}"`) };
+  }
+
+  if (!getAllowedTransitions(task.status, workflow).includes(to)) {
+    return {
+      ok: false,
+      error: new Error(`Invalid transition from "${task.status}" to "${to}"`),
+    };
+  }
+
+  const failed = workflow.guards.find(
+    (guard) =>
+      (guard.from === undefined || guard.from === task.status) &&
+      (guard.to === undefined || guard.to === to) &&
+      !guard.check(task, state)
+  );
+  if (failed) {
+    return { ok: false, error: new Error(failed.message) };
+  }
+
+  return { ok: true, value: task };
+};
+
+/**
+ * Applies a status change to a task and records it in the status history.
+ * Entering a done status stamps `completedAt`; leaving one clears it.
+ */
+const applyStatus = (
+  task: Task,
+  to: TaskStatus,
+  at: Date,
+  workflow: Workflow = defaultWorkflow
+): Task => {
+  const done = isDoneStatus(to, workflow);
+  const wasDone = isDoneStatus(task.status, workflow);
+
+  return {
+    ...task,
+    status: to,
+    completedAt: done ? (wasDone ? task.completedAt : at) : undefined,
+    statusHistory:
+      task.status === to
+        ? task.statusHistory
+        : [...(task.statusHistory ?? []), { status: to, at }],
+  };
+};
+
+export {
+  defaultWorkflow,
+  reviewWorkflow,
+  createWorkflow,
+  getStatusDefinition,
+  getStatusCategory,
+  isDoneStatus,
+  getAllowedTransitions,
+  validateTransition,
+  applyStatus,
+};
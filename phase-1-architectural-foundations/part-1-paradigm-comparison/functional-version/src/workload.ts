@@ -0,0 +1,144 @@
+import { pipe as fpPipe } from "fp-ts/function";
+import { getAssignees, isUnassigned, normalizeAssignee } from "./assignees";
+import { filterByAssignee } from "./composition";
+import { defaultEnv } from "./environment";
+import { getTasksWithStatus } from "./task-index";
+import {
+  getOverdueTasks,
+  getReadyTasks,
+  sortByPriority,
+} from "./task-operations";
+import { Env, Task, TaskState, Workflow } from "./types";
+import { formatTable } from "./utils";
+import { isTrashed } from "./visibility";
+import { defaultWorkflow, getStatusCategory, isDoneStatus } from "./workflow";
+
+// Limits above which a person counts as overloaded
+export interface WorkloadLimits {
+  // Open tasks, whatever their status
+  readonly maxOpen?: number;
+  // Sum of the priorities of the tasks in progress
+  readonly maxLoad?: number;
+}
+
+// Workload of one assignee. A task with several assignees counts fully for
+// each of them.
+export interface Workload {
+  readonly assignee: string;
+  readonly open: number;
+  readonly overdue: number;
+  // Tasks in progress per priority, from 1 to 5
+  readonly inProgress: { readonly [priority: number]: number };
+  // Sum of the priorities of the tasks in progress
+  readonly load: number;
+  readonly overloaded: boolean;
+}
+
+// Workload of every assignee, alphabetically
+export interface WorkloadReport {
+  readonly workloads: ReadonlyArray<Workload>;
+  // Open tasks nobody is assigned to
+  readonly unassigned: number;
+}
+
+const DEFAULT_LIMITS: Required<WorkloadLimits> = { maxOpen: 10, maxLoad: 12 };
+
+const PRIORITIES = [1, 2, 3, 4, 5];
+
+/**
+ * Gets the next task a person should work on: their ready task with the
+ * highest priority. Returns null if none of their tasks is ready.
+ */
+const getNextTaskFor = (
+  state: Readonly<TaskState>,
+  assignee: string,
+  workflow: Workflow = defaultWorkflow
+): Task | null =>
+  fpPipe(
+    getReadyTasks(state, workflow),
+    filterByAssignee(assignee),
+    sortByPriority
+  )[0] ?? null;
+
+/**
+ * Computes the workload of one person from the open tasks.
+ */
+const computeWorkload = (
+  assignee: string,
+  open: ReadonlyArray<Task>,
+  overdue: ReadonlySet<Task>,
+  limits: Required<WorkloadLimits>,
+  workflow: Workflow
+): Workload => {
+  const assigned = filterByAssignee(assignee)(open);
+  const active = assigned.filter(
+    (task) => getStatusCategory(task.status, workflow) === "active"
+  );
+  const load = active.reduce((sum, task) => sum + task.priority, 0);
+
+  return {
+    assignee,
+    open: assigned.length,
+    overdue: assigned.filter((task) => overdue.has(task)).length,
+    inProgress: Object.fromEntries(
+      PRIORITIES.map((priority) => [
+        priority,
+        active.filter((task) => task.priority === priority).length,
+      ])
+    ),
+    load,
+    overloaded: assigned.length > limits.maxOpen || load > limits.maxLoad,
+  };
+};
+
+/**
+ * Reports the workload of every assignee: open and overdue tasks, and the
+ * tasks in progress by priority. People above either limit are flagged as
+ * overloaded. Passing `assignees` restricts the report to those people.
+ */
+const getWorkload = (
+  state: Readonly<TaskState>,
+  limits: WorkloadLimits = {},
+  assignees: ReadonlyArray<string> = getAssignees(state),
+  workflow: Workflow = defaultWorkflow,
+  env: Env = defaultEnv
+): WorkloadReport => {
+  const open = getTasksWithStatus(
+    state,
+    (status) => !isDoneStatus(status, workflow)
+  ).filter((task) => !isTrashed(task));
+  const overdue = new Set(getOverdueTasks(state, workflow, env));
+  const resolved = {
+    maxOpen: limits.maxOpen ?? DEFAULT_LIMITS.maxOpen,
+    maxLoad: limits.maxLoad ?? DEFAULT_LIMITS.maxLoad,
+  };
+
+  return {
+    workloads: [...new Set(assignees.map(normalizeAssignee))].map((assignee) =>
+      computeWorkload(assignee, open, overdue, resolved, workflow)
+    ),
+    unassigned: open.filter(isUnassigned).length,
+  };
+};
+
+/**
+ * Formats a workload report as a text table. P1 to P5 count the tasks in
+ * progress per priority.
+ */
+const formatWorkload = (report: WorkloadReport): ReadonlyArray<string> => [
+  ...formatTable(
+    ["Assignee", "Open", "Overdue", "P1", "P2", "P3", "P4", "P5", "Load", ""],
+    report.workloads.map((workload) => [
+      workload.assignee,
+      workload.open,
+      workload.overdue,
+      ...PRIORITIES.map((priority) => workload.inProgress[priority] ?? 0),
+      workload.load,
+      workload.overloaded ? "overloaded" : "",
+    ])
+  ),
+  "",
+  `Unassigned: ${report.unassigned} open`,
+];
+
+export { getNextTaskFor, getWorkload, formatWorkload };
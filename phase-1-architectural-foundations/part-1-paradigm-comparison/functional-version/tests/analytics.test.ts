@@ -0,0 +1,131 @@
+import { beforeAll, describe, expect, it } from "@jest/globals";
+import {
+  formatFlowReport,
+  getCumulativeFlow,
+  getCycleTimes,
+  getFlowReport,
+  getLeadTimes,
+  getThroughput,
+  summarizeDurations,
+} from "../src/analytics";
+import { execute } from "../src/events";
+import { createInitialState } from "../src/state";
+import { TaskCommand, TaskState } from "../src/types";
+import { formatTable } from "../src/utils";
+
+const day = (date: string): Date => new Date(`2025-10-${date}T12:00:00Z`);
+
+/**
+ * Runs commands at the given days, like a log of a team's fortnight.
+ */
+const runAt = (
+  state: TaskState,
+  steps: ReadonlyArray<[string, (state: TaskState) => TaskCommand]>
+): TaskState =>
+  steps.reduce((current, [date, command]) => {
+    const result = execute(current, command(current), day(date));
+    if (!result.ok) throw result.error;
+    return result.value.state;
+  }, state);
+
+const add = (title: string) => (): TaskCommand => ({
+  type: "AddTask",
+  title,
+  description: "",
+  priority: 3,
+});
+
+const start =
+  (index: number) =>
+  (state: TaskState): TaskCommand => ({
+    type: "MarkInProgress",
+    taskId: state.tasks[index]!.id,
+  });
+
+const complete =
+  (index: number) =>
+  (state: TaskState): TaskCommand => ({
+    type: "MarkCompleted",
+    taskId: state.tasks[index]!.id,
+  });
+
+describe("Flow analytics", () => {
+  let state: TaskState;
+
+  beforeAll(() => {
+    state = runAt(createInitialState(), [
+      ["20", add("Design")],
+      ["20", add("Build")],
+      ["21", add("Test")],
+      ["21", start(0)],
+      ["23", complete(0)],
+      ["24", start(1)],
+      ["28", complete(1)],
+      ["28", complete(2)],
+    ]);
+  });
+
+  it("should record when statuses change", () => {
+    expect(state.tasks[0]!.statusHistory).toEqual([
+      { status: "in-progress", at: day("21") },
+      { status: "completed", at: day("23") },
+    ]);
+  });
+
+  it("should compute lead and cycle times", () => {
+    expect(getLeadTimes(state).map((lead) => lead.days)).toEqual([3, 8, 7]);
+    // "Test" was never started, so it has no cycle time
+    expect(getCycleTimes(state).map((cycle) => cycle.days)).toEqual([2, 4]);
+  });
+
+  it("should summarise durations with percentiles", () => {
+    expect(summarizeDurations([5, 1, 3, 2, 4, 10, 6, 7, 8, 9])).toEqual({
+      count: 10,
+      mean: 5.5,
+      min: 1,
+      p50: 5,
+      p85: 9,
+      p95: 10,
+      max: 10,
+    });
+    expect(summarizeDurations([])).toBeUndefined();
+  });
+
+  it("should count throughput per ISO week", () => {
+    expect(getThroughput(state, day("20"), day("31"))).toEqual([
+      { week: "2025-W43", completed: 1 },
+      { week: "2025-W44", completed: 2 },
+    ]);
+  });
+
+  it("should build a cumulative flow and burndown series", () => {
+    const flow = getCumulativeFlow(state, day("19"), day("28"));
+
+    expect(flow.map((point) => point.remaining)).toEqual([
+      0, 2, 3, 3, 2, 2, 2, 2, 2, 0,
+    ]);
+    expect(flow[5]).toEqual({
+      date: new Date("2025-10-24T00:00:00Z"),
+      todo: 1,
+      active: 1,
+      done: 1,
+      remaining: 2,
+    });
+  });
+
+  it("should print the report as text tables", () => {
+    const lines = formatFlowReport(getFlowReport(state, day("27"), day("28")));
+
+    expect(lines.slice(0, 4)).toEqual([
+      "Days        Count  Mean  P50  P85  P95  Max",
+      "----------  -----  ----  ---  ---  ---  ---",
+      "Lead time       2   7.5    7    8    8    8",
+      "Cycle time      1     4    4    4    4    4",
+    ]);
+    expect(formatTable(["Week", "Done"], [["W1", 12]])).toEqual([
+      "Week  Done",
+      "----  ----",
+      "W1      12",
+    ]);
+  });
+});
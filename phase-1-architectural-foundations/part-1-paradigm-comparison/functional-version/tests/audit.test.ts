@@ -0,0 +1,238 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { setDependencies } from "../src/dependencies";
+import { createTestEnv } from "../src/environment";
+import { execute, replay } from "../src/events";
+import { renameProject } from "../src/projects";
+import { setReminders } from "../src/reminders";
+import { deserializeState, serializeState } from "../src/repository";
+import { setRecurrence, stopSeries } from "../src/series";
+import { createInitialState } from "../src/state";
+import { addChecklistItem, setParent } from "../src/subtasks";
+import {
+  addTask,
+  getTaskHistory,
+  markInProgress,
+  updatePriorities,
+  updateTask,
+} from "../src/task-operations";
+import { logTime, startTimer, stopTimer } from "../src/time-tracking";
+import { Env, TaskState } from "../src/types";
+import { formatTaskHistory } from "../src/utils";
+import { unwrap } from "./helpers";
+
+const created = new Date("2025-06-01T09:00:00Z");
+const edited = new Date("2025-06-02T14:30:00Z");
+
+/**
+ * Test environment at a fixed time, acting as the given person.
+ */
+const envAt = (now: Date, actor?: string): Env => ({
+  ...createTestEnv(now),
+  actor,
+});
+
+describe("Audit trail", () => {
+  let state: TaskState;
+  let taskId: string;
+
+  beforeEach(() => {
+    state = unwrap(
+      addTask(
+        createInitialState(),
+        "Ship",
+        "",
+        3,
+        undefined,
+        envAt(created, "alice")
+      )
+    );
+    taskId = state.tasks[0]!.id;
+  });
+
+  it("should record the creation of a task", () => {
+    expect(unwrap(getTaskHistory(state, taskId))).toEqual([
+      { field: "title", from: null, to: "Ship", at: created, actor: "alice" },
+      { field: "priority", from: null, to: 3, at: created, actor: "alice" },
+      {
+        field: "status",
+        from: null,
+        to: "pending",
+        at: created,
+        actor: "alice",
+      },
+    ]);
+  });
+
+  it("should record who changed a priority, when and from what", () => {
+    const bumped = unwrap(
+      updateTask(state, taskId, { priority: 4 }, envAt(edited, "bob"))
+    );
+    const later = new Date("2025-06-03T08:00:00Z");
+    const again = unwrap(
+      updatePriorities(bumped, [taskId], 5, envAt(later, "carol"))
+    );
+
+    expect(unwrap(getTaskHistory(again, taskId, "priority"))).toEqual([
+      { field: "priority", from: null, to: 3, at: created, actor: "alice" },
+      { field: "priority", from: 3, to: 4, at: edited, actor: "bob" },
+      { field: "priority", from: 4, to: 5, at: later, actor: "carol" },
+    ]);
+  });
+
+  it("should record every changed field and skip unchanged updates", () => {
+    const updated = unwrap(
+      updateTask(
+        state,
+        taskId,
+        {
+          title: "Ship it",
+          priority: 3,
+          tags: ["release"],
+          deadline: new Date("2025-06-10T00:00:00Z"),
+        },
+        envAt(edited)
+      )
+    );
+    const started = unwrap(
+      markInProgress(updated, taskId, undefined, envAt(edited))
+    );
+
+    expect(
+      unwrap(getTaskHistory(started, taskId))
+        .slice(3)
+        .map((change) => [change.field, change.from, change.to])
+    ).toEqual([
+      ["title", "Ship", "Ship it"],
+      ["deadline", null, "2025-06-10T00:00:00.000Z"],
+      ["tags", null, ["release"]],
+      ["status", "pending", "in-progress"],
+      ["sessions", null, ['{"start":"2025-06-02T14:30:00.000Z"}']],
+    ]);
+    expect(
+      unwrap(updateTask(updated, taskId, { priority: 3 })).tasks[0]!.auditTrail
+    ).toEqual(updated.tasks[0]!.auditTrail);
+    expect(getTaskHistory(state, "missing").ok).toBe(false);
+  });
+
+  it("should record changes made outside updateTask", () => {
+    const bob = { ...createTestEnv(edited, "bob-"), actor: "bob" };
+    let changed = unwrap(
+      addTask(state, "Release notes", "", 2, undefined, bob)
+    );
+    const otherId = changed.tasks[1]!.id;
+    changed = unwrap(updateTask(changed, taskId, { project: "web" }, bob));
+    changed = unwrap(renameProject(changed, "web", "site", bob));
+    changed = unwrap(setDependencies(changed, taskId, [otherId], bob));
+    changed = unwrap(setParent(changed, otherId, taskId, bob));
+    changed = unwrap(addChecklistItem(changed, taskId, "Tag", bob));
+    changed = unwrap(
+      setRecurrence(changed, taskId, { frequency: { kind: "daily" } }, bob)
+    );
+    changed = unwrap(stopSeries(changed, taskId, bob));
+
+    const changedByBob = (id: string) =>
+      unwrap(getTaskHistory(changed, id))
+        .filter((change) => change.actor === "bob")
+        .map((change) => change.field);
+    expect(changedByBob(taskId)).toEqual([
+      "project",
+      "project",
+      "dependsOn",
+      "checklist",
+      "recurrence",
+      "recurrence",
+    ]);
+    expect(changedByBob(otherId).slice(-1)).toEqual(["parentId"]);
+  });
+
+  it("should keep the actor of replayed events", () => {
+    const executed = unwrap(
+      execute(
+        createInitialState(),
+        { type: "AddTask", title: "Ship", description: "", priority: 3 },
+        created
+      )
+    );
+    const { events } = unwrap(
+      execute(
+        executed.state,
+        {
+          type: "MarkInProgress",
+          taskId: executed.state.tasks[0]!.id,
+          actor: "dave",
+        },
+        edited
+      )
+    );
+
+    expect(events[0]!.actor).toBe("dave");
+    expect(
+      replay(events, executed.state)
+        .tasks[0]!.auditTrail!.slice(-2)
+        .map((change) => [change.field, change.at, change.actor])
+    ).toEqual([
+      ["status", edited, "dave"],
+      ["sessions", edited, "dave"],
+    ]);
+  });
+
+  it("should record reminders and tracked time", () => {
+    const later = new Date("2025-06-02T16:30:00Z");
+    let next = unwrap(
+      setReminders(
+        state,
+        taskId,
+        [{ kind: "before", minutes: 60 }],
+        envAt(edited, "erin")
+      )
+    );
+    next = unwrap(startTimer(next, taskId, {}, envAt(edited, "erin")));
+    next = unwrap(stopTimer(next, envAt(later, "erin")));
+    next = unwrap(logTime(next, taskId, 1, created, envAt(later, "erin")));
+
+    const history = unwrap(getTaskHistory(next, taskId)).slice(3);
+    expect(
+      history.map((change) => [change.field, change.at, change.actor])
+    ).toEqual([
+      ["reminders", edited, "erin"],
+      ["sessions", edited, "erin"],
+      ["sessions", later, "erin"],
+      ["sessions", later, "erin"],
+    ]);
+    expect(history[0]!.to).toEqual(['{"kind":"before","minutes":60}']);
+    expect(history[3]!.to).toHaveLength(2);
+  });
+
+  it("should survive a save and load", () => {
+    const updated = unwrap(
+      updateTask(state, taskId, { priority: 5 }, envAt(edited, "bob"))
+    );
+    const loaded = unwrap(
+      deserializeState(JSON.parse(JSON.stringify(serializeState(updated))))
+    );
+
+    expect(unwrap(getTaskHistory(loaded, taskId))).toEqual(
+      unwrap(getTaskHistory(updated, taskId))
+    );
+  });
+
+  it("should format the history as a timeline", () => {
+    const updated = unwrap(
+      updateTask(
+        state,
+        taskId,
+        { priority: 5, tags: ["a", "b"] },
+        envAt(edited)
+      )
+    );
+
+    expect(formatTaskHistory(updated.tasks[0]!)).toEqual([
+      "[PENDING] Ship - Priority: 5",
+      "  2025-06-01 09:00  alice  title: none -> Ship",
+      "  2025-06-01 09:00  alice  priority: none -> 3",
+      "  2025-06-01 09:00  alice  status: none -> pending",
+      "  2025-06-02 14:30  unknown  priority: 3 -> 5",
+      "  2025-06-02 14:30  unknown  tags: none -> a, b",
+    ]);
+  });
+});
@@ -0,0 +1,399 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CliEnvironment, EXIT_CODES, runCli } from "../src/cli";
+import {
+  ReplicaStore,
+  createInMemoryReplicaStore,
+  createReplica,
+} from "../src/replica";
+import { TaskRepository, createInMemoryRepository } from "../src/repository";
+import { TaskState } from "../src/types";
+
+describe("Command-line interface", () => {
+  let repository: TaskRepository;
+  let replicaStore: ReplicaStore;
+  let stdout: string[];
+  let stderr: string[];
+  let env: CliEnvironment;
+
+  beforeEach(() => {
+    repository = createInMemoryRepository();
+    replicaStore = createInMemoryReplicaStore(createReplica("local"));
+    stdout = [];
+    stderr = [];
+    env = {
+      stdout: (line) => stdout.push(line),
+      stderr: (line) => stderr.push(line),
+      repository: () => repository,
+      replicaStore: () => replicaStore,
+      defaultFile: "tasks.json",
+    };
+  });
+
+  const run = (...argv: string[]): Promise<number> => runCli(argv, env);
+
+  const loadState = async (): Promise<TaskState> => {
+    const result = await repository.load();
+    if (!result.ok) throw result.error;
+    return result.value;
+  };
+
+  it("should add a task and persist it", async () => {
+    const code = await run(
+      "add",
+      "Fix login bug",
+      "-p",
+      "5",
+      "--due",
+      "2025-10-25",
+      "-d",
+      "Users cannot log in"
+    );
+
+    const state = await loadState();
+    expect(code).toBe(EXIT_CODES.ok);
+    expect(state.tasks[0]!.title).toBe("Fix login bug");
+    expect(state.tasks[0]!.priority).toBe(5);
+    expect(state.tasks[0]!.deadline).toEqual(new Date("2025-10-25"));
+  });
+
+  it("should return a failure code when an operation is rejected", async () => {
+    expect(await run("add", " ")).toBe(EXIT_CODES.failed);
+    expect(await run("add", "Task", "--due", "tomorrow")).toBe(
+      EXIT_CODES.usage
+    );
+    expect(await run("add", "Task", "--bogus")).toBe(EXIT_CODES.usage);
+    expect(await run("frobnicate")).toBe(EXIT_CODES.usage);
+    expect(stderr.length).toBe(4);
+  });
+
+  it("should not resolve inherited object properties as names", async () => {
+    await run("add", "Task");
+    const taskId = (await loadState()).tasks[0]!.id;
+
+    expect(await run("constructor")).toBe(EXIT_CODES.usage);
+    expect(await run("toString")).toBe(EXIT_CODES.usage);
+    expect(await run("next", "--strategy", "constructor")).toBe(
+      EXIT_CODES.usage
+    );
+    expect(await run("checklist", taskId, "toString", "1")).toBe(
+      EXIT_CODES.usage
+    );
+    expect(await run("import", "tasks.txt", "--format", "constructor")).toBe(
+      EXIT_CODES.usage
+    );
+    expect(stderr).toHaveLength(5);
+  });
+
+  it("should report unexpected failures as internal errors", async () => {
+    env = {
+      ...env,
+      stdout: () => {
+        throw new Error("stdout closed");
+      },
+    };
+
+    expect(await run("list")).toBe(EXIT_CODES.internal);
+    expect(stderr).toEqual(["Error: stdout closed"]);
+  });
+
+  it("should reject priorities that are not integers from 1 to 5", async () => {
+    expect(await run("add", "Task", "-p", "abc")).toBe(EXIT_CODES.usage);
+    expect(await run("add", "Task", "-p", "2.5")).toBe(EXIT_CODES.usage);
+    expect(await run("add", "Task", "-p", "9")).toBe(EXIT_CODES.usage);
+    expect((await loadState()).tasks).toEqual([]);
+
+    await run("add", "Task", "-p", "2");
+    const taskId = (await loadState()).tasks[0]!.id;
+    expect(await run("edit", taskId, "-p", "abc")).toBe(EXIT_CODES.usage);
+    expect(await run("edit", taskId, "-p", "2.5")).toBe(EXIT_CODES.usage);
+    expect((await loadState()).tasks[0]!.priority).toBe(2);
+    expect(stderr).toHaveLength(5);
+  });
+
+  it("should resolve id prefixes", async () => {
+    await run("add", "Task", "-p", "3");
+    const taskId = (await loadState()).tasks[0]!.id;
+
+    expect(await run("start", taskId.slice(0, 6))).toBe(EXIT_CODES.ok);
+    expect((await loadState()).tasks[0]!.status).toBe("in-progress");
+    expect(await run("done", taskId.slice(0, 6))).toBe(EXIT_CODES.ok);
+    expect((await loadState()).tasks[0]!.status).toBe("completed");
+    expect(await run("show", "zzz")).toBe(EXIT_CODES.notFound);
+  });
+
+  it("should refuse invalid transitions", async () => {
+    await run("add", "Task");
+    const taskId = (await loadState()).tasks[0]!.id;
+    await run("done", taskId);
+
+    expect(await run("start", taskId)).toBe(EXIT_CODES.failed);
+  });
+
+  it("should edit and remove tasks", async () => {
+    await run("add", "Task", "--due", "2025-10-25");
+    const taskId = (await loadState()).tasks[0]!.id;
+
+    expect(
+      await run("edit", taskId, "--title", "Renamed", "--due", "none")
+    ).toBe(EXIT_CODES.ok);
+    const edited = (await loadState()).tasks[0]!;
+    expect(edited.title).toBe("Renamed");
+    expect(edited.deadline).toBeUndefined();
+
+    expect(await run("rm", taskId)).toBe(EXIT_CODES.ok);
+    expect((await loadState()).tasks[0]!.trashedAt).toBeInstanceOf(Date);
+    stdout = [];
+    await run("list", "--json");
+    expect(JSON.parse(stdout.join("\n"))).toEqual([]);
+
+    expect(await run("trash", "restore", taskId)).toBe(EXIT_CODES.ok);
+    expect((await loadState()).tasks[0]!.trashedAt).toBeUndefined();
+    expect(await run("trash", "restore", taskId)).toBe(EXIT_CODES.failed);
+
+    expect(await run("rm", taskId, "--purge")).toBe(EXIT_CODES.ok);
+    expect((await loadState()).tasks.length).toBe(0);
+  });
+
+  it("should archive done tasks and purge the trash", async () => {
+    await run("add", "Old");
+    await run("add", "Current");
+    const [oldId, currentId] = (await loadState()).tasks.map((task) => task.id);
+    await run("done", oldId!);
+
+    expect(await run("archive", currentId!)).toBe(EXIT_CODES.failed);
+    expect(await run("archive", oldId!)).toBe(EXIT_CODES.ok);
+    stdout = [];
+    await run("stats", "--json");
+    expect(JSON.parse(stdout.join("\n")).total).toBe(1);
+    stdout = [];
+    await run("list", "--archived", "--json");
+    expect(JSON.parse(stdout.join("\n"))).toHaveLength(2);
+
+    expect(await run("unarchive", oldId!)).toBe(EXIT_CODES.ok);
+    expect(await run("archive", "--auto", "--after", "0")).toBe(EXIT_CODES.ok);
+    expect(stdout.pop()).toBe("Archived 1 task(s)");
+    expect(await run("archive", "--auto")).toBe(EXIT_CODES.usage);
+
+    await run("rm", currentId!);
+    stdout = [];
+    await run("trash");
+    expect(stdout).toHaveLength(1);
+    expect(await run("trash", "purge", "--older-than", "1")).toBe(
+      EXIT_CODES.ok
+    );
+    expect(stdout.pop()).toBe("Purged 0 task(s)");
+
+    // An expired trash is purged before any command runs
+    env = { ...env, retention: { purgeAfterDays: 0 } };
+    await run("list");
+    expect((await loadState()).tasks.map((task) => task.title)).toEqual([
+      "Old",
+    ]);
+  });
+
+  it("should show who changed a task", async () => {
+    env = { ...env, actor: "alice" };
+    await run("add", "Task", "-p", "2");
+    const taskId = (await loadState()).tasks[0]!.id;
+    env = { ...env, actor: "bob" };
+    await run("edit", taskId, "-p", "4");
+    stdout = [];
+
+    expect(await run("history", taskId, "--field", "priority")).toBe(
+      EXIT_CODES.ok
+    );
+    expect(stdout[0]).toBe("[PENDING] Task - Priority: 4");
+    expect(stdout.slice(1).map((line) => line.slice(20))).toEqual([
+      "alice  priority: none -> 2",
+      "bob  priority: 2 -> 4",
+    ]);
+
+    stdout = [];
+    await run("history", taskId, "--field", "priority", "--json");
+    expect(
+      JSON.parse(stdout.join("\n")).map(
+        (change: { actor: string }) => change.actor
+      )
+    ).toEqual(["alice", "bob"]);
+    expect(await run("history", "zzz")).toBe(EXIT_CODES.notFound);
+  });
+
+  it("should manage subtasks and checklists", async () => {
+    await run("add", "Refactor auth");
+    const parentId = (await loadState()).tasks[0]!.id;
+    await run("add", "Extract token service", "--parent", parentId.slice(0, 8));
+    const childId = (await loadState()).tasks[1]!.id;
+    await run("checklist", parentId, "add", "Update", "docs");
+
+    stdout = [];
+    expect(await run("list", "--tree")).toBe(EXIT_CODES.ok);
+    expect(stdout[1]).toMatch(/^ {2}1\.1\. \S+ \[PENDING\] Extract token/);
+
+    expect(await run("done", parentId)).toBe(EXIT_CODES.failed);
+    expect(await run("checklist", parentId, "check", "1")).toBe(EXIT_CODES.ok);
+    expect(await run("done", parentId, childId)).toBe(EXIT_CODES.ok);
+
+    expect(await run("rm", parentId)).toBe(EXIT_CODES.failed);
+    expect(await run("rm", parentId, "--cascade")).toBe(EXIT_CODES.ok);
+    expect(
+      (await loadState()).tasks.every((task) => task.trashedAt !== undefined)
+    ).toBe(true);
+    expect(await run("trash", "purge")).toBe(EXIT_CODES.ok);
+    expect((await loadState()).tasks).toEqual([]);
+  });
+
+  it("should track and report time", async () => {
+    await run("add", "Write report");
+    const taskId = (await loadState()).tasks[0]!.id;
+
+    expect(await run("track", "log", taskId, "1.5", "--on", "2025-10-24")).toBe(
+      EXIT_CODES.ok
+    );
+    expect(await run("track", "stop")).toBe(EXIT_CODES.failed);
+
+    stdout = [];
+    await run("track", "report", "--by", "day");
+    expect(stdout).toEqual(["  1h 30m  2025-10-24"]);
+  });
+
+  it("should print JSON for list and stats", async () => {
+    await run("add", "High", "-p", "5");
+    await run("add", "Low", "-p", "1");
+    stdout = [];
+
+    await run("list", "--query", "priority>=4", "--json");
+    const listed = JSON.parse(stdout.join("\n"));
+    expect(listed.map((task: { title: string }) => task.title)).toEqual([
+      "High",
+    ]);
+
+    stdout = [];
+    await run("stats", "--json");
+    expect(JSON.parse(stdout.join("\n")).total).toBe(2);
+  });
+
+  it("should report overdue tasks as of a date", async () => {
+    await run("add", "Report", "-p", "3", "--due", "2025-06-01");
+    stdout = [];
+
+    await run("overdue", "--as-of", "2025-05-01", "--json");
+    expect(JSON.parse(stdout.join("\n"))).toEqual([]);
+
+    stdout = [];
+    await run("overdue", "--as-of", "2025-07-01", "--json");
+    expect(JSON.parse(stdout.join("\n")).length).toBe(1);
+
+    stdout = [];
+    await run("stats", "--as-of", "2025-07-01", "--json");
+    expect(JSON.parse(stdout.join("\n")).overdue).toBe(1);
+    expect(await run("stats", "--as-of", "someday")).toBe(EXIT_CODES.usage);
+  });
+
+  it("should suggest the next task in human-readable form", async () => {
+    await run("add", "Low", "-p", "1");
+    await run("add", "High", "-p", "5");
+    stdout = [];
+
+    await run("next");
+
+    expect(stdout[0]).toContain("[PENDING] High - Priority: 5");
+  });
+
+  it("should scope the next task and the workload to assignees", async () => {
+    await run("add", "Mine", "-p", "2", "-a", "alice");
+    await run("add", "Theirs", "-p", "5", "-a", "bob");
+    await run("add", "Shared", "-p", "4", "-a", "alice", "-a", "bob");
+    const shared = (await loadState()).tasks[2]!.id;
+    await run("start", shared);
+    stdout = [];
+
+    await run("next", "--for", "alice");
+    expect(stdout[0]).toContain("Mine");
+
+    stdout = [];
+    await run("workload", "--max-load", "3", "--json");
+    const report = JSON.parse(stdout.join("\n"));
+    expect(report.workloads.map((w: { open: number }) => w.open)).toEqual([
+      2, 2,
+    ]);
+    expect(report.workloads[0].overloaded).toBe(true);
+
+    await run("edit", shared, "-a", "none");
+    expect((await loadState()).tasks[2]!.assignees).toBeUndefined();
+    expect(await run("workload", "--max-open", "many")).toBe(EXIT_CODES.usage);
+  });
+
+  it("should preview imports before applying them", async () => {
+    await run("add", "Write docs");
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "tasks-"));
+    const filePath = path.join(directory, "todo.md");
+    await fs.writeFile(
+      filePath,
+      "- [ ] Fix login bug !5\n- [ ] write docs\n- [ ] Bad !9\n"
+    );
+    stdout = [];
+
+    try {
+      expect(await run("import", filePath)).toBe(EXIT_CODES.ok);
+      expect(stdout).toContain("1 to add, 1 duplicates, 1 errors");
+      expect((await loadState()).tasks.length).toBe(1);
+
+      expect(await run("import", filePath, "--apply")).toBe(EXIT_CODES.ok);
+      expect((await loadState()).tasks.length).toBe(2);
+
+      expect(await run("import", filePath, "--format", "xml")).toBe(
+        EXIT_CODES.usage
+      );
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should export tasks", async () => {
+    await run("add", "Fix login bug", "-p", "5", "--due", "2025-10-25");
+    stdout = [];
+
+    await run("export", "md");
+
+    expect(stdout).toEqual(["- [ ] Fix login bug !5 due:2025-10-25"]);
+  });
+
+  it("should sync through a shared file", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "cli-sync-"));
+    const shared = path.join(directory, "shared.json");
+
+    try {
+      await run("add", "Mine");
+      expect(await run("sync", shared)).toBe(EXIT_CODES.ok);
+
+      repository = createInMemoryRepository();
+      replicaStore = createInMemoryReplicaStore(createReplica("other"));
+      await run("add", "Theirs");
+      stdout = [];
+      expect(await run("sync", shared)).toBe(EXIT_CODES.ok);
+
+      expect(stdout).toEqual([
+        `Synced with ${shared}: 2 tasks, 0 conflicts resolved`,
+      ]);
+      expect((await loadState()).tasks.map((task) => task.title)).toEqual([
+        "Mine",
+        "Theirs",
+      ]);
+      expect(await run("sync")).toBe(EXIT_CODES.usage);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should report a storage error for unreadable state", async () => {
+    repository = {
+      load: async () => ({ ok: false, error: new Error("corrupt") }),
+      save: async () => ({ ok: true, value: undefined }),
+    };
+
+    expect(await run("list")).toBe(EXIT_CODES.storage);
+  });
+});
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { getTopPriorityTasks } from "../src/composition";
+import {
+  addDependency,
+  getBlockedTasks,
+  removeDependency,
+  topologicalOrder,
+} from "../src/dependencies";
+import { createInitialState } from "../src/state";
+import {
+  addTask,
+  getNextTask,
+  getNextTaskByDeadline,
+  getStatistics,
+  markCompleted,
+  removeTask,
+  updateTask,
+} from "../src/task-operations";
+import { TaskState } from "../src/types";
+import { unwrap } from "./helpers";
+
+describe("Task dependencies", () => {
+  let state: TaskState;
+  let ids: string[];
+
+  beforeEach(() => {
+    state = createInitialState();
+    state = unwrap(
+      addTask(state, "Design schema", "Desc", 3, new Date("2025-11-10"))
+    );
+    state = unwrap(
+      addTask(state, "Build API", "Desc", 5, new Date("2025-11-01"))
+    );
+    state = unwrap(addTask(state, "Write docs", "Desc", 2));
+    ids = state.tasks.map((task) => task.id);
+
+    const result = addDependency(state, ids[1]!, ids[0]!);
+    if (!result.ok) throw result.error;
+    state = result.value;
+  });
+
+  it("should skip blocked tasks when selecting the next task", () => {
+    expect(getNextTask(state)!.title).toBe("Design schema");
+    expect(getNextTaskByDeadline(state)!.title).toBe("Design schema");
+    expect(getTopPriorityTasks(state, 2).map((t) => t.title)).toEqual([
+      "Design schema",
+      "Write docs",
+    ]);
+  });
+
+  it("should unblock tasks once their dependencies are completed", () => {
+    const completed = unwrap(markCompleted(state, ids[0]!));
+
+    expect(getBlockedTasks(completed).length).toBe(0);
+    expect(getNextTask(completed)!.title).toBe("Build API");
+  });
+
+  it("should reject dependencies that create a cycle", () => {
+    expect(addDependency(state, ids[0]!, ids[1]!).ok).toBe(false);
+    expect(addDependency(state, ids[0]!, ids[0]!).ok).toBe(false);
+    expect(updateTask(state, ids[0]!, { dependsOn: [ids[1]!] }).ok).toBe(false);
+  });
+
+  it("should reject dependencies on unknown tasks", () => {
+    expect(addDependency(state, ids[0]!, "missing").ok).toBe(false);
+  });
+
+  it("should order tasks topologically", () => {
+    const withDocs = addDependency(state, ids[0]!, ids[2]!);
+    if (!withDocs.ok) throw withDocs.error;
+
+    const order = topologicalOrder(withDocs.value);
+
+    expect(order.ok).toBe(true);
+    if (order.ok) {
+      expect(order.value.map((t) => t.title)).toEqual([
+        "Write docs",
+        "Design schema",
+        "Build API",
+      ]);
+    }
+  });
+
+  it("should count blocked tasks in statistics", () => {
+    expect(getStatistics(state).blocked).toBe(1);
+    expect(
+      getStatistics(unwrap(removeDependency(state, ids[1]!, ids[0]!))).blocked
+    ).toBe(0);
+  });
+
+  it("should drop references to removed tasks", () => {
+    const removed = unwrap(removeTask(state, ids[0]!));
+
+    expect(removed.tasks[0]!.dependsOn).toEqual([]);
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, expect, it } from "@jest/globals";
+import { pipe } from "fp-ts/function";
+import * as E from "fp-ts/Either";
+import * as RE from "fp-ts/ReaderEither";
+import { createTestEnv, fixedClock, sequentialIds } from "../src/environment";
+import { execute } from "../src/events";
+import * as readers from "../src/reader-operations";
+import { setRecurrence } from "../src/series";
+import { createInitialState } from "../src/state";
+import {
+  addTask,
+  getOverdueTasks,
+  getOverdueTasksAsOf,
+  getStatistics,
+  getStatisticsAsOf,
+  markCompleted,
+  markInProgress,
+  updateTask,
+} from "../src/task-operations";
+import { TaskState } from "../src/types";
+import { defaultWorkflow } from "../src/workflow";
+import { unwrap } from "./helpers";
+
+const now = new Date("2025-03-10T09:00:00.000Z");
+
+describe("Environment", () => {
+  it("should stop the clock and count ids", () => {
+    const clock = fixedClock(now);
+    const ids = sequentialIds();
+    const other = sequentialIds("item-");
+
+    expect(clock()).toEqual(now);
+    expect(clock()).not.toBe(clock());
+    expect([ids(), ids(), other(), ids()]).toEqual([
+      "task-1",
+      "task-2",
+      "item-1",
+      "task-3",
+    ]);
+  });
+
+  it("should create tasks with the environment's ids and dates", () => {
+    const env = createTestEnv(now);
+    const state = unwrap(
+      addTask(createInitialState(), "A", "", 3, undefined, env)
+    );
+    const next = unwrap(addTask(state, "B", "", 2, undefined, env));
+
+    expect(next.tasks.map((task) => task.id)).toEqual(["task-1", "task-2"]);
+    expect(
+      next.tasks.every((task) => task.createdAt.getTime() === now.getTime())
+    ).toBe(true);
+  });
+
+  it("should be reproducible across runs", () => {
+    const run = (): TaskState => {
+      const env = createTestEnv(now);
+      const state = unwrap(
+        addTask(createInitialState(), "A", "", 3, undefined, env)
+      );
+      return unwrap(
+        markCompleted(
+          unwrap(markInProgress(state, "task-1", defaultWorkflow, env)),
+          "task-1",
+          defaultWorkflow,
+          {},
+          env
+        )
+      );
+    };
+
+    const state = run();
+    expect(state).toEqual(run());
+    expect(state.tasks[0]!.completedAt).toEqual(now);
+    expect(state.tasks[0]!.statusHistory?.map((change) => change.at)).toEqual([
+      now,
+      now,
+    ]);
+  });
+
+  it("should give the next occurrence a generated id", () => {
+    const env = createTestEnv(now);
+    const added = unwrap(
+      addTask(createInitialState(), "Chore", "", 2, now, env)
+    );
+    const recurring = setRecurrence(added, "task-1", {
+      frequency: { kind: "daily" },
+    });
+    if (!recurring.ok) throw recurring.error;
+
+    const state = unwrap(
+      markCompleted(recurring.value, "task-1", defaultWorkflow, {}, env)
+    );
+
+    expect(state.tasks.map((task) => task.id)).toEqual(["task-1", "task-2"]);
+    expect(state.tasks[1]!.createdAt).toEqual(now);
+  });
+
+  it("should use the id generator for events", () => {
+    const result = execute(
+      createInitialState(),
+      { type: "AddTask", title: "A", description: "", priority: 3 },
+      now,
+      defaultWorkflow,
+      sequentialIds()
+    );
+    if (!result.ok) throw result.error;
+
+    expect(result.value.state.tasks[0]).toMatchObject({
+      id: "task-1",
+      createdAt: now,
+    });
+  });
+
+  describe("As-of queries", () => {
+    const env = createTestEnv(now);
+    const state = [
+      { title: "Last week", deadline: new Date("2025-03-03T00:00:00.000Z") },
+      { title: "Tomorrow", deadline: new Date("2025-03-11T00:00:00.000Z") },
+      { title: "Next month", deadline: new Date("2025-04-10T00:00:00.000Z") },
+    ].reduce(
+      (acc, { title, deadline }) =>
+        unwrap(addTask(acc, title, "", 3, deadline, env)),
+      createInitialState()
+    );
+
+    it("should judge overdue tasks by the environment's clock", () => {
+      expect(
+        getOverdueTasks(state, defaultWorkflow, env).map((task) => task.title)
+      ).toEqual(["Last week"]);
+      expect(getStatistics(state, defaultWorkflow, env).overdue).toBe(1);
+    });
+
+    it("should list the tasks overdue at a given time", () => {
+      const asOf = new Date("2025-03-20T00:00:00.000Z");
+
+      expect(
+        getOverdueTasksAsOf(state, asOf).map((task) => task.title)
+      ).toEqual(["Last week", "Tomorrow"]);
+      expect(getOverdueTasksAsOf(state, new Date("2025-03-01"))).toEqual([]);
+    });
+
+    it("should count overdue tasks as of a given time", () => {
+      const completed = unwrap(
+        markCompleted(state, "task-1", defaultWorkflow, {}, env)
+      );
+      const stats = getStatisticsAsOf(
+        completed,
+        new Date("2025-05-01T00:00:00.000Z")
+      );
+
+      expect(stats.total).toBe(3);
+      expect(stats.byStatus["completed"]).toBe(1);
+      expect(stats.overdue).toBe(2);
+    });
+  });
+
+  describe("Reader operations", () => {
+    it("should compose operations and run them with an environment", () => {
+      const program = pipe(
+        RE.right(createInitialState()),
+        RE.chain(readers.addTask("A", "", 3, new Date("2025-03-01"))),
+        RE.chain(readers.addTask("B", "", 2)),
+        RE.chain(readers.markInProgress("task-2")),
+        RE.chain(readers.markMultipleCompleted(["task-1", "task-2"]))
+      );
+
+      const result = program(createTestEnv(now));
+      if (E.isLeft(result)) throw new Error(result.left.message);
+
+      expect(result).toEqual(program(createTestEnv(now)));
+      expect(
+        result.right.tasks.map((task) => [
+          task.id,
+          task.status,
+          task.completedAt,
+        ])
+      ).toEqual([
+        ["task-1", "completed", now],
+        ["task-2", "completed", now],
+      ]);
+    });
+
+    it("should read queries from the same environment", () => {
+      const report = pipe(
+        RE.right(createInitialState()),
+        RE.chain(readers.addTask("A", "", 3, new Date("2025-03-01"))),
+        RE.chainReaderK(readers.getOverdueTasks()),
+        RE.map((overdue) => overdue.map((task) => task.id))
+      );
+
+      expect(report(createTestEnv(now))).toEqual(E.right(["task-1"]));
+      expect(report(createTestEnv(new Date("2025-02-01")))).toEqual(
+        E.right([])
+      );
+    });
+
+    it("should record edits and removals at the environment's time", () => {
+      const later = new Date("2025-03-20T09:00:00Z");
+      const created = pipe(
+        RE.right(createInitialState()),
+        RE.chain(readers.addTask("A", "", 3)),
+        RE.chain(readers.addTask("B", "", 2)),
+        RE.chain(readers.addTask("C", "", 2))
+      )(createTestEnv(now));
+      if (E.isLeft(created)) throw new Error(created.left.message);
+
+      const result = pipe(
+        RE.right(
+          unwrap(updateTask(created.right, "task-3", { dependsOn: ["task-2"] }))
+        ),
+        RE.chain(readers.updateTask("task-1", { title: "A2" })),
+        RE.chain(readers.updatePriorities(["task-1", "task-2"], 5)),
+        RE.chain(readers.removeTask("task-2"))
+      )(createTestEnv(later));
+      if (E.isLeft(result)) throw new Error(result.left.message);
+
+      const changes = result.right.tasks.flatMap((task) =>
+        (task.auditTrail ?? [])
+          .filter((change) => change.at.getTime() === later.getTime())
+          .map((change) => [task.id, change.field])
+      );
+      expect(changes).toEqual([
+        ["task-1", "title"],
+        ["task-1", "priority"],
+        ["task-3", "dependsOn"],
+      ]);
+    });
+
+    it("should stop at the first error", () => {
+      const result = pipe(
+        RE.right(createInitialState()),
+        RE.chain(readers.addTask("A", "", 3)),
+        RE.chain(readers.transitionTask("missing", "completed")),
+        RE.chain(readers.addTask("B", "", 2))
+      )(createTestEnv(now));
+
+      expect(result).toEqual(
+        E.left(expect.objectContaining({ type: "NotFound", id: "missing" }))
+      );
+    });
+  });
+});
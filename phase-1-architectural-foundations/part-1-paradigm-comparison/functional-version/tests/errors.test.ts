@@ -0,0 +1,139 @@
+import { describe, expect, it } from "@jest/globals";
+import * as E from "fp-ts/Either";
+import {
+  fromEither,
+  fromValidation,
+  notFound,
+  toEither,
+  validateField,
+  validateFields,
+} from "../src/errors";
+import { createInitialState } from "../src/state";
+import {
+  addTask,
+  markCompleted,
+  markInProgress,
+  markMultipleCompleted,
+  removeTask,
+  updatePriorities,
+  updateTask,
+} from "../src/task-operations";
+import { TaskState } from "../src/types";
+import { unwrap } from "./helpers";
+
+const state: TaskState = unwrap(
+  addTask(createInitialState(), "Write report", "", 3)
+);
+const taskId = state.tasks[0]!.id;
+
+describe("Task errors", () => {
+  it("should report unknown ids as NotFound", () => {
+    const missing = {
+      ok: false,
+      error: {
+        type: "NotFound",
+        entity: "task",
+        id: "missing",
+        message: "Task with id missing not found",
+      },
+    };
+
+    expect(removeTask(state, "missing")).toEqual(missing);
+    expect(markInProgress(state, "missing")).toEqual(missing);
+    expect(markCompleted(state, "missing")).toEqual(missing);
+    expect(markMultipleCompleted(state, [taskId, "missing"])).toEqual(missing);
+    expect(updatePriorities(state, ["missing"], 4)).toEqual(missing);
+    expect(updateTask(state, "missing", { priority: 4 })).toEqual(missing);
+  });
+
+  it("should report every invalid field of a new task at once", () => {
+    expect(addTask(state, " ", "", 9)).toEqual({
+      ok: false,
+      error: {
+        type: "ValidationFailed",
+        errors: [
+          { field: "title", message: "Title cannot be empty" },
+          { field: "priority", message: "Priority must be between 1 and 5" },
+        ],
+        message: "Title cannot be empty; Priority must be between 1 and 5",
+      },
+    });
+  });
+
+  it("should report every invalid field of an update at once", () => {
+    const result = updateTask(state, taskId, {
+      title: "",
+      priority: 0,
+      estimate: -1,
+      tags: ["not a tag"],
+      dependsOn: ["missing"],
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok && result.error.type === "ValidationFailed") {
+      expect(result.error.errors.map((error) => error.field)).toEqual([
+        "title",
+        "priority",
+        "estimate",
+        "dependsOn",
+        "tags",
+      ]);
+    } else {
+      throw new Error("Expected a ValidationFailed error");
+    }
+  });
+
+  it("should keep a single invalid field as its own error", () => {
+    const result = updateTask(state, taskId, { priority: 7 });
+
+    expect(result).toEqual({
+      ok: false,
+      error: {
+        type: "InvalidPriority",
+        priority: 7,
+        message: "Priority must be between 1 and 5",
+      },
+    });
+  });
+
+  it("should convert between Results and Eithers", () => {
+    const error = notFound("missing");
+
+    expect(toEither({ ok: true, value: 1 })).toEqual(E.right(1));
+    expect(toEither({ ok: false, error })).toEqual(E.left(error));
+    expect(fromEither(E.right(1))).toEqual({ ok: true, value: 1 });
+    expect(fromEither(E.left(error))).toEqual({ ok: false, error });
+  });
+
+  it("should accumulate field validations", () => {
+    const invalid = (message: string) => ({
+      ok: false as const,
+      error: new Error(message),
+    });
+
+    expect(
+      fromValidation(
+        validateFields({
+          name: validateField("name")({ ok: true, value: "report" }),
+          size: validateField("size")(invalid("Size must be positive")),
+          kind: validateField("kind")(invalid("Unknown kind")),
+        })
+      )
+    ).toEqual({
+      ok: false,
+      error: {
+        type: "ValidationFailed",
+        errors: [
+          { field: "size", message: "Size must be positive" },
+          { field: "kind", message: "Unknown kind" },
+        ],
+        message: "Size must be positive; Unknown kind",
+      },
+    });
+    expect(
+      fromValidation(
+        validateFields({ name: validateField("name")({ ok: true, value: 1 }) })
+      )
+    ).toEqual({ ok: true, value: { name: 1 } });
+  });
+});
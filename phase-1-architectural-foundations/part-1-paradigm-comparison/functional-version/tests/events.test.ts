@@ -0,0 +1,249 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createFileEventLog } from "../src/event-log";
+import {
+  applyEvent,
+  decide,
+  execute,
+  replay,
+  replayUntil,
+} from "../src/events";
+import { createInitialState } from "../src/state";
+import { TaskCommand, TaskEvent, TaskState } from "../src/types";
+
+const runCommands = (
+  commands: ReadonlyArray<[TaskCommand, Date]>,
+  initial: TaskState = createInitialState()
+): { state: TaskState; events: TaskEvent[] } =>
+  commands.reduce(
+    (acc, [command, at]) => {
+      const result = execute(acc.state, command, at);
+      if (!result.ok) throw result.error;
+      return {
+        state: result.value.state,
+        events: [...acc.events, ...result.value.events],
+      };
+    },
+    { state: initial, events: [] as TaskEvent[] }
+  );
+
+describe("Event-sourced task history", () => {
+  const t1 = new Date("2025-10-01T09:00:00.000Z");
+  const t2 = new Date("2025-10-02T09:00:00.000Z");
+  const t3 = new Date("2025-10-03T09:00:00.000Z");
+
+  const addCommand: TaskCommand = {
+    type: "AddTask",
+    title: "Fix login bug",
+    description: "Users cannot log in",
+    priority: 5,
+    deadline: new Date("2025-10-25T00:00:00.000Z"),
+  };
+
+  describe("Commands", () => {
+    it("should produce a TaskCreated event for AddTask", () => {
+      const result = decide(createInitialState(), addCommand, t1);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.length).toBe(1);
+        expect(result.value[0]!.type).toBe("TaskCreated");
+      }
+    });
+
+    it("should reject invalid commands", () => {
+      const state = createInitialState();
+
+      expect(decide(state, { ...addCommand, priority: 9 }).ok).toBe(false);
+      expect(decide(state, { type: "MarkCompleted", taskId: "x" }).ok).toBe(
+        false
+      );
+    });
+
+    it("should reject batch completion of unknown tasks", () => {
+      const { state } = runCommands([[addCommand, t1]]);
+
+      expect(
+        decide(state, {
+          type: "MarkMultipleCompleted",
+          taskIds: [state.tasks[0]!.id, "missing"],
+        })
+      ).toEqual({
+        ok: false,
+        error: expect.objectContaining({ type: "NotFound" }),
+      });
+    });
+
+    it("should not emit events for no-op status changes", () => {
+      const { state } = runCommands([[addCommand, t1]]);
+      const taskId = state.tasks[0]!.id;
+      const completed = runCommands(
+        [[{ type: "MarkCompleted", taskId }, t2]],
+        state
+      ).state;
+
+      const result = decide(completed, { type: "MarkCompleted", taskId }, t3);
+
+      expect(result.ok && result.value.length).toBe(0);
+    });
+  });
+
+  describe("Replay", () => {
+    it("should rebuild the same state by folding the event log", () => {
+      const created = runCommands([[addCommand, t1]]);
+      const taskId = created.state.tasks[0]!.id;
+      const { state, events } = runCommands(
+        [
+          [{ type: "MarkInProgress", taskId }, t2],
+          [{ type: "UpdateTask", taskId, update: { priority: 4 } }, t2],
+          [{ type: "MarkCompleted", taskId }, t3],
+        ],
+        created.state
+      );
+
+      expect(replay([...created.events, ...events])).toEqual(state);
+      expect(state.tasks[0]!.completedAt).toEqual(t3);
+    });
+
+    it("should rebuild the state as of a timestamp", () => {
+      const created = runCommands([[addCommand, t1]]);
+      const taskId = created.state.tasks[0]!.id;
+      const { events } = runCommands(
+        [
+          [{ type: "MarkInProgress", taskId }, t2],
+          [{ type: "RemoveTask", taskId }, t3],
+        ],
+        created.state
+      );
+      const log = [...created.events, ...events];
+
+      expect(replayUntil(log, t2).tasks[0]!.status).toBe("in-progress");
+      expect(replayUntil(log, t3).tasks.length).toBe(0);
+    });
+
+    it("should ignore events for unknown tasks", () => {
+      const state = createInitialState();
+
+      expect(
+        applyEvent(state, { type: "TaskRemoved", at: t1, taskId: "x" })
+      ).toEqual(state);
+    });
+  });
+
+  describe("File event log", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), "events-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it("should append and read back events", async () => {
+      const log = createFileEventLog(path.join(directory, "events.jsonl"));
+      const { state, events } = runCommands([
+        [addCommand, t1],
+        [{ ...addCommand, title: "Second" }, t2],
+      ]);
+
+      await log.append(events);
+      const loaded = await log.loadState();
+
+      expect(loaded.ok).toBe(true);
+      if (loaded.ok) {
+        expect(loaded.value).toEqual(state);
+      }
+    });
+
+    it("should replay only events after the snapshot", async () => {
+      const filePath = path.join(directory, "events.jsonl");
+      const log = createFileEventLog(filePath);
+      const first = runCommands([[addCommand, t1]]);
+      await log.append(first.events);
+      await log.saveSnapshot(first.state);
+
+      const taskId = first.state.tasks[0]!.id;
+      const second = runCommands(
+        [[{ type: "MarkCompleted", taskId }, t2]],
+        first.state
+      );
+      await log.append(second.events);
+
+      const loaded = await log.loadState();
+      const asOf = await log.loadStateAt(t1);
+
+      expect(loaded.ok && loaded.value).toEqual(second.state);
+      expect(asOf.ok && asOf.value.tasks[0]!.status).toBe("pending");
+    });
+
+    it("should ignore a truncated final line", async () => {
+      const filePath = path.join(directory, "events.jsonl");
+      const log = createFileEventLog(filePath);
+      await log.append(runCommands([[addCommand, t1]]).events);
+      await fs.appendFile(filePath, '{"type":"TaskRem', "utf8");
+
+      const events = await log.readAll();
+
+      expect(events.ok && events.value.length).toBe(1);
+    });
+
+    it("should cut off a truncated final line before appending", async () => {
+      const filePath = path.join(directory, "events.jsonl");
+      const log = createFileEventLog(filePath);
+      const first = runCommands([[addCommand, t1]]);
+      await log.append(first.events);
+      await fs.appendFile(filePath, '{"type":"TaskRem', "utf8");
+
+      const second = runCommands(
+        [[{ ...addCommand, title: "Second" }, t2]],
+        first.state
+      );
+      await log.append(second.events);
+      const loaded = await log.loadState();
+
+      expect(loaded.ok && loaded.value).toEqual(second.state);
+    });
+
+    it("should keep a complete final line that lacks its newline", async () => {
+      const filePath = path.join(directory, "events.jsonl");
+      const log = createFileEventLog(filePath);
+      const first = runCommands([
+        [addCommand, t1],
+        [{ ...addCommand, title: "Second" }, t2],
+      ]);
+      await log.append(first.events);
+      const content = await fs.readFile(filePath, "utf8");
+      await fs.writeFile(filePath, content.trimEnd(), "utf8");
+
+      const second = runCommands(
+        [[{ ...addCommand, title: "Third" }, t3]],
+        first.state
+      );
+      await log.append(second.events);
+      const events = await log.readAll();
+
+      expect(events.ok && events.value.length).toBe(3);
+    });
+
+    it("should reject events with malformed fields", async () => {
+      const filePath = path.join(directory, "events.jsonl");
+      const log = createFileEventLog(filePath);
+      const at = t1.toISOString();
+      const records = [
+        { type: "TaskUpdated", at, taskId: "a", changes: null },
+        { type: "TaskStatusChanged", at, taskId: "a", from: "pending" },
+        { type: "TaskRemoved", at, taskId: 7 },
+      ];
+
+      for (const record of records) {
+        await fs.writeFile(filePath, `${JSON.stringify(record)}\n`);
+        const events = await log.readAll();
+        expect(events.ok).toBe(false);
+      }
+    });
+  });
+});
@@ -0,0 +1,12 @@
+import { Result } from "../src/types";
+
+/**
+ * Returns the value of a successful Result, failing the test with the error
+ * message otherwise.
+ */
+export const unwrap = <T>(
+  result: Result<T, { readonly message: string }>
+): T => {
+  if (!result.ok) throw new Error(result.error.message);
+  return result.value;
+};
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import {
+  TaskHistory,
+  canRedo,
+  canUndo,
+  createHistory,
+  currentState,
+  getLabels,
+  jumpTo,
+  record,
+  recordResult,
+  redo,
+  undo,
+} from "../src/history";
+import { createInitialState } from "../src/state";
+import { addTask, markCompleted, updateTask } from "../src/task-operations";
+import { unwrap } from "./helpers";
+
+describe("Undo/redo history", () => {
+  let history: TaskHistory;
+
+  beforeEach(() => {
+    history = createHistory(createInitialState());
+    history = record(
+      history,
+      "added 'Fix login bug'",
+      unwrap(addTask(currentState(history), "Fix login bug", "Desc", 5))
+    );
+    const taskId = currentState(history).tasks[0]!.id;
+    history = record(
+      history,
+      "completed 'Fix login bug'",
+      unwrap(markCompleted(currentState(history), taskId))
+    );
+  });
+
+  it("should undo and redo transitions", () => {
+    const undone = undo(history);
+
+    expect(currentState(undone).tasks[0]!.status).toBe("pending");
+    expect(canRedo(undone)).toBe(true);
+
+    const redone = redo(undone);
+
+    expect(currentState(redone).tasks[0]!.status).toBe("completed");
+    expect(canRedo(redone)).toBe(false);
+  });
+
+  it("should leave the history unchanged when nothing can be undone", () => {
+    const fresh = createHistory(createInitialState());
+
+    expect(canUndo(fresh)).toBe(false);
+    expect(undo(fresh)).toBe(fresh);
+    expect(redo(fresh)).toBe(fresh);
+  });
+
+  it("should discard redo entries after a new change", () => {
+    const undone = undo(history);
+    const changed = record(
+      undone,
+      "added 'Write docs'",
+      unwrap(addTask(currentState(undone), "Write docs", "Desc", 3))
+    );
+
+    expect(canRedo(changed)).toBe(false);
+    expect(getLabels(changed)).toEqual([
+      "initial state",
+      "added 'Fix login bug'",
+      "added 'Write docs'",
+    ]);
+  });
+
+  it("should jump to a labelled entry and back", () => {
+    const jumped = jumpTo(history, "initial state");
+
+    expect(jumped.ok).toBe(true);
+    if (jumped.ok) {
+      expect(currentState(jumped.value).tasks.length).toBe(0);
+
+      const back = jumpTo(jumped.value, "completed 'Fix login bug'");
+      expect(back.ok && currentState(back.value)).toBe(currentState(history));
+    }
+  });
+
+  it("should return an error for unknown labels", () => {
+    expect(jumpTo(history, "nope").ok).toBe(false);
+  });
+
+  it("should bound the number of undo entries", () => {
+    let bounded = createHistory(createInitialState(), 2);
+    for (let i = 1; i <= 5; i++) {
+      bounded = record(
+        bounded,
+        `added 'Task ${i}'`,
+        unwrap(addTask(currentState(bounded), `Task ${i}`, "Desc", 3))
+      );
+    }
+
+    expect(bounded.past.length).toBe(2);
+    expect(getLabels(bounded)[0]).toBe("added 'Task 3'");
+  });
+
+  it("should only record successful results", () => {
+    const taskId = currentState(history).tasks[0]!.id;
+    const failed = recordResult(
+      history,
+      "reprioritised",
+      updateTask(currentState(history), taskId, { priority: 9 })
+    );
+
+    expect(failed.ok).toBe(false);
+  });
+});
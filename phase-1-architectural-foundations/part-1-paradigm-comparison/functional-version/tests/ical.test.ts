@@ -0,0 +1,287 @@
+import { describe, expect, it } from "@jest/globals";
+import { createTestEnv } from "../src/environment";
+import { exportICalendar, foldLine, importICalendar } from "../src/ical";
+import { createInitialState } from "../src/state";
+import { addTask, markCompleted } from "../src/task-operations";
+import { unwrap } from "./helpers";
+
+const now = new Date("2025-10-20T08:00:00.000Z");
+const env = { ...createTestEnv(now), actor: "calendar" };
+
+const calendar = (...lines: string[]): string =>
+  ["BEGIN:VCALENDAR", "VERSION:2.0", ...lines, "END:VCALENDAR", ""].join(
+    "\r\n"
+  );
+
+describe("iCalendar", () => {
+  it("should export tasks as VTODO components", () => {
+    let state = unwrap(
+      addTask(
+        createInitialState(),
+        "Fix login bug",
+        "Users; cannot, log in\nat all",
+        5,
+        new Date("2025-10-25")
+      )
+    );
+    state = unwrap(addTask(state, "Write docs", "", 2));
+    state = unwrap(markCompleted(state, state.tasks[1]!.id));
+
+    const ics = exportICalendar(state, undefined, now);
+    const lines = ics.split("\r\n");
+
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines).toContain(`UID:${state.tasks[0]!.id}`);
+    expect(lines).toContain("DTSTAMP:20251020T080000Z");
+    expect(lines).toContain("DESCRIPTION:Users\\; cannot\\, log in\\nat all");
+    expect(lines).toContain("PRIORITY:1");
+    expect(lines).toContain("STATUS:NEEDS-ACTION");
+    expect(lines).toContain("DUE;VALUE=DATE:20251025");
+    expect(lines).toContain("PRIORITY:7");
+    expect(lines).toContain("STATUS:COMPLETED");
+    expect(lines.some((line) => line.startsWith("COMPLETED:"))).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+
+  it("should fold long lines without splitting characters", () => {
+    const line = `SUMMARY:${"é".repeat(60)}`;
+    const folded = foldLine(line).split("\r\n");
+
+    folded.forEach((physical) =>
+      expect(Buffer.byteLength(physical)).toBeLessThanOrEqual(75)
+    );
+    expect(
+      folded.map((physical, i) => (i ? physical.slice(1) : physical)).join("")
+    ).toBe(line);
+  });
+
+  it("should round-trip through export and import", () => {
+    const state = unwrap(
+      addTask(
+        createInitialState(),
+        "A title that is long enough to be folded across more than one line",
+        "Back\\slash, comma; semicolon\nnewline",
+        4,
+        new Date("2025-10-25T15:30:00.000Z")
+      )
+    );
+
+    const imported = importICalendar(
+      createInitialState(),
+      exportICalendar(state, undefined, now)
+    );
+
+    expect(imported.ok).toBe(true);
+    if (!imported.ok) return;
+    expect(imported.value.created).toEqual([state.tasks[0]!.id]);
+    // iCalendar timestamps have second precision and the audit trail of
+    // the imported task starts at the import
+    const createdAt = new Date(
+      Math.floor(state.tasks[0]!.createdAt.getTime() / 1000) * 1000
+    );
+    expect(imported.value.state.tasks).toEqual([
+      {
+        ...state.tasks[0]!,
+        createdAt,
+        auditTrail: imported.value.state.tasks[0]!.auditTrail,
+      },
+    ]);
+  });
+
+  it("should update tasks by UID through the audited operations", () => {
+    const state = unwrap(addTask(createInitialState(), "Task", "", 3));
+    const taskId = state.tasks[0]!.id;
+
+    const imported = importICalendar(
+      state,
+      calendar(
+        "BEGIN:VTODO",
+        `UID:${taskId}`,
+        "SUMMARY:Renamed",
+        "PRIORITY:9",
+        "STATUS:COMPLETED",
+        "COMPLETED:20251021T100000Z",
+        "END:VTODO"
+      ),
+      undefined,
+      env
+    );
+
+    expect(imported.ok).toBe(true);
+    if (!imported.ok) return;
+    expect(imported.value.updated).toEqual([taskId]);
+    const completedAt = new Date("2025-10-21T10:00:00.000Z");
+    const task = imported.value.state.tasks[0]!;
+    expect(task).toMatchObject({
+      title: "Renamed",
+      priority: 1,
+      status: "completed",
+      completedAt,
+      statusHistory: [{ status: "completed", at: completedAt }],
+    });
+    expect(
+      task.auditTrail
+        ?.filter((change) => change.actor === "calendar")
+        .map((change) => change.field)
+    ).toEqual(["title", "priority", "status", "completedAt"]);
+  });
+
+  it("should skip updates the workflow refuses", () => {
+    let state = unwrap(addTask(createInitialState(), "Parent", "", 3));
+    const parentId = state.tasks[0]!.id;
+    state = unwrap(addTask(state, "Child", "", 3));
+    state = {
+      tasks: state.tasks.map((task, index) =>
+        index === 1 ? { ...task, parentId } : task
+      ),
+    };
+
+    const imported = importICalendar(
+      state,
+      calendar(
+        "BEGIN:VTODO",
+        `UID:${parentId}`,
+        "SUMMARY:Parent",
+        "STATUS:COMPLETED",
+        "END:VTODO"
+      ),
+      undefined,
+      env
+    );
+
+    expect(imported.ok).toBe(true);
+    if (!imported.ok) return;
+    expect(imported.value.updated).toEqual([]);
+    expect(imported.value.skipped).toHaveLength(1);
+    expect(imported.value.state).toEqual(state);
+  });
+
+  it("should match UIDs after unescaping them", () => {
+    const first = importICalendar(
+      createInitialState(),
+      calendar("BEGIN:VTODO", "UID:a\\,b", "SUMMARY:Task", "END:VTODO"),
+      undefined,
+      env
+    );
+    const second = importICalendar(
+      unwrap(first).state,
+      calendar("BEGIN:VTODO", "UID:a\\,b", "SUMMARY:Renamed", "END:VTODO"),
+      undefined,
+      env
+    );
+
+    expect(unwrap(second).updated).toEqual(["a,b"]);
+    expect(unwrap(second).state.tasks.map((task) => task.title)).toEqual([
+      "Renamed",
+    ]);
+  });
+
+  it("should reject times in a named time zone", () => {
+    const imported = importICalendar(
+      createInitialState(),
+      calendar(
+        "BEGIN:VTODO",
+        "UID:zoned",
+        "SUMMARY:Zoned",
+        "DUE;TZID=Europe/Paris:20251101T090000",
+        "END:VTODO",
+        "BEGIN:VTODO",
+        "UID:all-day",
+        "SUMMARY:All day",
+        "DUE;TZID=Europe/Paris;VALUE=DATE:20251101",
+        "END:VTODO"
+      ),
+      undefined,
+      env
+    );
+
+    expect(imported.ok).toBe(true);
+    if (!imported.ok) return;
+    expect(imported.value.created).toEqual(["all-day"]);
+    expect(imported.value.skipped).toEqual([
+      {
+        component: "VTODO",
+        uid: "zoned",
+        reason: 'Time zone "Europe/Paris" in DUE is not supported',
+      },
+    ]);
+  });
+
+  it("should unfold lines and read quoted parameters", () => {
+    const imported = importICalendar(
+      createInitialState(),
+      calendar(
+        "BEGIN:VTODO",
+        "UID:abc@example.com",
+        "SUMMARY;LANGUAGE=en:Plan the",
+        "  quarterly review",
+        'DUE;X-NOTE="Paris: summer; late":20251101T090000Z',
+        "END:VTODO"
+      ),
+      undefined,
+      env
+    );
+
+    expect(imported.ok).toBe(true);
+    if (!imported.ok) return;
+    const task = imported.value.state.tasks[0]!;
+    expect(task.id).toBe("abc@example.com");
+    expect(task.title).toBe("Plan the quarterly review");
+    expect(task.priority).toBe(3);
+    expect(task.status).toBe("pending");
+    expect(task.deadline).toEqual(new Date("2025-11-01T09:00:00.000Z"));
+    expect(task.createdAt).toEqual(now);
+  });
+
+  it("should report components it cannot map", () => {
+    const imported = importICalendar(
+      createInitialState(),
+      calendar(
+        "BEGIN:VEVENT",
+        "UID:event-1",
+        "SUMMARY:Meeting",
+        "END:VEVENT",
+        "BEGIN:VTODO",
+        "SUMMARY:No uid",
+        "END:VTODO",
+        "BEGIN:VTODO",
+        "UID:todo-1",
+        "SUMMARY:Cancelled",
+        "STATUS:CANCELLED",
+        "END:VTODO",
+        "BEGIN:VTODO",
+        "UID:todo-2",
+        "SUMMARY:Bad date",
+        "DUE:tomorrow",
+        "END:VTODO"
+      )
+    );
+
+    expect(imported.ok).toBe(true);
+    if (!imported.ok) return;
+    expect(imported.value.state.tasks).toEqual([]);
+    expect(imported.value.skipped).toEqual([
+      {
+        component: "VEVENT",
+        uid: "event-1",
+        reason: "Only VTODO components are imported",
+      },
+      { component: "VTODO", reason: "Missing UID" },
+      {
+        component: "VTODO",
+        uid: "todo-1",
+        reason: 'Cannot map STATUS "CANCELLED"',
+      },
+      { component: "VTODO", uid: "todo-2", reason: 'Invalid DUE "tomorrow"' },
+    ]);
+  });
+
+  it("should reject malformed calendars", () => {
+    expect(importICalendar(createInitialState(), "BEGIN:VTODO\r\n").ok).toBe(
+      false
+    );
+    expect(
+      importICalendar(createInitialState(), calendar("END:VTODO")).ok
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,358 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { exportCsv, parseCsv, parseCsvTasks } from "../src/csv";
+import {
+  DraftRow,
+  applyImport,
+  formatImportReport,
+  planImport,
+} from "../src/importing";
+import {
+  exportMarkdownChecklist,
+  parseMarkdownChecklist,
+} from "../src/markdown";
+import { createInitialState } from "../src/state";
+import { addTask } from "../src/task-operations";
+import { readTrackerExport } from "../src/tracker";
+import { unwrap } from "./helpers";
+
+describe("Import and export", () => {
+  describe("Import plans", () => {
+    const rows: ReadonlyArray<DraftRow> = [
+      { line: 2, draft: { ok: true, value: { title: "Write docs" } } },
+      { line: 3, draft: { ok: true, value: { title: "Task", priority: 9 } } },
+      { line: 4, draft: { ok: true, value: { title: "  " } } },
+      { line: 5, draft: { ok: true, value: { title: "fix  LOGIN bug" } } },
+      { line: 6, draft: { ok: true, value: { title: "Write docs" } } },
+      { line: 7, draft: { ok: false, error: new Error("Invalid date") } },
+    ];
+
+    it("should report per-row results without changing the state", () => {
+      const state = unwrap(
+        addTask(createInitialState(), "Fix login bug", "", 3)
+      );
+
+      const plan = planImport(state, rows);
+
+      expect(plan.rows.map((row) => row.result.ok)).toEqual([
+        true,
+        false,
+        false,
+        true,
+        true,
+        false,
+      ]);
+      expect(plan.rows[1]!.result).toEqual({
+        ok: false,
+        error: {
+          type: "InvalidPriority",
+          priority: 9,
+          message: "Priority must be between 1 and 5",
+        },
+      });
+      expect(plan.rows[2]!.result).toEqual({
+        ok: false,
+        error: { type: "EmptyTitle", message: "Title cannot be empty" },
+      });
+      expect(plan.rows[3]!.duplicateOf).toBe(state.tasks[0]!.id);
+      expect(plan.rows[4]!.duplicateOf).toBe(
+        plan.rows[0]!.result.ok ? plan.rows[0]!.result.value.id : undefined
+      );
+      expect(state.tasks.length).toBe(1);
+      expect(formatImportReport(plan).slice(-1)).toEqual([
+        "1 to add, 2 duplicates, 3 errors",
+      ]);
+    });
+
+    it("should apply valid rows and skip duplicates by default", () => {
+      const state = unwrap(
+        addTask(createInitialState(), "Fix login bug", "", 3)
+      );
+      const plan = planImport(state, rows);
+
+      expect(applyImport(state, plan).tasks.length).toBe(2);
+      expect(
+        applyImport(state, plan, { includeDuplicates: true }).tasks.length
+      ).toBe(4);
+    });
+  });
+
+  describe("CSV", () => {
+    it("should parse quoted cells and track record lines", () => {
+      const records = unwrap(
+        parseCsv('a,"b, ""quoted""\nline",c\r\n\r\nd,e,f\n')
+      );
+
+      expect(records).toEqual([
+        { line: 1, cells: ["a", 'b, "quoted"\nline', "c"] },
+        { line: 4, cells: ["d", "e", "f"] },
+      ]);
+      expect(parseCsv('"open').ok).toBe(false);
+    });
+
+    it("should import with a custom column mapping", () => {
+      const rows = unwrap(
+        parseCsvTasks(
+          "Name;Notes;Prio;Due\nFix bug;Urgent;5;2025-10-25\nLater;;high;\n",
+          {
+            title: "Name",
+            description: "Notes",
+            priority: "Prio",
+            deadline: "Due",
+          },
+          ";"
+        )
+      );
+      const plan = planImport(createInitialState(), rows);
+
+      expect(plan.rows[0]!.line).toBe(2);
+      expect(plan.rows[0]!.result).toMatchObject({
+        ok: true,
+        value: {
+          title: "Fix bug",
+          description: "Urgent",
+          priority: 5,
+          deadline: new Date("2025-10-25"),
+        },
+      });
+      expect(plan.rows[1]!.result).toEqual({
+        ok: false,
+        error: new Error('Invalid priority "high"'),
+      });
+      expect(parseCsvTasks("Name\nTask\n").ok).toBe(false);
+    });
+
+    it("should round-trip through export and import", () => {
+      const state = unwrap(
+        addTask(
+          createInitialState(),
+          'Task, with "quotes"',
+          "Two\nlines",
+          4,
+          new Date("2025-10-25")
+        )
+      );
+
+      const plan = planImport(
+        createInitialState(),
+        unwrap(parseCsvTasks(exportCsv(state)))
+      );
+
+      expect(plan.rows[0]!.result).toMatchObject({
+        ok: true,
+        value: {
+          title: 'Task, with "quotes"',
+          description: "Two\nlines",
+          priority: 4,
+          deadline: new Date("2025-10-25"),
+          status: "pending",
+        },
+      });
+    });
+  });
+
+  describe("Markdown checklists", () => {
+    it("should read items with markers and notes", () => {
+      const markdown = [
+        "# Sprint",
+        "- [ ] Fix login bug !5 due:2025-10-25",
+        "  Users cannot log in",
+        "- [x] Write docs",
+        "* [/] Review PR !4",
+        "Some text",
+        "  not a note",
+        "- [ ] Bad date due:soon",
+      ].join("\n");
+
+      const plan = planImport(
+        createInitialState(),
+        parseMarkdownChecklist(markdown)
+      );
+
+      expect(plan.rows.map((row) => row.line)).toEqual([2, 4, 5, 8]);
+      expect(plan.rows[0]!.result).toMatchObject({
+        ok: true,
+        value: {
+          title: "Fix login bug",
+          description: "Users cannot log in",
+          priority: 5,
+          deadline: new Date("2025-10-25"),
+          status: "pending",
+        },
+      });
+      expect(plan.rows[1]!.result).toMatchObject({
+        ok: true,
+        value: { title: "Write docs", priority: 3, status: "completed" },
+      });
+      expect(plan.rows[2]!.result).toMatchObject({
+        ok: true,
+        value: { title: "Review PR", description: "", status: "in-progress" },
+      });
+      expect(plan.rows[3]!.result.ok).toBe(false);
+    });
+
+    it("should export a checklist that reads back", () => {
+      const state = unwrap(
+        addTask(
+          createInitialState(),
+          "Fix login bug",
+          "Users cannot log in",
+          5,
+          new Date("2025-10-25")
+        )
+      );
+
+      const markdown = exportMarkdownChecklist(state);
+
+      expect(markdown).toBe(
+        "- [ ] Fix login bug !5 due:2025-10-25\n  Users cannot log in\n"
+      );
+      expect(parseMarkdownChecklist(markdown)[0]!.draft).toEqual({
+        ok: true,
+        value: {
+          title: "Fix login bug",
+          description: "Users cannot log in",
+          priority: 5,
+          deadline: new Date("2025-10-25"),
+          status: "pending",
+        },
+      });
+    });
+
+    it("should read markers at the end of items only", () => {
+      const titles = [
+        "Fix !important bug",
+        "Read due:later notes",
+        "Ends with !1",
+        "Ends with due:soon",
+      ];
+      const state = titles.reduce(
+        (next, title) =>
+          unwrap(addTask(next, title, "", 2, new Date("2025-10-25"))),
+        unwrap(addTask(createInitialState(), "No deadline due:x", "", 4))
+      );
+
+      const drafts = parseMarkdownChecklist(exportMarkdownChecklist(state));
+
+      expect(drafts.map((row) => row.draft)).toEqual(
+        state.tasks.map((task) => ({
+          ok: true,
+          value: {
+            title: task.title,
+            description: "",
+            priority: task.priority,
+            deadline: task.deadline,
+            status: "pending",
+          },
+        }))
+      );
+    });
+  });
+
+  describe("Issue-tracker exports", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), "tasks-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it("should import GitHub issues", async () => {
+      const filePath = path.join(directory, "issues.json");
+      await fs.writeFile(
+        filePath,
+        JSON.stringify([
+          {
+            title: "Crash on start",
+            body: "Stack trace",
+            state: "closed",
+            closed_at: "2025-10-02T10:00:00Z",
+            labels: [{ name: "bug" }, { name: "P1" }],
+            milestone: { due_on: "2025-10-31T07:00:00Z" },
+          },
+          { title: "Add dark mode", state: "OPEN", labels: ["priority: low"] },
+          { title: "Bump deps", state: "open", pull_request: {} },
+        ])
+      );
+
+      const plan = planImport(
+        createInitialState(),
+        unwrap(await readTrackerExport(filePath))
+      );
+
+      expect(plan.rows[0]!.result).toMatchObject({
+        ok: true,
+        value: {
+          title: "Crash on start",
+          priority: 4,
+          status: "completed",
+          completedAt: new Date("2025-10-02T10:00:00Z"),
+          deadline: new Date("2025-10-31T07:00:00Z"),
+        },
+      });
+      expect(plan.rows[1]!.result).toMatchObject({
+        ok: true,
+        value: { priority: 2, status: "pending" },
+      });
+      expect(plan.rows[2]!.result.ok).toBe(false);
+    });
+
+    it("should import Jira CSV exports", async () => {
+      const filePath = path.join(directory, "jira.csv");
+      await fs.writeFile(
+        filePath,
+        [
+          "Issue key,Summary,Priority,Status,Due Date,Resolved",
+          "APP-1,Fix login,Highest,Done,25/Oct/25,26/Oct/25 5:30 PM",
+          "APP-2,Write docs,Medium,In Progress,,",
+          "APP-3,Odd,Medium,Waiting,,",
+          "APP-4,Odd,constructor,Done,,",
+          "APP-5,Odd,Medium,toString,,",
+        ].join("\n")
+      );
+
+      const plan = planImport(
+        createInitialState(),
+        unwrap(await readTrackerExport(filePath))
+      );
+
+      expect(plan.rows[0]!.result).toMatchObject({
+        ok: true,
+        value: {
+          priority: 5,
+          status: "completed",
+          deadline: new Date("2025-10-25"),
+          completedAt: new Date("2025-10-26T17:30:00.000Z"),
+        },
+      });
+      expect(plan.rows[1]!.result).toMatchObject({
+        ok: true,
+        value: { priority: 3, status: "in-progress" },
+      });
+      expect(plan.rows[2]!.result).toEqual({
+        ok: false,
+        error: new Error('Unknown status "Waiting"'),
+      });
+      expect(plan.rows[3]!.result).toEqual({
+        ok: false,
+        error: new Error('Unknown priority "constructor"'),
+      });
+      expect(plan.rows[4]!.result).toEqual({
+        ok: false,
+        error: new Error('Unknown status "toString"'),
+      });
+    });
+
+    it("should reject unsupported or missing files", async () => {
+      expect((await readTrackerExport("issues.xml")).ok).toBe(false);
+      expect(
+        (await readTrackerExport(path.join(directory, "missing.json"))).ok
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "@jest/globals";
+import { formatPlan, planWork, standardCapacity } from "../src/planner";
+import { Task, TaskState } from "../src/types";
+import { updateTask } from "../src/task-operations";
+
+// 2025-10-20 is a Monday
+const start = new Date("2025-10-20T09:00:00.000Z");
+
+const task = (
+  title: string,
+  estimate: number | undefined,
+  deadline?: string,
+  priority = 3
+): Task => ({
+  id: title,
+  title,
+  description: "",
+  priority,
+  status: "pending",
+  createdAt: new Date("2025-10-01"),
+  deadline: deadline === undefined ? undefined : new Date(deadline),
+  estimate,
+});
+
+describe("Capacity planner", () => {
+  it("should schedule by deadline and split tasks across days", () => {
+    const state: TaskState = {
+      tasks: [
+        task("Docs", 4, undefined, 5),
+        task("Release", 10, "2025-10-21"),
+        task("Fix", 2, "2025-10-20"),
+        { ...task("Shipped", 3), status: "completed" },
+      ],
+    };
+
+    const plan = planWork(state, { capacity: standardCapacity, start });
+
+    expect(plan.ok).toBe(true);
+    if (!plan.ok) return;
+    expect(formatPlan(plan.value)).toEqual([
+      "2025-10-20: Fix (2h), Release (6h)",
+      "2025-10-21: Release (4h), Docs (4h)",
+    ]);
+    expect(plan.value.missed).toEqual([]);
+    expect(plan.value.finishes.get("Docs")).toEqual(new Date("2025-10-21"));
+  });
+
+  it("should report missed deadlines and by how much", () => {
+    const state: TaskState = {
+      tasks: [
+        task("Big", 24, "2025-10-21"),
+        task("Late already", 1, "2025-10-01"),
+      ],
+    };
+
+    const plan = planWork(state, {
+      capacity: { ...standardCapacity, daysOff: [new Date("2025-10-21")] },
+      start,
+    });
+
+    expect(plan.ok).toBe(true);
+    if (!plan.ok) return;
+    expect(
+      plan.value.missed.map((miss) => [miss.task.title, miss.daysLate])
+    ).toEqual([
+      ["Late already", 19],
+      ["Big", 3],
+    ]);
+    expect(formatPlan(plan.value)).toContain(
+      "Misses deadline: Big, due 2025-10-21, done 2025-10-24 (3 day(s) late)"
+    );
+  });
+
+  it("should use the default estimate and skip weekends", () => {
+    const state: TaskState = { tasks: [task("Unsized", undefined)] };
+
+    const plan = planWork(state, {
+      capacity: standardCapacity,
+      start: new Date("2025-10-25"),
+      defaultEstimate: 2,
+    });
+
+    expect(plan.ok).toBe(true);
+    if (!plan.ok) return;
+    expect(formatPlan(plan.value)).toEqual(["2025-10-27: Unsized (2h)"]);
+  });
+
+  it("should give up on tasks beyond the horizon", () => {
+    const state: TaskState = { tasks: [task("Huge", 100)] };
+
+    const plan = planWork(state, {
+      capacity: standardCapacity,
+      start,
+      horizonDays: 7,
+    });
+
+    expect(plan.ok).toBe(true);
+    if (!plan.ok) return;
+    expect(plan.value.unscheduled.map((t) => t.title)).toEqual(["Huge"]);
+  });
+
+  it("should reject invalid capacity", () => {
+    expect(
+      planWork({ tasks: [] }, { capacity: { hoursPerWeekday: [8] }, start }).ok
+    ).toBe(false);
+  });
+
+  it("should validate and clear estimates", () => {
+    const state: TaskState = { tasks: [task("Task", 3)] };
+
+    expect(updateTask(state, "Task", { estimate: -1 }).ok).toBe(false);
+    const cleared = updateTask(state, "Task", { estimate: null });
+    expect(cleared.ok && cleared.value.tasks[0]!.estimate).toBeUndefined();
+  });
+});
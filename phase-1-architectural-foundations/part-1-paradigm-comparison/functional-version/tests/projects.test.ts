@@ -0,0 +1,144 @@
+import { describe, expect, it } from "@jest/globals";
+import { pipe } from "fp-ts/function";
+import {
+  filterByProject,
+  filterByTag,
+  filterTasksByMinPriority,
+} from "../src/composition";
+import {
+  getProjects,
+  getTags,
+  moveProject,
+  renameProject,
+} from "../src/projects";
+import { runQuery } from "../src/query";
+import { createInitialState } from "../src/state";
+import {
+  addTask,
+  getStatisticsByProject,
+  markCompleted,
+  updateTask,
+} from "../src/task-operations";
+import { TaskState, TaskUpdate } from "../src/types";
+import { unwrap } from "./helpers";
+
+const withTask = (
+  state: TaskState,
+  title: string,
+  priority: number,
+  update: TaskUpdate
+): TaskState => {
+  const added = unwrap(addTask(state, title, "", priority));
+  const result = updateTask(
+    added,
+    added.tasks[added.tasks.length - 1]!.id,
+    update
+  );
+  if (!result.ok) throw result.error;
+  return result.value;
+};
+
+const createState = (): TaskState => {
+  let state = createInitialState();
+  state = withTask(state, "Login form", 4, {
+    project: "backend/auth",
+    tags: ["#Security", "ui"],
+  });
+  state = withTask(state, "Token refresh", 5, {
+    project: " backend / auth / tokens ",
+    tags: ["security"],
+  });
+  state = withTask(state, "Schema", 2, { project: "backend/db" });
+  state = withTask(state, "Landing page", 3, { project: "frontend" });
+  return unwrap(addTask(state, "Unfiled", "", 1));
+};
+
+describe("Tags and projects", () => {
+  it("should normalise tags and project paths", () => {
+    const state = createState();
+
+    expect(state.tasks[0]!.tags).toEqual(["security", "ui"]);
+    expect(state.tasks[1]!.project).toBe("backend/auth/tokens");
+    expect(getProjects(state)).toEqual([
+      "backend",
+      "backend/auth",
+      "backend/auth/tokens",
+      "backend/db",
+      "frontend",
+    ]);
+    expect(getTags(state)).toEqual(["security", "ui"]);
+  });
+
+  it("should reject invalid tags and paths", () => {
+    const state = createState();
+    const taskId = state.tasks[0]!.id;
+
+    expect(updateTask(state, taskId, { tags: ["two words"] }).ok).toBe(false);
+    expect(updateTask(state, taskId, { project: "backend//auth" }).ok).toBe(
+      false
+    );
+    const cleared = updateTask(state, taskId, { project: null });
+    expect(cleared.ok && cleared.value.tasks[0]!.project).toBeUndefined();
+  });
+
+  it("should filter by tag and project with the other combinators", () => {
+    const state = createState();
+
+    expect(
+      pipe(
+        state.tasks,
+        filterByProject("backend"),
+        filterByTag("Security"),
+        filterTasksByMinPriority(5)
+      ).map((task) => task.title)
+    ).toEqual(["Token refresh"]);
+    expect(
+      filterByProject("backend/auth")(state.tasks).map((task) => task.title)
+    ).toEqual(["Login form", "Token refresh"]);
+
+    const result = runQuery(state, "project:backend -tag:ui");
+    expect(result.ok && result.value.map((task) => task.title)).toEqual([
+      "Token refresh",
+      "Schema",
+    ]);
+  });
+
+  it("should roll up statistics to parent projects", () => {
+    let state = createState();
+    state = unwrap(markCompleted(state, state.tasks[1]!.id));
+
+    const stats = getStatisticsByProject(state);
+
+    expect(Object.keys(stats)).toEqual(getProjects(state));
+    expect(stats["backend"]!.total).toBe(3);
+    expect(stats["backend"]!.byStatus["completed"]).toBe(1);
+    expect(stats["backend/auth"]!.total).toBe(2);
+    expect(stats["backend/auth/tokens"]!.total).toBe(1);
+    expect(stats["frontend"]!.total).toBe(1);
+  });
+
+  it("should rename and move projects with their subprojects", () => {
+    const state = createState();
+
+    const renamed = renameProject(state, "backend", "server");
+    expect(renamed.ok).toBe(true);
+    if (!renamed.ok) return;
+    expect(getProjects(renamed.value)).toEqual([
+      "frontend",
+      "server",
+      "server/auth",
+      "server/auth/tokens",
+      "server/db",
+    ]);
+
+    const moved = moveProject(state, "backend/auth", "frontend");
+    expect(moved.ok && moved.value.tasks[1]!.project).toBe(
+      "frontend/auth/tokens"
+    );
+
+    expect(renameProject(state, "backend", "backend/core").ok).toBe(false);
+    expect(renameProject(state, "mobile", "apps").ok).toBe(false);
+    // A project name that only shares a prefix is left alone
+    expect(renameProject(state, "back", "x").ok).toBe(false);
+  });
+});
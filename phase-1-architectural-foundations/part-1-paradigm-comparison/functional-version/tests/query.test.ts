@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import {
+  Query,
+  compileQuery,
+  formatQueryError,
+  parseQuery,
+  printQuery,
+  runQuery,
+} from "../src/query";
+import { createInitialState } from "../src/state";
+import { addTask, markCompleted, markInProgress } from "../src/task-operations";
+import { TaskState } from "../src/types";
+import { unwrap } from "./helpers";
+
+describe("Query language", () => {
+  let state: TaskState;
+
+  beforeEach(() => {
+    state = createInitialState();
+    state = unwrap(
+      addTask(state, "Fix login bug", "Auth", 5, new Date("2025-10-25"))
+    );
+    state = unwrap(
+      addTask(state, "Write API docs", "Docs", 3, new Date("2025-10-30"))
+    );
+    state = unwrap(
+      addTask(state, "Review PR", "Code review", 4, new Date("2025-11-05"))
+    );
+    state = unwrap(addTask(state, "Update deps", "Chore", 2));
+    state = unwrap(
+      addTask(state, "Refactor auth", "Auth", 4, new Date("2025-10-28"))
+    );
+    state = unwrap(markCompleted(state, state.tasks[4]!.id));
+    state = unwrap(markInProgress(state, state.tasks[1]!.id));
+  });
+
+  const titles = (input: string): ReadonlyArray<string> => {
+    const result = runQuery(state, input);
+    if (!result.ok) throw new Error(result.error.message);
+    return result.value.map((task) => task.title);
+  };
+
+  it("should parse a query into a typed AST", () => {
+    const result = parseQuery(
+      "status:pending priority>=4 due<2025-11-01 -status:completed sort:deadline limit:10"
+    );
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toEqual({
+        filters: [
+          { kind: "status", negated: false, status: "pending" },
+          { kind: "priority", negated: false, op: ">=", value: 4 },
+          {
+            kind: "due",
+            negated: false,
+            op: "<",
+            date: new Date("2025-11-01T00:00:00.000Z"),
+          },
+          { kind: "status", negated: true, status: "completed" },
+        ],
+        sort: "deadline",
+        limit: 10,
+      });
+    }
+  });
+
+  it("should filter, sort and limit tasks", () => {
+    expect(titles("priority>=4 -status:completed sort:deadline")).toEqual([
+      "Fix login bug",
+      "Review PR",
+    ]);
+    expect(titles("due<=2025-10-30 sort:priority limit:2")).toEqual([
+      "Fix login bug",
+      "Refactor auth",
+    ]);
+    expect(titles("priority:3")).toEqual(["Write API docs"]);
+    expect(titles("due>2025-10-30")).toEqual(["Review PR"]);
+  });
+
+  it("should search text with bare words and quotes", () => {
+    expect(titles("auth")).toEqual(["Fix login bug", "Refactor auth"]);
+    expect(titles('"code review"')).toEqual(["Review PR"]);
+    expect(titles("-auth -docs")).toEqual(["Review PR", "Update deps"]);
+  });
+
+  it("should report errors with positions", () => {
+    const input = "status:pending priority>=9";
+    const result = parseQuery(input);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.position).toBe(25);
+      expect(formatQueryError(input, result.error)).toContain(
+        `${" ".repeat(25)}^`
+      );
+    }
+  });
+
+  it("should reject unknown fields and malformed values", () => {
+    const unknown = parseQuery("owner:me");
+    expect(!unknown.ok && unknown.error.position).toBe(0);
+
+    expect(parseQuery("due<2025-13-01").ok).toBe(false);
+    expect(parseQuery("sort:title").ok).toBe(false);
+    expect(parseQuery("limit:5 limit:6").ok).toBe(false);
+    expect(parseQuery('"unterminated').ok).toBe(false);
+  });
+
+  it("should round-trip through the printer", () => {
+    const inputs = [
+      "status:pending priority>=4 due<2025-11-01 -status:completed sort:deadline limit:10",
+      'priority:3 -"code review" due:2025-10-25',
+      "assignee:alice -assignee:none",
+      "",
+    ];
+
+    inputs.forEach((input) => {
+      const parsed = parseQuery(input);
+      if (!parsed.ok) throw new Error(parsed.error.message);
+
+      const printed = printQuery(parsed.value);
+      const reparsed = parseQuery(printed);
+
+      expect(printed).toBe(input);
+      expect(reparsed.ok && reparsed.value).toEqual(parsed.value);
+    });
+  });
+
+  it("should round-trip values with spaces, quotes and backslashes", () => {
+    const filters: Query["filters"] = [
+      { kind: "status", negated: false, status: "in review" },
+      { kind: "tag", negated: true, tag: 'say "hi"' },
+      { kind: "project", negated: false, project: "C:\\work dir" },
+      { kind: "assignee", negated: false, assignee: "Ann Lee" },
+      { kind: "assignee", negated: false, assignee: "none" },
+      { kind: "text", negated: false, text: 'a "quoted" word' },
+    ];
+
+    const printed = printQuery({ filters });
+    const reparsed = parseQuery(printed);
+
+    expect(printed).toBe(
+      'status:"in review" -tag:"say \\"hi\\"" project:"C:\\\\work dir" ' +
+        'assignee:"Ann Lee" assignee:"none" "a \\"quoted\\" word"'
+    );
+    expect(reparsed.ok && reparsed.value).toEqual({ filters });
+  });
+
+  it("should compile into a reusable pipeline", () => {
+    const parsed = parseQuery("priority>3");
+    if (!parsed.ok) throw new Error(parsed.error.message);
+
+    const pipeline = compileQuery(parsed.value);
+
+    expect(pipeline(state.tasks).length).toBe(3);
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, expect, it } from "@jest/globals";
+import { nextOccurrenceDate } from "../src/recurrence";
+import { getTaskReminders, setReminders } from "../src/reminders";
+import {
+  getSeriesTasks,
+  setRecurrence,
+  stopSeries,
+  updateSeries,
+} from "../src/series";
+import { createInitialState } from "../src/state";
+import {
+  addTask,
+  markCompleted,
+  markMultipleCompleted,
+  updateTask,
+} from "../src/task-operations";
+import { RecurrenceRule, TaskState } from "../src/types";
+import { unwrap } from "./helpers";
+
+const recurring = (rule: RecurrenceRule, deadline?: Date): TaskState => {
+  const state = unwrap(
+    addTask(
+      createInitialState(),
+      "Update dependencies",
+      "Weekly chore",
+      2,
+      deadline
+    )
+  );
+  const result = setRecurrence(state, state.tasks[0]!.id, rule);
+  if (!result.ok) throw result.error;
+  return result.value;
+};
+
+describe("Recurring tasks", () => {
+  describe("Next occurrence dates", () => {
+    // 2025-10-01 is a Wednesday
+    const from = new Date("2025-10-01T09:00:00.000Z");
+
+    it("should repeat daily and every N days", () => {
+      expect(
+        nextOccurrenceDate({ frequency: { kind: "daily" } }, from)
+      ).toEqual(new Date("2025-10-02T09:00:00.000Z"));
+      expect(
+        nextOccurrenceDate({ frequency: { kind: "interval", days: 3 } }, from)
+      ).toEqual(new Date("2025-10-04T09:00:00.000Z"));
+    });
+
+    it("should repeat weekly on the given weekdays", () => {
+      const rule: RecurrenceRule = {
+        frequency: { kind: "weekly", weekdays: [1, 5] },
+      };
+
+      expect(nextOccurrenceDate(rule, from)).toEqual(
+        new Date("2025-10-03T09:00:00.000Z")
+      );
+    });
+
+    it("should repeat monthly and clamp to the end of the month", () => {
+      expect(
+        nextOccurrenceDate(
+          { frequency: { kind: "monthly", dayOfMonth: 15 } },
+          from
+        )
+      ).toEqual(new Date("2025-10-15T09:00:00.000Z"));
+      expect(
+        nextOccurrenceDate(
+          { frequency: { kind: "monthly", dayOfMonth: 31 } },
+          new Date("2025-10-31T09:00:00.000Z")
+        )
+      ).toEqual(new Date("2025-11-30T09:00:00.000Z"));
+    });
+  });
+
+  it("should create the next occurrence when completed", () => {
+    const state = recurring(
+      { frequency: { kind: "weekly", weekdays: [3] } },
+      new Date("2025-10-01T00:00:00.000Z")
+    );
+    const first = state.tasks[0]!;
+
+    const completed = unwrap(markCompleted(state, first.id));
+
+    expect(completed.tasks.length).toBe(2);
+    const next = completed.tasks[1]!;
+    expect(next.status).toBe("pending");
+    expect(next.deadline).toEqual(new Date("2025-10-08T00:00:00.000Z"));
+    expect(next.seriesId).toBe(first.id);
+    expect(next.occurrence).toBe(2);
+  });
+
+  it("should keep the tags and project in the next occurrence", () => {
+    const state = recurring({ frequency: { kind: "daily" } });
+    const tagged = unwrap(
+      updateTask(state, state.tasks[0]!.id, {
+        tags: ["chore"],
+        project: "Maintenance",
+      })
+    );
+
+    const next = unwrap(markCompleted(tagged, tagged.tasks[0]!.id)).tasks[1]!;
+
+    expect(next.tags).toEqual(["chore"]);
+    expect(next.project).toBe("Maintenance");
+  });
+
+  it("should keep the assignees and remind before the next deadline", () => {
+    const state = recurring(
+      { frequency: { kind: "daily" } },
+      new Date("2025-10-01T09:00:00.000Z")
+    );
+    const taskId = state.tasks[0]!.id;
+    const assigned = unwrap(
+      setReminders(
+        unwrap(updateTask(state, taskId, { assignees: ["alice"] })),
+        taskId,
+        [{ kind: "before", minutes: 60 }]
+      )
+    );
+
+    const next = unwrap(markCompleted(assigned, taskId)).tasks[1]!;
+
+    expect(next.assignees).toEqual(["alice"]);
+    expect(getTaskReminders(next).map((reminder) => reminder.at)).toEqual([
+      new Date("2025-10-02T08:00:00.000Z"),
+    ]);
+  });
+
+  it("should create next occurrences for batch completion", () => {
+    const state = recurring({ frequency: { kind: "daily" } });
+
+    const completed = unwrap(
+      markMultipleCompleted(state, [state.tasks[0]!.id])
+    );
+
+    expect(completed.tasks.length).toBe(2);
+  });
+
+  it("should stop after the occurrence count or end date", () => {
+    let state = recurring(
+      { frequency: { kind: "daily" }, count: 2 },
+      new Date("2025-10-01")
+    );
+    state = unwrap(markCompleted(state, state.tasks[0]!.id));
+    state = unwrap(markCompleted(state, state.tasks[1]!.id));
+
+    expect(state.tasks.length).toBe(2);
+
+    let bounded = recurring(
+      { frequency: { kind: "daily" }, until: new Date("2025-10-01") },
+      new Date("2025-10-01")
+    );
+    bounded = unwrap(markCompleted(bounded, bounded.tasks[0]!.id));
+
+    expect(bounded.tasks.length).toBe(1);
+  });
+
+  it("should not spawn again when completing a completed task", () => {
+    let state = recurring({ frequency: { kind: "daily" } });
+    state = unwrap(markCompleted(state, state.tasks[0]!.id));
+    state = unwrap(markCompleted(state, state.tasks[0]!.id));
+
+    expect(state.tasks.length).toBe(2);
+  });
+
+  it("should reject invalid rules", () => {
+    const state = unwrap(addTask(createInitialState(), "Task", "Desc", 3));
+    const taskId = state.tasks[0]!.id;
+
+    expect(
+      setRecurrence(state, taskId, {
+        frequency: { kind: "weekly", weekdays: [] },
+      }).ok
+    ).toBe(false);
+    expect(
+      setRecurrence(state, taskId, {
+        frequency: { kind: "monthly", dayOfMonth: 32 },
+      }).ok
+    ).toBe(false);
+  });
+
+  it("should edit and stop the series", () => {
+    let state = recurring({ frequency: { kind: "daily" } });
+    const seriesId = state.tasks[0]!.id;
+    state = unwrap(markCompleted(state, seriesId));
+
+    const updated = updateSeries(state, seriesId, { priority: 4 });
+    expect(updated.ok).toBe(true);
+    if (!updated.ok) return;
+
+    const [done, open] = getSeriesTasks(updated.value, seriesId);
+    expect(done!.priority).toBe(2);
+    expect(open!.priority).toBe(4);
+
+    const stopped = unwrap(stopSeries(updated.value, seriesId));
+    const finished = unwrap(markCompleted(stopped, open!.id));
+    expect(finished.tasks.length).toBe(2);
+  });
+});
@@ -0,0 +1,321 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { promises as fs } from "fs";
+import { IncomingMessage, Server, createServer } from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { createTestEnv } from "../src/environment";
+import {
+  createConsoleSink,
+  createFileSink,
+  createWebhookSink,
+} from "../src/reminder-sinks";
+import {
+  Reminder,
+  ReminderSink,
+  createFileReminderLogStore,
+  createReminderLog,
+  formatReminderRule,
+  getDueReminders,
+  parseReminderRule,
+  runReminders,
+  setReminders,
+  snoozeTaskReminders,
+} from "../src/reminders";
+import { createInitialState } from "../src/state";
+import { addTask, markCompleted } from "../src/task-operations";
+import { Result, TaskState } from "../src/types";
+import { unwrap } from "./helpers";
+
+const HOUR_MS = 60 * 60 * 1000;
+const deadline = new Date("2025-05-10T12:00:00Z");
+const at = (hoursFromDeadline: number): Date =>
+  new Date(deadline.getTime() + hoursFromDeadline * HOUR_MS);
+
+/**
+ * A sink remembering what it received, failing while `failing` is set.
+ */
+const createMemorySink = (name = "memory") => {
+  const received: Reminder[] = [];
+  let failing = false;
+  const sink: ReminderSink = {
+    name,
+    deliver: async (reminder): Promise<Result<void>> => {
+      if (failing) return { ok: false, error: new Error("Sink is down") };
+      received.push(reminder);
+      return { ok: true, value: undefined };
+    },
+  };
+  return {
+    sink,
+    received,
+    fail: (value: boolean) => {
+      failing = value;
+    },
+  };
+};
+
+describe("Reminders", () => {
+  let state: TaskState;
+  let taskId: string;
+
+  beforeEach(() => {
+    const env = createTestEnv(at(-72));
+    state = unwrap(addTask(createInitialState(), "Ship", "", 4, deadline, env));
+    state = unwrap(addTask(state, "No deadline", "", 2, undefined, env));
+    taskId = state.tasks[0]!.id;
+  });
+
+  it("should parse and format rules", () => {
+    expect(unwrap(parseReminderRule("2h"))).toEqual({
+      kind: "before",
+      minutes: 120,
+    });
+    expect(unwrap(parseReminderRule("overdue"))).toEqual({ kind: "overdue" });
+    expect(parseReminderRule("0d").ok).toBe(false);
+    expect(parseReminderRule("soon").ok).toBe(false);
+    expect(formatReminderRule({ kind: "before", minutes: 1440 })).toBe("1d");
+    expect(formatReminderRule({ kind: "before", minutes: 90 })).toBe("90m");
+  });
+
+  it("should compute the default reminders due in a window", () => {
+    const log = createReminderLog();
+    const rules = (from: Date, to: Date) =>
+      getDueReminders(state, log, from, to).map((reminder) =>
+        formatReminderRule(reminder.rule)
+      );
+
+    expect(rules(at(-48), at(-2))).toEqual(["1d"]);
+    expect(rules(at(-2), at(-0.5))).toEqual(["1h"]);
+    expect(rules(at(-0.5), at(1))).toEqual(["overdue"]);
+    // Once the deadline has passed, only the overdue reminder is left
+    expect(rules(at(-48), at(1))).toEqual(["overdue"]);
+  });
+
+  it("should use the rules of a task instead of the defaults", () => {
+    state = unwrap(
+      setReminders(state, taskId, [{ kind: "before", minutes: 30 }])
+    );
+    const due = getDueReminders(state, createReminderLog(), at(-48), at(-0.1));
+
+    expect(due.map((reminder) => reminder.at)).toEqual([at(-0.5)]);
+    expect(
+      setReminders(state, taskId, [{ kind: "before", minutes: -5 }]).ok
+    ).toBe(false);
+    expect(setReminders(state, "missing", null).ok).toBe(false);
+  });
+
+  it("should not remind of done tasks", () => {
+    state = unwrap(
+      markCompleted(state, taskId, undefined, {}, createTestEnv(at(-30)))
+    );
+
+    expect(getDueReminders(state, createReminderLog(), at(-48), at(1))).toEqual(
+      []
+    );
+  });
+
+  it("should deliver each reminder once per sink", async () => {
+    const memory = createMemorySink();
+    const first = await runReminders(
+      state,
+      createReminderLog(),
+      [memory.sink],
+      at(-20)
+    );
+    const second = await runReminders(state, first.log, [memory.sink], at(-10));
+
+    expect(first.delivered.map((reminder) => reminder.rule)).toEqual([
+      { kind: "before", minutes: 1440 },
+    ]);
+    expect(second.delivered).toEqual([]);
+    expect(memory.received).toHaveLength(1);
+  });
+
+  it("should retry the sinks that failed on the next run", async () => {
+    const healthy = createMemorySink("healthy");
+    const flaky = createMemorySink("flaky");
+    flaky.fail(true);
+
+    const first = await runReminders(
+      state,
+      createReminderLog(),
+      [healthy.sink, flaky.sink],
+      at(-20)
+    );
+    expect(first.failures.map((failure) => failure.sink)).toEqual(["flaky"]);
+
+    flaky.fail(false);
+    const second = await runReminders(
+      state,
+      first.log,
+      [healthy.sink, flaky.sink],
+      at(-19)
+    );
+
+    expect(second.delivered).toHaveLength(1);
+    expect(healthy.received).toHaveLength(1);
+    expect(flaky.received).toHaveLength(1);
+  });
+
+  it("should deliver a snoozed reminder again when the snooze ends", async () => {
+    const memory = createMemorySink();
+    const first = await runReminders(
+      state,
+      createReminderLog(),
+      [memory.sink],
+      at(-0.5)
+    );
+    expect(memory.received.map((reminder) => reminder.rule)).toEqual([
+      { kind: "before", minutes: 60 },
+    ]);
+
+    const snoozed = unwrap(
+      snoozeTaskReminders(state, first.log, taskId, at(-0.25))
+    );
+    const early = await runReminders(state, snoozed, [memory.sink], at(-0.3));
+    const late = await runReminders(state, early.log, [memory.sink], at(-0.1));
+
+    expect(early.delivered).toEqual([]);
+    expect(late.delivered.map((reminder) => reminder.at)).toEqual([at(-0.25)]);
+    expect(memory.received).toHaveLength(2);
+    expect(
+      snoozeTaskReminders(state, snoozed, state.tasks[1]!.id, at(0)).ok
+    ).toBe(false);
+  });
+
+  describe("Sinks", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), "reminders-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it("should print to the console and append to a file", async () => {
+      const lines: string[] = [];
+      const filePath = path.join(directory, "reminders.jsonl");
+      await runReminders(
+        state,
+        createReminderLog(),
+        [
+          createConsoleSink((line) => lines.push(line)),
+          createFileSink(filePath),
+        ],
+        at(1)
+      );
+
+      expect(lines).toEqual([
+        'Reminder: "Ship" is overdue since 2025-05-10T12:00:00.000Z',
+      ]);
+      const written = JSON.parse(await fs.readFile(filePath, "utf8"));
+      expect(written).toMatchObject({ rule: "overdue", task: { id: taskId } });
+    });
+
+    it("should keep the log in a file", async () => {
+      const store = createFileReminderLogStore(
+        path.join(directory, "log.json")
+      );
+      expect(unwrap(await store.load())).toEqual(createReminderLog());
+
+      const run = await runReminders(
+        state,
+        createReminderLog(),
+        [createMemorySink().sink],
+        at(-20)
+      );
+      const log = unwrap(snoozeTaskReminders(state, run.log, taskId, at(-3)));
+      unwrap(await store.save(log));
+
+      expect(unwrap(await store.load())).toEqual(log);
+    });
+  });
+
+  describe("Webhook sink", () => {
+    let server: Server;
+    let url: string;
+    let statuses: number[];
+    let bodies: unknown[];
+    let hanging: boolean;
+
+    const readBody = async (request: IncomingMessage): Promise<unknown> => {
+      let body = "";
+      for await (const chunk of request) body += chunk;
+      return JSON.parse(body);
+    };
+
+    beforeEach(async () => {
+      statuses = [];
+      bodies = [];
+      hanging = false;
+      server = createServer(async (request, response) => {
+        bodies.push(await readBody(request));
+        if (!hanging) response.writeHead(statuses.shift() ?? 200).end();
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      url = `http://localhost:${(server.address() as AddressInfo).port}/hooks`;
+    });
+
+    afterEach(async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("should post reminders and retry server errors", async () => {
+      statuses = [503, 500];
+      const run = await runReminders(
+        state,
+        createReminderLog(),
+        [createWebhookSink(url, { retryDelayMs: 1 })],
+        at(1)
+      );
+
+      expect(run.failures).toEqual([]);
+      expect(bodies).toHaveLength(3);
+      expect(bodies[2]).toMatchObject({
+        rule: "overdue",
+        task: { id: taskId, title: "Ship" },
+      });
+    });
+
+    it("should give up after the retries or on client errors", async () => {
+      statuses = [503, 503, 503];
+      const exhausted = await createWebhookSink(url, {
+        retries: 2,
+        retryDelayMs: 1,
+      }).deliver(getDueReminders(state, createReminderLog(), at(0), at(1))[0]!);
+
+      expect(exhausted.ok).toBe(false);
+      expect(bodies).toHaveLength(3);
+
+      statuses = [400];
+      const rejected = await createWebhookSink(url, {
+        retryDelayMs: 1,
+      }).deliver(getDueReminders(state, createReminderLog(), at(0), at(1))[0]!);
+
+      expect(rejected).toEqual({
+        ok: false,
+        error: new Error(`Webhook ${url} answered 400`),
+      });
+      expect(bodies).toHaveLength(4);
+    });
+
+    it("should give up on endpoints that do not answer in time", async () => {
+      hanging = true;
+      const result = await createWebhookSink(url, {
+        retries: 1,
+        retryDelayMs: 1,
+        timeoutMs: 50,
+      }).deliver(getDueReminders(state, createReminderLog(), at(0), at(1))[0]!);
+
+      expect(result).toEqual({
+        ok: false,
+        error: new Error(`Webhook ${url} did not answer within 50 ms`),
+      });
+      expect(bodies).toHaveLength(2);
+    });
+  });
+});
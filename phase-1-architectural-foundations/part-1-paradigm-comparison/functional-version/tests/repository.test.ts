@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  CURRENT_SCHEMA_VERSION,
+  createInMemoryRepository,
+  createJsonFileRepository,
+  deserializeState,
+  serializeState,
+} from "../src/repository";
+import { createInitialState } from "../src/state";
+import { addTask, markCompleted } from "../src/task-operations";
+import { TaskState } from "../src/types";
+import { unwrap } from "./helpers";
+
+describe("Task repository", () => {
+  let state: TaskState;
+
+  beforeEach(() => {
+    state = unwrap(
+      addTask(
+        createInitialState(),
+        "Task 1",
+        "Desc 1",
+        5,
+        new Date("2025-10-25T00:00:00.000Z")
+      )
+    );
+    state = unwrap(addTask(state, "Task 2", "Desc 2", 3));
+    state = unwrap(markCompleted(state, state.tasks[0]!.id));
+  });
+
+  describe("Serialization", () => {
+    it("should stamp the current schema version", () => {
+      const document = serializeState(state);
+
+      expect(document.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
+    it("should revive dates when deserializing", () => {
+      const raw = JSON.parse(JSON.stringify(serializeState(state)));
+      const result = deserializeState(raw);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        const [first] = result.value.tasks;
+        expect(first!.createdAt).toBeInstanceOf(Date);
+        expect(first!.deadline).toEqual(state.tasks[0]!.deadline);
+        expect(first!.completedAt).toBeInstanceOf(Date);
+      }
+    });
+
+    it("should migrate unversioned documents", () => {
+      const raw = {
+        tasks: [
+          {
+            id: "1",
+            title: "Legacy",
+            priority: 3,
+            status: "pending",
+            createdAt: "2025-01-01T00:00:00.000Z",
+          },
+        ],
+      };
+
+      const result = deserializeState(raw);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.tasks[0]!.description).toBe("");
+      }
+    });
+
+    it("should reject documents from a newer schema", () => {
+      const result = deserializeState({
+        schemaVersion: CURRENT_SCHEMA_VERSION + 1,
+        tasks: [],
+      });
+
+      expect(result.ok).toBe(false);
+    });
+
+    it("should reject malformed dates", () => {
+      const task = serializeState(state).tasks[1]!;
+      const result = deserializeState({
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        tasks: [{ ...task, createdAt: "not a date" }],
+      });
+
+      expect(result.ok).toBe(false);
+    });
+
+    it("should reject tasks breaking the rules of new tasks", () => {
+      const [first, second] = serializeState(state).tasks;
+
+      [
+        { ...second, id: undefined },
+        { ...second, id: 7 },
+        { ...second, title: " " },
+        { ...second, priority: 9 },
+        { ...second, priority: "3" },
+        { ...second, status: "someday" },
+      ].forEach((record) => {
+        const result = deserializeState({
+          schemaVersion: CURRENT_SCHEMA_VERSION,
+          tasks: [first, record],
+        });
+        expect(!result.ok && result.error.message).toMatch(
+          /^Task at index 1: /
+        );
+      });
+    });
+
+    it("should reject malformed nested fields without throwing", () => {
+      const task = serializeState(state).tasks[1]!;
+
+      [
+        { ...task, sessions: "8h" },
+        { ...task, statusHistory: [null] },
+        { ...task, auditTrail: [{ field: "title" }] },
+        { ...task, recurrence: "daily" },
+      ].forEach((record) =>
+        expect(
+          deserializeState({
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            tasks: [record],
+          }).ok
+        ).toBe(false)
+      );
+    });
+  });
+
+  describe("In-memory repository", () => {
+    it("should return the last saved state", async () => {
+      const repository = createInMemoryRepository();
+
+      await repository.save(state);
+      const result = await repository.load();
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toBe(state);
+      }
+    });
+  });
+
+  describe("JSON file repository", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), "tasks-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it("should load an empty state when the file does not exist", async () => {
+      const repository = createJsonFileRepository(
+        path.join(directory, "missing.json")
+      );
+
+      const result = await repository.load();
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.tasks.length).toBe(0);
+      }
+    });
+
+    it("should round-trip the state through the file", async () => {
+      const repository = createJsonFileRepository(
+        path.join(directory, "tasks.json")
+      );
+
+      await repository.save(state);
+      const result = await repository.load();
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toEqual(state);
+      }
+    });
+
+    it("should not leave temporary files behind", async () => {
+      const repository = createJsonFileRepository(
+        path.join(directory, "tasks.json")
+      );
+
+      await repository.save(state);
+      await repository.save(state);
+
+      expect(await fs.readdir(directory)).toEqual(["tasks.json"]);
+    });
+
+    it("should clean up when the write fails", async () => {
+      const filePath = path.join(directory, "tasks.json");
+      await fs.mkdir(filePath);
+
+      const result = await createJsonFileRepository(filePath).save(state);
+
+      expect(result.ok).toBe(false);
+      expect(await fs.readdir(directory)).toEqual(["tasks.json"]);
+    });
+
+    it("should return an error for corrupt files", async () => {
+      const filePath = path.join(directory, "tasks.json");
+      await fs.writeFile(filePath, "{ not json", "utf8");
+
+      const result = await createJsonFileRepository(filePath).load();
+
+      expect(result.ok).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { isBlocked } from "../src/dependencies";
+import { createTestEnv } from "../src/environment";
+import { parseQuery, printQuery, runQuery } from "../src/query";
+import {
+  applyRetention,
+  archiveTask,
+  autoArchive,
+  getTrash,
+  purgeTrash,
+  restoreTask,
+  trashTask,
+  unarchiveTask,
+} from "../src/retention";
+import { createInitialState } from "../src/state";
+import {
+  addTask,
+  getAllTasks,
+  getNextTask,
+  getStatistics,
+  markCompleted,
+  updateTask,
+} from "../src/task-operations";
+import { TaskState } from "../src/types";
+import { unwrap } from "./helpers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const start = new Date("2025-05-01T00:00:00Z");
+const env = createTestEnv(start);
+
+/**
+ * Test environment some days after the start.
+ */
+const later = (days: number) =>
+  createTestEnv(new Date(start.getTime() + days * DAY_MS), "later-");
+
+describe("Archive, trash and retention", () => {
+  let state: TaskState;
+  let done: string;
+  let parent: string;
+  let child: string;
+
+  beforeEach(() => {
+    state = createInitialState();
+    ["Done", "Parent", "Child"].forEach((title, index) => {
+      state = unwrap(addTask(state, title, "", index + 1, undefined, env));
+    });
+    [done, parent, child] = state.tasks.map((task) => task.id) as [
+      string,
+      string,
+      string
+    ];
+    state = unwrap(updateTask(state, child, { parentId: parent }, env));
+    state = unwrap(markCompleted(state, done, undefined, {}, env));
+  });
+
+  const titles = (tasks: ReadonlyArray<{ title: string }>) =>
+    tasks.map((task) => task.title);
+
+  it("should archive done tasks only and hide them by default", () => {
+    expect(archiveTask(state, parent).ok).toBe(false);
+
+    const archived = unwrap(archiveTask(state, done, undefined, later(1)));
+    expect(titles(getAllTasks(archived))).toEqual(["Parent", "Child"]);
+    expect(getAllTasks(archived, { archived: true })).toHaveLength(3);
+    expect(getStatistics(archived).total).toBe(2);
+    expect(
+      getStatistics(archived, undefined, undefined, { archived: true })
+        .byStatus["completed"]
+    ).toBe(1);
+    expect(unwrap(archiveTask(archived, done))).toBe(archived);
+
+    const back = unwrap(unarchiveTask(archived, done));
+    expect(getAllTasks(back)).toHaveLength(3);
+    expect(
+      back.tasks[0]!.auditTrail!.map((change) => change.field).slice(-2)
+    ).toEqual(["archivedAt", "archivedAt"]);
+  });
+
+  it("should archive tasks done long enough ago", () => {
+    expect(autoArchive(state, 7, undefined, later(6))).toBe(state);
+
+    const archived = autoArchive(state, 7, undefined, later(7));
+    expect(archived.tasks[0]!.archivedAt).toEqual(later(7).clock());
+    expect(archived.tasks.filter((task) => task.archivedAt)).toHaveLength(1);
+  });
+
+  it("should trash tasks with their subtasks and restore them", () => {
+    expect(trashTask(state, parent, "reject").ok).toBe(false);
+
+    const trashed = unwrap(trashTask(state, parent, "cascade", later(1)));
+    expect(titles(getAllTasks(trashed))).toEqual(["Done"]);
+    expect(titles(getTrash(trashed))).toEqual(["Parent", "Child"]);
+    expect(getNextTask(trashed)).toBeNull();
+
+    const restored = unwrap(restoreTask(trashed, parent, later(2)));
+    expect(getAllTasks(restored)).toHaveLength(3);
+    expect(restored.tasks[2]!.parentId).toBe(parent);
+    expect(restoreTask(restored, parent).ok).toBe(false);
+
+    const nested = unwrap(
+      trashTask(
+        unwrap(trashTask(state, child, "reject", later(1))),
+        parent,
+        "reject",
+        later(2)
+      )
+    );
+    const withParent = unwrap(restoreTask(nested, child, later(3)));
+    expect(titles(getAllTasks(withParent))).toEqual([
+      "Done",
+      "Parent",
+      "Child",
+    ]);
+    expect(getTrash(withParent)).toEqual([]);
+
+    const orphaned = unwrap(trashTask(state, parent));
+    expect(titles(getAllTasks(orphaned))).toEqual(["Done", "Child"]);
+    expect(orphaned.tasks[2]!.parentId).toBeUndefined();
+  });
+
+  it("should stop trashed tasks from blocking others", () => {
+    const blocked = unwrap(updateTask(state, child, { dependsOn: [parent] }));
+    expect(isBlocked(blocked, blocked.tasks[2]!)).toBe(true);
+
+    const trashed = unwrap(trashTask(blocked, parent, "orphan"));
+    expect(isBlocked(trashed, trashed.tasks[2]!)).toBe(false);
+  });
+
+  it("should purge the trash after the retention period", () => {
+    const trashed = unwrap(trashTask(state, child, "reject", later(1)));
+
+    expect(purgeTrash(trashed, 30, later(30))).toBe(trashed);
+    expect(titles(purgeTrash(trashed, 30, later(31)).tasks)).toEqual([
+      "Done",
+      "Parent",
+    ]);
+    expect(purgeTrash(trashed, 0, later(1)).tasks).toHaveLength(2);
+
+    const retained = applyRetention(
+      trashed,
+      { archiveAfterDays: 30, purgeAfterDays: 30 },
+      undefined,
+      later(31)
+    );
+    expect(titles(getAllTasks(retained))).toEqual(["Parent"]);
+    expect(retained.tasks).toHaveLength(2);
+    expect(applyRetention(trashed, undefined, undefined, later(2))).toBe(
+      trashed
+    );
+  });
+
+  it("should show hidden tasks when a query asks for them", () => {
+    const hidden = unwrap(
+      trashTask(unwrap(archiveTask(state, done)), child, "reject")
+    );
+
+    expect(titles(unwrap(runQuery(hidden, "")))).toEqual(["Parent"]);
+    expect(titles(unwrap(runQuery(hidden, "is:archived")))).toEqual(["Done"]);
+    expect(titles(unwrap(runQuery(hidden, "is:trashed")))).toEqual(["Child"]);
+    expect(
+      titles(unwrap(runQuery(hidden, "-is:trashed", { trashed: true })))
+    ).toEqual(["Parent"]);
+    expect(printQuery(unwrap(parseQuery("is:archived -is:trashed")))).toBe(
+      "is:archived -is:trashed"
+    );
+    expect(parseQuery("is:deleted").ok).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  getNextTasksByDeadline,
+  getTopPriorityTasks,
+} from "../src/composition";
+import { createTestEnv } from "../src/environment";
+import {
+  earliestDeadlineFirstStrategy,
+  formatBreakdown,
+  priorityStrategy,
+  rankReadyTasks,
+  rankTasks,
+  weightedScoreStrategy,
+  weightedShortestJobFirstStrategy,
+} from "../src/scheduling";
+import { Task } from "../src/types";
+
+const now = new Date("2025-10-20T00:00:00.000Z");
+const env = createTestEnv(now);
+
+const task = (
+  title: string,
+  priority: number,
+  deadline?: string,
+  createdAt = "2025-10-19T00:00:00.000Z"
+): Task => ({
+  id: title,
+  title,
+  description: "",
+  priority,
+  status: "pending",
+  createdAt: new Date(createdAt),
+  deadline: deadline === undefined ? undefined : new Date(deadline),
+});
+
+const titles = (ranked: ReadonlyArray<{ task: Task }>) =>
+  ranked.map((r) => r.task.title);
+
+describe("Scheduling strategies", () => {
+  const tasks = [
+    task("Important, no deadline", 5),
+    task("Due tomorrow", 3, "2025-10-21"),
+    task("Overdue", 2, "2025-10-15"),
+    task("Old", 3, undefined, "2025-08-01T00:00:00.000Z"),
+  ];
+
+  it("should rank by priority like sortByPriority", () => {
+    expect(titles(rankTasks(tasks, priorityStrategy, undefined, env))).toEqual([
+      "Important, no deadline",
+      "Due tomorrow",
+      "Old",
+      "Overdue",
+    ]);
+  });
+
+  it("should weigh priority, deadline, age and overdue status", () => {
+    const ranked = rankTasks(tasks, weightedScoreStrategy(), undefined, env);
+
+    expect(titles(ranked)).toEqual([
+      "Overdue",
+      "Due tomorrow",
+      "Important, no deadline",
+      "Old",
+    ]);
+    expect(ranked[0]!.breakdown.map((part) => part.factor)).toEqual([
+      "priority",
+      "deadline",
+      "age",
+      "overdue",
+    ]);
+    expect(ranked[0]!.score).toBeCloseTo(
+      ranked[0]!.breakdown.reduce((sum, part) => sum + part.contribution, 0),
+      2
+    );
+    expect(ranked[0]!.breakdown[1]!.note).toBe("overdue by 5 day(s)");
+  });
+
+  it("should let weights change the ranking", () => {
+    const ranked = rankTasks(
+      tasks,
+      weightedScoreStrategy({ priority: 1, deadline: 0, age: 0, overdue: 0 }),
+      undefined,
+      env
+    );
+
+    expect(ranked[0]!.task.title).toBe("Important, no deadline");
+  });
+
+  it("should rank by earliest deadline with undated tasks last", () => {
+    expect(
+      titles(rankTasks(tasks, earliestDeadlineFirstStrategy, undefined, env))
+    ).toEqual(["Overdue", "Due tomorrow", "Important, no deadline", "Old"]);
+  });
+
+  it("should divide cost of delay by job size", () => {
+    const sizes: Record<string, number> = {
+      "Important, no deadline": 8,
+      "Due tomorrow": 5,
+      Overdue: 1,
+      Old: 1,
+    };
+    const ranked = rankTasks(
+      tasks,
+      weightedShortestJobFirstStrategy((t) => sizes[t.title] ?? 1),
+      undefined,
+      env
+    );
+
+    expect(titles(ranked)).toEqual([
+      "Overdue",
+      "Old",
+      "Due tomorrow",
+      "Important, no deadline",
+    ]);
+    expect(ranked[0]!.score).toBe(7);
+  });
+
+  it("should explain a ranked task", () => {
+    const [ranked] = rankTasks(
+      [tasks[1]!],
+      weightedScoreStrategy(),
+      undefined,
+      env
+    );
+
+    expect(formatBreakdown(ranked!)).toEqual([
+      "Score 0.482",
+      "  priority: 0.5 x 0.4 = 0.2 (priority 3)",
+      "  deadline: 0.929 x 0.3 = 0.279 (due in 1 day(s))",
+      "  age: 0.033 x 0.1 = 0.003 (created 1 day(s) ago)",
+      "  overdue: 0 x 0.2 = 0 (not overdue)",
+    ]);
+  });
+
+  it("should rank only ready tasks", () => {
+    const state = {
+      tasks: [
+        ...tasks,
+        { ...task("Done", 5), status: "completed" as const },
+        { ...task("Blocked", 5), dependsOn: ["Overdue"] },
+      ],
+    };
+
+    expect(
+      titles(rankReadyTasks(state, weightedScoreStrategy(), undefined, env))
+    ).not.toContain("Blocked");
+    expect(getTopPriorityTasks(state, 2).map((t) => t.title)).toEqual([
+      "Important, no deadline",
+      "Due tomorrow",
+    ]);
+    expect(
+      getTopPriorityTasks(state, 1, earliestDeadlineFirstStrategy).map(
+        (t) => t.title
+      )
+    ).toEqual(["Overdue"]);
+    expect(getNextTasksByDeadline(state, 4).map((t) => t.title)).toEqual([
+      "Overdue",
+      "Due tomorrow",
+      "Important, no deadline",
+      "Old",
+    ]);
+  });
+});
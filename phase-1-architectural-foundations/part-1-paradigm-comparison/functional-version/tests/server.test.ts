@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { createInMemoryRepository } from "../src/repository";
+import { createTaskServer } from "../src/server";
+
+describe("HTTP API", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = createTaskServer(createInMemoryRepository());
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const request = (
+    method: string,
+    path: string,
+    body?: unknown,
+    headers: Record<string, string> = {}
+  ) =>
+    fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const remove = (path: string) =>
+    request("DELETE", path, undefined, { "If-Match": "*" });
+
+  const createTask = async (body: unknown) => {
+    const response = await request("POST", "/tasks", body);
+    return (await response.json()) as { id: string };
+  };
+
+  it("should create, read and list tasks", async () => {
+    const created = await request("POST", "/tasks", {
+      title: "Fix login bug",
+      priority: 5,
+      deadline: "2025-10-25",
+    });
+    const task = (await created.json()) as { id: string; deadline: string };
+
+    expect(created.status).toBe(201);
+    expect(created.headers.get("location")).toBe(`/tasks/${task.id}`);
+    expect(task.deadline).toBe("2025-10-25T00:00:00.000Z");
+
+    const read = await request("GET", `/tasks/${task.id}`);
+    expect(read.status).toBe(200);
+    expect(read.headers.get("etag")).toBe(created.headers.get("etag"));
+
+    const listed = await request("GET", "/tasks?q=priority>=4");
+    expect(((await listed.json()) as unknown[]).length).toBe(1);
+  });
+
+  it("should answer problem responses for invalid input", async () => {
+    const missing = await request("GET", "/tasks/unknown");
+    expect(missing.status).toBe(404);
+    expect(missing.headers.get("content-type")).toBe(
+      "application/problem+json"
+    );
+
+    const invalidPriority = await request("POST", "/tasks", {
+      title: "Task",
+      priority: 9,
+    });
+    expect(invalidPriority.status).toBe(422);
+    expect(((await invalidPriority.json()) as { detail: string }).detail).toBe(
+      "Priority must be between 1 and 5"
+    );
+
+    const invalidBody = await request("POST", "/tasks", {
+      priority: "high",
+      color: "red",
+    });
+    const body = (await invalidBody.json()) as { errors: unknown[] };
+    expect(invalidBody.status).toBe(422);
+    expect(body.errors).toEqual([
+      { field: "title", message: "is required" },
+      { field: "priority", message: "must be an integer" },
+      { field: "color", message: "is not allowed" },
+    ]);
+
+    const malformed = await fetch(`${baseUrl}/tasks`, {
+      method: "POST",
+      body: "{",
+    });
+    expect(malformed.status).toBe(400);
+
+    const malformedId = await request("GET", "/tasks/%E0%A4%A");
+    expect(malformedId.status).toBe(400);
+
+    const wrongMethod = await request("PUT", "/stats");
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get("allow")).toBe("GET");
+  });
+
+  it("should update tasks and reject stale versions", async () => {
+    const task = await createTask({ title: "Task", deadline: "2025-10-25" });
+    const read = await request("GET", `/tasks/${task.id}`);
+    const etag = read.headers.get("etag")!;
+
+    const updated = await request(
+      "PATCH",
+      `/tasks/${task.id}`,
+      { title: "Renamed", deadline: null },
+      { "If-Match": etag }
+    );
+    const body = (await updated.json()) as { title: string; deadline?: string };
+    expect(updated.status).toBe(200);
+    expect(body.title).toBe("Renamed");
+    expect(body.deadline).toBeUndefined();
+
+    const stale = await request(
+      "PATCH",
+      `/tasks/${task.id}`,
+      { priority: 1 },
+      { "If-Match": etag }
+    );
+    expect(stale.status).toBe(412);
+
+    const unconditional = await request("PATCH", `/tasks/${task.id}`, {
+      priority: 1,
+    });
+    expect(unconditional.status).toBe(428);
+    expect(await unconditional.json()).toMatchObject({
+      title: "Precondition Required",
+    });
+  });
+
+  it("should change status following the workflow", async () => {
+    const task = await createTask({ title: "Task" });
+
+    const unconditional = await request("PUT", `/tasks/${task.id}/status`, {
+      status: "in-progress",
+    });
+    expect(unconditional.status).toBe(428);
+
+    const started = await request(
+      "PUT",
+      `/tasks/${task.id}/status`,
+      { status: "in-progress" },
+      { "If-Match": "*" }
+    );
+    expect(started.status).toBe(200);
+
+    const completed = await request(
+      "PUT",
+      `/tasks/${task.id}/status`,
+      { status: "completed" },
+      { "If-Match": started.headers.get("etag")! }
+    );
+    expect(((await completed.json()) as { status: string }).status).toBe(
+      "completed"
+    );
+
+    const invalid = await request(
+      "PUT",
+      `/tasks/${task.id}/status`,
+      { status: "in-progress" },
+      { "If-Match": "*" }
+    );
+    expect(invalid.status).toBe(422);
+  });
+
+  it("should serve next, overdue and stats", async () => {
+    await createTask({ title: "Low", priority: 1 });
+    const high = await createTask({ title: "High", priority: 5 });
+    await createTask({ title: "Late", priority: 2, deadline: "2020-01-01" });
+
+    const next = await request("GET", "/tasks/next");
+    expect(((await next.json()) as { id: string }).id).toBe(high.id);
+
+    const overdue = await request("GET", "/tasks/overdue");
+    expect(((await overdue.json()) as unknown[]).length).toBe(1);
+
+    const stats = await request("GET", "/stats");
+    expect(await stats.json()).toMatchObject({ total: 3, overdue: 1 });
+  });
+
+  it("should move deleted tasks to the trash", async () => {
+    const task = await createTask({ title: "Task" });
+    await createTask({ title: "Kept" });
+
+    expect((await request("DELETE", `/tasks/${task.id}`)).status).toBe(428);
+    expect((await remove(`/tasks/${task.id}`)).status).toBe(204);
+    expect((await request("GET", `/tasks/${task.id}`)).status).toBe(404);
+    expect((await remove(`/tasks/${task.id}`)).status).toBe(404);
+
+    const listed = await request("GET", "/tasks");
+    expect(((await listed.json()) as unknown[]).length).toBe(1);
+    const withTrash = await request("GET", "/tasks?trashed=true");
+    expect(((await withTrash.json()) as unknown[]).length).toBe(2);
+    expect(await (await request("GET", "/stats")).json()).toMatchObject({
+      total: 1,
+    });
+    const trash = await request("GET", "/trash");
+    expect(((await trash.json()) as { id: string }[])[0]!.id).toBe(task.id);
+
+    const restored = await request("POST", `/tasks/${task.id}/restore`);
+    expect(restored.status).toBe(200);
+    expect((await request("GET", `/tasks/${task.id}`)).status).toBe(200);
+    expect((await request("POST", `/tasks/${task.id}/restore`)).status).toBe(
+      409
+    );
+  });
+
+  it("should keep tasks with subtasks and empty the trash", async () => {
+    const parent = await createTask({ title: "Parent" });
+    await createTask({ title: "Child", parentId: parent.id });
+
+    expect((await remove(`/tasks/${parent.id}`)).status).toBe(409);
+    expect((await remove(`/tasks/${parent.id}?children=cascade`)).status).toBe(
+      204
+    );
+
+    expect((await request("DELETE", "/trash")).status).toBe(204);
+    expect(await (await request("GET", "/trash")).json()).toEqual([]);
+    expect((await request("POST", `/tasks/${parent.id}/restore`)).status).toBe(
+      404
+    );
+  });
+});
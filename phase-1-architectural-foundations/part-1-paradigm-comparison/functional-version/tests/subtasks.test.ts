@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { decide, execute } from "../src/events";
+import { trashTask } from "../src/retention";
+import { createInitialState } from "../src/state";
+import {
+  addChecklistItem,
+  getDescendants,
+  getEffectiveStatus,
+  getProgress,
+  setChecklistItemDone,
+  setParent,
+} from "../src/subtasks";
+import {
+  addTask,
+  markCompleted,
+  markInProgress,
+  markMultipleCompleted,
+  removeTask,
+  transitionTask,
+  updateTask,
+} from "../src/task-operations";
+import { Task, TaskState } from "../src/types";
+import { printTasks } from "../src/utils";
+import { unwrap } from "./helpers";
+
+describe("Subtasks and checklists", () => {
+  let state: TaskState;
+  let parent: Task;
+  let first: Task;
+  let second: Task;
+
+  // Refactor auth
+  //   Extract token service
+  //     Write tests
+  //   Remove legacy sessions
+  beforeEach(() => {
+    state = createInitialState();
+    [
+      "Refactor auth",
+      "Extract token service",
+      "Remove legacy sessions",
+      "Write tests",
+    ].forEach((title) => {
+      state = unwrap(addTask(state, title, "", 3));
+    });
+    [parent, first, second] = state.tasks as [Task, Task, Task];
+    state = unwrap(setParent(state, first.id, parent.id));
+    state = unwrap(updateTask(state, second.id, { parentId: parent.id }));
+    state = unwrap(setParent(state, state.tasks[3]!.id, first.id));
+  });
+
+  it("should refuse parents that create a cycle", () => {
+    expect(setParent(state, parent.id, state.tasks[3]!.id).ok).toBe(false);
+    expect(updateTask(state, parent.id, { parentId: parent.id }).ok).toBe(
+      false
+    );
+    expect(setParent(state, parent.id, "missing").ok).toBe(false);
+    expect(getDescendants(state, parent.id).map((task) => task.title)).toEqual([
+      "Extract token service",
+      "Write tests",
+      "Remove legacy sessions",
+    ]);
+  });
+
+  it("should roll progress and status up from subtasks and checklists", () => {
+    expect(getProgress(state, parent)).toBe(0);
+    expect(getEffectiveStatus(state, parent)).toBe("pending");
+
+    state = unwrap(addChecklistItem(state, second.id, "Drop table"));
+    state = unwrap(addChecklistItem(state, second.id, "Remove cookie"));
+    const itemId = state.tasks[2]!.checklist![0]!.id;
+    state = unwrap(setChecklistItemDone(state, second.id, itemId, true));
+    state = unwrap(markCompleted(state, state.tasks[3]!.id));
+
+    // First subtask: 1/1 done; second subtask: 1/2 checklist items
+    expect(getProgress(state, state.tasks[1]!)).toBe(100);
+    expect(getProgress(state, state.tasks[2]!)).toBe(50);
+    expect(getProgress(state, state.tasks[0]!)).toBe(75);
+    expect(getEffectiveStatus(state, state.tasks[0]!)).toBe("in-progress");
+    expect(getEffectiveStatus(state, state.tasks[1]!)).toBe("completed");
+  });
+
+  it("should only complete a parent with open subtasks when forced", () => {
+    expect(transitionTask(state, parent.id, "completed").ok).toBe(false);
+    expect(markCompleted(state, parent.id)).toEqual({
+      ok: false,
+      error: expect.objectContaining({
+        type: "InvalidTransition",
+        message: "Task has 2 open subtask(s)",
+      }),
+    });
+    expect(transitionTask(state, parent.id, "in-progress").ok).toBe(true);
+
+    const forced = unwrap(
+      markCompleted(state, parent.id, undefined, { force: true })
+    );
+    expect(forced.tasks[0]!.status).toBe("completed");
+
+    const batch = unwrap(
+      markMultipleCompleted(unwrap(markInProgress(state, state.tasks[3]!.id)), [
+        parent.id,
+        first.id,
+        second.id,
+        state.tasks[3]!.id,
+      ])
+    );
+    expect(batch.tasks.every((task) => task.status === "completed")).toBe(true);
+  });
+
+  it("should leave trashed subtasks out of the parent", () => {
+    state = unwrap(trashTask(state, second.id));
+    state = unwrap(markCompleted(state, state.tasks[3]!.id));
+
+    expect(getProgress(state, state.tasks[0]!)).toBe(100);
+    expect(getEffectiveStatus(state, state.tasks[0]!)).toBe("completed");
+
+    state = unwrap(markCompleted(state, first.id));
+    expect(unwrap(markCompleted(state, parent.id)).tasks[0]!.status).toBe(
+      "completed"
+    );
+  });
+
+  it("should apply the removal policy to subtasks", () => {
+    expect(removeTask(state, parent.id, "reject")).toEqual({
+      ok: false,
+      error: expect.objectContaining({
+        type: "ValidationFailed",
+        errors: [{ field: "children", message: "Task has 3 subtask(s)" }],
+      }),
+    });
+    expect(unwrap(removeTask(state, parent.id, "cascade")).tasks).toEqual([]);
+
+    const trashed = unwrap(trashTask(state, second.id));
+    expect(removeTask(trashed, parent.id, "reject")).toEqual({
+      ok: false,
+      error: expect.objectContaining({
+        errors: [{ field: "children", message: "Task has 2 subtask(s)" }],
+      }),
+    });
+
+    const orphaned = unwrap(removeTask(state, parent.id));
+    expect(orphaned.tasks.map((task) => task.parentId)).toEqual([
+      undefined,
+      undefined,
+      first.id,
+    ]);
+  });
+
+  it("should check subtasks in commands", () => {
+    expect(decide(state, { type: "MarkCompleted", taskId: parent.id }).ok).toBe(
+      false
+    );
+    expect(
+      decide(state, {
+        type: "RemoveTask",
+        taskId: parent.id,
+        children: "reject",
+      }).ok
+    ).toBe(false);
+
+    const removed = execute(state, {
+      type: "RemoveTask",
+      taskId: parent.id,
+      children: "cascade",
+    });
+    expect(removed.ok && removed.value.events.length).toBe(4);
+    expect(removed.ok && removed.value.state.tasks).toEqual([]);
+  });
+
+  it("should print the task tree with outline numbers", () => {
+    const lines: string[] = [];
+    printTasks(state.tasks, { log: (line) => lines.push(line), tree: true });
+
+    expect(lines).toEqual([
+      "1. [PENDING] Refactor auth - Priority: 3",
+      "  1.1. [PENDING] Extract token service - Priority: 3",
+      "    1.1.1. [PENDING] Write tests - Priority: 3",
+      "  1.2. [PENDING] Remove legacy sessions - Priority: 3",
+    ]);
+  });
+});
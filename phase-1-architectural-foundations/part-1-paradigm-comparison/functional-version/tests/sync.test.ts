@@ -0,0 +1,289 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { promises as fs } from "fs";
+import { Server, createConnection } from "net";
+import * as os from "os";
+import * as path from "path";
+import { createTestEnv } from "../src/environment";
+import {
+  Replica,
+  commitState,
+  createFileReplicaStore,
+  createInMemoryReplicaStore,
+  createReplica,
+  deserializeReplica,
+  materialize,
+  mergeReplicas,
+} from "../src/replica";
+import { createInMemoryRepository } from "../src/repository";
+import { createInitialState } from "../src/state";
+import {
+  createFileTransport,
+  createRepositorySync,
+  createSocketTransport,
+  createSyncServer,
+  syncState,
+} from "../src/sync";
+import {
+  addTask,
+  markInProgress,
+  removeTask,
+  updateTask,
+} from "../src/task-operations";
+import { TaskState } from "../src/types";
+import { unwrap } from "./helpers";
+
+const env = createTestEnv(new Date("2025-06-01T00:00:00Z"));
+
+/**
+ * Merges replicas one after the other into the first.
+ */
+const mergeAll = (replicas: ReadonlyArray<Replica>): Replica =>
+  replicas
+    .slice(1)
+    .reduce(
+      (merged, replica) => mergeReplicas(merged, replica).replica,
+      replicas[0]!
+    );
+
+describe("Replica sync", () => {
+  let base: Replica;
+  let shared: TaskState;
+  let taskId: string;
+
+  beforeEach(() => {
+    shared = unwrap(
+      addTask(createInitialState(), "Ship", "", 3, undefined, env)
+    );
+    shared = unwrap(addTask(shared, "Docs", "", 2, undefined, env));
+    taskId = shared.tasks[0]!.id;
+    base = commitState(createReplica("a"), shared);
+  });
+
+  /**
+   * Starts a replica with the given id from the shared state.
+   */
+  const fork = (id: string): Replica =>
+    mergeReplicas(createReplica(id), base).replica;
+
+  it("should give back the committed state", () => {
+    expect(unwrap(materialize(base))).toEqual(shared);
+    expect(commitState(base, shared)).toBe(base);
+  });
+
+  it("should converge whatever order the changes are exchanged in", () => {
+    const a = commitState(
+      fork("a"),
+      unwrap(updateTask(shared, taskId, { priority: 5 }))
+    );
+    const b = commitState(
+      fork("b"),
+      unwrap(updateTask(shared, taskId, { title: "Ship it", deadline: null }))
+    );
+    const c = commitState(
+      fork("c"),
+      unwrap(addTask(shared, "Release notes", "", 4, undefined, env))
+    );
+
+    const orders = [
+      [a, b, c],
+      [c, b, a],
+      [b, a, c],
+    ].map((replicas) => unwrap(materialize(mergeAll(replicas))));
+    const twice = mergeAll([a, b, c, b, a]);
+
+    orders.forEach((state) => expect(state).toEqual(orders[0]));
+    expect(unwrap(materialize(twice))).toEqual(orders[0]);
+    expect(orders[0]!.tasks.map((task) => [task.title, task.priority])).toEqual(
+      [
+        ["Ship it", 5],
+        ["Docs", 2],
+        ["Release notes", 4],
+      ]
+    );
+  });
+
+  it("should keep the latest write and report concurrent changes", () => {
+    const a = commitState(
+      fork("a"),
+      unwrap(updateTask(shared, taskId, { title: "From a" }))
+    );
+    const b = commitState(
+      fork("b"),
+      unwrap(updateTask(shared, taskId, { title: "From b" }))
+    );
+
+    const merged = mergeReplicas(a, b);
+    expect(merged.conflicts).toEqual([
+      {
+        taskId,
+        title: "From b",
+        field: "title",
+        kept: "From b",
+        discarded: "From a",
+        winner: "b",
+      },
+    ]);
+    expect(mergeReplicas(b, a).conflicts).toHaveLength(1);
+    // Both sides keep their history of the task
+    expect(
+      unwrap(materialize(merged.replica))
+        .tasks[0]!.auditTrail!.filter((change) => change.field === "title")
+        .map((change) => change.to)
+    ).toEqual(expect.arrayContaining(["From a", "From b"]));
+
+    // Changes made after a sync were made knowing the other side
+    const edited = commitState(
+      mergeReplicas(b, merged.replica).replica,
+      unwrap(
+        updateTask(unwrap(materialize(merged.replica)), taskId, {
+          title: "Agreed",
+        })
+      )
+    );
+    const again = mergeReplicas(merged.replica, edited);
+    expect(again.conflicts).toEqual([]);
+    expect(unwrap(materialize(again.replica)).tasks[0]!.title).toBe("Agreed");
+  });
+
+  it("should not bring removed tasks back", () => {
+    const a = commitState(fork("a"), unwrap(removeTask(shared, taskId)));
+    const b = commitState(
+      fork("b"),
+      unwrap(markInProgress(shared, taskId, undefined, env))
+    );
+
+    const merged = mergeReplicas(a, b);
+    const state = unwrap(materialize(merged.replica));
+
+    expect(state.tasks.map((task) => task.title)).toEqual(["Docs"]);
+    expect(merged.conflicts.map((conflict) => conflict.field)).toEqual([
+      "removed",
+    ]);
+    expect(unwrap(materialize(mergeReplicas(b, a).replica))).toEqual(state);
+  });
+
+  it("should reject replicas with malformed records", () => {
+    const valid = JSON.parse(JSON.stringify(base));
+    const malformed = [
+      { id: "x", clock: 1, tasks: { t: {} } },
+      { ...valid, tasks: { t: { ...valid.tasks[taskId], removed: null } } },
+      { ...valid, seen: { a: "1" } },
+    ];
+
+    expect(deserializeReplica(valid).ok).toBe(true);
+    malformed.forEach((raw) => expect(deserializeReplica(raw).ok).toBe(false));
+  });
+
+  describe("Transports", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), "sync-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it("should converge through a shared file", async () => {
+      const file = createFileTransport(path.join(directory, "shared.json"));
+      const storeA = createFileReplicaStore(
+        path.join(directory, "a.json"),
+        () => "a"
+      );
+      const storeB = createInMemoryReplicaStore(createReplica("b"));
+
+      const first = unwrap(await syncState(shared, storeA, file));
+      const second = unwrap(
+        await syncState(
+          unwrap(
+            addTask(createInitialState(), "Review", "", 4, undefined, env)
+          ),
+          storeB,
+          file
+        )
+      );
+      const third = unwrap(await syncState(first.state, storeA, file));
+
+      // Tasks created apart are ordered by their stamps
+      expect(second.state.tasks.map((task) => task.title)).toEqual([
+        "Ship",
+        "Review",
+        "Docs",
+      ]);
+      expect(third.state).toEqual(second.state);
+      expect(unwrap(materialize(unwrap(await storeA.load())))).toEqual(
+        third.state
+      );
+    });
+
+    it("should converge with a peer on a local socket", async () => {
+      const socketPath = path.join(directory, "sync.sock");
+      const repository = createInMemoryRepository(shared);
+      const server: Server = createSyncServer(
+        createRepositorySync(
+          repository,
+          createInMemoryReplicaStore(createReplica("server"))
+        )
+      );
+      await new Promise<void>((resolve) => server.listen(socketPath, resolve));
+
+      try {
+        const local = unwrap(updateTask(shared, taskId, { tags: ["release"] }));
+        const synced = unwrap(
+          await syncState(
+            local,
+            createInMemoryReplicaStore(createReplica("client")),
+            createSocketTransport(socketPath)
+          )
+        );
+
+        expect(synced.state.tasks).toHaveLength(2);
+        expect(synced.state.tasks[0]!.tags).toEqual(["release"]);
+        expect(unwrap(await repository.load())).toEqual(synced.state);
+
+        const missing = await createSocketTransport(
+          path.join(directory, "missing.sock")
+        )(createReplica("client"));
+        expect(missing.ok).toBe(false);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+
+    it("should answer malformed messages with an error", async () => {
+      const socketPath = path.join(directory, "sync.sock");
+      const server: Server = createSyncServer(async (remote) => ({
+        ok: true,
+        value: remote,
+      }));
+      await new Promise<void>((resolve) => server.listen(socketPath, resolve));
+
+      const exchange = (line: string): Promise<string> =>
+        new Promise((resolve) => {
+          const socket = createConnection(socketPath, () => socket.write(line));
+          let answer = "";
+          socket.setEncoding("utf8");
+          socket.on("data", (chunk: string) => (answer += chunk));
+          socket.on("end", () => resolve(answer));
+        });
+
+      try {
+        const answers = [
+          await exchange("null\n"),
+          await exchange(
+            '{"type":"sync","replica":{"id":"x","clock":1,"tasks":{"t":{}}}}\n'
+          ),
+        ];
+        answers.forEach((answer) =>
+          expect(JSON.parse(answer)).toMatchObject({ type: "error" })
+        );
+
+        const synced = await createSocketTransport(socketPath)(base);
+        expect(synced.ok).toBe(true);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "@jest/globals";
+import { createTestEnv } from "../src/environment";
+import {
+  compareNumbers,
+  countBefore,
+  del,
+  emptyMap,
+  entries,
+  get,
+  set,
+  size,
+} from "../src/sorted-map";
+import { findTask, putTask } from "../src/task-index";
+import {
+  getCompletedTasks,
+  getOverdueTasks,
+  getTask,
+  getTasksByStatus,
+  markCompleted,
+  markInProgress,
+  removeTask,
+  sortByDeadline,
+  sortTasksByDeadline,
+  updatePriorities,
+  updateTask,
+} from "../src/task-operations";
+import { Task, TaskState } from "../src/types";
+import { unwrap } from "./helpers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2025-03-01T00:00:00Z");
+const env = createTestEnv(now);
+
+const makeTask = (i: number): Task => ({
+  id: `task-${i}`,
+  title: `Task ${i}`,
+  description: "",
+  priority: (i % 5) + 1,
+  status: ["pending", "in-progress", "completed"][i % 3]!,
+  createdAt: now,
+  deadline:
+    i % 4 === 0 ? undefined : new Date(now.getTime() + ((i % 7) - 3) * DAY_MS),
+});
+
+describe("Sorted map", () => {
+  it("should stay in order through random inserts and removals", () => {
+    const reference = new Map<number, string>();
+    let map = emptyMap<number, string>(compareNumbers);
+    let seed = 7;
+
+    for (let i = 0; i < 2000; i++) {
+      seed = (seed * 48271) % 2147483647;
+      const key = seed % 300;
+      if (seed % 3 === 0) {
+        reference.delete(key);
+        map = del(map, key);
+      } else {
+        reference.set(key, `v${i}`);
+        map = set(map, key, `v${i}`);
+      }
+    }
+
+    const expected = [...reference].sort((a, b) => a[0] - b[0]);
+    expect(entries(map)).toEqual(expected);
+    expect(size(map)).toBe(reference.size);
+    expect(countBefore(map, 150)).toBe(
+      expected.filter(([key]) => key < 150).length
+    );
+    expect(entries(map, 150)).toEqual(expected.filter(([key]) => key < 150));
+  });
+
+  it("should leave the previous map unchanged", () => {
+    const before = set(emptyMap<number, string>(compareNumbers), 1, "one");
+    const after = del(set(before, 2, "two"), 1);
+
+    expect(get(before, 1)).toBe("one");
+    expect(get(before, 2)).toBeUndefined();
+    expect(entries(after)).toEqual([[2, "two"]]);
+  });
+});
+
+describe("Indexed task state", () => {
+  const initial: TaskState = {
+    tasks: Array.from({ length: 60 }, (_, i) => makeTask(i)),
+  };
+
+  /**
+   * Runs a mix of updates, so the indexes are read after they changed.
+   */
+  const update = (state: TaskState): TaskState => {
+    const moved = unwrap(
+      updateTask(
+        state,
+        "task-5",
+        { deadline: new Date(now.getTime() - DAY_MS) },
+        env
+      )
+    );
+    const cleared = unwrap(
+      updateTask(moved, "task-9", { deadline: null }, env)
+    );
+    const started = unwrap(markInProgress(cleared, "task-3", undefined, env));
+    const completed = unwrap(
+      markCompleted(started, "task-1", undefined, {}, env)
+    );
+    const removed = unwrap(removeTask(completed, "task-7"));
+    return unwrap(updatePriorities(removed, ["task-12", "task-2"], 5, env));
+  };
+
+  it("should answer queries like a scan of the task array", () => {
+    const state = update(initial);
+    const tasks = state.tasks;
+
+    expect(tasks).toHaveLength(59);
+    expect(getTasksByStatus(state, "pending")).toEqual(
+      tasks.filter((task) => task.status === "pending")
+    );
+    expect(getCompletedTasks(state)).toEqual(
+      tasks.filter((task) => task.status === "completed")
+    );
+    expect(getOverdueTasks(state, undefined, env)).toEqual(
+      tasks.filter(
+        (task) =>
+          task.deadline !== undefined &&
+          task.status !== "completed" &&
+          task.deadline < now
+      )
+    );
+    expect(sortTasksByDeadline(state)).toEqual(sortByDeadline(tasks));
+    expect(unwrap(getTask(state, "task-12")).priority).toBe(5);
+    expect(getTask(state, "task-7").ok).toBe(false);
+  });
+
+  it("should give the same results from a plain copy of the state", () => {
+    const state = update(initial);
+    const copy: TaskState = { tasks: state.tasks.map((task) => ({ ...task })) };
+
+    expect(update(initial).tasks).toEqual(state.tasks);
+    expect(getOverdueTasks(copy, undefined, env)).toEqual(
+      getOverdueTasks(state, undefined, env)
+    );
+    expect({ ...state }).toEqual(copy);
+  });
+
+  it("should keep earlier states unchanged", () => {
+    const before = putTask(initial, makeTask(102));
+    const after = unwrap(markInProgress(before, "task-0", undefined, env));
+
+    expect(findTask(before, "task-0")!.status).toBe("pending");
+    expect(findTask(after, "task-0")!.status).toBe("in-progress");
+    expect(getTasksByStatus(before, "in-progress")).toHaveLength(20);
+    expect(getTasksByStatus(after, "in-progress")).toHaveLength(21);
+    expect(initial.tasks).toHaveLength(60);
+  });
+
+  it("should find the first of several tasks sharing an id", () => {
+    const state: TaskState = {
+      tasks: [makeTask(1), { ...makeTask(1), title: "Copy" }, makeTask(2)],
+    };
+
+    expect(findTask(state, "task-1")!.title).toBe("Task 1");
+    expect(putTask(state, makeTask(3)).tasks).toHaveLength(4);
+  });
+});
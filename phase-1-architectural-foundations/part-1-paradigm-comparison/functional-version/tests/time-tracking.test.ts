@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { createTestEnv } from "../src/environment";
+import { execute } from "../src/events";
+import { reviveTask, serializeTask } from "../src/repository";
+import { createInitialState } from "../src/state";
+import {
+  addTask,
+  markCompleted,
+  markInProgress,
+  transitionTask,
+  updateTask,
+} from "../src/task-operations";
+import {
+  compareWithEstimates,
+  formatHours,
+  getActiveSession,
+  getTimeByDay,
+  getTimeByTask,
+  getTimeByWeek,
+  logTime,
+  startTimer,
+  stopTimer,
+  trackedHours,
+} from "../src/time-tracking";
+import { Env, TaskState } from "../src/types";
+import { formatDate, isoWeek } from "../src/utils";
+import { unwrap } from "./helpers";
+
+const at = (time: string): Date => new Date(`2025-10-${time}Z`);
+const envAt = (time: string): Env => createTestEnv(at(time));
+
+describe("Time tracking", () => {
+  let state: TaskState;
+  let writeId: string;
+  let reviewId: string;
+
+  beforeEach(() => {
+    state = unwrap(addTask(createInitialState(), "Write report", "", 3));
+    state = unwrap(addTask(state, "Review report", "", 3));
+    writeId = state.tasks[0]!.id;
+    reviewId = state.tasks[1]!.id;
+  });
+
+  it("should follow status changes", () => {
+    state = unwrap(markInProgress(state, writeId));
+    expect(getActiveSession(state)?.task.id).toBe(writeId);
+
+    // Starting another task stops the first clock
+    state = unwrap(markInProgress(state, reviewId));
+    expect(getActiveSession(state)?.task.id).toBe(reviewId);
+    expect(state.tasks[0]!.sessions![0]!.end).toBeDefined();
+
+    // Pausing and completing stop the clock
+    state = unwrap(transitionTask(state, reviewId, "pending"));
+    expect(getActiveSession(state)).toBeUndefined();
+    // The first task is still in progress, so its clock is resumed by hand
+    state = unwrap(startTimer(state, writeId));
+    state = unwrap(markCompleted(state, writeId));
+    expect(getActiveSession(state)).toBeUndefined();
+    expect(state.tasks[0]!.sessions).toHaveLength(2);
+  });
+
+  it("should allow one running timer unless auto-stopping", () => {
+    state = unwrap(startTimer(state, writeId, undefined, envAt("24T09:00:00")));
+
+    expect(
+      startTimer(state, reviewId, undefined, envAt("24T10:00:00")).ok
+    ).toBe(false);
+    expect(startTimer(state, writeId, undefined, envAt("24T10:00:00")).ok).toBe(
+      false
+    );
+
+    state = unwrap(
+      startTimer(state, reviewId, { autoStop: true }, envAt("24T10:00:00"))
+    );
+    state = unwrap(stopTimer(state, envAt("24T10:30:00")));
+
+    expect(stopTimer(state).ok).toBe(false);
+    expect(trackedHours(state.tasks[0]!)).toBe(1);
+    expect(trackedHours(state.tasks[1]!)).toBe(0.5);
+  });
+
+  it("should report time per task, day and week", () => {
+    state = unwrap(startTimer(state, writeId, undefined, envAt("26T22:00:00")));
+    state = unwrap(stopTimer(state, envAt("27T01:30:00")));
+    state = unwrap(logTime(state, reviewId, 2, at("24T12:00:00")));
+    expect(logTime(state, reviewId, 0).ok).toBe(false);
+
+    expect(
+      getTimeByTask(state).map(({ task, hours }) => [task.title, hours])
+    ).toEqual([
+      ["Write report", 3.5],
+      ["Review report", 2],
+    ]);
+    expect(getTimeByDay(state)).toEqual([
+      { period: "2025-10-24", hours: 2 },
+      { period: "2025-10-26", hours: 2 },
+      { period: "2025-10-27", hours: 1.5 },
+    ]);
+    // Sunday the 26th ends week 43; Monday the 27th starts week 44
+    expect(getTimeByWeek(state)).toEqual([
+      { period: "2025-W43", hours: 4 },
+      { period: "2025-W44", hours: 1.5 },
+    ]);
+    expect(isoWeek(new Date("2027-01-01"))).toBe("2026-W53");
+    expect(formatDate(at("26T23:30:00"))).toBe("Oct 26, 2025");
+  });
+
+  it("should compare tracked time with estimates", () => {
+    state = unwrap(updateTask(state, writeId, { estimate: 2 }));
+    state = unwrap(updateTask(state, reviewId, { estimate: 1 }));
+    state = unwrap(logTime(state, writeId, 3.25, at("24T12:00:00")));
+
+    const comparisons = compareWithEstimates(state);
+    expect(
+      comparisons.map(({ task, difference }) => [task.title, difference])
+    ).toEqual([
+      ["Write report", 1.25],
+      ["Review report", -1],
+    ]);
+    expect(formatHours(1.25)).toBe("1h 15m");
+  });
+
+  it("should keep sessions through persistence and event replay", () => {
+    state = unwrap(logTime(state, writeId, 1, at("24T12:00:00")));
+    const revived = reviveTask(
+      JSON.parse(JSON.stringify(serializeTask(state.tasks[0]!)))
+    );
+    expect(revived.ok && revived.value.sessions).toEqual(
+      state.tasks[0]!.sessions
+    );
+
+    const started = execute(
+      state,
+      { type: "MarkInProgress", taskId: reviewId },
+      at("25T08:00:00")
+    );
+    const completed =
+      started.ok &&
+      execute(
+        started.value.state,
+        { type: "MarkCompleted", taskId: reviewId },
+        at("25T09:45:00")
+      );
+    expect(
+      completed && completed.ok && completed.value.state.tasks[1]!.sessions
+    ).toEqual([{ start: at("25T08:00:00"), end: at("25T09:45:00") }]);
+  });
+});
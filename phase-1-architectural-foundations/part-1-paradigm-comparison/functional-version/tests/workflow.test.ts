@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { execute } from "../src/events";
+import { addDependency, dependencyGuards } from "../src/dependencies";
+import { createInitialState } from "../src/state";
+import {
+  addTask,
+  getCompletedTasks,
+  getOverdueTasks,
+  getStatistics,
+  groupTasksByStatus,
+  markCompleted,
+  markInProgress,
+  transitionTask,
+} from "../src/task-operations";
+import { TaskState, Workflow } from "../src/types";
+import {
+  createWorkflow,
+  defaultWorkflow,
+  reviewWorkflow,
+} from "../src/workflow";
+import { unwrap } from "./helpers";
+
+describe("Configurable workflow", () => {
+  let state: TaskState;
+  let taskId: string;
+
+  beforeEach(() => {
+    state = unwrap(
+      addTask(
+        createInitialState(),
+        "Fix login bug",
+        "Users cannot log in",
+        5,
+        new Date("2020-01-01")
+      )
+    );
+    taskId = state.tasks[0]!.id;
+  });
+
+  const move = (
+    current: TaskState,
+    status: string,
+    workflow: Workflow = reviewWorkflow
+  ): TaskState => {
+    const result = transitionTask(current, taskId, status, workflow);
+    if (!result.ok) throw result.error;
+    return result.value;
+  };
+
+  it("should clear completedAt when a task is reopened", () => {
+    const completed = unwrap(markCompleted(state, taskId));
+    const reopened = transitionTask(completed, taskId, "pending");
+
+    expect(reopened.ok).toBe(true);
+    if (reopened.ok) {
+      expect(reopened.value.tasks[0]!.status).toBe("pending");
+      expect(reopened.value.tasks[0]!.completedAt).toBeUndefined();
+    }
+  });
+
+  it("should reject transitions outside the graph", () => {
+    const completed = unwrap(markCompleted(state, taskId));
+
+    const result = transitionTask(completed, taskId, "in-progress");
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toMatchObject({
+        type: "InvalidTransition",
+        taskId,
+        from: "completed",
+        to: "in-progress",
+      });
+    }
+    expect(markInProgress(completed, taskId).ok).toBe(false);
+  });
+
+  it("should reject unknown statuses and tasks", () => {
+    expect(transitionTask(state, taskId, "in-review").ok).toBe(false);
+    expect(transitionTask(state, "missing", "completed").ok).toBe(false);
+  });
+
+  it("should support custom statuses", () => {
+    const reviewed = move(move(state, "in-progress"), "in-review");
+    const done = move(reviewed, "completed");
+
+    expect(reviewed.tasks[0]!.status).toBe("in-review");
+    expect(done.tasks[0]!.completedAt).toBeInstanceOf(Date);
+    expect(transitionTask(state, taskId, "completed", reviewWorkflow).ok).toBe(
+      false
+    );
+  });
+
+  it("should run guard functions", () => {
+    let undescribed = unwrap(addTask(state, "No description", "", 3));
+    const id = undescribed.tasks[1]!.id;
+    undescribed = unwrap(markInProgress(undescribed, id, reviewWorkflow));
+
+    const result = transitionTask(undescribed, id, "in-review", reviewWorkflow);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.message).toMatch(/description/);
+    }
+  });
+
+  it("should enforce dependency guards when configured", () => {
+    let withDependency = unwrap(addTask(state, "Deploy", "Desc", 3));
+    const deployId = withDependency.tasks[1]!.id;
+    const dependency = addDependency(withDependency, deployId, taskId);
+    if (!dependency.ok) throw dependency.error;
+    withDependency = dependency.value;
+    const guarded: Workflow = {
+      ...defaultWorkflow,
+      guards: dependencyGuards(defaultWorkflow),
+    };
+
+    expect(
+      transitionTask(withDependency, deployId, "in-progress", guarded).ok
+    ).toBe(false);
+    expect(transitionTask(withDependency, deployId, "in-progress").ok).toBe(
+      true
+    );
+  });
+
+  it("should count every configured status in statistics", () => {
+    const cancelled = move(state, "cancelled");
+    const stats = getStatistics(cancelled, reviewWorkflow);
+
+    expect(stats.byStatus).toEqual({
+      pending: 0,
+      "in-progress": 0,
+      blocked: 0,
+      "in-review": 0,
+      completed: 0,
+      cancelled: 1,
+    });
+    expect(stats.overdue).toBe(0);
+    expect(getOverdueTasks(cancelled, reviewWorkflow).length).toBe(0);
+    expect(getCompletedTasks(cancelled, reviewWorkflow).length).toBe(1);
+    expect(groupTasksByStatus(cancelled, reviewWorkflow)["cancelled"]).toEqual(
+      cancelled.tasks
+    );
+  });
+
+  it("should validate workflow definitions", () => {
+    expect(
+      createWorkflow([{ id: "open", label: "Open", category: "todo" }], {}).ok
+    ).toBe(false);
+    expect(
+      createWorkflow([{ id: "pending", label: "Pending", category: "todo" }], {
+        pending: ["done"],
+      }).ok
+    ).toBe(false);
+  });
+
+  it("should validate status commands against the workflow", () => {
+    const result = execute(
+      state,
+      { type: "ChangeStatus", taskId, status: "in-review" },
+      new Date(),
+      reviewWorkflow
+    );
+
+    expect(result.ok).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { pipe } from "fp-ts/function";
+import { getAssignees, normalizeAssignees } from "../src/assignees";
+import {
+  exclude,
+  filterByAssignee,
+  filterByStatus,
+  filterUnassigned,
+} from "../src/composition";
+import { createTestEnv } from "../src/environment";
+import { runQuery } from "../src/query";
+import { createInitialState } from "../src/state";
+import { addTask, markInProgress, updateTask } from "../src/task-operations";
+import { TaskState } from "../src/types";
+import { formatWorkload, getNextTaskFor, getWorkload } from "../src/workload";
+import { unwrap } from "./helpers";
+
+const now = new Date("2025-04-01T00:00:00Z");
+const env = createTestEnv(now);
+
+describe("Assignees and workload", () => {
+  let state: TaskState;
+
+  /**
+   * Adds a task with assignees and returns its id.
+   */
+  const add = (
+    title: string,
+    priority: number,
+    assignees: ReadonlyArray<string>,
+    deadline?: Date
+  ): string => {
+    state = unwrap(addTask(state, title, "", priority, deadline, env));
+    const id = state.tasks[state.tasks.length - 1]!.id;
+    state = unwrap(updateTask(state, id, { assignees }));
+    return id;
+  };
+
+  let pairing: string;
+  let review: string;
+
+  beforeEach(() => {
+    state = createInitialState();
+    add("Write docs", 2, ["Alice"]);
+    pairing = add("Pair on parser", 4, ["@alice", "bob"]);
+    review = add("Review", 5, ["bob"], new Date("2025-03-20"));
+    add("Triage", 3, []);
+    state = unwrap(markInProgress(state, pairing, undefined, env));
+  });
+
+  it("should normalise assignees and reject invalid names", () => {
+    expect(unwrap(normalizeAssignees([" Alice", "@alice", "bob"]))).toEqual([
+      "alice",
+      "bob",
+    ]);
+    expect(normalizeAssignees(["alice smith"]).ok).toBe(false);
+
+    const invalid = updateTask(state, review, { assignees: ["", "carol"] });
+    expect(!invalid.ok && invalid.error.type).toBe("ValidationFailed");
+    expect(getAssignees(state)).toEqual(["alice", "bob"]);
+  });
+
+  it("should filter by assignee with the other combinators", () => {
+    const titles = (tasks: ReadonlyArray<{ title: string }>) =>
+      tasks.map((task) => task.title);
+
+    expect(
+      titles(
+        pipe(state.tasks, filterByAssignee("ALICE"), filterByStatus("pending"))
+      )
+    ).toEqual(["Write docs"]);
+    expect(titles(filterUnassigned(state.tasks))).toEqual(["Triage"]);
+    expect(titles(exclude(filterByAssignee("bob"))(state.tasks))).toEqual([
+      "Write docs",
+      "Triage",
+    ]);
+    expect(
+      titles(unwrap(runQuery(state, "assignee:bob -status:in-progress")))
+    ).toEqual(["Review"]);
+    expect(titles(unwrap(runQuery(state, "-assignee:none")))).toHaveLength(3);
+  });
+
+  it("should pick the next task of a person", () => {
+    expect(getNextTaskFor(state, "alice")!.title).toBe("Write docs");
+    expect(getNextTaskFor(state, "bob")!.title).toBe("Review");
+    expect(getNextTaskFor(state, "carol")).toBeNull();
+  });
+
+  it("should report the workload and flag overloaded people", () => {
+    const report = getWorkload(
+      state,
+      { maxLoad: 3 },
+      undefined,
+      undefined,
+      env
+    );
+
+    expect(report).toEqual({
+      workloads: [
+        {
+          assignee: "alice",
+          open: 2,
+          overdue: 0,
+          inProgress: { 1: 0, 2: 0, 3: 0, 4: 1, 5: 0 },
+          load: 4,
+          overloaded: true,
+        },
+        {
+          assignee: "bob",
+          open: 2,
+          overdue: 1,
+          inProgress: { 1: 0, 2: 0, 3: 0, 4: 1, 5: 0 },
+          load: 4,
+          overloaded: true,
+        },
+      ],
+      unassigned: 1,
+    });
+    expect(
+      getWorkload(
+        state,
+        { maxOpen: 1 },
+        ["Bob", "carol"],
+        undefined,
+        env
+      ).workloads.map((workload) => [workload.assignee, workload.overloaded])
+    ).toEqual([
+      ["bob", true],
+      ["carol", false],
+    ]);
+    expect(formatWorkload(report)[2]).toBe(
+      "alice        2        0   0   0   0   1   0     4  overloaded"
+    );
+  });
+});